@@ -8,7 +8,9 @@ import type { AppEnv } from "../server/auth.js";
 export const config = { runtime: "edge" };
 
 const app = new Hono<AppEnv>();
-createDataRoutes(app);
+// Edge isolates don't share memory, so live SSE events can't reach other
+// clients; the year page polls instead.
+createDataRoutes(app, { liveEvents: false });
 const honoHandler = handle(app);
 
 // Vercel strips /api prefix — restore it for Hono routing
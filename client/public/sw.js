@@ -2,6 +2,7 @@
 const CACHE_VERSION = 'b56d17f';
 const CACHE_NAME = `kak-cup-${CACHE_VERSION}`;
 const STATIC_CACHE = 'kak-cup-static';
+const API_CACHE = 'kak-cup-api';
 
 // This array is rewritten at build time by swPrecachePlugin in vite.config.ts
 // with the actual hashed asset paths from the Vite manifest.
@@ -31,7 +32,7 @@ self.addEventListener('activate', (event) => {
       return Promise.all(
         cacheNames.map((cacheName) => {
           // Delete old caches that don't match current cache name
-          if (cacheName !== CACHE_NAME && cacheName !== STATIC_CACHE) {
+          if (cacheName !== CACHE_NAME && cacheName !== STATIC_CACHE && cacheName !== API_CACHE) {
             console.log('[ServiceWorker] Removing old cache', cacheName);
             return caches.delete(cacheName);
           }
@@ -44,7 +45,204 @@ self.addEventListener('activate', (event) => {
   );
 });
 
+// Offline write queue: score entries the app marks with X-Queue-Offline are
+// held in IndexedDB when there's no signal and sent in order once it's back.
+const QUEUE_DB = 'kak-cup-offline';
+const QUEUE_STORE = 'writes';
+const QUEUE_SYNC_TAG = 'kak-cup-offline-writes';
+
+function openQueue() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(QUEUE_DB, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Runs one transaction on the queue store and resolves with the request's result
+function withQueue(mode, run) {
+  return openQueue().then((db) => new Promise((resolve, reject) => {
+    const tx = db.transaction(QUEUE_STORE, mode);
+    const request = run(tx.objectStore(QUEUE_STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  }));
+}
+
+async function notifyQueue(counts) {
+  const pending = await withQueue('readonly', (store) => store.count());
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  clients.forEach((client) => client.postMessage({ type: 'OFFLINE_QUEUE', pending, synced: 0, failed: 0, ...counts }));
+  return pending;
+}
+
+async function sendOrQueue(request) {
+  const body = await request.clone().text();
+  try {
+    return await fetch(request);
+  } catch {
+    await withQueue('readwrite', (store) => store.add({
+      url: request.url,
+      method: request.method,
+      // The Idempotency-Key goes with it so a replay can't double up
+      headers: {
+        'Content-Type': request.headers.get('Content-Type') || 'application/json',
+        'Idempotency-Key': request.headers.get('Idempotency-Key') || '',
+      },
+      body: body || undefined,
+      queuedAt: Date.now(),
+    }));
+    if (self.registration.sync) {
+      self.registration.sync.register(QUEUE_SYNC_TAG).catch(() => {});
+    }
+    await notifyQueue();
+    return new Response(JSON.stringify({ queued: true }), {
+      status: 202,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// 4xx answers worth sending again later, like a 5xx: a timeout, rate limiting,
+// or 409 while an earlier send with the same Idempotency-Key is still saving
+const RETRY_STATUSES = [408, 409, 429];
+
+// Any other 4xx (locked event, logged out) won't get better by retrying
+function isFinalResponse(response) {
+  return response.status < 500 && !RETRY_STATUSES.includes(response.status);
+}
+
+// Sends queued writes oldest first, stopping at the first one that can't get
+// through so later writes never land before earlier ones. Resolves with how
+// many are still waiting.
+async function drainQueue() {
+  const writes = await withQueue('readonly', (store) => store.getAll());
+  let synced = 0;
+  let failed = 0;
+  for (const write of writes) {
+    let response;
+    try {
+      response = await fetch(write.url, {
+        method: write.method,
+        headers: write.headers,
+        body: write.body,
+        credentials: 'include',
+      });
+    } catch {
+      break;
+    }
+    if (!isFinalResponse(response)) break;
+    await withQueue('readwrite', (store) => store.delete(write.id));
+    if (response.ok) synced++;
+    else failed++;
+  }
+  return notifyQueue({ synced, failed });
+}
+
+let draining = null;
+function replayQueue() {
+  if (!draining) draining = drainQueue().finally(() => { draining = null; });
+  return draining;
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== QUEUE_SYNC_TAG) return;
+  // Rejecting asks the browser to try the sync again later
+  event.waitUntil(replayQueue().then((pending) => {
+    if (pending > 0) throw new Error('Offline writes still pending');
+  }));
+});
+
+// Offline reads: the public score routes keep their last response so a
+// spectator with one bar of signal still sees the results. A fresh answer is
+// used when it arrives quickly; otherwise the saved copy is served and the
+// page is told once the refresh lands. X-Fetched-At carries when the server
+// last confirmed the copy, for the page's "last updated" note.
+const OFFLINE_READ_ROUTES = [
+  /^\/api\/years$/,
+  /^\/api\/years\/[^/]+$/,
+  /^\/api\/years\/[^/]+\/(teams|roster-overrides|fish-weights|chug-times|golf-scores|tie-breaks|event-definitions|event-results|standings)$/,
+  /^\/api\/kak-stats$/,
+];
+const NETWORK_WAIT_MS = 2500;
+
+function withFetchedAt(response, fetchedAt) {
+  const headers = new Headers(response.headers);
+  headers.set('X-Fetched-At', String(fetchedAt));
+  return response.blob().then((body) => new Response(body, { status: response.status, statusText: response.statusText, headers }));
+}
+
+// Asks the server whether the saved copy is still current, using its ETag,
+// and saves whatever comes back. Resolves with the response to serve and
+// whether it differs from the saved copy.
+async function revalidate(request, cached) {
+  const headers = new Headers(request.headers);
+  const etag = cached && cached.headers.get('ETag');
+  if (etag) headers.set('If-None-Match', etag);
+  const response = await fetch(request.url, { headers, credentials: 'same-origin', cache: 'no-store' });
+
+  const cache = await caches.open(API_CACHE);
+  if (response.status === 304 && cached) {
+    const confirmed = await withFetchedAt(cached, Date.now());
+    await cache.put(request, confirmed.clone());
+    return { response: confirmed, changed: false };
+  }
+  if (!response.ok) return { response, changed: false };
+  const fresh = await withFetchedAt(response, Date.now());
+  await cache.put(request, fresh.clone());
+  return { response: fresh, changed: !!cached };
+}
+
+async function notifyUpdated(request) {
+  const clients = await self.clients.matchAll();
+  const path = new URL(request.url).pathname;
+  clients.forEach((client) => client.postMessage({ type: 'API_UPDATED', path }));
+}
+
+async function staleWhileRevalidate(event) {
+  const { request } = event;
+  const cached = await caches.open(API_CACHE).then((cache) => cache.match(request));
+  const update = revalidate(request, cached && cached.clone());
+  if (!cached) {
+    return update.then(({ response }) => response).catch(() =>
+      new Response(JSON.stringify({ error: 'Offline' }), { status: 503, headers: { 'Content-Type': 'application/json' } }));
+  }
+
+  let servedCached = false;
+  event.waitUntil(update.then(({ changed }) => {
+    if (servedCached && changed) return notifyUpdated(request);
+  }).catch(() => {}));
+
+  const waited = new Promise((resolve) => setTimeout(resolve, NETWORK_WAIT_MS));
+  const fresh = update.then(({ response }) => (response.ok ? response : null), () => null);
+  const winner = await Promise.race([fresh, waited]);
+  if (winner) return winner;
+  servedCached = true;
+  return cached;
+}
+
 self.addEventListener('fetch', (event) => {
+  if (event.request.method !== 'GET' && event.request.headers.get('X-Queue-Offline')) {
+    event.respondWith(sendOrQueue(event.request));
+    return;
+  }
+
+  const url = new URL(event.request.url);
+  if (event.request.method === 'GET' && url.origin === self.location.origin &&
+      OFFLINE_READ_ROUTES.some((route) => route.test(url.pathname))) {
+    event.respondWith(staleWhileRevalidate(event));
+    return;
+  }
+
   // Skip caching for API requests to ensure fresh data
   if (event.request.url.includes('/api/')) {
     event.respondWith(fetch(event.request));
@@ -108,4 +306,8 @@ self.addEventListener('message', (event) => {
   if (event.data && event.data.type === 'SKIP_WAITING') {
     self.skipWaiting();
   }
+  // Browsers without Background Sync (iOS Safari) replay when the page says it's back online
+  if (event.data && event.data.type === 'REPLAY_OFFLINE_QUEUE') {
+    event.waitUntil(replayQueue());
+  }
 });
@@ -24,6 +24,7 @@ const YearPage = lazyWithRetry(() => import("@/pages/YearPage"));
 const Login = lazyWithRetry(() => import("@/pages/Login"));
 const Settings = lazyWithRetry(() => import("@/pages/Settings"));
 const KakStatsPage = lazyWithRetry(() => import("@/pages/KakStatsPage"));
+const KakProfilePage = lazyWithRetry(() => import("@/pages/KakProfilePage"));
 
 function Router() {
   return (
@@ -39,6 +40,7 @@ function Router() {
         <Route path="/login" component={Login} />
         <Route path="/settings" component={Settings} />
         <Route path="/kak-stats" component={KakStatsPage} />
+        <Route path="/kak/:kakId" component={KakProfilePage} />
         {/* Fallback to Select Year page for any unknown routes */}
         <Route component={SelectYear} />
       </Switch>
@@ -1,12 +1,22 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useState, memo, useMemo } from "react";
 import { Plus, Lock, Trash2 } from "@/components/icons";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, isQueuedOffline, queryClient, versionedRequest, type QueuedOffline } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
 import { isUnauthorizedError, isAdminError } from "@/lib/authUtils";
-import { useToast } from "@/hooks/use-toast";
-import type { Team } from "@shared/schema";
-import { calculateChugAverage, rankChugTeams } from "@shared/scoring";
+import { useToast, UNDO_TOAST_DURATION } from "@/hooks/use-toast";
+import { queuedOfflineToast } from "@/hooks/useOfflineQueue";
+import { useEntryKeys } from "@/hooks/useEntryKeys";
+import { ToastAction } from "@/components/ui/toast";
+import type { TeamWithMembers } from "@shared/schema";
+import { eventPlayers, memberNames, type RosterOverrideEntry } from "@shared/teams";
+import type { EventDefinition } from "@shared/events";
+import {
+  calculateChugAverage,
+  describePointsTable,
+  resolveScoringConfig,
+  type TeamStanding,
+} from "@shared/scoring";
 
 /**
  * Format a chug time for display: show 2 decimal places unless the third decimal is non-zero
@@ -28,32 +38,56 @@ function formatChugTime(time: number): string {
   }
 }
 
+interface LegInput {
+  kakId: string;
+  time: string;
+}
+
+interface LegSplit {
+  time: number;
+  chugger: string | null;
+}
+
+function emptyLegs(count: number): LegInput[] {
+  return Array.from({ length: count }, () => ({ kakId: "", time: "" }));
+}
+
+/** KAKs who can be credited with a team's leg: players, subs and chug fill-ins. */
+function teamChuggers(team: TeamWithMembers, overrides: RosterOverrideEntry[]): { id: string; name: string }[] {
+  return eventPlayers(team, overrides, "chug");
+}
+
 interface ChugTabProps {
   yearId: string;
   yearData?: any;
+  event?: EventDefinition;
 }
 
-const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
+const ChugTab = memo(function ChugTab({ yearId, yearData, event }: ChugTabProps) {
   const [showAddModal, setShowAddModal] = useState(false);
   const [selectedTeamId, setSelectedTeamId] = useState("");
-  const [time1, setTime1] = useState("");
-  const [time2, setTime2] = useState("");
   const [notes, setNotes] = useState("");
   const { isAdmin } = useAuth();
   const { toast } = useToast();
+  const scoring = useMemo(() => resolveScoringConfig(yearData?.scoring_config), [yearData?.scoring_config]);
+  const locked = !!event?.locked;
+  const [legInputs, setLegInputs] = useState<LegInput[]>(() => emptyLegs(scoring.chugLegs));
+  const entryKeys = useEntryKeys();
 
   const addChugMutation = useMutation({
-    mutationFn: async (data: { teamId: string; chug1: number; chug2: number; average: number; notes?: string }) => {
-      return await apiRequest(`/api/years/${yearId}/chug-times`, "POST", data);
+    mutationFn: async (data: { teamId: string; legs: { kakId?: string; time: number }[]; notes?: string }) => {
+      return await apiRequest(`/api/years/${yearId}/chug-times`, "POST", data, { queueOffline: true, idempotencyKey: entryKeys.get(data.teamId, data) });
     },
-    onSuccess: () => {
+    onSuccess: (data, variables) => {
+      entryKeys.done(variables.teamId);
       queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "chug-times"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/chug-leaderboard"] });
       setShowAddModal(false);
       setSelectedTeamId("");
-      setTime1("");
-      setTime2("");
+      setLegInputs(emptyLegs(scoring.chugLegs));
       setNotes("");
-      toast({
+      toast(isQueuedOffline(data) ? queuedOfflineToast : {
         title: "Success",
         description: "Chug time added successfully!",
       });
@@ -89,6 +123,15 @@ const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
         return;
       }
 
+      if (error?.status === 400) {
+        toast({
+          title: "Invalid Relay",
+          description: "Each leg needs a time, and each KAK can only drink one leg.",
+          variant: "destructive",
+        });
+        return;
+      }
+
       toast({
         title: "Error",
         description: "Failed to add chug time. Please try again.",
@@ -97,15 +140,48 @@ const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
     }
   });
 
+  const restoreChugMutation = useMutation({
+    mutationFn: async ({ teamId, deletedAt }: { teamId: string; deletedAt: string }) => {
+      return await apiRequest(`/api/years/${yearId}/teams/${teamId}/chug-times/restore`, "POST", { deletedAt }, { queueOffline: true });
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "chug-times"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
+      toast(isQueuedOffline(data) ? queuedOfflineToast : {
+        title: "Success",
+        description: "Chug time restored.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.status === 403 ? "Chug competition is locked. Cannot restore times." : "Failed to restore chug time.",
+        variant: "destructive",
+      });
+    }
+  });
+
   const deleteChugMutation = useMutation({
     mutationFn: async (teamId: string) => {
-      return await apiRequest(`/api/years/${yearId}/teams/${teamId}/chug-times`, "DELETE");
+      return await apiRequest(`/api/years/${yearId}/teams/${teamId}/chug-times`, "DELETE", undefined, { queueOffline: true });
     },
-    onSuccess: () => {
+    onSuccess: (data: { deletedAt: string } | QueuedOffline, teamId) => {
       queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "chug-times"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
+      // Nothing to undo until the clear reaches the server
+      if (isQueuedOffline(data)) {
+        toast(queuedOfflineToast);
+        return;
+      }
       toast({
         title: "Success",
         description: "Chug time cleared successfully.",
+        duration: UNDO_TOAST_DURATION,
+        action: (
+          <ToastAction onClick={() => restoreChugMutation.mutate({ teamId, deletedAt: data.deletedAt })}>
+            Undo
+          </ToastAction>
+        ),
       });
     },
     onError: (error: any) => {
@@ -127,19 +203,20 @@ const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
 
   const lockChugMutation = useMutation({
     mutationFn: async () => {
-      return await apiRequest(`/api/years/${yearId}`, "PATCH", {
-        chug_locked: true
-      });
+      return await versionedRequest(`/api/years/${yearId}/event-definitions/chug`, "PATCH", { locked: true }, yearData?.version ?? 1, "this year");
     },
-    onSuccess: () => {
+    onSuccess: (saved) => {
       const yearNumber = yearData?.year;
       if (yearNumber) {
         queryClient.invalidateQueries({ queryKey: ["/api/years", yearNumber.toString()] });
       }
       queryClient.invalidateQueries({ queryKey: ["/api/years", yearId] });
-      toast({
+      toast(saved ? {
         title: "Competition Locked",
         description: "Chug competition has been locked successfully.",
+      } : {
+        title: "Year reloaded",
+        description: "Someone else changed this year. Check it and lock again if needed.",
       });
     },
     onError: (error: any) => {
@@ -181,6 +258,12 @@ const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
     staleTime: 2_000,
   });
 
+  const { data: rosterOverrides = [] } = useQuery<RosterOverrideEntry[]>({
+    queryKey: ["/api/years", yearId, "roster-overrides"],
+    queryFn: () => apiRequest(`/api/years/${yearId}/roster-overrides`),
+    staleTime: 2_000,
+  });
+
   const { data: chugTimes, isLoading: chugLoading } = useQuery({
     queryKey: ["/api/years", yearId, "chug-times"],
     queryFn: async () => {
@@ -192,10 +275,25 @@ const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
 
   // Memoized: sorted teams (fixes in-place mutation of query cache)
   const sortedTeams = useMemo(
-    () => [...(teams ?? [])].sort((a: Team, b: Team) => a.position - b.position),
+    () => [...(teams ?? [])].sort((a: TeamWithMembers, b: TeamWithMembers) => a.position - b.position),
     [teams]
   );
 
+  const { data: standingsData, isLoading: standingsLoading } = useQuery<{ standings: TeamStanding[] }>({
+    queryKey: ["/api/years", yearId, "standings"],
+    queryFn: async () => {
+      const response = await fetch(`/api/years/${yearId}/standings`);
+      return response.json();
+    },
+    staleTime: 2_000,
+  });
+
+  // Memoized: server-computed event results keyed by team
+  const standingByTeam = useMemo(
+    () => new Map<string, TeamStanding>((standingsData?.standings ?? []).map((s) => [s.teamId, s])),
+    [standingsData]
+  );
+
   // Memoized: chug time lookup map
   const chugTimeMap = useMemo(() => {
     const map = new Map<string, any>();
@@ -203,69 +301,70 @@ const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
     return map;
   }, [chugTimes]);
 
+  // A year whose leg count was lowered after times went in still shows every recorded leg
+  const legCount = useMemo(
+    () => Math.max(scoring.chugLegs, ...(chugTimes ?? []).map((ct: any) => ct.legs?.length ?? 0)),
+    [scoring.chugLegs, chugTimes]
+  );
+
   // Memoized: full sorted stats with points, rank, and highlight flags pre-computed
   const sortedStats = useMemo(() => {
-    const stats = sortedTeams.map((team: Team) => {
+    const stats = sortedTeams.map((team: TeamWithMembers) => {
       const chugTime = chugTimeMap.get(team.id);
-      const members = [team.kak1, team.kak2, team.kak3, team.kak4].filter(Boolean);
+      const members = memberNames(team.members);
+      const chuggerNames = new Map(teamChuggers(team, rosterOverrides).map((k) => [k.id, k.name]));
+      const splits: LegSplit[] = (chugTime?.legs ?? []).map((leg: any) => ({
+        time: parseFloat(leg.time?.toString() || '0'),
+        chugger: leg.kakId ? chuggerNames.get(leg.kakId) ?? null : null,
+      }));
       return {
         team,
-        chug1: chugTime ? parseFloat(chugTime.chug1?.toString() || '0') : 0,
-        chug2: chugTime ? parseFloat(chugTime.chug2?.toString() || '0') : 0,
+        splits,
         average: chugTime ? parseFloat(chugTime.average?.toString() || '0') : 0,
         members,
       };
     });
 
-    const teamAverages = new Map<string, number>();
-    stats.forEach((s: any) => { if (s.average > 0) teamAverages.set(s.team.id, s.average); });
-    const rankedPoints = rankChugTeams(teamAverages);
-    const teamPoints = new Map<string, number>(rankedPoints.map(({ teamId, points }) => [teamId, points]));
-
-    const sorted = stats
-      .map((s: any) => ({ ...s, points: teamPoints.get(s.team.id) || 0 }))
+    return stats
+      .map((s: any) => {
+        const chug = standingByTeam.get(s.team.id)?.chug;
+        return {
+          ...s,
+          points: chug?.points ?? 0,
+          displayRank: chug?.rank ?? '-',
+          isHighestScore: chug?.isBest ?? false,
+          isLowestScore: chug?.isWorst ?? false,
+        };
+      })
       .sort((a: any, b: any) => b.points - a.points);
+  }, [sortedTeams, rosterOverrides, chugTimeMap, standingByTeam]);
 
-    // Compute rank/highlight values once for the whole array
-    const teamsWithPoints = sorted.filter((t: any) => t.points > 0);
-    const maxPoints = teamsWithPoints.length > 0 ? Math.max(...teamsWithPoints.map((t: any) => t.points)) : 0;
-    const minPoints = teamsWithPoints.length > 0 ? Math.min(...teamsWithPoints.map((t: any) => t.points)) : 0;
+  const selectedTeam = sortedTeams.find((team: TeamWithMembers) => team.id === selectedTeamId);
+  const legTimes = legInputs.map((leg) => parseFloat(leg.time));
+  const legsComplete = legTimes.every((time) => !isNaN(time) && time > 0);
+  // Preview only; the server computes the stored average from the legs
+  const previewAverage = legsComplete ? calculateChugAverage(...legTimes) : null;
 
-    const rankByPoints = new Map<number, string>();
-    sorted.forEach((t: any, i: number) => {
-      if (t.points > 0 && !rankByPoints.has(t.points)) {
-        const tiedCount = teamsWithPoints.filter((x: any) => x.points === t.points).length;
-        rankByPoints.set(t.points, tiedCount > 1 ? `T-${i + 1}` : `${i + 1}`);
-      }
-    });
+  const updateLeg = (index: number, value: Partial<LegInput>) => {
+    setLegInputs((legs) => legs.map((leg, i) => (i === index ? { ...leg, ...value } : leg)));
+  };
 
-    return sorted.map((t: any) => ({
-      ...t,
-      displayRank: t.points > 0 ? (rankByPoints.get(t.points) ?? '-') : '-',
-      isHighestScore: t.points === maxPoints && t.points > 0,
-      isLowestScore: t.points === minPoints && t.points > 0 && teamsWithPoints.length > 1,
-    }));
-  }, [sortedTeams, chugTimeMap]);
+  const openAddModal = () => {
+    setLegInputs(emptyLegs(scoring.chugLegs));
+    setShowAddModal(true);
+  };
 
   const handleAddChug = () => {
-    if (!selectedTeamId || !time1 || !time2) return;
-
-    const chug1Value = parseFloat(time1);
-    const chug2Value = parseFloat(time2);
-    if (isNaN(chug1Value) || isNaN(chug2Value) || chug1Value <= 0 || chug2Value <= 0) return;
-
-    const average = calculateChugAverage(chug1Value, chug2Value);
+    if (!selectedTeamId || !legsComplete) return;
 
     addChugMutation.mutate({
       teamId: selectedTeamId,
-      chug1: chug1Value,
-      chug2: chug2Value,
-      average: average,
+      legs: legInputs.map((leg, i) => ({ kakId: leg.kakId || undefined, time: legTimes[i] })),
       notes: notes.trim() || undefined
     });
   };
 
-  if (teamsLoading || chugLoading) {
+  if (teamsLoading || chugLoading || standingsLoading) {
     return (
       <div className="flex items-center justify-center p-8">
         <div className="text-center">
@@ -282,32 +381,32 @@ const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
         {isAdmin && (
           <div className="flex gap-2">
             <button
-              onClick={() => setShowAddModal(true)}
-              disabled={sortedTeams.length === 0 || yearData?.chug_locked}
+              onClick={openAddModal}
+              disabled={sortedTeams.length === 0 || locked}
               className={`flex items-center gap-1 px-3 py-1.5 text-sm transition-colors ${
-                yearData?.chug_locked
+                locked
                   ? 'bg-muted text-muted-foreground cursor-not-allowed'
                   : 'btn-primary'
               } ${sortedTeams.length === 0 ? 'bg-muted cursor-not-allowed' : ''}`}
               data-testid="button-add-chug"
-              title={yearData?.chug_locked ? "Competition is locked - no more times can be added" : ""}
+              title={locked ? "Competition is locked - no more times can be added" : ""}
             >
               <Plus size={16} />
-              <span className="hidden sm:inline">{yearData?.chug_locked ? "Locked - No More Times" : "Add Chug"}</span>
-              <span className="sm:hidden">{yearData?.chug_locked ? "Locked" : "Add"}</span>
+              <span className="hidden sm:inline">{locked ? "Locked - No More Times" : "Add Chug"}</span>
+              <span className="sm:hidden">{locked ? "Locked" : "Add"}</span>
             </button>
             <button
               onClick={() => lockChugMutation.mutate()}
-              disabled={yearData?.chug_locked || lockChugMutation.isPending}
+              disabled={locked || lockChugMutation.isPending}
               className={`flex items-center gap-1 px-3 py-1.5 text-sm transition-colors ${
-                yearData?.chug_locked
+                locked
                   ? 'bg-muted text-muted-foreground cursor-not-allowed'
                   : 'btn-destructive'
               }`}
               data-testid="button-lock-chug"
             >
               <Lock size={16} />
-              {yearData?.chug_locked ? "Competition Locked" : "Lock Competition"}
+              {locked ? "Competition Locked" : "Lock Competition"}
             </button>
           </div>
         )}
@@ -337,19 +436,18 @@ const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
                       <th className="border border-border px-2 py-2 text-left font-medium text-foreground" style={{minWidth: '240px', maxWidth: '360px'}}>
                         Team & Members
                       </th>
-                      <th className="border border-border px-2 py-2 text-center font-medium text-foreground text-xs" style={{width: '80px'}}>
-                        Time 1
-                      </th>
-                      <th className="border border-border px-2 py-2 text-center font-medium text-foreground text-xs" style={{width: '80px'}}>
-                        Time 2
-                      </th>
+                      {Array.from({ length: legCount }, (_, i) => (
+                        <th key={i} className="border border-border px-2 py-2 text-center font-medium text-foreground text-xs" style={{width: '80px'}}>
+                          Leg {i + 1}
+                        </th>
+                      ))}
                       <th className="border border-border px-2 py-2 text-center font-medium text-foreground" style={{width: '120px'}}>
                         Average Time (s)
                       </th>
                       <th className="border border-border px-2 py-2 text-center font-medium text-foreground" style={{width: '70px'}}>
                         Points
                       </th>
-                      {isAdmin && !yearData?.chug_locked && (
+                      {isAdmin && !locked && (
                         <th className="border border-border px-2 py-2 text-center font-medium text-foreground" style={{width: '90px'}}>
                           Actions
                         </th>
@@ -388,19 +486,22 @@ const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
                           </div>
                         </td>
 
-                        {/* Time 1 */}
-                        <td className="border border-border px-2 py-2 text-center" style={{width: '80px'}}>
-                          <span className="text-sm font-medium">
-                            {formatChugTime(teamStat.chug1)}
-                          </span>
-                        </td>
-
-                        {/* Time 2 */}
-                        <td className="border border-border px-2 py-2 text-center" style={{width: '80px'}}>
-                          <span className="text-sm font-medium">
-                            {formatChugTime(teamStat.chug2)}
-                          </span>
-                        </td>
+                        {/* Leg splits */}
+                        {Array.from({ length: legCount }, (_, i) => {
+                          const split: LegSplit | undefined = teamStat.splits[i];
+                          return (
+                            <td key={i} className="border border-border px-2 py-2 text-center" style={{width: '80px'}}>
+                              <div className="text-sm font-medium">
+                                {split ? formatChugTime(split.time) : "-"}
+                              </div>
+                              {split?.chugger && (
+                                <div className="text-xs truncate" style={{ color: "var(--orange-hi)" }}>
+                                  {split.chugger}
+                                </div>
+                              )}
+                            </td>
+                          );
+                        })}
 
                         {/* Average */}
                         <td className="border border-border px-2 py-2 text-center" style={{width: '120px'}}>
@@ -417,7 +518,7 @@ const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
                         </td>
 
                         {/* Actions */}
-                        {isAdmin && !yearData?.chug_locked && (
+                        {isAdmin && !locked && (
                           <td className="border border-border px-2 py-2 text-center" style={{width: '90px'}}>
                             {teamStat.average > 0 && (
                               <button
@@ -469,10 +570,15 @@ const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
 
                   <div className="grid grid-cols-2 gap-3 text-sm">
                     <div>
-                      <span className="text-muted-foreground font-medium">Times:</span>
+                      <span className="text-muted-foreground font-medium">Splits:</span>
                       <div className="space-y-1 mt-1">
-                        <div>Time 1: {formatChugTime(teamStat.chug1)}</div>
-                        <div>Time 2: {formatChugTime(teamStat.chug2)}</div>
+                        {teamStat.splits.length === 0 && <div>-</div>}
+                        {teamStat.splits.map((split: LegSplit, i: number) => (
+                          <div key={i}>
+                            Leg {i + 1}: {formatChugTime(split.time)}
+                            {split.chugger && <span style={{ color: "var(--orange-hi)" }}> · {split.chugger}</span>}
+                          </div>
+                        ))}
                       </div>
                     </div>
                     <div>
@@ -483,7 +589,7 @@ const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
                     </div>
                   </div>
 
-                  {isAdmin && !yearData?.chug_locked && teamStat.average > 0 && (
+                  {isAdmin && !locked && teamStat.average > 0 && (
                     <div className="mt-3 pt-3 border-t border-border">
                       <button
                         onClick={() => {
@@ -520,13 +626,16 @@ const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
                 </label>
                 <select
                   value={selectedTeamId}
-                  onChange={(e) => setSelectedTeamId(e.target.value)}
+                  onChange={(e) => {
+                    setSelectedTeamId(e.target.value);
+                    setLegInputs((legs) => legs.map((leg) => ({ ...leg, kakId: "" })));
+                  }}
                   className="w-full px-3 py-2 bg-input border border-border text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
                   data-testid="select-team"
                 >
                   <option value="">Choose a team...</option>
-                  {sortedTeams.map((team: Team) => {
-                    const members = [team.kak1, team.kak2, team.kak3, team.kak4].filter(Boolean);
+                  {sortedTeams.map((team: TeamWithMembers) => {
+                    const members = memberNames(team.members);
                     const membersList = members.length > 0 ? ` (${members.join(', ')})` : '';
                     const hasChugTime = chugTimeMap.has(team.id);
                     const indicator = hasChugTime ? ' ✓' : '';
@@ -539,39 +648,54 @@ const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
                 </select>
               </div>
 
-              {/* Time 1 Input */}
-              <div>
-                <label className="block text-sm font-medium text-foreground mb-1">
-                  Time 1 (seconds)
-                </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  min="0"
-                  value={time1}
-                  onChange={(e) => setTime1(e.target.value)}
-                  placeholder="Enter time in seconds..."
-                  className="w-full px-3 py-2 bg-input border border-border text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
-                  data-testid="input-time1"
-                />
-              </div>
+              {/* Leg Inputs */}
+              {legInputs.map((leg, i) => {
+                const chuggers = selectedTeam ? teamChuggers(selectedTeam, rosterOverrides) : [];
+                return (
+                  <div key={i}>
+                    <label className="block text-sm font-medium text-foreground mb-1">
+                      Leg {i + 1} (seconds)
+                    </label>
+                    <div className="flex gap-2">
+                      {chuggers.length > 0 && (
+                        <select
+                          value={leg.kakId}
+                          onChange={(e) => updateLeg(i, { kakId: e.target.value })}
+                          className="min-w-0 flex-1 px-3 py-2 bg-input border border-border text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                          data-testid={`select-leg-kak-${i + 1}`}
+                        >
+                          <option value="">Chugger</option>
+                          {chuggers.map((kak) => (
+                            <option
+                              key={kak.id}
+                              value={kak.id}
+                              disabled={legInputs.some((other, j) => j !== i && other.kakId === kak.id)}
+                            >
+                              {kak.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={leg.time}
+                        onChange={(e) => updateLeg(i, { time: e.target.value })}
+                        placeholder="Time in seconds..."
+                        className="min-w-0 flex-1 px-3 py-2 bg-input border border-border text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                        data-testid={`input-leg-time-${i + 1}`}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
 
-              {/* Time 2 Input */}
-              <div>
-                <label className="block text-sm font-medium text-foreground mb-1">
-                  Time 2 (seconds)
-                </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  min="0"
-                  value={time2}
-                  onChange={(e) => setTime2(e.target.value)}
-                  placeholder="Enter time in seconds..."
-                  className="w-full px-3 py-2 bg-input border border-border text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
-                  data-testid="input-time2"
-                />
-              </div>
+              {previewAverage !== null && legInputs.length > 1 && (
+                <div className="text-sm text-muted-foreground">
+                  Average: <span className="font-bold text-blue-400">{formatChugTime(previewAverage)}</span>
+                </div>
+              )}
 
               {/* Notes Input */}
               <div>
@@ -600,7 +724,7 @@ const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
               </button>
               <button
                 onClick={handleAddChug}
-                disabled={!selectedTeamId || !time1 || !time2 || addChugMutation.isPending}
+                disabled={!selectedTeamId || !legsComplete || addChugMutation.isPending}
                 className="flex-1 px-4 py-2 bg-primary text-primary-foreground hover:bg-primary/90 disabled:bg-muted disabled:cursor-not-allowed transition-colors"
                 data-testid="button-save-chug"
               >
@@ -614,7 +738,7 @@ const ChugTab = memo(function ChugTab({ yearId, yearData }: ChugTabProps) {
       {sortedTeams.length > 0 && (
         <div className="mt-4 text-sm text-muted-foreground text-center">
           <p>
-            <strong>Scoring:</strong> 7 points for 1st place down to 1 point for 7th place.
+            <strong>Scoring:</strong> {describePointsTable(scoring.pointsTable)}
             Tied teams split the available points equally.
           </p>
         </div>
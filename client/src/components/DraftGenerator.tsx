@@ -0,0 +1,230 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { X } from "@/components/icons";
+import type { Kak } from "@shared/schema";
+import { MAX_TEAMS, TEAM_SIZE, type DraftTeam } from "@shared/draft";
+
+interface DraftGeneratorProps {
+  yearId: string;
+  activeKaks: Kak[];
+  onClose: () => void;
+}
+
+interface DraftProposal {
+  seed: number;
+  teamCount: number;
+  teams: DraftTeam[];
+}
+
+type Constraint = { kind: "together" | "apart"; kakIds: [string, string] };
+
+const labelStyle = { display: "block", fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.12em", color: "var(--ice)", textTransform: "uppercase", marginBottom: "0.375rem" } as const;
+const textStyle = { fontFamily: "var(--font-mono)", fontSize: "0.8rem" } as const;
+const dimStyle = { color: "var(--text-dim)" } as const;
+
+const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+/** Proposes balanced teams from the roster and saves them all at once. */
+export default function DraftGenerator({ yearId, activeKaks, onClose }: DraftGeneratorProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const sortedKaks = useMemo(() => [...activeKaks].sort((a, b) => a.name.localeCompare(b.name)), [activeKaks]);
+  const nameById = useMemo(() => new Map(activeKaks.map((k) => [k.id, k.name])), [activeKaks]);
+
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [teamCount, setTeamCount] = useState("");
+  const [separateChamps, setSeparateChamps] = useState(true);
+  const [constraints, setConstraints] = useState<Constraint[]>([]);
+  const [pairA, setPairA] = useState("");
+  const [pairB, setPairB] = useState("");
+  const [proposal, setProposal] = useState<DraftProposal | null>(null);
+  const [teamNames, setTeamNames] = useState<string[]>([]);
+
+  const rosterIds = sortedKaks.filter((k) => !excluded.has(k.id)).map((k) => k.id);
+  const defaultTeamCount = Math.min(MAX_TEAMS, Math.max(1, Math.ceil(rosterIds.length / TEAM_SIZE)));
+
+  const proposeMutation = useMutation({
+    mutationFn: (): Promise<DraftProposal> =>
+      apiRequest(`/api/years/${yearId}/draft`, "POST", {
+        kakIds: rosterIds,
+        teamCount: teamCount ? Number(teamCount) : undefined,
+        separateChamps,
+        together: constraints.filter((c) => c.kind === "together").map((c) => c.kakIds),
+        apart: constraints.filter((c) => c.kind === "apart").map((c) => c.kakIds),
+        seed: randomSeed(),
+      }),
+    onSuccess: (draft) => {
+      setProposal(draft);
+      setTeamNames((names) => draft.teams.map((_, i) => names[i] ?? `Team ${i + 1}`));
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't draft teams", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/api/years/${yearId}/draft/commit`, "POST", {
+        teams: proposal!.teams.map((team, i) => ({
+          name: teamNames[i]?.trim() || `Team ${i + 1}`,
+          kakIds: team.kaks.map((k) => k.id),
+        })),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "teams"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
+      toast({ title: "Teams created" });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.status === 409 ? "This year already has teams." : "Failed to save the drafted teams.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addConstraint = (kind: Constraint["kind"]) => {
+    if (!pairA || !pairB || pairA === pairB) return;
+    setConstraints([...constraints, { kind, kakIds: [pairA, pairB] }]);
+    setPairA("");
+    setPairB("");
+  };
+
+  const toggleKak = (id: string) => {
+    const next = new Set(excluded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExcluded(next);
+  };
+
+  const kakSelect = (value: string, onChange: (id: string) => void) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className="input" style={{ flex: 1 }}>
+      <option value="">— KAK —</option>
+      {sortedKaks.map((k) => (
+        <option key={k.id} value={k.id}>{k.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div style={{ position: "fixed", inset: 0, background: "rgba(0,0,0,0.75)", display: "flex", alignItems: "center", justifyContent: "center", zIndex: 50 }} onClick={onClose}>
+      <div style={{ background: "var(--card)", border: "1px solid var(--border-hi)", clipPath: "var(--clip-lg)", padding: "1.5rem", width: "100%", maxWidth: "640px", maxHeight: "90vh", overflowY: "auto", margin: "0 1rem" }} onClick={(e) => e.stopPropagation()}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "1.25rem" }}>
+          <h3 style={{ fontFamily: "var(--font-display)", fontSize: "0.75rem", letterSpacing: "0.12em", textTransform: "uppercase", color: "var(--orange)" }}>Draft Teams</h3>
+          <button onClick={onClose} style={{ background: "none", border: "none", cursor: "pointer", color: "var(--text-dim)", padding: "0.25rem" }} data-testid="button-close-draft">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+          <div>
+            <span style={labelStyle}>Roster ({rosterIds.length})</span>
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(9rem, 1fr))", gap: "0.25rem", ...textStyle }}>
+              {sortedKaks.map((k) => (
+                <label key={k.id} style={{ display: "flex", alignItems: "center", gap: "0.375rem", cursor: "pointer" }}>
+                  <input type="checkbox" checked={!excluded.has(k.id)} onChange={() => toggleKak(k.id)} />
+                  {k.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "1rem", alignItems: "flex-end" }}>
+            <div>
+              <span style={labelStyle}>Teams</span>
+              <select value={teamCount} onChange={(e) => setTeamCount(e.target.value)} className="input" data-testid="select-draft-team-count">
+                <option value="">Auto ({defaultTeamCount})</option>
+                {Array.from({ length: MAX_TEAMS }, (_, i) => i + 1).map((n) => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </div>
+            <label style={{ display: "flex", alignItems: "center", gap: "0.375rem", cursor: "pointer", ...textStyle }}>
+              <input type="checkbox" checked={separateChamps} onChange={(e) => setSeparateChamps(e.target.checked)} />
+              Keep last year's champs apart
+            </label>
+          </div>
+
+          <div>
+            <span style={labelStyle}>Constraints</span>
+            <div style={{ display: "flex", gap: "0.5rem", alignItems: "center" }}>
+              {kakSelect(pairA, setPairA)}
+              {kakSelect(pairB, setPairB)}
+              <button onClick={() => addConstraint("together")} className="btn-ghost text-xs">Together</button>
+              <button onClick={() => addConstraint("apart")} className="btn-ghost text-xs">Apart</button>
+            </div>
+            {constraints.length > 0 && (
+              <ul style={{ listStyle: "none", padding: 0, margin: "0.5rem 0 0", ...textStyle }}>
+                {constraints.map((c, i) => (
+                  <li key={i} style={{ display: "flex", justifyContent: "space-between", padding: "0.2rem 0" }}>
+                    <span>
+                      {nameById.get(c.kakIds[0])} <span style={dimStyle}>{c.kind === "together" ? "with" : "not with"}</span> {nameById.get(c.kakIds[1])}
+                    </span>
+                    <button onClick={() => setConstraints(constraints.filter((_, j) => j !== i))} style={{ background: "none", border: "none", cursor: "pointer", color: "var(--text-dim)" }}>
+                      <X size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {proposal && (
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(13rem, 1fr))", gap: "0.75rem" }}>
+              {proposal.teams.map((team, i) => (
+                <div key={i} style={{ border: "1px solid var(--border-hi)", padding: "0.75rem", ...textStyle }}>
+                  <input
+                    type="text"
+                    value={teamNames[i] ?? ""}
+                    onChange={(e) => setTeamNames(teamNames.map((n, j) => (j === i ? e.target.value : n)))}
+                    className="input w-full"
+                    style={{ marginBottom: "0.5rem" }}
+                    data-testid={`input-draft-team-name-${i + 1}`}
+                  />
+                  {team.kaks.map((k) => (
+                    <div key={k.id} style={{ display: "flex", justifyContent: "space-between" }}>
+                      <span>{k.name}</span>
+                      <span style={dimStyle}>{Math.round(k.rating * 100)}</span>
+                    </div>
+                  ))}
+                  <div style={{ marginTop: "0.375rem", paddingTop: "0.375rem", borderTop: "1px solid var(--border)", display: "flex", justifyContent: "space-between", color: "var(--ice)" }}>
+                    <span>Strength</span>
+                    <span>{Math.round(team.rating * 100)}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {proposal && (
+            <p style={{ ...textStyle, ...dimStyle, fontSize: "0.7rem" }}>
+              Ratings run from 0 (always last) to 100 (always first) over completed years; newcomers start at 50.
+            </p>
+          )}
+
+          <div style={{ display: "flex", gap: "0.75rem" }}>
+            <button
+              onClick={() => proposeMutation.mutate()}
+              disabled={rosterIds.length === 0 || proposeMutation.isPending}
+              className="btn-ghost flex-1"
+              data-testid="button-generate-draft"
+            >
+              {proposeMutation.isPending ? "DRAFTING..." : proposal ? "RESHUFFLE" : "GENERATE"}
+            </button>
+            <button
+              onClick={() => commitMutation.mutate()}
+              disabled={!proposal || commitMutation.isPending}
+              className="btn-primary flex-1"
+              data-testid="button-commit-draft"
+            >
+              {commitMutation.isPending ? "SAVING..." : "CREATE TEAMS"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,427 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState, memo, useMemo } from "react";
+import { Plus, Lock, Trash2 } from "@/components/icons";
+import { apiRequest, isQueuedOffline, queryClient, versionedRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { isUnauthorizedError, isAdminError } from "@/lib/authUtils";
+import { useToast } from "@/hooks/use-toast";
+import { queuedOfflineToast } from "@/hooks/useOfflineQueue";
+import { useEntryKeys } from "@/hooks/useEntryKeys";
+import type { TeamWithMembers } from "@shared/schema";
+import { memberNames } from "@shared/teams";
+import type { EventDefinition } from "@shared/events";
+import { describePointsTable, resolveScoringConfig, type TeamStanding } from "@shared/scoring";
+
+interface EventTabProps {
+  yearId: string;
+  yearData?: any;
+  event: EventDefinition;
+}
+
+type EventResultRow = {
+  id: string;
+  eventId: string;
+  teamId: string;
+  value: number | string;
+  notes: string | null;
+};
+
+const AGGREGATION_LABELS = {
+  sum: "Results are added up",
+  best: "Each team's best result counts",
+  average: "Results are averaged",
+} as const;
+
+/** Renders any custom event: per-team results, ranking from the standings, and admin entry. */
+const EventTab = memo(function EventTab({ yearId, yearData, event }: EventTabProps) {
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [selectedTeamId, setSelectedTeamId] = useState("");
+  const [value, setValue] = useState("");
+  const [notes, setNotes] = useState("");
+  const { isAdmin } = useAuth();
+  const scoring = useMemo(() => resolveScoringConfig(yearData?.scoring_config), [yearData?.scoring_config]);
+  const { toast } = useToast();
+  const editable = isAdmin && !event.locked;
+
+  const handleAuthError = (error: any, action: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return true;
+    }
+    if (isAdminError(error)) {
+      toast({
+        title: "Admin Access Required",
+        description: `Only admin users can ${action}.`,
+        variant: "destructive",
+      });
+      return true;
+    }
+    return false;
+  };
+
+  const entryKeys = useEntryKeys();
+
+  const invalidateResults = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "event-results"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
+  };
+
+  const addResultMutation = useMutation({
+    mutationFn: async (data: { teamId: string; value: number; notes?: string }) => {
+      return await apiRequest(`/api/years/${yearId}/event-definitions/${event.key}/results`, "POST", data, { queueOffline: true, idempotencyKey: entryKeys.get(data.teamId, data) });
+    },
+    onSuccess: (data, variables) => {
+      entryKeys.done(variables.teamId);
+      invalidateResults();
+      setShowAddModal(false);
+      setSelectedTeamId("");
+      setValue("");
+      setNotes("");
+      toast(isQueuedOffline(data) ? queuedOfflineToast : {
+        title: "Success",
+        description: `${event.name} result added successfully!`,
+      });
+    },
+    onError: (error: any) => {
+      if (handleAuthError(error, "add results")) return;
+      toast({
+        title: error?.status === 403 ? "Competition Locked" : "Error",
+        description:
+          error?.status === 403
+            ? `${event.name} is locked. Cannot add results.`
+            : "Failed to add result. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteResultMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest(`/api/event-results/${id}`, "DELETE", undefined, { queueOffline: true });
+    },
+    onSuccess: (data) => {
+      invalidateResults();
+      toast(isQueuedOffline(data) ? queuedOfflineToast : {
+        title: "Success",
+        description: "Result removed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.status === 403 ? `${event.name} is locked. Cannot delete results.` : "Failed to remove result.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const lockEventMutation = useMutation({
+    mutationFn: async () => {
+      return await versionedRequest(`/api/years/${yearId}/event-definitions/${event.key}`, "PATCH", { locked: true }, yearData?.version ?? 1, "this year");
+    },
+    onSuccess: (saved) => {
+      const yearNumber = yearData?.year;
+      if (yearNumber) {
+        queryClient.invalidateQueries({ queryKey: ["/api/years", yearNumber.toString()] });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId] });
+      toast(saved ? {
+        title: "Competition Locked",
+        description: `${event.name} has been locked successfully.`,
+      } : {
+        title: "Year reloaded",
+        description: "Someone else changed this year. Check it and lock again if needed.",
+      });
+    },
+    onError: (error: any) => {
+      if (handleAuthError(error, "lock competitions")) return;
+      toast({
+        title: "Error",
+        description: `Failed to lock ${event.name}. Please try again.`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const { data: teams, isLoading: teamsLoading } = useQuery({
+    queryKey: ["/api/years", yearId, "teams"],
+    queryFn: async () => {
+      const response = await fetch(`/api/years/${yearId}/teams`);
+      return response.json();
+    },
+    staleTime: 2_000,
+  });
+
+  const { data: results, isLoading: resultsLoading } = useQuery<EventResultRow[]>({
+    queryKey: ["/api/years", yearId, "event-results"],
+    queryFn: async () => {
+      const response = await fetch(`/api/years/${yearId}/event-results`);
+      return response.json();
+    },
+    staleTime: 2_000,
+  });
+
+  const { data: standingsData, isLoading: standingsLoading } = useQuery<{ standings: TeamStanding[] }>({
+    queryKey: ["/api/years", yearId, "standings"],
+    queryFn: async () => {
+      const response = await fetch(`/api/years/${yearId}/standings`);
+      return response.json();
+    },
+    staleTime: 2_000,
+  });
+
+  const sortedTeams = useMemo(
+    () => [...(teams ?? [])].sort((a: TeamWithMembers, b: TeamWithMembers) => a.position - b.position),
+    [teams]
+  );
+
+  // This event's results grouped by team, oldest first
+  const resultsByTeam = useMemo(() => {
+    const map = new Map<string, EventResultRow[]>();
+    for (const result of results ?? []) {
+      if (result.eventId !== event.id) continue;
+      if (!map.has(result.teamId)) map.set(result.teamId, []);
+      map.get(result.teamId)!.push(result);
+    }
+    return map;
+  }, [results, event.id]);
+
+  const sortedStats = useMemo(() => {
+    const standingByTeam = new Map((standingsData?.standings ?? []).map((s) => [s.teamId, s]));
+    return sortedTeams
+      .map((team: TeamWithMembers) => {
+        const standing = standingByTeam.get(team.id)?.events?.[event.key];
+        return {
+          team,
+          members: memberNames(team.members),
+          results: resultsByTeam.get(team.id) ?? [],
+          score: standing?.score ?? null,
+          points: standing?.points ?? 0,
+          displayRank: standing?.rank ?? "-",
+          isBest: standing?.isBest ?? false,
+          isWorst: standing?.isWorst ?? false,
+        };
+      })
+      .sort((a, b) => b.points - a.points);
+  }, [sortedTeams, resultsByTeam, standingsData, event.key]);
+
+  const handleAddResult = () => {
+    const parsed = parseFloat(value);
+    if (!selectedTeamId || !Number.isFinite(parsed)) return;
+    addResultMutation.mutate({
+      teamId: selectedTeamId,
+      value: parsed,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  const confirmDelete = (teamName: string, result: EventResultRow) => {
+    if (window.confirm(`Remove ${result.value} from ${teamName}?`)) {
+      deleteResultMutation.mutate(result.id);
+    }
+  };
+
+  if (teamsLoading || resultsLoading || standingsLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="text-center">
+          <div style={{ width: "32px", height: "32px", border: "2px solid var(--border-hi)", borderTop: "2px solid var(--orange)", borderRadius: "50%", animation: "spin 0.8s linear infinite", margin: "0 auto" }} /><style>{`@keyframes spin { 0% { transform: rotate(0deg); } 100% { transform: rotate(360deg); } }`}</style>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-2 sm:p-4 bg-background">
+      <div className="mb-3 flex justify-end">
+        {isAdmin && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => setShowAddModal(true)}
+              disabled={sortedTeams.length === 0 || event.locked}
+              className={`flex items-center gap-1 px-3 py-1.5 text-sm transition-colors ${
+                event.locked
+                  ? 'bg-muted text-muted-foreground cursor-not-allowed'
+                  : 'btn-primary'
+              } ${sortedTeams.length === 0 ? 'bg-muted cursor-not-allowed' : ''}`}
+              data-testid={`button-add-${event.key}`}
+            >
+              <Plus size={16} />
+              <span className="hidden sm:inline">{event.locked ? "Locked - No More Results" : "Add Result"}</span>
+              <span className="sm:hidden">{event.locked ? "Locked" : "Add"}</span>
+            </button>
+            <button
+              onClick={() => lockEventMutation.mutate()}
+              disabled={event.locked || lockEventMutation.isPending}
+              className={`flex items-center gap-1 px-3 py-1.5 text-sm transition-colors ${
+                event.locked
+                  ? 'bg-muted text-muted-foreground cursor-not-allowed'
+                  : 'btn-destructive'
+              }`}
+              data-testid={`button-lock-${event.key}`}
+            >
+              <Lock size={16} />
+              {event.locked ? "Competition Locked" : "Lock Competition"}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="w-full">
+        <h2 className="text-lg font-semibold text-foreground mb-4 text-center">{event.name}</h2>
+        {sortedTeams.length === 0 ? (
+          <div className="text-center py-12 bg-card border border-border mx-4">
+            <div className="text-muted-foreground">
+              <p className="text-lg font-medium">No teams yet</p>
+              <p className="mt-2">Teams must be created before results can be recorded</p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3 mx-auto max-w-2xl">
+            {sortedStats.map((teamStat) => (
+              <div key={teamStat.team.id} className="bg-card border border-border p-4">
+                <div className="flex justify-between items-start mb-2">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-1">
+                      <h3 className="font-semibold text-foreground">{teamStat.team.name}</h3>
+                      {teamStat.isBest && <span className="text-yellow-400 text-lg">🏆</span>}
+                      {teamStat.isWorst && <span className="text-amber-600 text-lg">💩</span>}
+                    </div>
+                    <div className="text-xs" style={{ color: "var(--orange-hi)" }}>
+                      {teamStat.members.join(' · ')}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-sm font-bold text-foreground">Rank: {teamStat.displayRank}</div>
+                    <div className="text-lg font-bold text-green-400">{teamStat.points} pts</div>
+                  </div>
+                </div>
+
+                <div className="text-sm">
+                  <span className="text-muted-foreground font-medium">Score:</span>{" "}
+                  <span className="font-bold text-blue-400">{teamStat.score ?? "-"}</span>
+                </div>
+
+                {teamStat.results.length > 0 && (
+                  <ul className="mt-2 pt-2 border-t border-border space-y-1 text-xs">
+                    {teamStat.results.map((result) => (
+                      <li key={result.id} className="flex items-center justify-between gap-2">
+                        <span className="text-foreground">
+                          {result.value}
+                          {result.notes && <span className="text-muted-foreground"> · {result.notes}</span>}
+                        </span>
+                        {editable && (
+                          <button
+                            onClick={() => confirmDelete(teamStat.team.name, result)}
+                            disabled={deleteResultMutation.isPending}
+                            className="text-red-500 hover:text-red-700"
+                            title="Remove this result"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Add Result Modal */}
+      {showAddModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-card border border-border p-6 w-full max-w-md mx-4">
+            <h3 className="text-lg font-semibold mb-4 text-foreground">Add {event.name} Result</h3>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-1">
+                  Select Team
+                </label>
+                <select
+                  value={selectedTeamId}
+                  onChange={(e) => setSelectedTeamId(e.target.value)}
+                  className="w-full px-3 py-2 bg-input border border-border text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  data-testid="select-team"
+                >
+                  <option value="">Choose a team...</option>
+                  {sortedTeams.map((team: TeamWithMembers) => (
+                    <option key={team.id} value={team.id}>
+                      {team.name}{resultsByTeam.has(team.id) ? ' ✓' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-1">
+                  Result
+                </label>
+                <input
+                  type="number"
+                  step="any"
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  className="w-full px-3 py-2 bg-input border border-border text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  data-testid="input-result"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-1">
+                  Notes (optional)
+                </label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={2}
+                  className="w-full px-3 py-2 bg-input border border-border text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  data-testid="input-notes"
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={() => setShowAddModal(false)}
+                className="flex-1 px-4 py-2 text-muted-foreground border border-border hover:bg-accent transition-colors"
+                data-testid="button-cancel"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleAddResult}
+                disabled={!selectedTeamId || value === "" || addResultMutation.isPending}
+                className="flex-1 px-4 py-2 bg-primary text-primary-foreground hover:bg-primary/90 disabled:bg-muted disabled:cursor-not-allowed transition-colors"
+                data-testid="button-save-result"
+              >
+                {addResultMutation.isPending ? "Adding..." : "Add Result"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {sortedTeams.length > 0 && (
+        <div className="mt-4 text-sm text-muted-foreground text-center">
+          <p>
+            <strong>Scoring:</strong> {AGGREGATION_LABELS[event.aggregation]}; {event.lowerIsBetter ? "lowest" : "highest"} score wins. {describePointsTable(scoring.pointsTable)}
+            Tied teams split the available points equally.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default EventTab;
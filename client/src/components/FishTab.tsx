@@ -1,32 +1,231 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useState, memo, useMemo } from "react";
-import { Lock, Trash2, ChevronDown } from "@/components/icons";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Lock, Trash2, ChevronDown, Edit, Check, X } from "@/components/icons";
+import { apiRequest, isQueuedOffline, queryClient, versionedRequest, type QueuedOffline } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
 import { isUnauthorizedError, isAdminError } from "@/lib/authUtils";
-import { useToast } from "@/hooks/use-toast";
-import type { Team } from "@shared/schema";
-import { rankFishTeams } from "@shared/scoring";
+import { useToast, UNDO_TOAST_DURATION } from "@/hooks/use-toast";
+import { queuedOfflineToast } from "@/hooks/useOfflineQueue";
+import { useEntryKeys } from "@/hooks/useEntryKeys";
+import { ToastAction } from "@/components/ui/toast";
+import type { TeamWithMembers } from "@shared/schema";
+import { eventPlayers, memberNames, type RosterOverrideEntry } from "@shared/teams";
+import { describePointsTable, resolveScoringConfig, type TeamStanding } from "@shared/scoring";
+import { FISH_SPECIES, formatSpecies } from "@shared/fish";
+import type { EventDefinition } from "@shared/events";
 
 interface FishTabProps {
   yearId: string;
   yearData?: any;
+  event?: EventDefinition;
 }
 
-const FishTab = memo(function FishTab({ yearId, yearData: parentYearData }: FishTabProps) {
+interface FishEntry {
+  id: string;
+  weight: number;
+  species: string | null;
+  length: number | null;
+  angler: string | null;
+  caughtAt: string | null;
+}
+
+interface FishDetails {
+  species: string;
+  length: string;
+  kakId: string;
+}
+
+const EMPTY_DETAILS: FishDetails = { species: "", length: "", kakId: "" };
+
+/** KAKs who can be credited with a team's catch: players, subs and fishing fill-ins. */
+function teamAnglers(team: TeamWithMembers, overrides: RosterOverrideEntry[]): { id: string; name: string }[] {
+  return eventPlayers(team, overrides, "fish");
+}
+
+function describeFish(entry: FishEntry): string {
+  const parts = [`${entry.weight} lbs`];
+  if (entry.species) parts.push(formatSpecies(entry.species));
+  if (entry.length) parts.push(`${entry.length}"`);
+  if (entry.angler) parts.push(entry.angler);
+  if (entry.caughtAt) {
+    parts.push(new Date(entry.caughtAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" }));
+  }
+  return parts.join(" · ");
+}
+
+interface FishDetailFieldsProps {
+  team: TeamWithMembers;
+  overrides: RosterOverrideEntry[];
+  value: FishDetails;
+  onChange: (value: FishDetails) => void;
+}
+
+/** Optional species / length / angler pickers shown under the weight input. */
+function FishDetailFields({ team, overrides, value, onChange }: FishDetailFieldsProps) {
+  const anglers = teamAnglers(team, overrides);
+  const fieldClass = "min-w-0 flex-1 px-2 py-1 bg-input border border-border text-foreground text-xs focus:outline-none focus:ring-2 focus:ring-primary";
+
+  return (
+    <div className="flex gap-2">
+      <select
+        value={value.species}
+        onChange={(e) => onChange({ ...value, species: e.target.value })}
+        className={fieldClass}
+        data-testid={`select-fish-species-${team.id}`}
+      >
+        <option value="">Species</option>
+        {FISH_SPECIES.map((species) => (
+          <option key={species} value={species}>{formatSpecies(species)}</option>
+        ))}
+      </select>
+      <input
+        type="number"
+        step="0.25"
+        min="0"
+        value={value.length}
+        onChange={(e) => onChange({ ...value, length: e.target.value })}
+        placeholder="Length (in)"
+        className={fieldClass}
+        data-testid={`input-fish-length-${team.id}`}
+      />
+      {anglers.length > 0 && (
+        <select
+          value={value.kakId}
+          onChange={(e) => onChange({ ...value, kakId: e.target.value })}
+          className={fieldClass}
+          data-testid={`select-fish-angler-${team.id}`}
+        >
+          <option value="">Angler</option>
+          {anglers.map((angler) => (
+            <option key={angler.id} value={angler.id}>{angler.name}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+interface FishEntryListProps {
+  entries: FishEntry[];
+  editable: boolean;
+  pending: boolean;
+  onSave: (id: string, weight: number) => void;
+  onRemove: (id: string) => void;
+}
+
+/** Every fish a team caught, heaviest first; admins can fix or remove single entries. */
+function FishEntryList({ entries, editable, pending, onSave, onRemove }: FishEntryListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState("");
+
+  if (entries.length === 0) {
+    return <div className="text-muted-foreground">No fish recorded</div>;
+  }
+
+  const save = (id: string) => {
+    const weight = parseFloat(editValue.trim());
+    if (isNaN(weight) || weight < 0) return;
+    onSave(id, weight);
+    setEditingId(null);
+  };
+
+  return (
+    <ul className="space-y-1">
+      {[...entries].sort((a, b) => b.weight - a.weight).map((entry) => (
+        <li key={entry.id} className="flex items-center gap-2">
+          {editingId === entry.id ? (
+            <>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") save(entry.id);
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                autoFocus
+                className="w-20 px-2 py-0.5 bg-input border border-border text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                data-testid={`input-edit-fish-weight-${entry.id}`}
+              />
+              <button
+                onClick={() => save(entry.id)}
+                disabled={pending}
+                className="text-green-500 hover:text-green-400 disabled:opacity-50"
+                title="Save weight"
+              >
+                <Check size={16} />
+              </button>
+              <button
+                onClick={() => setEditingId(null)}
+                className="text-muted-foreground hover:text-foreground"
+                title="Cancel"
+              >
+                <X size={16} />
+              </button>
+            </>
+          ) : (
+            <>
+              <span className="text-sm">{describeFish(entry)}</span>
+              {editable && (
+                <>
+                  <button
+                    onClick={() => {
+                      setEditingId(entry.id);
+                      setEditValue(String(entry.weight));
+                    }}
+                    disabled={pending}
+                    className="text-muted-foreground hover:text-foreground disabled:opacity-50"
+                    title="Edit weight"
+                    data-testid={`button-edit-fish-weight-${entry.id}`}
+                  >
+                    <Edit size={14} />
+                  </button>
+                  <button
+                    onClick={() => onRemove(entry.id)}
+                    disabled={pending}
+                    className="text-red-500 hover:text-red-700 disabled:opacity-50"
+                    title="Remove this fish"
+                    data-testid={`button-remove-fish-weight-${entry.id}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </>
+              )}
+            </>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const FishTab = memo(function FishTab({ yearId, yearData: parentYearData, event }: FishTabProps) {
   const [weightInputs, setWeightInputs] = useState<Record<string, string>>({});
+  const [detailInputs, setDetailInputs] = useState<Record<string, FishDetails>>({});
   const [expandedWeights, setExpandedWeights] = useState<Set<string>>(new Set());
   const { toast } = useToast();
   const { isAdmin } = useAuth();
+  const entryKeys = useEntryKeys();
 
   const addWeightMutation = useMutation({
-    mutationFn: async (data: { teamId: string; weight: number }) => {
-      return await apiRequest(`/api/years/${yearId}/fish-weights`, "POST", data);
+    mutationFn: async (data: {
+      teamId: string;
+      weight: number;
+      species?: string;
+      length?: number;
+      kakId?: string;
+    }) => {
+      return await apiRequest(`/api/years/${yearId}/fish-weights`, "POST", data, { queueOffline: true, idempotencyKey: entryKeys.get(data.teamId, data) });
     },
-    onSuccess: (_data, variables) => {
+    onSuccess: (data, variables) => {
+      entryKeys.done(variables.teamId);
       queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "fish-weights"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
       setWeightInputs((prev) => ({ ...prev, [variables.teamId]: "" }));
-      toast({
+      setDetailInputs((prev) => ({ ...prev, [variables.teamId]: EMPTY_DETAILS }));
+      toast(isQueuedOffline(data) ? queuedOfflineToast : {
         title: "Success",
         description: "Fish weight added successfully!",
       });
@@ -71,15 +270,105 @@ const FishTab = memo(function FishTab({ yearId, yearData: parentYearData }: Fish
     }
   });
 
+  const updateWeightMutation = useMutation({
+    mutationFn: async ({ id, weight }: { id: string; weight: number }) => {
+      return await apiRequest(`/api/fish-weights/${id}`, "PATCH", { weight });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "fish-weights"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
+      toast({
+        title: "Success",
+        description: "Fish weight updated.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.status === 403
+          ? "Fishing competition is locked. Cannot edit weights."
+          : "Failed to update fish weight.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteWeightMutation = useMutation({
+    mutationFn: async (id: string): Promise<{ teamId: string; deletedAt: string } | QueuedOffline> => {
+      return await apiRequest(`/api/fish-weights/${id}`, "DELETE", undefined, { queueOffline: true });
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "fish-weights"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
+      // Nothing to undo until the delete reaches the server
+      if (isQueuedOffline(data)) {
+        toast(queuedOfflineToast);
+        return;
+      }
+      toast({
+        title: "Success",
+        description: "Fish weight removed.",
+        duration: UNDO_TOAST_DURATION,
+        action: (
+          <ToastAction onClick={() => restoreTeamWeightsMutation.mutate(data)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.status === 403
+          ? "Fishing competition is locked. Cannot delete weights."
+          : "Failed to remove fish weight.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const restoreTeamWeightsMutation = useMutation({
+    mutationFn: async ({ teamId, deletedAt }: { teamId: string; deletedAt: string }) => {
+      return await apiRequest(`/api/years/${yearId}/teams/${teamId}/fish-weights/restore`, "POST", { deletedAt }, { queueOffline: true });
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "fish-weights"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
+      toast(isQueuedOffline(data) ? queuedOfflineToast : {
+        title: "Success",
+        description: "Fish weights restored.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.status === 403 ? "Fishing competition is locked. Cannot restore weights." : "Failed to restore fish weights.",
+        variant: "destructive",
+      });
+    }
+  });
+
   const deleteTeamWeightsMutation = useMutation({
     mutationFn: async (teamId: string) => {
-      return await apiRequest(`/api/years/${yearId}/teams/${teamId}/fish-weights`, "DELETE");
+      return await apiRequest(`/api/years/${yearId}/teams/${teamId}/fish-weights`, "DELETE", undefined, { queueOffline: true });
     },
-    onSuccess: () => {
+    onSuccess: (data: { deletedAt: string } | QueuedOffline, teamId) => {
       queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "fish-weights"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
+      // Nothing to undo until the clear reaches the server
+      if (isQueuedOffline(data)) {
+        toast(queuedOfflineToast);
+        return;
+      }
       toast({
         title: "Success",
         description: "All fish weights for this team have been cleared.",
+        duration: UNDO_TOAST_DURATION,
+        action: (
+          <ToastAction onClick={() => restoreTeamWeightsMutation.mutate({ teamId, deletedAt: data.deletedAt })}>
+            Undo
+          </ToastAction>
+        ),
       });
     },
     onError: (error: any) => {
@@ -113,19 +402,20 @@ const FishTab = memo(function FishTab({ yearId, yearData: parentYearData }: Fish
 
   const lockFishingMutation = useMutation({
     mutationFn: async () => {
-      return await apiRequest(`/api/years/${yearId}`, "PATCH", {
-        fishing_locked: true
-      });
+      return await versionedRequest(`/api/years/${yearId}/event-definitions/fish`, "PATCH", { locked: true }, parentYearData?.version ?? 1, "this year");
     },
-    onSuccess: () => {
+    onSuccess: (saved) => {
       const yearNumber = parentYearData?.year;
       if (yearNumber) {
         queryClient.invalidateQueries({ queryKey: ["/api/years", yearNumber.toString()] });
       }
       queryClient.invalidateQueries({ queryKey: ["/api/years", yearId] });
-      toast({
+      toast(saved ? {
         title: "Competition Locked",
         description: "Fishing competition has been locked successfully.",
+      } : {
+        title: "Year reloaded",
+        description: "Someone else changed this year. Check it and lock again if needed.",
       });
     },
     onError: (error: any) => {
@@ -169,6 +459,12 @@ const FishTab = memo(function FishTab({ yearId, yearData: parentYearData }: Fish
     staleTime: 2_000,
   });
 
+  const { data: rosterOverrides = [] } = useQuery<RosterOverrideEntry[]>({
+    queryKey: ["/api/years", yearId, "roster-overrides"],
+    queryFn: () => apiRequest(`/api/years/${yearId}/roster-overrides`),
+    staleTime: 2_000,
+  });
+
   const { data: fishWeights, isLoading: fishLoading } = useQuery({
     queryKey: ["/api/years", yearId, "fish-weights"],
     queryFn: async () => {
@@ -178,74 +474,93 @@ const FishTab = memo(function FishTab({ yearId, yearData: parentYearData }: Fish
     staleTime: 2_000,
   });
 
+  const { data: standingsData, isLoading: standingsLoading } = useQuery<{ standings: TeamStanding[] }>({
+    queryKey: ["/api/years", yearId, "standings"],
+    queryFn: async () => {
+      const response = await fetch(`/api/years/${yearId}/standings`);
+      return response.json();
+    },
+    staleTime: 2_000,
+  });
+
+  // Memoized: server-computed event results keyed by team
+  const standingByTeam = useMemo(
+    () => new Map<string, TeamStanding>((standingsData?.standings ?? []).map((s) => [s.teamId, s])),
+    [standingsData]
+  );
+
   const yearData = parentYearData;
+  const locked = !!event?.locked;
+  const scoring = useMemo(() => resolveScoringConfig(yearData?.scoring_config), [yearData?.scoring_config]);
+  const countedSlots = useMemo(
+    () => Array.from({ length: scoring.fishCountBest }, (_, i) => i),
+    [scoring.fishCountBest]
+  );
 
   // Memoized: sorted teams (fixes in-place mutation of query cache)
   const sortedTeams = useMemo(
-    () => [...(teams ?? [])].sort((a: Team, b: Team) => a.position - b.position),
+    () => [...(teams ?? [])].sort((a: TeamWithMembers, b: TeamWithMembers) => a.position - b.position),
     [teams]
   );
 
   // Memoized: stats and ranking info, with display order locked to entry order until fish is finalized
   const displayStats = useMemo(() => {
+    const anglerNames = new Map<string, string>();
+    sortedTeams.forEach((team: TeamWithMembers) => {
+      teamAnglers(team, rosterOverrides).forEach((a) => anglerNames.set(a.id, a.name));
+    });
+
     // Group weights by team
-    const teamWeightsMap = new Map<string, number[]>();
+    const teamWeightsMap = new Map<string, FishEntry[]>();
     fishWeights?.forEach((fw: any) => {
       if (!teamWeightsMap.has(fw.teamId)) teamWeightsMap.set(fw.teamId, []);
-      teamWeightsMap.get(fw.teamId)!.push(parseFloat(fw.weight?.toString() || '0') || 0);
+      teamWeightsMap.get(fw.teamId)!.push({
+        id: fw.id,
+        weight: parseFloat(fw.weight?.toString() || '0') || 0,
+        species: fw.species ?? null,
+        length: fw.length != null ? parseFloat(fw.length.toString()) : null,
+        angler: fw.kakId ? anglerNames.get(fw.kakId) ?? null : null,
+        caughtAt: fw.caughtAt ?? null,
+      });
     });
 
-    const baseStats = sortedTeams.map((team: Team) => {
+    const baseStats = sortedTeams.map((team: TeamWithMembers) => {
       const weights = teamWeightsMap.get(team.id) || [];
-      // Use spread to avoid mutating the cached array
-      const sortedWeights = [...weights].sort((a, b) => b - a);
-      const top3 = sortedWeights.slice(0, 3);
-      const total = top3.reduce((sum, w) => sum + w, 0);
+      const sortedWeights = weights.map((w) => w.weight).sort((a, b) => b - a);
+      const bestWeights = sortedWeights.slice(0, scoring.fishCountBest);
+      const total = bestWeights.reduce((sum, w) => sum + w, 0);
       return {
         team,
-        weight1: top3[0] || 0,
-        weight2: top3[1] || 0,
-        weight3: top3[2] || 0,
+        bestWeights, // the heaviest fishCountBest fish, which make up the total
         total,
-        weights, // raw array used for count display and delete button
-        members: [team.kak1, team.kak2, team.kak3, team.kak4].filter(Boolean),
+        weights, // individual entries for the count, the edit list and the delete button
+        members: memberNames(team.members),
       };
     });
 
-    const teamWeights = new Map<string, number>();
-    baseStats.forEach((s: any) => { if (s.total > 0) teamWeights.set(s.team.id, s.total); });
-    const rankedPoints = rankFishTeams(teamWeights);
-    const teamPoints = new Map<string, number>(rankedPoints.map(({ teamId, points }) => [teamId, points]));
-
-    const statsWithPoints = baseStats.map((s: any) => ({
-      ...s,
-      points: teamPoints.get(s.team.id) || 0,
-    }));
-
-    const sortedByPoints = [...statsWithPoints].sort((a: any, b: any) => b.points - a.points);
-
-    // Compute rank/highlight values once for the whole array
-    const teamsWithPoints = sortedByPoints.filter((t: any) => t.points > 0);
-    const maxPoints = teamsWithPoints.length > 0 ? Math.max(...teamsWithPoints.map((t: any) => t.points)) : 0;
-    const minPoints = teamsWithPoints.length > 0 ? Math.min(...teamsWithPoints.map((t: any) => t.points)) : 0;
-
-    const rankByPoints = new Map<number, string>();
-    sortedByPoints.forEach((t: any, i: number) => {
-      if (t.points > 0 && !rankByPoints.has(t.points)) {
-        const tiedCount = teamsWithPoints.filter((x: any) => x.points === t.points).length;
-        rankByPoints.set(t.points, tiedCount > 1 ? `T-${i + 1}` : `${i + 1}`);
-      }
+    const enrichedStats = baseStats.map((s: any) => {
+      const fish = standingByTeam.get(s.team.id)?.fish;
+      return {
+        ...s,
+        points: fish?.points ?? 0,
+        displayRank: fish?.rank ?? '-',
+        isHighestScore: fish?.isBest ?? false,
+        isLowestScore: fish?.isWorst ?? false,
+      };
     });
 
-    const enrichedStats = statsWithPoints.map((t: any) => ({
-      ...t,
-      displayRank: t.points > 0 ? (rankByPoints.get(t.points) ?? '-') : '-',
-      isHighestScore: t.points === maxPoints && t.points > 0,
-      isLowestScore: t.points === minPoints && t.points > 0 && teamsWithPoints.length > 1,
-    }));
+    return locked ? [...enrichedStats].sort((a: any, b: any) => b.points - a.points) : enrichedStats;
+  }, [sortedTeams, rosterOverrides, fishWeights, standingByTeam, scoring.fishCountBest, locked]);
 
-    return yearData?.fishing_locked ? [...enrichedStats].sort((a: any, b: any) => b.points - a.points) : enrichedStats;
-  }, [sortedTeams, fishWeights, yearData?.fishing_locked]);
+  const toggleExpanded = (teamId: string) => {
+    const newExpanded = new Set(expandedWeights);
+    if (newExpanded.has(teamId)) {
+      newExpanded.delete(teamId);
+    } else {
+      newExpanded.add(teamId);
+    }
+    setExpandedWeights(newExpanded);
+  };
 
   const handleAddWeight = (teamId: string) => {
     const raw = weightInputs[teamId]?.trim();
@@ -254,13 +569,19 @@ const FishTab = memo(function FishTab({ yearId, yearData: parentYearData }: Fish
     const weightValue = parseFloat(raw);
     if (isNaN(weightValue) || weightValue < 0) return;
 
+    const details = detailInputs[teamId] ?? EMPTY_DETAILS;
+    const lengthValue = parseFloat(details.length);
+
     addWeightMutation.mutate({
       teamId,
       weight: weightValue,
+      species: details.species || undefined,
+      length: isNaN(lengthValue) || lengthValue <= 0 ? undefined : lengthValue,
+      kakId: details.kakId || undefined,
     });
   };
 
-  if (teamsLoading || fishLoading) {
+  if (teamsLoading || fishLoading || standingsLoading) {
     return (
       <div className="flex items-center justify-center p-8">
         <div className="text-center">
@@ -277,16 +598,16 @@ const FishTab = memo(function FishTab({ yearId, yearData: parentYearData }: Fish
         {isAdmin && (
           <button
             onClick={() => lockFishingMutation.mutate()}
-            disabled={yearData?.fishing_locked || lockFishingMutation.isPending}
+            disabled={locked || lockFishingMutation.isPending}
             className={`flex items-center gap-1 px-3 py-1.5 text-sm transition-colors ${
-              yearData?.fishing_locked
+              locked
                 ? 'bg-muted text-muted-foreground cursor-not-allowed'
                 : 'btn-destructive'
             }`}
             data-testid="button-lock-fishing"
           >
             <Lock size={16} />
-            {yearData?.fishing_locked ? "Competition Locked" : "Lock Competition"}
+            {locked ? "Competition Locked" : "Lock Competition"}
           </button>
         )}
       </div>
@@ -314,22 +635,18 @@ const FishTab = memo(function FishTab({ yearId, yearData: parentYearData }: Fish
                       <th className="border border-border px-2 py-2 text-left font-medium text-foreground" style={{minWidth: '240px', maxWidth: '360px'}}>
                         Team & Members
                       </th>
-                      <th className="border border-border px-2 py-2 text-center font-medium text-foreground text-xs" style={{width: '80px'}}>
-                        Weight 1
-                      </th>
-                      <th className="border border-border px-2 py-2 text-center font-medium text-foreground text-xs" style={{width: '80px'}}>
-                        Weight 2
-                      </th>
-                      <th className="border border-border px-2 py-2 text-center font-medium text-foreground text-xs" style={{width: '80px'}}>
-                        Weight 3
-                      </th>
+                      {countedSlots.map((slot) => (
+                        <th key={slot} className="border border-border px-2 py-2 text-center font-medium text-foreground text-xs" style={{width: '80px'}}>
+                          Weight {slot + 1}
+                        </th>
+                      ))}
                       <th className="border border-border px-2 py-2 text-center font-medium text-foreground" style={{width: '110px'}}>
                         Total Weight
                       </th>
                       <th className="border border-border px-2 py-2 text-center font-medium text-foreground" style={{width: '70px'}}>
                         Points
                       </th>
-                      {isAdmin && !yearData?.fishing_locked && (
+                      {isAdmin && !locked && (
                         <th className="border border-border px-2 py-2 text-center font-medium text-foreground" style={{width: '90px'}}>
                           Actions
                         </th>
@@ -368,26 +685,14 @@ const FishTab = memo(function FishTab({ yearId, yearData: parentYearData }: Fish
                           </div>
                         </td>
 
-                        {/* Weight 1 */}
-                        <td className="border border-border px-2 py-2 text-center" style={{width: '80px'}}>
-                          <span className="text-sm font-medium">
-                            {teamStat.weight1 > 0 ? `${teamStat.weight1}` : "-"}
-                          </span>
-                        </td>
-
-                        {/* Weight 2 */}
-                        <td className="border border-border px-2 py-2 text-center" style={{width: '80px'}}>
-                          <span className="text-sm font-medium">
-                            {teamStat.weight2 > 0 ? `${teamStat.weight2}` : "-"}
-                          </span>
-                        </td>
-
-                        {/* Weight 3 */}
-                        <td className="border border-border px-2 py-2 text-center" style={{width: '80px'}}>
-                          <span className="text-sm font-medium">
-                            {teamStat.weight3 > 0 ? `${teamStat.weight3}` : "-"}
-                          </span>
-                        </td>
+                        {/* Counted weights */}
+                        {countedSlots.map((slot) => (
+                          <td key={slot} className="border border-border px-2 py-2 text-center" style={{width: '80px'}}>
+                            <span className="text-sm font-medium">
+                              {teamStat.bestWeights[slot] > 0 ? `${teamStat.bestWeights[slot]}` : "-"}
+                            </span>
+                          </td>
+                        ))}
 
                         {/* Total */}
                         <td className="border border-border px-2 py-2 text-center" style={{width: '110px'}}>
@@ -404,8 +709,8 @@ const FishTab = memo(function FishTab({ yearId, yearData: parentYearData }: Fish
                         </td>
 
                         {/* Actions */}
-                        {isAdmin && !yearData?.fishing_locked && (
-                          <td className="border border-border px-2 py-2 align-top" style={{width: '180px'}}>
+                        {isAdmin && !locked && (
+                          <td className="border border-border px-2 py-2 align-top" style={{width: '280px'}}>
                             <div className="flex flex-col gap-2">
                               <div className="flex gap-2">
                                 <input
@@ -432,19 +737,50 @@ const FishTab = memo(function FishTab({ yearId, yearData: parentYearData }: Fish
                                   {addWeightMutation.isPending ? "Adding..." : "Add"}
                                 </button>
                               </div>
+                              <FishDetailFields
+                                team={teamStat.team}
+                                overrides={rosterOverrides}
+                                value={detailInputs[teamStat.team.id] ?? EMPTY_DETAILS}
+                                onChange={(details) =>
+                                  setDetailInputs((prev) => ({ ...prev, [teamStat.team.id]: details }))
+                                }
+                              />
                               {teamStat.weights.length > 0 && (
-                                <button
-                                  onClick={() => {
-                                    if (window.confirm(`Clear all ${teamStat.weights.length} fish weight(s) for ${teamStat.team.name}?`)) {
-                                      deleteTeamWeightsMutation.mutate(teamStat.team.id);
-                                    }
-                                  }}
-                                  disabled={deleteTeamWeightsMutation.isPending}
-                                  className="text-red-500 hover:text-red-700 disabled:opacity-50 disabled:cursor-not-allowed self-start"
-                                  title="Clear all fish weights for this team"
-                                >
-                                  <Trash2 size={16} />
-                                </button>
+                                <div className="flex items-center gap-3">
+                                  <button
+                                    onClick={() => toggleExpanded(teamStat.team.id)}
+                                    className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                                    title="Edit individual fish"
+                                  >
+                                    <ChevronDown
+                                      className={`w-4 h-4 transition-transform ${
+                                        expandedWeights.has(teamStat.team.id) ? 'rotate-180' : ''
+                                      }`}
+                                    />
+                                    <span>{teamStat.weights.length} fish</span>
+                                  </button>
+                                  <button
+                                    onClick={() => {
+                                      if (window.confirm(`Clear all ${teamStat.weights.length} fish weight(s) for ${teamStat.team.name}?`)) {
+                                        deleteTeamWeightsMutation.mutate(teamStat.team.id);
+                                      }
+                                    }}
+                                    disabled={deleteTeamWeightsMutation.isPending}
+                                    className="text-red-500 hover:text-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    title="Clear all fish weights for this team"
+                                  >
+                                    <Trash2 size={16} />
+                                  </button>
+                                </div>
+                              )}
+                              {expandedWeights.has(teamStat.team.id) && teamStat.weights.length > 0 && (
+                                <FishEntryList
+                                  entries={teamStat.weights}
+                                  editable
+                                  pending={updateWeightMutation.isPending || deleteWeightMutation.isPending}
+                                  onSave={(id, weight) => updateWeightMutation.mutate({ id, weight })}
+                                  onRemove={(id) => deleteWeightMutation.mutate(id)}
+                                />
                               )}
                             </div>
                           </td>
@@ -489,7 +825,7 @@ const FishTab = memo(function FishTab({ yearId, yearData: parentYearData }: Fish
                       </div>
                     </div>
 
-                    {isAdmin && !yearData?.fishing_locked && (
+                    {isAdmin && !locked && (
                       <div className="pt-2 border-t border-border">
                         <div className="flex gap-2">
                           <input
@@ -516,20 +852,22 @@ const FishTab = memo(function FishTab({ yearId, yearData: parentYearData }: Fish
                             {addWeightMutation.isPending ? "Adding..." : "Add"}
                           </button>
                         </div>
+                        <div className="mt-2">
+                          <FishDetailFields
+                            team={teamStat.team}
+                            overrides={rosterOverrides}
+                            value={detailInputs[teamStat.team.id] ?? EMPTY_DETAILS}
+                            onChange={(details) =>
+                              setDetailInputs((prev) => ({ ...prev, [teamStat.team.id]: details }))
+                            }
+                          />
+                        </div>
                       </div>
                     )}
 
                     <div>
                       <button
-                        onClick={() => {
-                          const newExpanded = new Set(expandedWeights);
-                          if (newExpanded.has(teamStat.team.id)) {
-                            newExpanded.delete(teamStat.team.id);
-                          } else {
-                            newExpanded.add(teamStat.team.id);
-                          }
-                          setExpandedWeights(newExpanded);
-                        }}
+                        onClick={() => toggleExpanded(teamStat.team.id)}
                         className="flex items-center gap-1 text-muted-foreground font-medium hover:text-foreground transition-colors"
                       >
                         <ChevronDown
@@ -537,20 +875,24 @@ const FishTab = memo(function FishTab({ yearId, yearData: parentYearData }: Fish
                             expandedWeights.has(teamStat.team.id) ? 'rotate-180' : ''
                           }`}
                         />
-                        <span>Top 3 Weights</span>
+                        <span>All Fish ({teamStat.weights.length})</span>
                       </button>
                       {expandedWeights.has(teamStat.team.id) && (
-                        <div className="space-y-1 mt-2 ml-5">
-                          <div>{teamStat.weight1 > 0 ? `${teamStat.weight1} lbs` : "-"}</div>
-                          <div>{teamStat.weight2 > 0 ? `${teamStat.weight2} lbs` : "-"}</div>
-                          <div>{teamStat.weight3 > 0 ? `${teamStat.weight3} lbs` : "-"}</div>
+                        <div className="mt-2 ml-5">
+                          <FishEntryList
+                            entries={teamStat.weights}
+                            editable={isAdmin && !locked}
+                            pending={updateWeightMutation.isPending || deleteWeightMutation.isPending}
+                            onSave={(id, weight) => updateWeightMutation.mutate({ id, weight })}
+                            onRemove={(id) => deleteWeightMutation.mutate(id)}
+                          />
                         </div>
                       )}
                     </div>
                   </div>
 
                   {/* Clear All Button (Mobile) */}
-                  {isAdmin && !yearData?.fishing_locked && teamStat.weights.length > 0 && (
+                  {isAdmin && !locked && teamStat.weights.length > 0 && (
                     <div className="mt-3 pt-3 border-t border-border">
                       <button
                         onClick={() => {
@@ -576,7 +918,7 @@ const FishTab = memo(function FishTab({ yearId, yearData: parentYearData }: Fish
       {sortedTeams.length > 0 && (
         <div className="mt-4 text-sm text-muted-foreground text-center">
           <p>
-            <strong>Scoring:</strong> 7 points for 1st place down to 1 point for 7th place.
+            <strong>Scoring:</strong> Heaviest {scoring.fishCountBest} fish count. {describePointsTable(scoring.pointsTable)}
             Tied teams split the available points equally.
           </p>
         </div>
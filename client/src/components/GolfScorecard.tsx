@@ -0,0 +1,224 @@
+import { useMutation } from "@tanstack/react-query";
+import { useEffect, useMemo, useState } from "react";
+import { X } from "@/components/icons";
+import { apiRequest, queryClient, versionedRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { TeamWithMembers } from "@shared/schema";
+import { GOLF_HOLES, calculateToPar, formatToPar, runningToPar, type GolfHoleScore } from "@shared/golf";
+
+interface GolfScorecardProps {
+  yearId: string;
+  yearNumber?: number;
+  /** The year's version as loaded, sent as If-Match when saving pars */
+  yearVersion: number;
+  team: TeamWithMembers;
+  pars: readonly number[];
+  holes: GolfHoleScore[];
+  /** Admin on an unlocked year: strokes and pars can be entered */
+  editable: boolean;
+  onClose: () => void;
+}
+
+const NINES = [
+  { label: "Out", start: 1 },
+  { label: "In", start: 10 },
+];
+
+const cellClass = "border border-border px-1 py-1 text-center";
+
+/** 18-hole scorecard; each hole saves as soon as its strokes are entered. */
+export default function GolfScorecard({ yearId, yearNumber, yearVersion, team, pars, holes, editable, onClose }: GolfScorecardProps) {
+  const { toast } = useToast();
+  const [strokes, setStrokes] = useState<Record<number, string>>({});
+  const [editingPars, setEditingPars] = useState(false);
+  const [parDraft, setParDraft] = useState<number[]>([...pars]);
+
+  // Re-seed the inputs whenever the saved card changes (including live updates from another device)
+  useEffect(() => {
+    setStrokes(Object.fromEntries(holes.map((h) => [h.hole, String(h.strokes)])));
+  }, [holes]);
+
+  const running = useMemo(() => runningToPar(pars, holes), [pars, holes]);
+  const holesPlayed = holes.length;
+  const toPar = holesPlayed > 0 ? calculateToPar(pars, holes) : null;
+
+  const saveHoleMutation = useMutation({
+    mutationFn: async ({ hole, value }: { hole: number; value: number | null }) => {
+      return await apiRequest(`/api/years/${yearId}/teams/${team.id}/golf-holes/${hole}`, "PUT", { strokes: value });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "golf-scores"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.status === 403 ? "Golf competition is locked. Cannot add scores." : "Failed to save hole. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveParsMutation = useMutation({
+    mutationFn: async (golfPars: number[]) => {
+      return await versionedRequest(`/api/years/${yearId}`, "PATCH", { golf_pars: golfPars }, yearVersion, "this year");
+    },
+    onSuccess: (saved) => {
+      if (yearNumber) {
+        queryClient.invalidateQueries({ queryKey: ["/api/years", yearNumber.toString()] });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId] });
+      setEditingPars(false);
+      toast(saved ? {
+        title: "Success",
+        description: "Course pars saved.",
+      } : {
+        title: "Year reloaded",
+        description: "Someone else changed this year. Check the pars and try again.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.status === 403 ? "Golf competition is locked. Course pars cannot be changed." : "Failed to save course pars.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const commitHole = (hole: number) => {
+    const raw = strokes[hole]?.trim() ?? "";
+    const saved = holes.find((h) => h.hole === hole)?.strokes ?? null;
+    const value = raw === "" ? null : parseInt(raw, 10);
+    if (value !== null && (isNaN(value) || value < 1 || value > 20)) return;
+    if (value === saved) return;
+    saveHoleMutation.mutate({ hole, value });
+  };
+
+  const nineTotal = (start: number, values: (number | undefined)[]) =>
+    values.slice(start - 1, start + 8).reduce<number>((sum, v) => sum + (v ?? 0), 0);
+  const strokesByHole = Array.from({ length: GOLF_HOLES }, (_, i) => holes.find((h) => h.hole === i + 1)?.strokes);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border p-4 w-full max-w-3xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-3">
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">{team.name} Scorecard</h3>
+            <p className="text-sm text-muted-foreground">
+              {toPar === null ? "No holes entered" : `${formatToPar(toPar)} thru ${holesPlayed}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-muted-foreground hover:text-foreground" data-testid="button-close-scorecard">
+            <X size={18} />
+          </button>
+        </div>
+
+        {NINES.map(({ label, start }) => {
+          const nine = Array.from({ length: 9 }, (_, i) => start + i);
+          const parRow = editingPars ? parDraft : pars;
+          return (
+            <div key={label} className="overflow-x-auto mb-3">
+              <table className="border-collapse border border-border text-xs bg-card w-full">
+                <tbody>
+                  <tr className="table-header">
+                    <th className={`${cellClass} text-left`} style={{ width: "70px" }}>Hole</th>
+                    {nine.map((hole) => <th key={hole} className={cellClass}>{hole}</th>)}
+                    <th className={cellClass}>{label}</th>
+                  </tr>
+                  <tr>
+                    <td className={`${cellClass} text-left text-muted-foreground`}>Par</td>
+                    {nine.map((hole) => (
+                      <td key={hole} className={cellClass}>
+                        {editingPars ? (
+                          <select
+                            value={parDraft[hole - 1]}
+                            onChange={(e) => setParDraft(parDraft.map((p, i) => (i === hole - 1 ? Number(e.target.value) : p)))}
+                            className="bg-input border border-border text-foreground"
+                            data-testid={`select-par-${hole}`}
+                          >
+                            {[3, 4, 5, 6].map((p) => <option key={p} value={p}>{p}</option>)}
+                          </select>
+                        ) : (
+                          parRow[hole - 1]
+                        )}
+                      </td>
+                    ))}
+                    <td className={`${cellClass} font-medium`}>{nineTotal(start, [...parRow])}</td>
+                  </tr>
+                  <tr>
+                    <td className={`${cellClass} text-left text-muted-foreground`}>Strokes</td>
+                    {nine.map((hole) => (
+                      <td key={hole} className={cellClass}>
+                        {editable ? (
+                          <input
+                            type="number"
+                            inputMode="numeric"
+                            min="1"
+                            max="20"
+                            value={strokes[hole] ?? ""}
+                            onChange={(e) => setStrokes({ ...strokes, [hole]: e.target.value })}
+                            onBlur={() => commitHole(hole)}
+                            onKeyDown={(e) => { if (e.key === "Enter") commitHole(hole); }}
+                            className="w-9 px-0.5 py-0.5 bg-input border border-border text-foreground text-center focus:outline-none focus:ring-2 focus:ring-primary"
+                            data-testid={`input-strokes-${hole}`}
+                          />
+                        ) : (
+                          strokesByHole[hole - 1] ?? "-"
+                        )}
+                      </td>
+                    ))}
+                    <td className={`${cellClass} font-medium`}>{nineTotal(start, strokesByHole) || "-"}</td>
+                  </tr>
+                  <tr>
+                    <td className={`${cellClass} text-left text-muted-foreground`}>To par</td>
+                    {nine.map((hole) => {
+                      const value = running[hole - 1];
+                      return (
+                        <td key={hole} className={`${cellClass} font-bold text-blue-400`}>
+                          {value === null ? "" : formatToPar(value)}
+                        </td>
+                      );
+                    })}
+                    <td className={cellClass} />
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          );
+        })}
+
+        {editable && (
+          <div className="flex gap-2 justify-end">
+            {editingPars ? (
+              <>
+                <button
+                  onClick={() => { setParDraft([...pars]); setEditingPars(false); }}
+                  className="px-3 py-1.5 text-sm text-muted-foreground border border-border hover:bg-accent transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => saveParsMutation.mutate(parDraft)}
+                  disabled={saveParsMutation.isPending}
+                  className="px-3 py-1.5 text-sm btn-primary"
+                  data-testid="button-save-pars"
+                >
+                  {saveParsMutation.isPending ? "Saving..." : "Save Pars"}
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => { setParDraft([...pars]); setEditingPars(true); }}
+                className="px-3 py-1.5 text-sm text-muted-foreground border border-border hover:bg-accent transition-colors"
+                data-testid="button-edit-pars"
+              >
+                Edit Course Pars
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,37 +1,53 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useState, memo, useMemo } from "react";
-import { Plus, Lock, Trash2 } from "@/components/icons";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Plus, Lock, Trash2, Edit } from "@/components/icons";
+import { apiRequest, isQueuedOffline, queryClient, versionedRequest, type QueuedOffline } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
 import { isUnauthorizedError, isAdminError } from "@/lib/authUtils";
-import { useToast } from "@/hooks/use-toast";
-import type { Team } from "@shared/schema";
-import { rankGolfTeams } from "@shared/scoring";
+import { useToast, UNDO_TOAST_DURATION } from "@/hooks/use-toast";
+import { queuedOfflineToast } from "@/hooks/useOfflineQueue";
+import { useEntryKeys } from "@/hooks/useEntryKeys";
+import { ToastAction } from "@/components/ui/toast";
+import type { Course, TeamWithMembers } from "@shared/schema";
+import { memberNames } from "@shared/teams";
+import { describePointsTable, resolveScoringConfig, type TeamStanding } from "@shared/scoring";
+import { GOLF_HOLES, calculateScoreDifferential, formatToPar, resolveGolfPars, type GolfHoleScore } from "@shared/golf";
+import type { EventDefinition } from "@shared/events";
+import GolfScorecard from "@/components/GolfScorecard";
 
 interface GolfTabProps {
   yearId: string;
   yearData?: any;
+  event?: EventDefinition;
 }
 
-const GolfTab = memo(function GolfTab({ yearId, yearData }: GolfTabProps) {
+const GolfTab = memo(function GolfTab({ yearId, yearData, event }: GolfTabProps) {
   const [showAddModal, setShowAddModal] = useState(false);
   const [selectedTeamId, setSelectedTeamId] = useState("");
   const [score, setScore] = useState("");
   const [notes, setNotes] = useState("");
+  const [scorecardTeamId, setScorecardTeamId] = useState<string | null>(null);
   const { isAdmin } = useAuth();
+  const scoring = useMemo(() => resolveScoringConfig(yearData?.scoring_config), [yearData?.scoring_config]);
+  const locked = !!event?.locked;
+  const pars = useMemo(() => resolveGolfPars(yearData?.golf_pars), [yearData?.golf_pars]);
+  const canEdit = isAdmin && !locked;
   const { toast } = useToast();
+  const entryKeys = useEntryKeys();
 
   const addGolfMutation = useMutation({
     mutationFn: async (data: { teamId: string; score: number; notes?: string }) => {
-      return await apiRequest(`/api/years/${yearId}/golf-scores`, "POST", data);
+      return await apiRequest(`/api/years/${yearId}/golf-scores`, "POST", data, { queueOffline: true, idempotencyKey: entryKeys.get(data.teamId, data) });
     },
-    onSuccess: () => {
+    onSuccess: (data, variables) => {
+      entryKeys.done(variables.teamId);
       queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "golf-scores"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
       setShowAddModal(false);
       setSelectedTeamId("");
       setScore("");
       setNotes("");
-      toast({
+      toast(isQueuedOffline(data) ? queuedOfflineToast : {
         title: "Success",
         description: "Golf score added successfully!",
       });
@@ -75,15 +91,48 @@ const GolfTab = memo(function GolfTab({ yearId, yearData }: GolfTabProps) {
     }
   });
 
+  const restoreGolfMutation = useMutation({
+    mutationFn: async ({ teamId, deletedAt }: { teamId: string; deletedAt: string }) => {
+      return await apiRequest(`/api/years/${yearId}/teams/${teamId}/golf-scores/restore`, "POST", { deletedAt }, { queueOffline: true });
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "golf-scores"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
+      toast(isQueuedOffline(data) ? queuedOfflineToast : {
+        title: "Success",
+        description: "Golf score restored.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.status === 403 ? "Golf competition is locked. Cannot restore scores." : "Failed to restore golf score.",
+        variant: "destructive",
+      });
+    }
+  });
+
   const deleteGolfMutation = useMutation({
     mutationFn: async (teamId: string) => {
-      return await apiRequest(`/api/years/${yearId}/teams/${teamId}/golf-scores`, "DELETE");
+      return await apiRequest(`/api/years/${yearId}/teams/${teamId}/golf-scores`, "DELETE", undefined, { queueOffline: true });
     },
-    onSuccess: () => {
+    onSuccess: (data: { deletedAt: string } | QueuedOffline, teamId) => {
       queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "golf-scores"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
+      // Nothing to undo until the clear reaches the server
+      if (isQueuedOffline(data)) {
+        toast(queuedOfflineToast);
+        return;
+      }
       toast({
         title: "Success",
         description: "Golf score cleared successfully.",
+        duration: UNDO_TOAST_DURATION,
+        action: (
+          <ToastAction onClick={() => restoreGolfMutation.mutate({ teamId, deletedAt: data.deletedAt })}>
+            Undo
+          </ToastAction>
+        ),
       });
     },
     onError: (error: any) => {
@@ -105,19 +154,20 @@ const GolfTab = memo(function GolfTab({ yearId, yearData }: GolfTabProps) {
 
   const lockGolfMutation = useMutation({
     mutationFn: async () => {
-      return await apiRequest(`/api/years/${yearId}`, "PATCH", {
-        golf_locked: true
-      });
+      return await versionedRequest(`/api/years/${yearId}/event-definitions/golf`, "PATCH", { locked: true }, yearData?.version ?? 1, "this year");
     },
-    onSuccess: () => {
+    onSuccess: (saved) => {
       const yearNumber = yearData?.year;
       if (yearNumber) {
         queryClient.invalidateQueries({ queryKey: ["/api/years", yearNumber.toString()] });
       }
       queryClient.invalidateQueries({ queryKey: ["/api/years", yearId] });
-      toast({
+      toast(saved ? {
         title: "Competition Locked",
         description: "Golf competition has been locked successfully.",
+      } : {
+        title: "Year reloaded",
+        description: "Someone else changed this year. Check it and lock again if needed.",
       });
     },
     onError: (error: any) => {
@@ -168,12 +218,40 @@ const GolfTab = memo(function GolfTab({ yearId, yearData }: GolfTabProps) {
     staleTime: 2_000,
   });
 
+  const { data: courses } = useQuery<Course[]>({
+    queryKey: ["/api/courses"],
+    queryFn: async () => {
+      const response = await fetch("/api/courses");
+      return response.json();
+    },
+    staleTime: 60_000,
+  });
+
+  const course = courses?.find((c) => c.id === yearData?.course_id);
+  // Adjusted results need a rated course and stroke play
+  const showAdjusted = !!course && scoring.golfLowerIsBetter && calculateScoreDifferential(0, course) !== null;
+
   // Sort teams once — spread to avoid mutating the query cache
   const sortedTeams = useMemo(
-    () => [...(teams ?? [])].sort((a: Team, b: Team) => a.position - b.position),
+    () => [...(teams ?? [])].sort((a: TeamWithMembers, b: TeamWithMembers) => a.position - b.position),
     [teams]
   );
 
+  const { data: standingsData, isLoading: standingsLoading } = useQuery<{ standings: TeamStanding[] }>({
+    queryKey: ["/api/years", yearId, "standings"],
+    queryFn: async () => {
+      const response = await fetch(`/api/years/${yearId}/standings`);
+      return response.json();
+    },
+    staleTime: 2_000,
+  });
+
+  // Memoized: server-computed event results keyed by team
+  const standingByTeam = useMemo(
+    () => new Map<string, TeamStanding>((standingsData?.standings ?? []).map((s) => [s.teamId, s])),
+    [standingsData]
+  );
+
   // Build lookup map from golf score data
   const golfScoreMap = useMemo(() => {
     const map = new Map<string, any>();
@@ -183,53 +261,36 @@ const GolfTab = memo(function GolfTab({ yearId, yearData }: GolfTabProps) {
 
   // Pre-compute all derived values once — avoids O(n²) per-row work in the render loop
   const sortedStats = useMemo(() => {
-    const stats = sortedTeams.map((team: Team) => {
+    const stats = sortedTeams.map((team: TeamWithMembers) => {
       const golfScore = golfScoreMap.get(team.id);
-      const members = [team.kak1, team.kak2, team.kak3, team.kak4].filter(Boolean);
+      const members = memberNames(team.members);
+      const score = golfScore ? parseInt(golfScore.score?.toString() || "999") : 999;
+      const holes = (golfScore?.holes ?? []) as GolfHoleScore[];
+      // A scorecard still in progress has no meaningful differential yet
+      const complete = !!golfScore && (holes.length === 0 || holes.length === GOLF_HOLES);
       return {
         team,
-        score: golfScore ? parseInt(golfScore.score?.toString() || "999") : 999,
+        score,
+        holes,
         members,
         hasScore: !!golfScore,
+        differential: showAdjusted && complete ? calculateScoreDifferential(score, course!) : null,
       };
     });
 
-    // Compute points via shared scoring utility
-    const teamScores = new Map<string, number>();
-    stats.forEach((s) => {
-      if (s.hasScore) teamScores.set(s.team.id, s.score);
-    });
-    const rankedPoints = rankGolfTeams(teamScores);
-    const teamPoints = new Map<string, number>(
-      rankedPoints.map(({ teamId, points }) => [teamId, points])
-    );
-
-    // Sort by points descending
-    const sorted = stats
-      .map((s) => ({ ...s, points: teamPoints.get(s.team.id) ?? 0 }))
+    return stats
+      .map((s) => {
+        const golf = standingByTeam.get(s.team.id)?.golf;
+        return {
+          ...s,
+          points: golf?.points ?? 0,
+          displayRank: golf?.rank ?? "-",
+          isHighestScore: golf?.isBest ?? false,
+          isLowestScore: golf?.isWorst ?? false,
+        };
+      })
       .sort((a, b) => b.points - a.points);
-
-    // Compute highlight thresholds once
-    const teamsWithPoints = sorted.filter((t) => t.points > 0);
-    const maxPoints = teamsWithPoints.length > 0 ? Math.max(...teamsWithPoints.map((t) => t.points)) : 0;
-    const minPoints = teamsWithPoints.length > 0 ? Math.min(...teamsWithPoints.map((t) => t.points)) : 0;
-
-    // Pre-compute per-row display values
-    const rankByPoints = new Map<number, string>();
-    sorted.forEach((t, i) => {
-      if (t.points > 0 && !rankByPoints.has(t.points)) {
-        const tiedCount = teamsWithPoints.filter((x) => x.points === t.points).length;
-        rankByPoints.set(t.points, tiedCount > 1 ? `T-${i + 1}` : `${i + 1}`);
-      }
-    });
-
-    return sorted.map((t) => ({
-      ...t,
-      displayRank: t.points > 0 ? (rankByPoints.get(t.points) ?? "-") : "-",
-      isHighestScore: t.points === maxPoints && t.points > 0,
-      isLowestScore: t.points === minPoints && t.points > 0 && teamsWithPoints.length > 1,
-    }));
-  }, [sortedTeams, golfScoreMap]);
+  }, [sortedTeams, golfScoreMap, standingByTeam, showAdjusted, course]);
 
   const handleAddGolf = () => {
     if (!selectedTeamId || score === "") return;
@@ -255,14 +316,16 @@ const GolfTab = memo(function GolfTab({ yearId, yearData }: GolfTabProps) {
     }
   }
 
-  // Format score display
-  const formatScore = (score: number, hasScore: boolean) => {
+  // Format score display; a scorecard still in progress shows how many holes it covers
+  const formatScore = (score: number, hasScore: boolean, holesPlayed = 0) => {
     if (!hasScore) return "-";
-    if (score === 0) return "E";
-    return score > 0 ? `+${score}` : `${score}`;
+    const toPar = formatToPar(score);
+    return holesPlayed > 0 && holesPlayed < GOLF_HOLES ? `${toPar} thru ${holesPlayed}` : toPar;
   };
 
-  if (teamsLoading || golfLoading) {
+  const scorecardStat = sortedStats.find((s) => s.team.id === scorecardTeamId);
+
+  if (teamsLoading || golfLoading || standingsLoading) {
     return (
       <div className="flex items-center justify-center p-8">
         <div className="text-center">
@@ -280,38 +343,44 @@ const GolfTab = memo(function GolfTab({ yearId, yearData }: GolfTabProps) {
           <div className="flex gap-2">
             <button
               onClick={() => setShowAddModal(true)}
-              disabled={sortedTeams.length === 0 || yearData?.golf_locked}
+              disabled={sortedTeams.length === 0 || locked}
               className={`flex items-center gap-1 px-3 py-1.5 text-sm transition-colors ${
-                yearData?.golf_locked
+                locked
                   ? 'bg-muted text-muted-foreground cursor-not-allowed'
                   : 'btn-primary'
               } ${sortedTeams.length === 0 ? 'bg-muted cursor-not-allowed' : ''}`}
               data-testid="button-add-golf"
-              title={yearData?.golf_locked ? "Competition is locked - no more scores can be added" : ""}
+              title={locked ? "Competition is locked - no more scores can be added" : ""}
             >
               <Plus size={16} />
-              <span className="hidden sm:inline">{yearData?.golf_locked ? "Locked - No More Scores" : "Add Golf Score"}</span>
-              <span className="sm:hidden">{yearData?.golf_locked ? "Locked" : "Add"}</span>
+              <span className="hidden sm:inline">{locked ? "Locked - No More Scores" : "Add Golf Score"}</span>
+              <span className="sm:hidden">{locked ? "Locked" : "Add"}</span>
             </button>
             <button
               onClick={() => lockGolfMutation.mutate()}
-              disabled={yearData?.golf_locked || lockGolfMutation.isPending}
+              disabled={locked || lockGolfMutation.isPending}
               className={`flex items-center gap-1 px-3 py-1.5 text-sm transition-colors ${
-                yearData?.golf_locked
+                locked
                   ? 'bg-muted text-muted-foreground cursor-not-allowed'
                   : 'btn-destructive'
               }`}
               data-testid="button-lock-golf"
             >
               <Lock size={16} />
-              {yearData?.golf_locked ? "Competition Locked" : "Lock Competition"}
+              {locked ? "Competition Locked" : "Lock Competition"}
             </button>
           </div>
         )}
       </div>
 
       <div className="w-full">
-        <h2 className="text-lg font-semibold text-foreground mb-4 text-center">Golf Scores</h2>
+        <h2 className={`text-lg font-semibold text-foreground text-center ${course ? "mb-1" : "mb-4"}`}>Golf Scores</h2>
+        {course && (
+          <p className="text-sm text-muted-foreground text-center mb-4" data-testid="text-golf-course">
+            {course.name} · Par {course.par}
+            {course.rating !== null && course.slope !== null && ` · Rating ${Number(course.rating).toFixed(1)} / Slope ${course.slope}`}
+          </p>
+        )}
         {sortedTeams.length === 0 ? (
           <div className="text-center py-12 bg-card border border-border mx-4">
             <div className="text-muted-foreground">
@@ -336,10 +405,15 @@ const GolfTab = memo(function GolfTab({ yearId, yearData }: GolfTabProps) {
                       <th className="border border-border px-2 py-2 text-center font-medium text-foreground" style={{width: '70px'}}>
                         Score
                       </th>
+                      {showAdjusted && (
+                        <th className="border border-border px-2 py-2 text-center font-medium text-foreground" style={{width: '70px'}} title="Score differential for the course rating and slope">
+                          Adj.
+                        </th>
+                      )}
                       <th className="border border-border px-2 py-2 text-center font-medium text-foreground" style={{width: '70px'}}>
                         Points
                       </th>
-                      {isAdmin && !yearData?.golf_locked && (
+                      {isAdmin && !locked && (
                         <th className="border border-border px-2 py-2 text-center font-medium text-foreground" style={{width: '90px'}}>
                           Actions
                         </th>
@@ -380,11 +454,28 @@ const GolfTab = memo(function GolfTab({ yearId, yearData }: GolfTabProps) {
 
                         {/* Golf Score */}
                         <td className="border border-border px-2 py-2 text-center" style={{width: '70px'}}>
-                          <span className="font-bold text-blue-400">
-                            {formatScore(teamStat.score, teamStat.hasScore)}
-                          </span>
+                          {teamStat.holes.length > 0 ? (
+                            <button
+                              onClick={() => setScorecardTeamId(teamStat.team.id)}
+                              className="font-bold text-blue-400 underline decoration-dotted whitespace-nowrap"
+                              title="View scorecard"
+                            >
+                              {formatScore(teamStat.score, teamStat.hasScore, teamStat.holes.length)}
+                            </button>
+                          ) : (
+                            <span className="font-bold text-blue-400">
+                              {formatScore(teamStat.score, teamStat.hasScore)}
+                            </span>
+                          )}
                         </td>
 
+                        {/* Adjusted */}
+                        {showAdjusted && (
+                          <td className="border border-border px-2 py-2 text-center text-muted-foreground" style={{width: '70px'}}>
+                            {teamStat.differential === null ? "-" : teamStat.differential.toFixed(1)}
+                          </td>
+                        )}
+
                         {/* Points */}
                         <td className="border border-border px-2 py-2 text-center" style={{width: '70px'}}>
                           <span className="font-bold text-green-400">
@@ -393,22 +484,32 @@ const GolfTab = memo(function GolfTab({ yearId, yearData }: GolfTabProps) {
                         </td>
 
                         {/* Actions */}
-                        {isAdmin && !yearData?.golf_locked && (
+                        {isAdmin && !locked && (
                           <td className="border border-border px-2 py-2 text-center" style={{width: '90px'}}>
-                            {teamStat.hasScore && (
+                            <div className="flex items-center justify-center gap-3">
                               <button
-                                onClick={() => {
-                                  if (window.confirm(`Clear golf score for ${teamStat.team.name}?`)) {
-                                    deleteGolfMutation.mutate(teamStat.team.id);
-                                  }
-                                }}
-                                disabled={deleteGolfMutation.isPending}
-                                className="text-red-500 hover:text-red-700"
-                                title="Clear golf score for this team"
+                                onClick={() => setScorecardTeamId(teamStat.team.id)}
+                                className="text-muted-foreground hover:text-foreground"
+                                title="Enter scorecard hole by hole"
+                                data-testid={`button-scorecard-${teamStat.team.id}`}
                               >
-                                <Trash2 size={16} className="mx-auto" />
+                                <Edit size={16} />
                               </button>
-                            )}
+                              {teamStat.hasScore && (
+                                <button
+                                  onClick={() => {
+                                    if (window.confirm(`Clear golf score for ${teamStat.team.name}?`)) {
+                                      deleteGolfMutation.mutate(teamStat.team.id);
+                                    }
+                                  }}
+                                  disabled={deleteGolfMutation.isPending}
+                                  className="text-red-500 hover:text-red-700"
+                                  title="Clear golf score for this team"
+                                >
+                                  <Trash2 size={16} />
+                                </button>
+                              )}
+                            </div>
                           </td>
                         )}
                       </tr>
@@ -446,11 +547,28 @@ const GolfTab = memo(function GolfTab({ yearId, yearData }: GolfTabProps) {
                   <div className="text-sm">
                     <span className="text-muted-foreground font-medium">Golf Score:</span>
                     <div className="text-lg font-bold text-blue-400 mt-1">
-                      {formatScore(teamStat.score, teamStat.hasScore)}
+                      {formatScore(teamStat.score, teamStat.hasScore, teamStat.holes.length)}
+                      {teamStat.differential !== null && (
+                        <span className="ml-2 text-sm font-normal text-muted-foreground">
+                          Adj. {teamStat.differential.toFixed(1)}
+                        </span>
+                      )}
                     </div>
                   </div>
 
-                  {isAdmin && !yearData?.golf_locked && teamStat.hasScore && (
+                  {(canEdit || teamStat.holes.length > 0) && (
+                    <div className="mt-3 pt-3 border-t border-border">
+                      <button
+                        onClick={() => setScorecardTeamId(teamStat.team.id)}
+                        className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm text-muted-foreground"
+                      >
+                        <Edit size={16} />
+                        <span>{canEdit ? "Enter Scorecard" : "View Scorecard"}</span>
+                      </button>
+                    </div>
+                  )}
+
+                  {isAdmin && !locked && teamStat.hasScore && (
                     <div className="mt-3 pt-3 border-t border-border">
                       <button
                         onClick={() => {
@@ -492,8 +610,8 @@ const GolfTab = memo(function GolfTab({ yearId, yearData }: GolfTabProps) {
                   data-testid="select-team"
                 >
                   <option value="">Choose a team...</option>
-                  {sortedTeams.map((team: Team) => {
-                    const members = [team.kak1, team.kak2, team.kak3, team.kak4].filter(Boolean);
+                  {sortedTeams.map((team: TeamWithMembers) => {
+                    const members = memberNames(team.members);
                     const membersList = members.length > 0 ? ` (${members.join(', ')})` : '';
                     const hasGolfScore = golfScoreMap.has(team.id);
                     const indicator = hasGolfScore ? ' ✓' : '';
@@ -564,12 +682,33 @@ const GolfTab = memo(function GolfTab({ yearId, yearData }: GolfTabProps) {
         </div>
       )}
 
+      {scorecardStat && (
+        <GolfScorecard
+          yearId={yearId}
+          yearNumber={yearData?.year}
+          yearVersion={yearData?.version ?? 1}
+          team={scorecardStat.team}
+          pars={pars}
+          holes={scorecardStat.holes}
+          editable={canEdit}
+          onClose={() => setScorecardTeamId(null)}
+        />
+      )}
+
       {sortedTeams.length > 0 && (
         <div className="mt-4 text-sm text-muted-foreground text-center">
           <p>
-            <strong>Scoring:</strong> 7 points for 1st place down to 1 point for 7th place.
+            <strong>Scoring:</strong> {scoring.golfLowerIsBetter ? "Lowest" : "Highest"} score wins. {describePointsTable(scoring.pointsTable)}
             Tied teams split the available points equally.
           </p>
+          <p className="mt-1">
+            Scores are relative to par. Rounds entered on a scorecard are totalled against this year's course pars as each hole is saved.
+          </p>
+          {showAdjusted && (
+            <p className="mt-1">
+              Adj. is the score differential: strokes over the course rating, scaled by slope, so rounds on different courses compare directly.
+            </p>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,49 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { oldestFetchedAt, subscribeFetchedAt } from "@/lib/queryClient";
+
+const TICK_MS = 30_000;
+/** Older than this and the note turns orange */
+const STALE_AFTER_MS = 5 * 60_000;
+
+function describeAge(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours} hr${hours === 1 ? "" : "s"} ago`;
+}
+
+/** How fresh the results on screen are, so nobody mistakes a saved copy for live scores. */
+export default function LastUpdated({ prefix }: { prefix: string }) {
+  const fetchedAt = useSyncExternalStore(subscribeFetchedAt, () => oldestFetchedAt(prefix));
+  const [now, setNow] = useState(() => Date.now());
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    const onChange = () => {
+      setOnline(navigator.onLine);
+      setNow(Date.now());
+    };
+    window.addEventListener("online", onChange);
+    window.addEventListener("offline", onChange);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("online", onChange);
+      window.removeEventListener("offline", onChange);
+    };
+  }, []);
+
+  if (fetchedAt === undefined) return null;
+  const age = Math.max(0, now - fetchedAt);
+
+  return (
+    <span
+      style={{ fontFamily: "var(--font-mono)", fontSize: "0.6rem", color: age > STALE_AFTER_MS ? "var(--orange)" : "var(--text-dim)" }}
+      title={new Date(fetchedAt).toLocaleString()}
+      data-testid="text-last-updated"
+    >
+      {online ? "" : "Offline · "}Last updated {describeAge(age)}
+    </span>
+  );
+}
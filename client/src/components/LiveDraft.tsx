@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Kak } from "@shared/schema";
+import { MAX_TEAMS, SNAKE_ROUNDS, type SnakeTurn } from "@shared/draft";
+
+interface DraftPick {
+  round: number;
+  slot: number;
+  kakId: string;
+  name: string;
+}
+
+interface LiveDraftState {
+  captains: DraftPick[];
+  picks: DraftPick[];
+  next: SnakeTurn | null;
+  available: { id: string; name: string }[];
+  complete: boolean;
+}
+
+interface LiveDraftProps {
+  yearId: string;
+  isAdmin: boolean;
+  activeKaks: Kak[];
+  /** Show the captain picker while no draft is running */
+  setupOpen: boolean;
+  onCloseSetup: () => void;
+}
+
+const panelStyle = { background: "var(--card)", border: "1px solid var(--border-hi)", clipPath: "var(--clip-md)", padding: "1rem", margin: "0 1rem 1rem" } as const;
+const labelStyle = { display: "block", fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.12em", color: "var(--ice)", textTransform: "uppercase", marginBottom: "0.375rem" } as const;
+const textStyle = { fontFamily: "var(--font-mono)", fontSize: "0.8rem" } as const;
+const dimStyle = { color: "var(--text-dim)" } as const;
+
+/** Snake draft board: captains take turns picking while every phone watches live. */
+export default function LiveDraft({ yearId, isAdmin, activeKaks, setupOpen, onCloseSetup }: LiveDraftProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [captainIds, setCaptainIds] = useState<Set<string>>(new Set());
+  const [pickId, setPickId] = useState("");
+
+  const { data: draft } = useQuery<LiveDraftState>({
+    queryKey: ["/api/years", yearId, "draft"],
+    queryFn: () => apiRequest(`/api/years/${yearId}/draft/live`),
+    staleTime: 2_000,
+  });
+
+  const onDraftChange = (next: LiveDraftState) => {
+    queryClient.setQueryData(["/api/years", yearId, "draft"], next);
+    if (next.complete) {
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "teams"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
+      toast({ title: "Draft complete", description: "The teams are set." });
+    }
+  };
+
+  const onDraftError = (title: string) => (error: any) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "draft"] });
+    toast({ title, description: apiErrorMessage(error), variant: "destructive" });
+  };
+
+  const captainsMutation = useMutation({
+    mutationFn: (): Promise<LiveDraftState> =>
+      apiRequest(`/api/years/${yearId}/draft/live/captains`, "POST", { kakIds: Array.from(captainIds) }),
+    onSuccess: (next) => {
+      setCaptainIds(new Set());
+      onCloseSetup();
+      onDraftChange(next);
+    },
+    onError: onDraftError("Couldn't start the draft"),
+  });
+
+  const pickMutation = useMutation({
+    mutationFn: (kakId: string): Promise<LiveDraftState> =>
+      apiRequest(`/api/years/${yearId}/draft/live/picks`, "POST", { kakId }),
+    onSuccess: (next) => {
+      setPickId("");
+      onDraftChange(next);
+    },
+    onError: onDraftError("Pick not recorded"),
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: (): Promise<LiveDraftState> => apiRequest(`/api/years/${yearId}/draft/live/picks/last`, "DELETE"),
+    onSuccess: onDraftChange,
+    onError: onDraftError("Couldn't undo the pick"),
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: (): Promise<LiveDraftState> => apiRequest(`/api/years/${yearId}/draft/live`, "DELETE"),
+    onSuccess: onDraftChange,
+    onError: onDraftError("Couldn't reset the draft"),
+  });
+
+  if (!draft || draft.complete) return null;
+
+  if (draft.captains.length === 0) {
+    if (!isAdmin || !setupOpen) return null;
+    const sortedKaks = [...activeKaks].sort((a, b) => a.name.localeCompare(b.name));
+    const toggleCaptain = (id: string) => {
+      const next = new Set(captainIds);
+      if (next.has(id)) next.delete(id);
+      else if (next.size < MAX_TEAMS) next.add(id);
+      setCaptainIds(next);
+    };
+
+    return (
+      <div style={panelStyle}>
+        <span style={labelStyle}>Captains ({captainIds.size})</span>
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(9rem, 1fr))", gap: "0.25rem", ...textStyle }}>
+          {sortedKaks.map((k) => (
+            <label key={k.id} style={{ display: "flex", alignItems: "center", gap: "0.375rem", cursor: "pointer" }}>
+              <input type="checkbox" checked={captainIds.has(k.id)} onChange={() => toggleCaptain(k.id)} />
+              {k.name}
+            </label>
+          ))}
+        </div>
+        <p style={{ ...textStyle, ...dimStyle, fontSize: "0.7rem", marginTop: "0.5rem" }}>
+          One captain per team, up to {MAX_TEAMS}. The draft order is drawn at random and snakes back each round.
+        </p>
+        <div style={{ display: "flex", gap: "0.75rem", marginTop: "0.75rem" }}>
+          <button onClick={onCloseSetup} className="btn-ghost flex-1">CANCEL</button>
+          <button
+            onClick={() => captainsMutation.mutate()}
+            disabled={captainIds.size < 2 || captainsMutation.isPending}
+            className="btn-primary flex-1"
+            data-testid="button-start-live-draft"
+          >
+            {captainsMutation.isPending ? "STARTING..." : "START DRAFT"}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const onClock = draft.next && draft.captains.find((c) => c.slot === draft.next!.slot);
+  const busy = pickMutation.isPending || undoMutation.isPending || resetMutation.isPending;
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", marginBottom: "0.75rem", gap: "0.5rem", flexWrap: "wrap" }}>
+        <h3 style={{ fontFamily: "var(--font-display)", fontSize: "0.7rem", letterSpacing: "0.12em", textTransform: "uppercase", color: "var(--orange)" }}>Live Draft</h3>
+        {draft.next && onClock && (
+          <span style={{ ...textStyle, color: "var(--ice)" }} data-testid="text-draft-on-clock">
+            Round {draft.next.round}/{SNAKE_ROUNDS} · {onClock.name} is picking
+          </span>
+        )}
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: `repeat(${draft.captains.length}, minmax(7rem, 1fr))`, gap: "0.5rem", overflowX: "auto", ...textStyle }}>
+        {draft.captains.map((captain) => {
+          const picks = draft.picks.filter((p) => p.slot === captain.slot).sort((a, b) => a.round - b.round);
+          const picking = draft.next?.slot === captain.slot;
+          return (
+            <div key={captain.slot} style={{ border: `1px solid ${picking ? "var(--orange)" : "var(--border-hi)"}`, padding: "0.5rem" }}>
+              <div style={{ fontWeight: 700, color: picking ? "var(--orange)" : "var(--foreground)", marginBottom: "0.25rem" }}>
+                {captain.slot}. {captain.name}
+              </div>
+              {picks.map((p) => (
+                <div key={p.round}>
+                  <span style={dimStyle}>R{p.round}</span> {p.name}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      {isAdmin && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem", marginTop: "0.75rem", alignItems: "center" }}>
+          <select value={pickId} onChange={(e) => setPickId(e.target.value)} className="input" style={{ flex: 1, minWidth: "10rem" }} data-testid="select-draft-pick">
+            <option value="">— Pick a KAK —</option>
+            {draft.available.map((k) => (
+              <option key={k.id} value={k.id}>{k.name}</option>
+            ))}
+          </select>
+          <button onClick={() => pickMutation.mutate(pickId)} disabled={!pickId || busy} className="btn-primary" data-testid="button-draft-pick">
+            {pickMutation.isPending ? "PICKING..." : "PICK"}
+          </button>
+          <button onClick={() => undoMutation.mutate()} disabled={draft.picks.length === 0 || busy} className="btn-ghost text-xs">
+            Undo
+          </button>
+          <button
+            onClick={() => { if (window.confirm("Clear the captains and every pick?")) resetMutation.mutate(); }}
+            disabled={busy}
+            className="btn-ghost text-xs"
+          >
+            Reset
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { X } from "@/components/icons";
+import type { Kak, TeamWithMembers } from "@shared/schema";
+import type { EventDefinition } from "@shared/events";
+import type { RosterOverrideEntry } from "@shared/teams";
+
+interface RosterOverridesProps {
+  yearId: string;
+  isAdmin: boolean;
+  teams: TeamWithMembers[];
+}
+
+const panelStyle = { background: "var(--card)", border: "1px solid var(--border-hi)", clipPath: "var(--clip-md)", padding: "1rem", margin: "1rem 1rem 0" } as const;
+const labelStyle = { display: "block", fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.12em", color: "var(--ice)", textTransform: "uppercase", marginBottom: "0.375rem" } as const;
+const textStyle = { fontFamily: "var(--font-mono)", fontSize: "0.8rem" } as const;
+const dimStyle = { color: "var(--text-dim)" } as const;
+
+const emptyForm = { teamId: "", event: "", outKakId: "", inKakId: "" };
+
+/** Who filled in for whom, event by event, so credit follows whoever actually played. */
+export default function RosterOverrides({ yearId, isAdmin, teams }: RosterOverridesProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: overrides = [] } = useQuery<RosterOverrideEntry[]>({
+    queryKey: ["/api/years", yearId, "roster-overrides"],
+    queryFn: () => apiRequest(`/api/years/${yearId}/roster-overrides`),
+    staleTime: 2_000,
+  });
+
+  const { data: eventDefinitions = [] } = useQuery<EventDefinition[]>({
+    queryKey: ["/api/years", yearId, "event-definitions"],
+    queryFn: () => apiRequest(`/api/years/${yearId}/event-definitions`),
+    staleTime: 2_000,
+  });
+
+  // Retired KAKs can still fill in, so the picker offers everyone
+  const { data: allKaks = [] } = useQuery<Kak[]>({
+    queryKey: ["/api/kaks"],
+    queryFn: () => apiRequest("/api/kaks"),
+    enabled: isAdmin,
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "roster-overrides"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/kak-stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/golf-stats"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () => apiRequest(`/api/years/${yearId}/roster-overrides`, "POST", form),
+    onSuccess: () => {
+      setForm(emptyForm);
+      onChanged();
+      toast({ title: "Fill-in recorded" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Fill-in not recorded", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest(`/api/years/${yearId}/roster-overrides/${id}`, "DELETE"),
+    onSuccess: onChanged,
+    onError: (error: any) => {
+      toast({ title: "Couldn't remove the fill-in", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (!isAdmin && overrides.length === 0) return null;
+
+  const teamById = new Map(teams.map((team) => [team.id, team]));
+  const eventByKey = new Map(eventDefinitions.map((event) => [event.key, event]));
+  const selectedTeam = teamById.get(form.teamId);
+  const rosteredIds = new Set(teams.flatMap((team) => team.members.map((member) => member.kakId)));
+  const fillIns = allKaks.filter((kak) => !rosteredIds.has(kak.id)).sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div style={panelStyle}>
+      <h3 style={{ fontFamily: "var(--font-display)", fontSize: "0.7rem", letterSpacing: "0.12em", textTransform: "uppercase", color: "var(--orange)", marginBottom: "0.75rem" }}>
+        Fill-ins
+      </h3>
+
+      {overrides.length === 0 ? (
+        <p style={{ ...textStyle, ...dimStyle, fontSize: "0.7rem" }}>Everyone played every event for their own team.</p>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.375rem", ...textStyle }}>
+          {overrides.map((override) => {
+            const event = eventByKey.get(override.event);
+            return (
+              <div key={override.id} style={{ display: "flex", alignItems: "center", gap: "0.5rem", flexWrap: "wrap" }} data-testid={`roster-override-${override.id}`}>
+                <span>{event ? `${event.icon} ${event.name}` : override.event}</span>
+                <span style={dimStyle}>{teamById.get(override.teamId)?.name ?? "—"}:</span>
+                <Link href={`/kak/${override.inKakId}`} style={{ color: "var(--ice)" }}>{override.inName}</Link>
+                <span style={dimStyle}>in for</span>
+                <Link href={`/kak/${override.outKakId}`} style={{ color: "inherit" }}>{override.outName}</Link>
+                {isAdmin && (
+                  <button
+                    onClick={() => removeMutation.mutate(override.id)}
+                    disabled={removeMutation.isPending}
+                    style={{ padding: "0.25rem", background: "none", border: "none", cursor: "pointer", color: "var(--destructive)" }}
+                    aria-label="Remove fill-in"
+                  >
+                    <X size={12} />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {isAdmin && (
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(9rem, 1fr))", gap: "0.5rem", marginTop: "0.75rem", alignItems: "end" }}>
+          <label>
+            <span style={labelStyle}>Team</span>
+            <select value={form.teamId} onChange={(e) => setForm({ ...form, teamId: e.target.value, outKakId: "" })} className="input" data-testid="select-override-team">
+              <option value="">— Team —</option>
+              {teams.map((team) => (
+                <option key={team.id} value={team.id}>{team.name}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span style={labelStyle}>Event</span>
+            <select value={form.event} onChange={(e) => setForm({ ...form, event: e.target.value })} className="input" data-testid="select-override-event">
+              <option value="">— Event —</option>
+              {eventDefinitions.map((event) => (
+                <option key={event.key} value={event.key}>{event.icon} {event.name}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span style={labelStyle}>Sat out</span>
+            <select value={form.outKakId} onChange={(e) => setForm({ ...form, outKakId: e.target.value })} disabled={!selectedTeam} className="input" data-testid="select-override-out">
+              <option value="">— KAK —</option>
+              {selectedTeam?.members.map((member) => (
+                <option key={member.kakId} value={member.kakId}>{member.name}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span style={labelStyle}>Filled in</span>
+            <select value={form.inKakId} onChange={(e) => setForm({ ...form, inKakId: e.target.value })} className="input" data-testid="select-override-in">
+              <option value="">— KAK —</option>
+              {fillIns.map((kak) => (
+                <option key={kak.id} value={kak.id}>{kak.name}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => addMutation.mutate()}
+            disabled={!form.teamId || !form.event || !form.outKakId || !form.inKakId || addMutation.isPending}
+            className="btn-primary"
+            data-testid="button-add-override"
+          >
+            {addMutation.isPending ? "SAVING..." : "RECORD"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,14 @@
 import { useMemo, memo } from "react";
 import { useQuery } from "@tanstack/react-query";
-import type { Team } from "@shared/schema";
-import { calculateTop3FishTotal, rankFishTeams, rankChugTeams, rankGolfTeams } from "@shared/scoring";
+import type { TeamWithMembers, TieBreakAdjustment } from "@shared/schema";
+import { memberNames } from "@shared/teams";
+import type { TeamStanding } from "@shared/scoring";
+import type { EventDefinition } from "@shared/events";
+
+interface YearStandings {
+  standings: TeamStanding[];
+  tieBreaks: TieBreakAdjustment[];
+}
 
 interface StandingsTabProps {
   yearId: string;
@@ -18,185 +25,66 @@ const StandingsTab = memo(function StandingsTab({ yearId }: StandingsTabProps) {
     staleTime: 2_000,
   });
 
-  const { data: fishWeights, isLoading: fishLoading } = useQuery({
-    queryKey: ["/api/years", yearId, "fish-weights"],
-    queryFn: async () => {
-      const response = await fetch(`/api/years/${yearId}/fish-weights`);
-      return response.json();
-    },
-    staleTime: 2_000,
-  });
-
-  const { data: chugTimes, isLoading: chugLoading } = useQuery({
-    queryKey: ["/api/years", yearId, "chug-times"],
+  const { data: standingsData, isLoading: standingsLoading } = useQuery<YearStandings>({
+    queryKey: ["/api/years", yearId, "standings"],
     queryFn: async () => {
-      const response = await fetch(`/api/years/${yearId}/chug-times`);
+      const response = await fetch(`/api/years/${yearId}/standings`);
       return response.json();
     },
     staleTime: 2_000,
   });
 
-  const { data: golfScores, isLoading: golfLoading } = useQuery({
-    queryKey: ["/api/years", yearId, "golf-scores"],
+  const { data: eventDefinitions } = useQuery<EventDefinition[]>({
+    queryKey: ["/api/years", yearId, "event-definitions"],
     queryFn: async () => {
-      const response = await fetch(`/api/years/${yearId}/golf-scores`);
-      return response.json();
-    },
-    staleTime: 2_000,
-  });
-
-  const { data: tieBreaks, isLoading: tieBreaksLoading } = useQuery({
-    queryKey: ["/api/years", yearId, "tie-breaks"],
-    queryFn: async () => {
-      const response = await fetch(`/api/years/${yearId}/tie-breaks`);
+      const response = await fetch(`/api/years/${yearId}/event-definitions`);
       return response.json();
     },
     staleTime: 2_000,
   });
 
   // All useMemo hooks - must be called unconditionally
+  const customEvents = useMemo(
+    () => (Array.isArray(eventDefinitions) ? eventDefinitions.filter((e) => !e.builtin) : []),
+    [eventDefinitions]
+  );
+
   const sortedTeams = useMemo(() => {
     if (!teams || !Array.isArray(teams)) return [];
-    return [...teams].sort((a: Team, b: Team) => a.position - b.position);
+    return [...teams].sort((a: TeamWithMembers, b: TeamWithMembers) => a.position - b.position);
   }, [teams]);
 
   const standings = useMemo(() => {
-    if (sortedTeams.length === 0) return [];
-
-    // Calculate Fish Points
-    const fishPointsMap = new Map<string, number>();
-    if (fishWeights && Array.isArray(fishWeights) && fishWeights.length > 0) {
-      const teamWeights = new Map<string, number[]>();
-      fishWeights.forEach((fw: any) => {
-        const weight = parseFloat(fw.weight?.toString() || '0');
-        if (weight > 0) {
-          if (!teamWeights.has(fw.teamId)) {
-            teamWeights.set(fw.teamId, []);
-          }
-          teamWeights.get(fw.teamId)!.push(weight);
-        }
-      });
-
-      const teamTotals = new Map<string, number>();
-      teamWeights.forEach((weights, teamId) => {
-        const total = calculateTop3FishTotal(weights);
-        teamTotals.set(teamId, total);
-      });
-
-      const teamPoints = rankFishTeams(teamTotals);
-      teamPoints.forEach(({ teamId, points }) => {
-        fishPointsMap.set(teamId, points);
-      });
-    }
-
-    // Calculate Chug Points
-    const chugPointsMap = new Map<string, number>();
-    if (chugTimes && Array.isArray(chugTimes) && chugTimes.length > 0) {
-      const teamAverages = new Map<string, number>();
-      chugTimes
-        .filter((ct: any) => ct.average && parseFloat(ct.average) > 0)
-        .forEach((ct: any) => {
-          teamAverages.set(ct.teamId, parseFloat(ct.average?.toString() || '999'));
-        });
-
-      const teamPoints = rankChugTeams(teamAverages);
-      teamPoints.forEach(({ teamId, points }) => {
-        chugPointsMap.set(teamId, points);
-      });
-    }
-
-    // Calculate Golf Points
-    const golfPointsMap = new Map<string, number>();
-    if (golfScores && Array.isArray(golfScores) && golfScores.length > 0) {
-      const teamScores = new Map<string, number>();
-      golfScores
-        .filter((gs: any) => gs.score !== null && gs.score !== undefined)
-        .forEach((gs: any) => {
-          teamScores.set(gs.teamId, parseInt(gs.score?.toString() || '999'));
-        });
-
-      const teamPoints = rankGolfTeams(teamScores);
-      teamPoints.forEach(({ teamId, points }) => {
-        golfPointsMap.set(teamId, points);
+    if (sortedTeams.length === 0 || !Array.isArray(standingsData?.standings)) return [];
+
+    const teamsById = new Map<string, TeamWithMembers>(sortedTeams.map((t: TeamWithMembers) => [t.id, t]));
+
+    // Server returns teams already sorted by total points with rank labels and champ/boot flags
+    return standingsData.standings
+      .filter((standing) => teamsById.has(standing.teamId))
+      .map((standing) => {
+        const team = teamsById.get(standing.teamId)!;
+        return {
+          team,
+          members: memberNames(team.members),
+          fishPoints: standing.fish.points + standing.fish.adjustment,
+          chugPoints: standing.chug.points + standing.chug.adjustment,
+          golfPoints: standing.golf.points + standing.golf.adjustment,
+          customPoints: customEvents.map((e) => standing.events?.[e.key]?.points ?? 0),
+          totalPoints: standing.totalPoints,
+          rankDisplay: standing.rank,
+          isFirst: standing.isChamp,
+          isLast: standing.isBoot,
+        };
       });
-    }
-
-    // Apply tie-break adjustments
-    const fishAdjustments = new Map<string, number>();
-    const chugAdjustments = new Map<string, number>();
-    const golfAdjustments = new Map<string, number>();
-    const totalAdjustments = new Map<string, number>();
-    if (tieBreaks && Array.isArray(tieBreaks)) {
-      tieBreaks.forEach((tb: any) => {
-        const teamId = tb.teamId;
-        const delta = parseFloat(tb.deltaPoints?.toString() || "0");
-        if (!teamId || !Number.isFinite(delta)) return;
-        const event = tb.event;
-        if (event === "fish") {
-          fishAdjustments.set(teamId, (fishAdjustments.get(teamId) || 0) + delta);
-        } else if (event === "chug") {
-          chugAdjustments.set(teamId, (chugAdjustments.get(teamId) || 0) + delta);
-        } else if (event === "golf") {
-          golfAdjustments.set(teamId, (golfAdjustments.get(teamId) || 0) + delta);
-        } else {
-          totalAdjustments.set(teamId, (totalAdjustments.get(teamId) || 0) + delta);
-        }
-      });
-    }
-
-    // Calculate total standings
-    const standingsData = sortedTeams.map((team: Team) => {
-      const members = [team.kak1, team.kak2, team.kak3, team.kak4].filter(Boolean);
-      const fishPoints = (fishPointsMap.get(team.id) || 0) + (fishAdjustments.get(team.id) || 0);
-      const chugPoints = (chugPointsMap.get(team.id) || 0) + (chugAdjustments.get(team.id) || 0);
-      const golfPoints = (golfPointsMap.get(team.id) || 0) + (golfAdjustments.get(team.id) || 0);
-      const totalPoints = fishPoints + chugPoints + golfPoints + (totalAdjustments.get(team.id) || 0);
-
-      return {
-        team,
-        members,
-        fishPoints,
-        chugPoints,
-        golfPoints,
-        totalPoints
-      };
-    });
-
-    // Sort by total points (highest first)
-    standingsData.sort((a, b) => b.totalPoints - a.totalPoints);
-
-    // Pre-calculate rank information and place info to avoid repeated filtering during render
-    const teamsWithPoints = standingsData.filter(s => s.totalPoints > 0);
-    const maxPoints = teamsWithPoints.length > 0 ? Math.max(...teamsWithPoints.map(s => s.totalPoints)) : 0;
-    const minPoints = teamsWithPoints.length > 0 ? Math.min(...teamsWithPoints.map(s => s.totalPoints)) : 0;
-
-    // Enrich standings with rank display and place info
-    return standingsData.map((standing, index) => {
-      let rankDisplay = "-";
-      if (standing.totalPoints > 0) {
-        const tiedTeams = standingsData.filter(s => s.totalPoints === standing.totalPoints);
-        if (tiedTeams.length > 1) {
-          const firstTiedIndex = standingsData.findIndex(s => s.totalPoints === standing.totalPoints);
-          rankDisplay = `T-${firstTiedIndex + 1}`;
-        } else {
-          rankDisplay = `${index + 1}`;
-        }
-      }
-
-      return {
-        ...standing,
-        rankDisplay,
-        isFirst: standing.totalPoints === maxPoints && standing.totalPoints > 0,
-        isLast: standing.totalPoints === minPoints && standing.totalPoints > 0 && teamsWithPoints.length > 1
-      };
-    });
-  }, [sortedTeams, fishWeights, chugTimes, golfScores, tieBreaks]);
+  }, [sortedTeams, standingsData, customEvents]);
 
+  const tieBreaks = standingsData?.tieBreaks;
   const tieBreakSummary = useMemo(() => {
     if (!tieBreaks || !Array.isArray(tieBreaks) || tieBreaks.length === 0) return null;
     const teamNameById = new Map<string, string>();
-    sortedTeams.forEach((t: Team) => teamNameById.set(t.id, t.name));
-    const parts = tieBreaks.map((tb: any) => {
+    sortedTeams.forEach((t: TeamWithMembers) => teamNameById.set(t.id, t.name));
+    const parts = tieBreaks.map((tb) => {
       const teamName = teamNameById.get(tb.teamId) || "Unknown Team";
       const delta = parseFloat(tb.deltaPoints?.toString() || "0");
       const event = tb.event ? tb.event.toString().toUpperCase() : "TOTAL";
@@ -207,7 +95,7 @@ const StandingsTab = memo(function StandingsTab({ yearId }: StandingsTabProps) {
   }, [tieBreaks, sortedTeams]);
 
   // Now check loading state - AFTER all hooks
-  const isLoading = teamsLoading || fishLoading || chugLoading || golfLoading || tieBreaksLoading;
+  const isLoading = teamsLoading || standingsLoading;
 
   if (isLoading) {
     return (
@@ -229,13 +117,25 @@ const StandingsTab = memo(function StandingsTab({ yearId }: StandingsTabProps) {
             Tournament Standings
           </h2>
           <p style={{ fontFamily: "var(--font-mono)", fontSize: "0.7rem", color: "var(--text-dim)", marginTop: "0.25rem" }}>
-            Combined points from 🎣 · 🍺 · ⛳
+            Combined points from {["🎣", "🍺", "⛳", ...customEvents.map((e) => e.icon)].join(" · ")}
           </p>
           {tieBreakSummary && (
             <div style={{ marginTop: "0.6rem", fontFamily: "var(--font-mono)", fontSize: "0.7rem", color: "var(--ice)" }}>
               Tie-break applied: {tieBreakSummary}
             </div>
           )}
+          {sortedTeams.length > 0 && (
+            <div style={{ marginTop: "0.6rem", fontFamily: "var(--font-mono)", fontSize: "0.65rem", letterSpacing: "0.1em", color: "var(--text-dim)" }}>
+              EXPORT RESULTS:{" "}
+              <a href={`/api/years/${yearId}/export?format=csv`} download style={{ color: "var(--ice)" }} data-testid="link-export-csv">
+                CSV
+              </a>
+              {" · "}
+              <a href={`/api/years/${yearId}/export?format=json`} download style={{ color: "var(--ice)" }} data-testid="link-export-json">
+                JSON
+              </a>
+            </div>
+          )}
         </div>
 
         {sortedTeams.length === 0 ? (
@@ -256,9 +156,12 @@ const StandingsTab = memo(function StandingsTab({ yearId }: StandingsTabProps) {
                         { label: "🎣 PTS",    style: { width: "70px",   textAlign: "center" as const } },
                         { label: "🍺 PTS",    style: { width: "70px",   textAlign: "center" as const } },
                         { label: "⛳ PTS",    style: { width: "70px",   textAlign: "center" as const } },
+                        ...customEvents.map((e) => (
+                          { label: `${e.icon} PTS`, style: { width: "70px", textAlign: "center" as const } }
+                        )),
                         { label: "TOTAL",      style: { width: "80px",   textAlign: "center" as const } },
-                      ].map((h) => (
-                        <th key={h.label} style={{ padding: "0.5rem 0.75rem", ...h.style, fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.1em", color: "var(--ice)", fontWeight: 600, borderRight: "1px solid var(--border)" }}>
+                      ].map((h, i) => (
+                        <th key={`${h.label}-${i}`} style={{ padding: "0.5rem 0.75rem", ...h.style, fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.1em", color: "var(--ice)", fontWeight: 600, borderRight: "1px solid var(--border)" }}>
                           {h.label}
                         </th>
                       ))}
@@ -304,6 +207,11 @@ const StandingsTab = memo(function StandingsTab({ yearId }: StandingsTabProps) {
                           <td style={{ padding: "0.5rem 0.75rem", textAlign: "center", borderRight: "1px solid var(--border)", color: "var(--golf)", fontWeight: 600 }}>
                             {standing.golfPoints || 0}
                           </td>
+                          {standing.customPoints.map((pts: number, i: number) => (
+                            <td key={customEvents[i].key} style={{ padding: "0.5rem 0.75rem", textAlign: "center", borderRight: "1px solid var(--border)", color: "var(--foreground)", fontWeight: 600 }}>
+                              {pts || 0}
+                            </td>
+                          ))}
                           <td style={{ padding: "0.5rem 0.75rem", textAlign: "center", fontWeight: 700, fontSize: "1rem", color: isFirst ? "var(--ice)" : "var(--foreground)" }}>
                             {standing.totalPoints || 0}
                           </td>
@@ -358,11 +266,14 @@ const StandingsTab = memo(function StandingsTab({ yearId }: StandingsTabProps) {
                       </div>
                     </div>
 
-                    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: "0.5rem", fontFamily: "var(--font-mono)" }}>
+                    <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: "0.5rem", fontFamily: "var(--font-mono)" }}>
                       {[
                         { icon: "🎣", label: "Fish",  pts: standing.fishPoints || 0,  color: "var(--ice)" },
                         { icon: "🍺", label: "Chug",  pts: standing.chugPoints || 0,  color: "var(--chug)" },
                         { icon: "⛳", label: "Golf",  pts: standing.golfPoints || 0,  color: "var(--golf)" },
+                        ...customEvents.map((e, i) => (
+                          { icon: e.icon, label: e.name, pts: standing.customPoints[i] || 0, color: "var(--foreground)" }
+                        )),
                       ].map((ev) => (
                         <div key={ev.label} style={{ textAlign: "center", background: "rgba(0,0,0,0.3)", border: "1px solid var(--border)", padding: "0.35rem 0.25rem" }}>
                           <span style={{ fontSize: "0.9rem", color: ev.color, display: "block", lineHeight: 1, paddingTop: "0.1rem" }}>{ev.icon}</span>
@@ -1,11 +1,17 @@
 import { useState, useEffect, useRef, memo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { Link } from "wouter";
+import { apiErrorMessage, apiRequest, versionedRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
 import { isUnauthorizedError, isAdminError } from "@/lib/authUtils";
 import { useToast } from "@/hooks/use-toast";
 import { Edit, X, Lock, Unlock, Plus } from "@/components/icons";
-import type { Team, Kak } from "@shared/schema";
+import type { TeamWithMembers, Kak } from "@shared/schema";
+import { MAX_TEAMS, TEAM_SIZE } from "@shared/draft";
+import { MAX_TEAM_MEMBERS, type TeamMemberInput, type TeamMemberRole } from "@shared/teams";
+import DraftGenerator from "@/components/DraftGenerator";
+import LiveDraft from "@/components/LiveDraft";
+import RosterOverrides from "@/components/RosterOverrides";
 
 // ---------------------------------------------------------------------------
 // KakCombobox — searchable dropdown that selects an active KAK
@@ -103,6 +109,29 @@ function KakCombobox({ value, onChange, kaks, placeholder = "Search KAK…", tes
   );
 }
 
+/** A roster row in the team modals; kakId stays empty until a KAK is picked */
+interface MemberDraft {
+  kakId: string;
+  name: string;
+  role: TeamMemberRole;
+}
+
+const emptyModalForm = () => ({
+  name: "",
+  members: Array.from({ length: TEAM_SIZE }, (): MemberDraft => ({ kakId: "", name: "", role: "player" })),
+});
+
+const fieldLabelStyle = { display: "block", fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.12em", color: "var(--ice)", textTransform: "uppercase" } as const;
+
+/** The team already holding a KAK, from a 409 on a team write */
+function conflictFrom(error: any): { kakId: string; teamName: string } | undefined {
+  try {
+    return JSON.parse(error?.response).conflict;
+  } catch {
+    return undefined;
+  }
+}
+
 interface TeamsTabProps {
   yearId: string;
 }
@@ -112,19 +141,18 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
   const { isAdmin } = useAuth();
   const { toast } = useToast();
   const [editingTeam, setEditingTeam] = useState<string | null>(null);
+  // The team's version when the inline edit began, so a save can tell if someone else got there first
+  const [editingVersion, setEditingVersion] = useState(0);
   const [editingField, setEditingField] = useState<string | null>(null);
   const [editValue, setEditValue] = useState("");
 
   const [showEditModal, setShowEditModal] = useState(false);
-  const [selectedTeam, setSelectedTeam] = useState<Team | null>(null);
+  const [selectedTeam, setSelectedTeam] = useState<TeamWithMembers | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
-  const [modalForm, setModalForm] = useState({
-    name: "",
-    kak1Id: "", kak1Name: "",
-    kak2Id: "", kak2Name: "",
-    kak3Id: "", kak3Name: "",
-    kak4Id: "", kak4Name: "",
-  });
+  const [showDraft, setShowDraft] = useState(false);
+  const [kakConflict, setKakConflict] = useState<{ kakId: string; teamName: string } | null>(null);
+  const [showLiveDraft, setShowLiveDraft] = useState(false);
+  const [modalForm, setModalForm] = useState(emptyModalForm);
 
   const { data: activeKaks = [] } = useQuery<Kak[]>({
     queryKey: ["/api/kaks", "active"],
@@ -132,7 +160,7 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
     staleTime: 60_000,
   });
 
-  const { data: teams, isLoading } = useQuery<Team[]>({
+  const { data: teams, isLoading } = useQuery<TeamWithMembers[]>({
     queryKey: ["/api/years", yearId, "teams"],
     queryFn: async () => {
       return await apiRequest(`/api/years/${yearId}/teams`);
@@ -143,22 +171,34 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
 
 
   const updateTeamMutation = useMutation({
-    mutationFn: async ({ teamId, data }: { teamId: string; data: any }) => {
-      return await apiRequest(`/api/teams/${teamId}`, "PUT", data);
+    mutationFn: async ({ teamId, version, data }: { teamId: string; version: number; data: any }) => {
+      return await versionedRequest(`/api/teams/${teamId}`, "PUT", data, version, "this team");
     },
-    onSuccess: () => {
+    onSuccess: (team: TeamWithMembers | null) => {
       queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "teams"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "roster-overrides"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
       setEditingTeam(null);
       setEditingField(null);
       setEditValue("");
       setShowEditModal(false);
       setSelectedTeam(null);
-      toast({
+      toast(team === null ? {
+        title: "Team reloaded",
+        description: "Your change wasn't saved. Here's the team as it is now.",
+      } : {
         title: "Success",
         description: "Team updated successfully!",
       });
     },
     onError: (error: any) => {
+      // Shown next to the KAK in the edit modal rather than as a toast
+      const conflict = error?.status === 409 ? conflictFrom(error) : undefined;
+      if (conflict) {
+        setKakConflict(conflict);
+        return;
+      }
+
       if (isUnauthorizedError(error)) {
         toast({
           title: "Unauthorized",
@@ -196,6 +236,7 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
     const team = teams?.find(t => t.id === teamId);
     if (team?.locked) return; // Prevent editing locked teams
     setEditingTeam(teamId);
+    setEditingVersion(team?.version ?? 0);
     setEditingField(field);
     setEditValue(currentValue || "");
   };
@@ -205,6 +246,7 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
     
     updateTeamMutation.mutate({
       teamId: editingTeam,
+      version: editingVersion,
       data: { [editingField]: editValue }
     });
   };
@@ -224,65 +266,73 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
   };
 
   const resetModalForm = () => {
-    setModalForm({
-      name: "",
-      kak1Id: "", kak1Name: "",
-      kak2Id: "", kak2Name: "",
-      kak3Id: "", kak3Name: "",
-      kak4Id: "", kak4Name: "",
-    });
+    setModalForm(emptyModalForm());
   };
 
-  const openEditModal = (team: Team) => {
+  const openEditModal = (team: TeamWithMembers) => {
     if (team.locked) return;
     setSelectedTeam(team);
-    // Resolve names from active kaks list when FK ids are present; fall back to legacy text
-    const nameFor = (id: string | null | undefined, legacy: string | null | undefined) => {
-      if (id) return activeKaks.find(k => k.id === id)?.name ?? legacy ?? "";
-      return legacy ?? "";
-    };
     setModalForm({
       name: team.name,
-      kak1Id: (team as any).kak1Id ?? "",
-      kak1Name: nameFor((team as any).kak1Id, team.kak1),
-      kak2Id: (team as any).kak2Id ?? "",
-      kak2Name: nameFor((team as any).kak2Id, team.kak2),
-      kak3Id: (team as any).kak3Id ?? "",
-      kak3Name: nameFor((team as any).kak3Id, team.kak3),
-      kak4Id: (team as any).kak4Id ?? "",
-      kak4Name: nameFor((team as any).kak4Id, team.kak4),
+      members: team.members.length > 0
+        ? team.members.map(({ kakId, name, role }) => ({ kakId, name, role }))
+        : emptyModalForm().members,
     });
+    setKakConflict(null);
     setShowEditModal(true);
   };
 
-  const handleToggleLock = async (team: Team) => {
+  const updateMember = (index: number, change: Partial<MemberDraft>) => {
+    setKakConflict(null);
+    setModalForm(prev => ({ ...prev, members: prev.members.map((m, i) => (i === index ? { ...m, ...change } : m)) }));
+  };
+
+  const addMember = (role: TeamMemberRole) => {
+    setModalForm(prev => ({ ...prev, members: [...prev.members, { kakId: "", name: "", role }] }));
+  };
+
+  const removeMember = (index: number) => {
+    setKakConflict(null);
+    setModalForm(prev => ({ ...prev, members: prev.members.filter((_, i) => i !== index) }));
+  };
+
+  const handleToggleLock = async (team: TeamWithMembers) => {
     updateTeamMutation.mutate({
       teamId: team.id,
+      version: team.version,
       data: { locked: !team.locked }
     });
   };
 
-  const isTeamFilled = (team: Team) => {
-    // Accept either legacy text columns or the new FK columns being populated
-    const hasText = team.kak1 && team.kak2 && team.kak3 && team.kak4;
-    const hasFk = (team as any).kak1Id && (team as any).kak2Id && (team as any).kak3Id && (team as any).kak4Id;
-    return hasText || hasFk;
-  };
+  const isTeamFilled = (team: TeamWithMembers) => team.members.some(m => m.role === "player");
 
+  // Adds just the new team; the server turns it away if its position was
+  // taken or a KAK joined another team since this tab loaded
   const createTeamMutation = useMutation({
-    mutationFn: async (data: any) => {
-      return await apiRequest(`/api/years/${yearId}/teams`, "POST", data);
+    mutationFn: async (team: { name: string; position: number; members: TeamMemberInput[] }) => {
+      return await apiRequest(`/api/years/${yearId}/teams`, "POST", team);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "teams"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
       setShowAddModal(false);
+      setSelectedTeam(null);
       resetModalForm();
       toast({
         title: "Success",
-        description: "Team created successfully!",
+        description: "Team added successfully!",
       });
     },
     onError: (error: any) => {
+      // Someone else may have added a team; refresh so the next try picks a free position
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "teams"] });
+
+      const conflict = error?.status === 409 ? conflictFrom(error) : undefined;
+      if (conflict) {
+        setKakConflict(conflict);
+        return;
+      }
+
       if (isUnauthorizedError(error)) {
         toast({
           title: "Unauthorized",
@@ -298,7 +348,7 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
       if (isAdminError(error)) {
         toast({
           title: "Admin Access Required",
-          description: "Only admin users can create teams.",
+          description: "Only admin users can change teams.",
           variant: "destructive",
         });
         return;
@@ -306,19 +356,23 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
       
       toast({
         title: "Error",
-        description: "Failed to create team. Please try again.",
+        description: apiErrorMessage(error) ?? "Failed to add team. Please try again.",
         variant: "destructive",
       });
     }
   });
 
+  const modalMembers = (): TeamMemberInput[] => modalForm.members.map(({ kakId, role }) => ({ kakId, role }));
+
   const openAddModal = () => {
     resetModalForm();
+    setSelectedTeam(null);
+    setKakConflict(null);
     setShowAddModal(true);
   };
 
   const handleCreateTeam = () => {
-    if (!validateForm()) return;
+    if (!validateForm() || hasMemberConflict()) return;
 
     const existingPositions = teams?.map(t => t.position) || [];
     let nextPosition = 1;
@@ -330,41 +384,82 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
       return;
     }
 
-    createTeamMutation.mutate({
-      yearId,
-      name: modalForm.name.trim(),
-      position: nextPosition,
-      // Populate both legacy text columns and FK columns
-      kak1: modalForm.kak1Name, kak1Id: modalForm.kak1Id || undefined,
-      kak2: modalForm.kak2Name, kak2Id: modalForm.kak2Id || undefined,
-      kak3: modalForm.kak3Name, kak3Id: modalForm.kak3Id || undefined,
-      kak4: modalForm.kak4Name, kak4Id: modalForm.kak4Id || undefined,
-      locked: false,
-    });
+    createTeamMutation.mutate({ name: modalForm.name.trim(), position: nextPosition, members: modalMembers() });
   };
 
+  // Every roster row needs a KAK, and a team needs at least one player
   const validateForm = () => {
     return (
       modalForm.name.trim() !== "" &&
-      modalForm.kak1Name.trim() !== "" &&
-      modalForm.kak2Name.trim() !== "" &&
-      modalForm.kak3Name.trim() !== "" &&
-      modalForm.kak4Name.trim() !== ""
+      modalForm.members.every(m => m.kakId !== "") &&
+      modalForm.members.some(m => m.role === "player")
+    );
+  };
+
+  // The server names the team holding a KAK on a 409; this catches the same
+  // clash before saving, from the teams already loaded
+  const memberConflict = (index: number): string | null => {
+    const kakId = modalForm.members[index].kakId;
+    if (!kakId) return null;
+    if (kakConflict?.kakId === kakId) return kakConflict.teamName;
+    if (modalForm.members.some((m, i) => i < index && m.kakId === kakId)) return "this team";
+    const holder = teams?.find((team) =>
+      team.id !== selectedTeam?.id && team.members.some(m => m.kakId === kakId)
     );
+    return holder?.name ?? null;
   };
 
+  const hasMemberConflict = () => modalForm.members.some((_, i) => memberConflict(i) !== null);
+
+  const conflictNote = (index: number) => {
+    const teamName = memberConflict(index);
+    if (!teamName) return null;
+    return (
+      <p style={{ fontFamily: "var(--font-mono)", fontSize: "0.7rem", color: "var(--destructive)", marginTop: "0.25rem" }} data-testid={`text-kak${index + 1}-conflict`}>
+        Already on {teamName}
+      </p>
+    );
+  };
+
+  // Roster rows shared by the add and edit modals: pick a KAK, mark them a
+  // sub or a player, and grow or shrink the team
+  const memberFields = (mode: "add" | "edit") => (
+    <>
+      {modalForm.members.map((member, i) => (
+        <div key={i}>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "0.375rem" }}>
+            <label style={fieldLabelStyle}>{member.role === "sub" ? "Sub" : "KAK"} {i + 1}</label>
+            <div style={{ display: "flex", alignItems: "center", gap: "0.25rem" }}>
+              <button type="button" onClick={() => updateMember(i, { role: member.role === "sub" ? "player" : "sub" })} className="btn-ghost text-xs" data-testid={`button-${mode}-kak${i + 1}-role`}>
+                {member.role === "sub" ? "Make player" : "Make sub"}
+              </button>
+              {modalForm.members.length > 1 && (
+                <button type="button" onClick={() => removeMember(i)} style={{ background: "none", border: "none", cursor: "pointer", color: "var(--text-dim)", padding: "0.25rem" }} data-testid={`button-${mode}-remove-kak${i + 1}`}>
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+          </div>
+          <KakCombobox value={member.name} kaks={activeKaks} onChange={(kakId, name) => updateMember(i, { kakId, name })} placeholder="Search KAK…" testId={`input-${mode}-kak${i + 1}`} />
+          {conflictNote(i)}
+        </div>
+      ))}
+      {modalForm.members.length < MAX_TEAM_MEMBERS && (
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          <button type="button" onClick={() => addMember("player")} className="btn-ghost text-xs" data-testid={`button-${mode}-add-player`}>+ Player</button>
+          <button type="button" onClick={() => addMember("sub")} className="btn-ghost text-xs" data-testid={`button-${mode}-add-sub`}>+ Sub</button>
+        </div>
+      )}
+    </>
+  );
+
   const handleUpdateTeam = () => {
-    if (!validateForm() || !selectedTeam) return;
+    if (!validateForm() || hasMemberConflict() || !selectedTeam) return;
 
     updateTeamMutation.mutate({
       teamId: selectedTeam.id,
-      data: {
-        name: modalForm.name.trim(),
-        kak1: modalForm.kak1Name, kak1Id: modalForm.kak1Id || undefined,
-        kak2: modalForm.kak2Name, kak2Id: modalForm.kak2Id || undefined,
-        kak3: modalForm.kak3Name, kak3Id: modalForm.kak3Id || undefined,
-        kak4: modalForm.kak4Name, kak4Id: modalForm.kak4Id || undefined,
-      },
+      version: selectedTeam.version,
+      data: { name: modalForm.name.trim(), members: modalMembers() },
     });
   };
 
@@ -380,16 +475,28 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
     );
   }
 
-  const sortedTeams = teams?.sort((a: Team, b: Team) => a.position - b.position) || [];
+  const sortedTeams = teams?.sort((a: TeamWithMembers, b: TeamWithMembers) => a.position - b.position) || [];
+  // Four columns for the usual team; more when a roster runs longer
+  const memberColumns = Math.max(TEAM_SIZE, ...sortedTeams.map(team => team.members.length));
 
   return (
     <div style={{ padding: "1rem", background: "var(--background)" }}>
       {/* Add Team Button */}
-      <div style={{ marginBottom: "1rem", display: "flex", justifyContent: "flex-end" }}>
+      <div style={{ marginBottom: "1rem", display: "flex", justifyContent: "flex-end", gap: "0.5rem" }}>
+        {isAdmin && sortedTeams.length === 0 && (
+          <button onClick={() => setShowDraft(true)} className="btn-ghost flex items-center gap-2" data-testid="button-draft-teams">
+            Draft Teams
+          </button>
+        )}
+        {isAdmin && sortedTeams.length === 0 && (
+          <button onClick={() => setShowLiveDraft(true)} className="btn-ghost flex items-center gap-2" data-testid="button-live-draft">
+            Live Draft
+          </button>
+        )}
         {isAdmin && (
           <button
             onClick={openAddModal}
-            disabled={(teams?.length || 0) >= 7}
+            disabled={(teams?.length || 0) >= MAX_TEAMS}
             className="btn-primary flex items-center gap-2"
             data-testid="button-add-team"
           >
@@ -405,10 +512,19 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
             Teams
           </h2>
         </div>
+        {sortedTeams.length === 0 && (
+          <LiveDraft
+            yearId={yearId}
+            isAdmin={isAdmin}
+            activeKaks={activeKaks}
+            setupOpen={showLiveDraft}
+            onCloseSetup={() => setShowLiveDraft(false)}
+          />
+        )}
         {sortedTeams.length === 0 ? (
           <div style={{ textAlign: "center", padding: "3rem", background: "var(--card)", border: "1px solid var(--border-hi)", clipPath: "var(--clip-md)", margin: "0 1rem" }}>
             <p style={{ fontFamily: "var(--font-display)", fontSize: "0.7rem", letterSpacing: "0.1em", color: "var(--text-dim)" }}>NO TEAMS YET</p>
-            <p style={{ fontFamily: "var(--font-mono)", fontSize: "0.75rem", color: "var(--text-dim)", marginTop: "0.5rem" }}>Click "Add Team" to create the first team</p>
+            <p style={{ fontFamily: "var(--font-mono)", fontSize: "0.75rem", color: "var(--text-dim)", marginTop: "0.5rem" }}>Click "Add Team" to create the first team, "Draft Teams" to generate them all, or "Live Draft" to let captains pick</p>
           </div>
         ) : (
           <>
@@ -419,7 +535,7 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
                   <thead>
                     <tr style={{ background: "rgba(255,90,0,0.06)", borderBottom: "1px solid rgba(255,90,0,0.2)" }}>
                       <th style={{ padding: "0.5rem 0.75rem", textAlign: "left", fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.1em", color: "var(--ice)", fontWeight: 600, borderRight: "1px solid var(--border)", minWidth: "150px", maxWidth: "220px" }}>TEAM</th>
-                      {["KAK 1","KAK 2","KAK 3","KAK 4"].map(h => (
+                      {Array.from({ length: memberColumns }, (_, i) => `KAK ${i + 1}`).map(h => (
                         <th key={h} style={{ padding: "0.5rem 0.75rem", textAlign: "center", fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.1em", color: "var(--ice)", fontWeight: 600, borderRight: "1px solid var(--border)", width: "100px" }}>{h}</th>
                       ))}
                       {isAdmin && (
@@ -428,7 +544,7 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
                     </tr>
                   </thead>
                   <tbody>
-                    {sortedTeams.map((team: Team) => (
+                    {sortedTeams.map((team: TeamWithMembers) => (
                       <tr
                         key={team.id}
                         style={{ borderBottom: "1px solid var(--border)", transition: "background 0.15s" }}
@@ -445,15 +561,16 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
                             </button>
                           )}
                         </td>
-                        {/* KAK 1-4 */}
-                        {(["kak1","kak2","kak3","kak4"] as const).map(field => (
-                          <td key={field} style={{ padding: "0.5rem 0.75rem", textAlign: "center", borderRight: "1px solid var(--border)", width: "100px" }}>
-                            {editingTeam === team.id && editingField === field ? (
-                              <input type="text" value={editValue} onChange={(e) => setEditValue(e.target.value)} onKeyDown={handleKeyPress} onBlur={handleSave} className="input w-full" autoFocus data-testid={`input-${field}-${team.position}`} />
+                        {/* Roster, in slot order */}
+                        {Array.from({ length: memberColumns }, (_, i) => team.members[i]).map((member, i) => (
+                          <td key={i} style={{ padding: "0.5rem 0.75rem", textAlign: "center", borderRight: "1px solid var(--border)", width: "100px" }}>
+                            {member ? (
+                              <Link href={`/kak/${member.kakId}`} style={{ display: "block", padding: "0.125rem", color: "var(--foreground)", fontFamily: "var(--font-mono)", fontSize: "0.8rem" }} data-testid={`link-kak${i + 1}-${team.position}`}>
+                                {member.name}
+                                {member.role === "sub" && <span style={{ marginLeft: "0.25rem", fontSize: "0.6rem", color: "var(--text-dim)" }}>SUB</span>}
+                              </Link>
                             ) : (
-                              <button onClick={() => handleEdit(team.id, field, team[field] || "")} disabled={team.locked} style={{ display: "block", width: "100%", background: "none", border: "none", padding: "0.125rem", cursor: team.locked ? "default" : "pointer", color: team[field] ? "var(--foreground)" : "var(--text-muted)", fontFamily: "var(--font-mono)", fontSize: "0.8rem" }} data-testid={`${field}-${team.position}`}>
-                                {team[field] || "—"}
-                              </button>
+                              <span style={{ color: "var(--text-muted)", fontFamily: "var(--font-mono)", fontSize: "0.8rem" }}>—</span>
                             )}
                           </td>
                         ))}
@@ -484,7 +601,7 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
 
             {/* Mobile Cards */}
             <div className="md:hidden flex flex-col gap-3 px-2">
-              {sortedTeams.map((team: Team) => (
+              {sortedTeams.map((team: TeamWithMembers) => (
                 <div key={team.id} style={{ background: "var(--card)", border: "1px solid var(--border-hi)", clipPath: "var(--clip-sm)", padding: "1rem" }}>
                   <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: "0.75rem" }}>
                     <div>
@@ -509,28 +626,37 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
                     )}
                   </div>
                   <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "0.5rem" }}>
-                    {(["kak1","kak2","kak3","kak4"] as const).map((field, i) => (
-                      <div key={field}>
-                        <span style={{ fontFamily: "var(--font-display)", fontSize: "0.55rem", letterSpacing: "0.1em", color: "var(--text-dim)" }}>KAK {i+1}</span>
-                        <div style={{ fontFamily: "var(--font-mono)", fontSize: "0.8rem", color: team[field] ? "var(--foreground)" : "var(--text-muted)" }}>
-                          {team[field] || "—"}
+                    {team.members.map((member, i) => (
+                      <div key={member.kakId}>
+                        <span style={{ fontFamily: "var(--font-display)", fontSize: "0.55rem", letterSpacing: "0.1em", color: "var(--text-dim)" }}>{member.role === "sub" ? "SUB" : "KAK"} {i + 1}</span>
+                        <div style={{ fontFamily: "var(--font-mono)", fontSize: "0.8rem", color: "var(--foreground)" }}>
+                          <Link href={`/kak/${member.kakId}`} style={{ color: "inherit" }} data-testid={`link-kak${i + 1}-card-${team.position}`}>
+                            {member.name}
+                          </Link>
                         </div>
                       </div>
                     ))}
+                    {team.members.length === 0 && (
+                      <span style={{ fontFamily: "var(--font-mono)", fontSize: "0.8rem", color: "var(--text-muted)" }}>No KAKs yet</span>
+                    )}
                   </div>
                 </div>
               ))}
             </div>
+
+            <RosterOverrides yearId={yearId} isAdmin={isAdmin} teams={sortedTeams} />
           </>
         )}
       </div>
 
 
 
+      {showDraft && <DraftGenerator yearId={yearId} activeKaks={activeKaks} onClose={() => setShowDraft(false)} />}
+
       {/* Edit Team Modal */}
       {showEditModal && selectedTeam && (
         <div style={{ position: "fixed", inset: 0, background: "rgba(0,0,0,0.75)", display: "flex", alignItems: "center", justifyContent: "center", zIndex: 50 }} onClick={() => setShowEditModal(false)}>
-          <div style={{ background: "var(--card)", border: "1px solid var(--border-hi)", clipPath: "var(--clip-lg)", padding: "1.5rem", width: "100%", maxWidth: "420px", margin: "0 1rem" }} onClick={(e) => e.stopPropagation()}>
+          <div style={{ background: "var(--card)", border: "1px solid var(--border-hi)", clipPath: "var(--clip-lg)", padding: "1.5rem", width: "100%", maxWidth: "420px", maxHeight: "90vh", overflowY: "auto", margin: "0 1rem" }} onClick={(e) => e.stopPropagation()}>
             <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "1.25rem" }}>
               <h3 style={{ fontFamily: "var(--font-display)", fontSize: "0.75rem", letterSpacing: "0.12em", textTransform: "uppercase", color: "var(--orange)" }}>Edit Team</h3>
               <button onClick={() => setShowEditModal(false)} style={{ background: "none", border: "none", cursor: "pointer", color: "var(--text-dim)", padding: "0.25rem" }} data-testid="button-close-edit-modal">
@@ -542,16 +668,11 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
                 <label style={{ display: "block", fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.12em", color: "var(--ice)", textTransform: "uppercase", marginBottom: "0.375rem" }}>Team Name</label>
                 <input type="text" value={modalForm.name} onChange={(e) => setModalForm(prev => ({ ...prev, name: e.target.value }))} className="input w-full" placeholder="Enter team name" data-testid="input-edit-team-name" />
               </div>
-              {([1, 2, 3, 4] as const).map(n => (
-                <div key={n}>
-                  <label style={{ display: "block", fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.12em", color: "var(--ice)", textTransform: "uppercase", marginBottom: "0.375rem" }}>KAK {n}</label>
-                  <KakCombobox value={modalForm[`kak${n}Name`]} kaks={activeKaks} onChange={(id, name) => setModalForm(prev => ({ ...prev, [`kak${n}Id`]: id, [`kak${n}Name`]: name }))} placeholder="Search KAK…" testId={`input-edit-kak${n}`} />
-                </div>
-              ))}
+              {memberFields("edit")}
             </div>
             <div style={{ display: "flex", gap: "0.75rem", marginTop: "1.5rem" }}>
               <button onClick={() => setShowEditModal(false)} className="btn-secondary flex-1" data-testid="button-cancel-edit">Cancel</button>
-              <button onClick={handleUpdateTeam} disabled={!validateForm() || updateTeamMutation.isPending} className="btn-primary flex-1" data-testid="button-save-edit">
+              <button onClick={handleUpdateTeam} disabled={!validateForm() || hasMemberConflict() || updateTeamMutation.isPending} className="btn-primary flex-1" data-testid="button-save-edit">
                 {updateTeamMutation.isPending ? "UPDATING..." : "UPDATE TEAM"}
               </button>
             </div>
@@ -562,7 +683,7 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
       {/* Add Team Modal */}
       {showAddModal && (
         <div style={{ position: "fixed", inset: 0, background: "rgba(0,0,0,0.75)", display: "flex", alignItems: "center", justifyContent: "center", zIndex: 50 }} onClick={() => setShowAddModal(false)}>
-          <div style={{ background: "var(--card)", border: "1px solid var(--border-hi)", clipPath: "var(--clip-lg)", padding: "1.5rem", width: "100%", maxWidth: "420px", margin: "0 1rem" }} onClick={(e) => e.stopPropagation()}>
+          <div style={{ background: "var(--card)", border: "1px solid var(--border-hi)", clipPath: "var(--clip-lg)", padding: "1.5rem", width: "100%", maxWidth: "420px", maxHeight: "90vh", overflowY: "auto", margin: "0 1rem" }} onClick={(e) => e.stopPropagation()}>
             <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "1.25rem" }}>
               <h3 style={{ fontFamily: "var(--font-display)", fontSize: "0.75rem", letterSpacing: "0.12em", textTransform: "uppercase", color: "var(--orange)" }}>Add New Team</h3>
               <button onClick={() => setShowAddModal(false)} style={{ background: "none", border: "none", cursor: "pointer", color: "var(--text-dim)", padding: "0.25rem" }} data-testid="button-close-add-modal">
@@ -574,16 +695,11 @@ const TeamsTab = memo(function TeamsTab({ yearId }: TeamsTabProps) {
                 <label style={{ display: "block", fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.12em", color: "var(--ice)", textTransform: "uppercase", marginBottom: "0.375rem" }}>Team Name</label>
                 <input type="text" value={modalForm.name} onChange={(e) => setModalForm(prev => ({ ...prev, name: e.target.value }))} className="input w-full" placeholder="Enter team name" data-testid="input-add-team-name" />
               </div>
-              {([1, 2, 3, 4] as const).map(n => (
-                <div key={n}>
-                  <label style={{ display: "block", fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.12em", color: "var(--ice)", textTransform: "uppercase", marginBottom: "0.375rem" }}>KAK {n}</label>
-                  <KakCombobox value={modalForm[`kak${n}Name`]} kaks={activeKaks} onChange={(id, name) => setModalForm(prev => ({ ...prev, [`kak${n}Id`]: id, [`kak${n}Name`]: name }))} placeholder="Search KAK…" testId={`input-add-kak${n}`} />
-                </div>
-              ))}
+              {memberFields("add")}
             </div>
             <div style={{ display: "flex", gap: "0.75rem", marginTop: "1.5rem" }}>
               <button onClick={() => setShowAddModal(false)} className="btn-secondary flex-1" data-testid="button-cancel-add">Cancel</button>
-              <button onClick={handleCreateTeam} disabled={!validateForm() || createTeamMutation.isPending} className="btn-primary flex-1" data-testid="button-save-add">
+              <button onClick={handleCreateTeam} disabled={!validateForm() || hasMemberConflict() || createTeamMutation.isPending} className="btn-primary flex-1" data-testid="button-save-add">
                 {createTeamMutation.isPending ? "SAVING..." : "SAVE TEAM"}
               </button>
             </div>
@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react"
-import type { ReactNode } from "react"
+import type { ReactElement, ReactNode } from "react"
 import { cn } from "@/lib/utils"
 
 export type ToastVariant = "default" | "destructive"
@@ -8,13 +8,15 @@ export type ToastProps = {
   open?: boolean
   onOpenChange?: (open: boolean) => void
   variant?: ToastVariant
+  /** How long the toast stays open, in ms. Toasts with an action need longer. */
+  duration?: number
   className?: string
   children?: ReactNode
 }
 
-export type ToastActionElement = never
+export type ToastActionElement = ReactElement
 
-export function Toast({ open, onOpenChange, children, className }: ToastProps) {
+export function Toast({ open, onOpenChange, duration = 800, children, className }: ToastProps) {
   const [visible, setVisible] = useState(false)
 
   useEffect(() => {
@@ -23,7 +25,7 @@ export function Toast({ open, onOpenChange, children, className }: ToastProps) {
       requestAnimationFrame(() => setVisible(true))
       const timer = setTimeout(() => {
         onOpenChange?.(false)
-      }, 800)
+      }, duration)
       return () => clearTimeout(timer)
     } else {
       setVisible(false)
@@ -45,6 +47,18 @@ export function Toast({ open, onOpenChange, children, className }: ToastProps) {
   )
 }
 
+export function ToastAction({ onClick, children }: { onClick: () => void; children: ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="ml-2 mr-1 text-sm font-semibold uppercase tracking-wide text-[var(--orange)] hover:text-[var(--orange-hi)]"
+    >
+      {children}
+    </button>
+  )
+}
+
 export function ToastViewport({ children }: { children?: ReactNode }) {
   return (
     <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[100] flex items-center justify-center">
@@ -7,7 +7,7 @@ export function Toaster() {
 
   return (
     <ToastViewport>
-      {toasts.map(function ({ id, title, variant, ...props }) {
+      {toasts.map(function ({ id, title, variant, action, ...props }) {
         const isError = variant === "destructive" ||
           title === "Error" ||
           title === "Unauthorized" ||
@@ -22,6 +22,7 @@ export function Toaster() {
             ) : (
               <Check className="h-5 w-5 text-green-500" />
             )}
+            {action}
           </Toast>
         )
       })}
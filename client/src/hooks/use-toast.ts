@@ -1,14 +1,18 @@
 import * as React from "react"
 
-import type { ToastProps } from "@/components/ui/toast"
+import type { ToastActionElement, ToastProps } from "@/components/ui/toast"
 
 const TOAST_LIMIT = 1
 const TOAST_REMOVE_DELAY = 5
 
+/** Open time for toasts that offer an Undo action. */
+export const UNDO_TOAST_DURATION = 5000
+
 type ToasterToast = ToastProps & {
   id: string
   title?: React.ReactNode
   description?: React.ReactNode
+  action?: ToastActionElement
 }
 
 const actionTypes = {
@@ -0,0 +1,29 @@
+import { useMemo, useRef } from "react";
+
+/**
+ * One Idempotency-Key per score entry, kept until the entry is saved. A
+ * double-tap or a resend after a dropped response reuses the key, so the
+ * server answers it with the first result instead of adding the score twice.
+ * Changing the values makes it a different request, so it gets a fresh key
+ * rather than one the server would turn away for not matching.
+ */
+export function useEntryKeys() {
+  const keys = useRef(new Map<string, { key: string; payload: string }>());
+
+  return useMemo(() => ({
+    /** The key for an entry (e.g. a team's fish form) with these values, made on first use */
+    get(entry: string, values: unknown): string {
+      const payload = JSON.stringify(values);
+      let current = keys.current.get(entry);
+      if (!current || current.payload !== payload) {
+        current = { key: crypto.randomUUID(), payload };
+        keys.current.set(entry, current);
+      }
+      return current.key;
+    },
+    /** Call once the entry is saved so the next one gets a fresh key */
+    done(entry: string) {
+      keys.current.delete(entry);
+    },
+  }), []);
+}
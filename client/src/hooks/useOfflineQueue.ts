@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+
+type OfflineQueueMessage = {
+  type: "OFFLINE_QUEUE";
+  pending: number;
+  synced: number;
+  failed: number;
+};
+
+/** The toast a score entry shows when it was queued rather than sent */
+export const queuedOfflineToast = {
+  title: "Saved offline",
+  description: "No signal right now. It will sync as soon as you're back online.",
+};
+
+/**
+ * How many score entries the service worker is holding until there's signal.
+ * Asks it to send them when the page opens and whenever the browser comes
+ * back online, and refreshes the data once they land.
+ */
+export function useOfflineQueue(): number {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [pending, setPending] = useState(0);
+
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+    const serviceWorker = navigator.serviceWorker;
+
+    const onMessage = (e: MessageEvent) => {
+      const message = e.data as OfflineQueueMessage | undefined;
+      if (message?.type !== "OFFLINE_QUEUE") return;
+      setPending(message.pending);
+      if (message.synced > 0) queryClient.invalidateQueries();
+      if (message.failed > 0) {
+        toast({
+          title: "Some offline entries weren't saved",
+          description: `${message.failed} queued ${message.failed === 1 ? "entry was" : "entries were"} rejected by the server. Check the results and re-enter anything missing.`,
+          variant: "destructive",
+        });
+      }
+    };
+
+    const replay = () => serviceWorker.controller?.postMessage({ type: "REPLAY_OFFLINE_QUEUE" });
+
+    serviceWorker.addEventListener("message", onMessage);
+    window.addEventListener("online", replay);
+    replay();
+
+    return () => {
+      serviceWorker.removeEventListener("message", onMessage);
+      window.removeEventListener("online", replay);
+    };
+  }, [queryClient, toast]);
+
+  return pending;
+}
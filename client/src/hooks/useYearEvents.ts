@@ -0,0 +1,74 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { YearEventType } from "@shared/events";
+
+const POLL_INTERVAL_MS = 15_000;
+
+/**
+ * Keeps a year's queries fresh while the page is open. Subscribes to the
+ * server's SSE stream and invalidates the matching query keys; if streaming
+ * isn't available (e.g. Edge deployments) it falls back to polling.
+ */
+export function useYearEvents(yearId: string | undefined, yearParam: string | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!yearId) return;
+
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let connectedOnce = false;
+
+    const refreshAll = () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId] });
+    };
+
+    const startPolling = () => {
+      if (pollTimer) return;
+      pollTimer = setInterval(refreshAll, POLL_INTERVAL_MS);
+    };
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+      return () => { if (pollTimer) clearInterval(pollTimer); };
+    }
+
+    source = new EventSource(`/api/years/${yearId}/events`);
+
+    source.addEventListener("ready", () => {
+      // A reconnect may have missed events while the stream was down
+      if (connectedOnce) refreshAll();
+      connectedOnce = true;
+    });
+
+    source.addEventListener("change", (e) => {
+      let type: YearEventType;
+      try {
+        type = JSON.parse((e as MessageEvent).data).type;
+      } catch {
+        return;
+      }
+
+      if (type === "year") {
+        if (yearParam) queryClient.invalidateQueries({ queryKey: ["/api/years", yearParam] });
+        refreshAll();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, type] });
+      queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
+    });
+
+    source.onerror = () => {
+      // CLOSED means the server refused the stream (non-2xx); the browser won't retry
+      if (source?.readyState === EventSource.CLOSED) {
+        source.close();
+        startPolling();
+      }
+    };
+
+    return () => {
+      source?.close();
+      if (pollTimer) clearInterval(pollTimer);
+    };
+  }, [yearId, yearParam, queryClient]);
+}
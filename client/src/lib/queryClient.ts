@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { versionTag } from "@shared/versions";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -10,6 +11,41 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// When the server last confirmed each public read, as the service worker
+// reports it in X-Fetched-At. Saved copies served offline carry an old time.
+const fetchedAt = new Map<string, number>();
+const fetchedAtListeners = new Set<() => void>();
+
+function noteFetchedAt(url: string, res: Response) {
+  const header = res.headers.get("x-fetched-at");
+  if (!header || !res.ok) return;
+  fetchedAt.set(url, Number(header));
+  fetchedAtListeners.forEach((listener) => listener());
+}
+
+export function subscribeFetchedAt(listener: () => void): () => void {
+  fetchedAtListeners.add(listener);
+  return () => fetchedAtListeners.delete(listener);
+}
+
+/** The oldest confirmation time among reads under a URL prefix, if any came through the service worker */
+export function oldestFetchedAt(prefix: string): number | undefined {
+  let oldest: number | undefined;
+  fetchedAt.forEach((time, url) => {
+    if (url.startsWith(prefix) && (oldest === undefined || time < oldest)) oldest = time;
+  });
+  return oldest;
+}
+
+/** The message in an API error body (e.g. "A KAK can only be on one team"), if it has one */
+export function apiErrorMessage(error: any): string | undefined {
+  try {
+    return JSON.parse(error?.response).error;
+  } catch {
+    return undefined;
+  }
+}
+
 type PublicFetchOptions = {
   debugCache?: boolean;
 };
@@ -29,35 +65,90 @@ export async function publicFetchJson(url: string, options: PublicFetchOptions =
     console.info(`[cache] ${url}`, headers);
   }
 
+  noteFetchedAt(url, res);
   await throwIfResNotOk(res);
   return await res.json();
 }
 
+type ApiRequestOptions = {
+  /** Let the service worker hold the write and send it later when there's no signal */
+  queueOffline?: boolean;
+  /** Sent as Idempotency-Key so the server applies this write at most once */
+  idempotencyKey?: string;
+  /** Sent as If-Match; the server answers 412 if the row has moved on since */
+  ifMatch?: string;
+};
+
+/** What apiRequest resolves to when the service worker queued the write instead of sending it */
+export type QueuedOffline = { queued: true };
+
+export function isQueuedOffline(data: unknown): data is QueuedOffline {
+  return (data as QueuedOffline | null)?.queued === true;
+}
+
 export async function apiRequest(
   url: string,
   method: string = "GET",
   data?: unknown | undefined,
+  options: ApiRequestOptions = {},
 ): Promise<any> {
+  const headers: Record<string, string> = data ? { "Content-Type": "application/json" } : {};
+  if (options.idempotencyKey) headers["Idempotency-Key"] = options.idempotencyKey;
+  if (options.ifMatch) headers["If-Match"] = options.ifMatch;
+  if (options.queueOffline) {
+    // The key lets the server drop a replay whose first send did get through
+    headers["Idempotency-Key"] ??= crypto.randomUUID();
+    headers["X-Queue-Offline"] = "1";
+  }
+
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
+  noteFetchedAt(url, res);
   await throwIfResNotOk(res);
   return await res.json();
 }
 
+/**
+ * A write to a versioned row (a year or a team) made from the version the
+ * page loaded. If someone else saved first, asks whether to put this change
+ * over theirs or reload theirs; resolves to null when the admin reloads.
+ */
+export async function versionedRequest(
+  url: string,
+  method: string,
+  data: unknown,
+  version: number,
+  what: string,
+): Promise<any | null> {
+  try {
+    return await apiRequest(url, method, data, { ifMatch: versionTag(version) });
+  } catch (error: any) {
+    if (error?.status !== 412) throw error;
+    const current: { version: number } = JSON.parse(error.response).current;
+    const overwrite = window.confirm(
+      `Someone else just changed ${what}.\n\nOK to save your change over theirs, or Cancel to reload and see what they did.`,
+    );
+    if (!overwrite) return null;
+    return await apiRequest(url, method, data, { ifMatch: versionTag(current.version) });
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const url = queryKey.join("/") as string;
+    const res = await fetch(url, {
       credentials: "include",
     });
+    noteFetchedAt(url, res);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
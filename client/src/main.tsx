@@ -1,5 +1,6 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import { queryClient } from "./lib/queryClient";
 import "./index.css";
 
 createRoot(document.getElementById("root")!).render(<App />);
@@ -43,6 +44,12 @@ if ('serviceWorker' in navigator) {
       });
   });
 
+  // The service worker served a saved copy and has since fetched a newer one
+  navigator.serviceWorker.addEventListener('message', (event) => {
+    if (event.data?.type !== 'API_UPDATED') return;
+    queryClient.invalidateQueries({ predicate: (query) => query.queryKey.join('/') === event.data.path });
+  });
+
   // Reload once when the new service worker takes control
   // This ensures HTML, JS chunks, and SW cache are all from the same deploy
   let reloading = false;
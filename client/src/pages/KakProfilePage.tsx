@@ -0,0 +1,245 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useRoute } from "wouter";
+import { Trophy, Home } from "@/components/icons";
+import { apiRequest } from "@/lib/queryClient";
+import { formatToPar } from "@shared/golf";
+
+interface KakProfileYear {
+  yearId: string;
+  year: number;
+  name: string;
+  status: string;
+  teamId: string;
+  teamName: string;
+  fillIn: boolean;
+  rank: string;
+  teamCount: number;
+  totalPoints: number;
+  isChamp: boolean;
+  isBoot: boolean;
+  events: { key: string; name: string; icon: string; points: number }[];
+  fish: { weight: number | null; species: string | null; length: number | null }[];
+  chugLegs: { leg: number; time: number }[];
+  golf: { score: number; differential: number | null; course: string | null } | null;
+}
+
+interface KakProfile {
+  kak: { id: string; name: string; status: string };
+  totals: {
+    years: number;
+    champs: number;
+    boots: number;
+    fish: number;
+    heaviestFish: number | null;
+    chugLegs: number;
+    bestChugLeg: number | null;
+  };
+  years: KakProfileYear[];
+}
+
+const headerCellStyle = { padding: "0.5rem 1rem", fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.1em", color: "var(--ice)", whiteSpace: "nowrap" } as const;
+const cellStyle = { padding: "0.5rem 1rem", verticalAlign: "top", color: "var(--foreground)" } as const;
+const dimStyle = { color: "var(--text-dim)" } as const;
+
+// ---------------------------------------------------------------------------
+// TotalCard
+// ---------------------------------------------------------------------------
+function TotalCard({ label, icon, value, detail, highlight }: { label: string; icon: string; value: number; detail?: string; highlight?: boolean }) {
+  return (
+    <div style={{
+      padding: "0.75rem 1rem",
+      background: highlight ? "rgba(255,90,0,0.08)" : "var(--card)",
+      border: `1px solid ${highlight ? "rgba(255,90,0,0.3)" : "var(--border-hi)"}`,
+      clipPath: "var(--clip-sm)",
+      minWidth: "7rem",
+    }}>
+      <div style={{ fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.12em", color: highlight ? "var(--orange)" : "var(--text-dim)", marginBottom: "0.25rem" }}>
+        {icon} {label.toUpperCase()}
+      </div>
+      <div style={{ fontFamily: "var(--font-mono)", fontSize: "1.1rem", fontWeight: 700, color: "var(--foreground)" }}>{value}</div>
+      {detail && (
+        <div style={{ fontFamily: "var(--font-mono)", fontSize: "0.7rem", color: "var(--text-dim)" }}>{detail}</div>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// CareerTable
+// ---------------------------------------------------------------------------
+function CareerTable({ years, onYear }: { years: KakProfileYear[]; onYear: (year: number) => void }) {
+  if (years.length === 0) {
+    return (
+      <div style={{ padding: "2rem", textAlign: "center", fontFamily: "var(--font-mono)", fontSize: "0.75rem", color: "var(--text-dim)" }}>
+        Not on a team in any year yet.
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ overflowX: "auto" }}>
+      <table style={{ width: "auto", fontSize: "0.8rem", fontFamily: "var(--font-mono)" }}>
+        <thead>
+          <tr style={{ background: "rgba(255,90,0,0.06)", borderBottom: "1px solid rgba(255,90,0,0.2)" }}>
+            <th style={{ ...headerCellStyle, textAlign: "left" }}>YEAR</th>
+            <th style={{ ...headerCellStyle, textAlign: "left" }}>TEAM</th>
+            <th style={{ ...headerCellStyle, textAlign: "right" }}>FINISH</th>
+            <th style={{ ...headerCellStyle, textAlign: "left" }}>POINTS</th>
+            <th style={{ ...headerCellStyle, textAlign: "left" }}>FISH</th>
+            <th style={{ ...headerCellStyle, textAlign: "left" }}>CHUG</th>
+            <th style={{ ...headerCellStyle, textAlign: "left" }}>GOLF</th>
+          </tr>
+        </thead>
+        <tbody>
+          {years.map((y) => (
+            <tr
+              key={y.yearId}
+              style={{ borderBottom: "1px solid var(--border)", background: y.isChamp ? "rgba(255,90,0,0.12)" : "transparent" }}
+            >
+              <td style={{ ...cellStyle, fontWeight: 700, whiteSpace: "nowrap" }}>
+                <button
+                  onClick={() => onYear(y.year)}
+                  style={{ background: "none", border: "none", padding: 0, cursor: "pointer", color: "var(--orange)", fontWeight: 700, fontFamily: "inherit" }}
+                >
+                  {y.year}
+                </button>
+              </td>
+              <td style={{ ...cellStyle, whiteSpace: "nowrap" }}>
+                {y.teamName}
+                {y.fillIn && <span style={{ ...dimStyle, marginLeft: "0.4rem", fontSize: "0.7rem" }}>fill-in</span>}
+                {y.isChamp && <span style={{ marginLeft: "0.4rem" }}>🏆</span>}
+                {y.isBoot && <span style={{ marginLeft: "0.4rem" }}>🥾</span>}
+              </td>
+              <td style={{ ...cellStyle, textAlign: "right", whiteSpace: "nowrap" }}>
+                {y.rank}<span style={dimStyle}>/{y.teamCount}</span>
+              </td>
+              <td style={{ ...cellStyle, whiteSpace: "nowrap" }}>
+                <span style={{ fontWeight: 600, color: "var(--ice)" }}>{y.totalPoints}</span>
+                <div style={{ ...dimStyle, fontSize: "0.7rem" }}>
+                  {y.events.map((e) => `${e.icon} ${e.points}`).join(" · ")}
+                </div>
+              </td>
+              <td style={cellStyle}>
+                {y.fish.length === 0 ? <span style={dimStyle}>—</span> : y.fish.map((f, i) => (
+                  <div key={i} style={{ whiteSpace: "nowrap" }}>
+                    {f.weight !== null ? `${f.weight.toFixed(2)} lb` : "—"}
+                    {f.species && <span style={dimStyle}> {f.species}</span>}
+                  </div>
+                ))}
+              </td>
+              <td style={cellStyle}>
+                {y.chugLegs.length === 0 ? <span style={dimStyle}>—</span> : y.chugLegs.map((l) => (
+                  <div key={l.leg} style={{ whiteSpace: "nowrap" }}>
+                    {l.time.toFixed(2)}s <span style={dimStyle}>leg {l.leg}</span>
+                  </div>
+                ))}
+              </td>
+              <td style={{ ...cellStyle, whiteSpace: "nowrap" }}>
+                {y.golf === null ? <span style={dimStyle}>—</span> : (
+                  <>
+                    {formatToPar(y.golf.score)}
+                    {y.golf.differential !== null && <span style={dimStyle}> (adj. {y.golf.differential.toFixed(1)})</span>}
+                    {y.golf.course && <div style={{ ...dimStyle, fontSize: "0.7rem" }}>{y.golf.course}</div>}
+                  </>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main page
+// ---------------------------------------------------------------------------
+export default function KakProfilePage() {
+  const [, setLocation] = useLocation();
+  const [, params] = useRoute("/kak/:kakId");
+  const kakId = params?.kakId;
+
+  const { data: profile, isLoading, error } = useQuery<KakProfile>({
+    queryKey: ["/api/kaks", kakId, "profile"],
+    queryFn: () => apiRequest(`/api/kaks/${kakId}/profile`),
+    enabled: !!kakId,
+    staleTime: 30_000,
+  });
+
+  const { totals } = profile ?? {};
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      {/* Header */}
+      <header style={{ background: "var(--card)", borderBottom: "1px solid var(--border-hi)" }} className="py-3">
+        <div className="max-w-5xl mx-auto px-4 flex items-center gap-3">
+          <button onClick={() => setLocation("/")} className="btn-ghost flex items-center gap-1 text-xs">
+            <Home size={14} />
+            <span className="hidden sm:inline">Home</span>
+          </button>
+          <button onClick={() => setLocation("/kak-stats")} className="btn-ghost flex items-center gap-1 text-xs">
+            <Trophy size={14} />
+            <span className="hidden sm:inline">Stats</span>
+          </button>
+          <div style={{ width: "1px", height: "16px", background: "var(--border-hi)" }} />
+          <h1 style={{ fontFamily: "var(--font-display)", color: "var(--orange)", fontSize: "0.85rem", letterSpacing: "0.1em", textTransform: "uppercase" }}>
+            {profile?.kak.name ?? "KAK"} <span style={{ color: "var(--ice)" }}>CAREER</span>
+          </h1>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto w-full" style={{ padding: "1.5rem", display: "flex", flexDirection: "column", gap: "1.5rem" }}>
+        {isLoading && (
+          <div style={{ display: "flex", justifyContent: "center", alignItems: "center", padding: "4rem 0" }}>
+            <div className="text-center">
+              <div style={{ width: "32px", height: "32px", border: "2px solid var(--border-hi)", borderTop: "2px solid var(--orange)", borderRadius: "50%", animation: "spin 0.8s linear infinite", margin: "0 auto" }} />
+              <p style={{ marginTop: "0.75rem", fontFamily: "var(--font-mono)", fontSize: "0.7rem", color: "var(--text-dim)" }}>LOADING CAREER...</p>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p style={{ fontFamily: "var(--font-mono)", fontSize: "0.8rem", color: "var(--text-dim)" }}>
+            {(error as any)?.status === 404 ? "No KAK by that id." : "Failed to load this KAK."}
+          </p>
+        )}
+
+        {profile && totals && (
+          <>
+            <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem" }}>
+              <TotalCard label="Years" icon="📅" value={totals.years} detail={profile.kak.status !== "active" ? profile.kak.status : undefined} />
+              <TotalCard label="Champs" icon="🏆" value={totals.champs} highlight={totals.champs > 0} />
+              <TotalCard label="Boot" icon="🥾" value={totals.boots} />
+              <TotalCard
+                label="Fish"
+                icon="🎣"
+                value={totals.fish}
+                detail={totals.heaviestFish !== null ? `best ${totals.heaviestFish.toFixed(2)} lb` : undefined}
+              />
+              <TotalCard
+                label="Chug legs"
+                icon="🍺"
+                value={totals.chugLegs}
+                detail={totals.bestChugLeg !== null ? `best ${totals.bestChugLeg.toFixed(2)}s` : undefined}
+              />
+            </div>
+
+            <div style={{ background: "var(--card)", border: "1px solid var(--border-hi)", clipPath: "var(--clip-md)", overflow: "hidden", width: "fit-content", maxWidth: "100%" }}>
+              <div style={{ padding: "0.75rem 1rem", borderBottom: "1px solid rgba(255,90,0,0.2)", background: "rgba(255,90,0,0.06)" }}>
+                <h2 style={{ fontFamily: "var(--font-display)", fontSize: "0.7rem", letterSpacing: "0.12em", color: "var(--ice)" }}>📋 YEAR BY YEAR</h2>
+              </div>
+              <CareerTable years={profile.years} onYear={(year) => setLocation(`/year/${year}`)} />
+            </div>
+          </>
+        )}
+      </main>
+
+      <style>{`
+        @keyframes spin {
+          0% { transform: rotate(0deg); }
+          100% { transform: rotate(360deg); }
+        }
+      `}</style>
+    </div>
+  );
+}
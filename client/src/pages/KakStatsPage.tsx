@@ -1,8 +1,10 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
 import { Trophy, Home } from "@/components/icons";
 import { apiRequest } from "@/lib/queryClient";
+import type { Kak } from "@shared/schema";
+import type { HeadToHeadRecord } from "@shared/analytics";
 
 interface KakStatRow {
   kakId: string;
@@ -21,7 +23,42 @@ interface YearResult {
   boots: string[];
 }
 
-type Section = "champs" | "boots" | "results";
+interface ChugLeaderboardRow {
+  kakId: string;
+  name: string;
+  bestTime: number;
+  bestYear: number;
+  averageTime: number;
+  legs: number;
+}
+
+interface GolfStatRow {
+  kakId: string;
+  name: string;
+  rounds: number;
+  bestDifferential: number;
+  bestYear: number;
+  bestCourse: string;
+  averageDifferential: number;
+}
+
+interface HeadToHead extends HeadToHeadRecord {
+  a: { id: string; name: string };
+  b: { id: string; name: string };
+}
+
+type Section = "champs" | "boots" | "chuggers" | "golf" | "vs" | "results";
+
+// ---------------------------------------------------------------------------
+// KakLink — a KAK's name, linking to their career page
+// ---------------------------------------------------------------------------
+function KakLink({ kakId, name }: { kakId: string; name: string }) {
+  return (
+    <Link href={`/kak/${kakId}`} style={{ color: "inherit", textDecoration: "none" }} data-testid={`link-kak-${kakId}`}>
+      {name}
+    </Link>
+  );
+}
 
 // ---------------------------------------------------------------------------
 // StatsTable
@@ -72,7 +109,7 @@ function StatsTable({ rows, emptyMessage }: { rows: KakStatRow[]; emptyMessage:
                 {rankLabel}
               </td>
               <td style={{ padding: "0.5rem 1rem", fontWeight: 500, whiteSpace: "nowrap", color: isFirst ? "var(--foreground)" : "var(--foreground)" }}>
-                {row.name}
+                <KakLink kakId={row.kakId} name={row.name} />
               </td>
               <td style={{ padding: "0.5rem 1rem", textAlign: "right", fontWeight: 600, color: isFirst ? "var(--ice)" : "var(--foreground)" }}>
                 {row.total}
@@ -85,6 +122,233 @@ function StatsTable({ rows, emptyMessage }: { rows: KakStatRow[]; emptyMessage:
   );
 }
 
+// ---------------------------------------------------------------------------
+// ChugLeaderboardTable
+// ---------------------------------------------------------------------------
+const headerCellStyle = { padding: "0.5rem 1rem", fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.1em", color: "var(--ice)", whiteSpace: "nowrap" } as const;
+
+function ChugLeaderboardTable({ rows }: { rows: ChugLeaderboardRow[] }) {
+  if (rows.length === 0) {
+    return (
+      <div style={{ padding: "2rem", textAlign: "center", fontFamily: "var(--font-mono)", fontSize: "0.75rem", color: "var(--text-dim)" }}>
+        No relay splits recorded yet.
+      </div>
+    );
+  }
+
+  return (
+    <table style={{ width: "auto", fontSize: "0.85rem", fontFamily: "var(--font-mono)" }}>
+      <thead>
+        <tr style={{ background: "rgba(255,90,0,0.06)", borderBottom: "1px solid rgba(255,90,0,0.2)" }}>
+          <th style={{ ...headerCellStyle, textAlign: "left", width: "4.5rem" }}>RANK</th>
+          <th style={{ ...headerCellStyle, textAlign: "left" }}>KAK</th>
+          <th style={{ ...headerCellStyle, textAlign: "right" }}>BEST</th>
+          <th style={{ ...headerCellStyle, textAlign: "right" }}>AVG</th>
+          <th style={{ ...headerCellStyle, textAlign: "right" }}>LEGS</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row, i) => {
+          const isFirst = i === 0;
+          return (
+            <tr
+              key={row.kakId}
+              style={{ borderBottom: "1px solid var(--border)", background: isFirst ? "rgba(255,90,0,0.12)" : "transparent" }}
+            >
+              <td style={{ padding: "0.5rem 1rem", fontWeight: 700, color: isFirst ? "var(--orange)" : "var(--text-dim)" }}>
+                {i + 1}
+              </td>
+              <td style={{ padding: "0.5rem 1rem", fontWeight: 500, whiteSpace: "nowrap", color: "var(--foreground)" }}>
+                <KakLink kakId={row.kakId} name={row.name} />
+              </td>
+              <td style={{ padding: "0.5rem 1rem", textAlign: "right", fontWeight: 600, whiteSpace: "nowrap", color: isFirst ? "var(--ice)" : "var(--foreground)" }}>
+                {row.bestTime.toFixed(2)}s <span style={{ color: "var(--text-dim)", fontWeight: 400 }}>({row.bestYear})</span>
+              </td>
+              <td style={{ padding: "0.5rem 1rem", textAlign: "right", color: "var(--foreground)" }}>
+                {row.averageTime.toFixed(2)}s
+              </td>
+              <td style={{ padding: "0.5rem 1rem", textAlign: "right", color: "var(--text-dim)" }}>
+                {row.legs}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// GolfStatsTable
+// ---------------------------------------------------------------------------
+function GolfStatsTable({ rows }: { rows: GolfStatRow[] }) {
+  if (rows.length === 0) {
+    return (
+      <div style={{ padding: "2rem", textAlign: "center", fontFamily: "var(--font-mono)", fontSize: "0.75rem", color: "var(--text-dim)" }}>
+        No rounds on a rated course yet.
+      </div>
+    );
+  }
+
+  return (
+    <table style={{ width: "auto", fontSize: "0.85rem", fontFamily: "var(--font-mono)" }}>
+      <thead>
+        <tr style={{ background: "rgba(255,90,0,0.06)", borderBottom: "1px solid rgba(255,90,0,0.2)" }}>
+          <th style={{ ...headerCellStyle, textAlign: "left", width: "4.5rem" }}>RANK</th>
+          <th style={{ ...headerCellStyle, textAlign: "left" }}>KAK</th>
+          <th style={{ ...headerCellStyle, textAlign: "right" }}>BEST</th>
+          <th style={{ ...headerCellStyle, textAlign: "right" }}>AVG</th>
+          <th style={{ ...headerCellStyle, textAlign: "right" }}>ROUNDS</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row, i) => {
+          const isFirst = i === 0;
+          return (
+            <tr
+              key={row.kakId}
+              style={{ borderBottom: "1px solid var(--border)", background: isFirst ? "rgba(255,90,0,0.12)" : "transparent" }}
+            >
+              <td style={{ padding: "0.5rem 1rem", fontWeight: 700, color: isFirst ? "var(--orange)" : "var(--text-dim)" }}>
+                {i + 1}
+              </td>
+              <td style={{ padding: "0.5rem 1rem", fontWeight: 500, whiteSpace: "nowrap", color: "var(--foreground)" }}>
+                <KakLink kakId={row.kakId} name={row.name} />
+              </td>
+              <td style={{ padding: "0.5rem 1rem", textAlign: "right", fontWeight: 600, whiteSpace: "nowrap", color: isFirst ? "var(--ice)" : "var(--foreground)" }}>
+                {row.bestDifferential.toFixed(1)}{" "}
+                <span style={{ color: "var(--text-dim)", fontWeight: 400 }}>({row.bestYear}, {row.bestCourse})</span>
+              </td>
+              <td style={{ padding: "0.5rem 1rem", textAlign: "right", color: "var(--foreground)" }}>
+                {row.averageDifferential.toFixed(1)}
+              </td>
+              <td style={{ padding: "0.5rem 1rem", textAlign: "right", color: "var(--text-dim)" }}>
+                {row.rounds}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// HeadToHeadView
+// ---------------------------------------------------------------------------
+const kakSelectStyle = {
+  padding: "0.4rem 0.6rem",
+  background: "var(--input)",
+  border: "1px solid var(--border-hi)",
+  color: "var(--foreground)",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.8rem",
+} as const;
+
+function HeadToHeadView() {
+  const [aId, setAId] = useState("");
+  const [bId, setBId] = useState("");
+
+  const { data: kaks = [] } = useQuery<Kak[]>({
+    queryKey: ["/api/kaks"],
+    queryFn: () => apiRequest("/api/kaks"),
+    staleTime: 30_000,
+  });
+  const sortedKaks = [...kaks].sort((x, y) => x.name.localeCompare(y.name));
+
+  const ready = !!aId && !!bId && aId !== bId;
+  const { data: h2h, isLoading } = useQuery<HeadToHead>({
+    queryKey: ["/api/kaks", aId, "vs", bId],
+    queryFn: () => apiRequest(`/api/kaks/${aId}/vs/${bId}`),
+    enabled: ready,
+    staleTime: 30_000,
+  });
+
+  const kakSelect = (value: string, onChange: (id: string) => void, testId: string) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)} style={kakSelectStyle} data-testid={testId}>
+      <option value="">— Pick a KAK —</option>
+      {sortedKaks.map((k) => (
+        <option key={k.id} value={k.id}>{k.name}</option>
+      ))}
+    </select>
+  );
+
+  const dim = { color: "var(--text-dim)" } as const;
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "1rem", fontFamily: "var(--font-mono)", fontSize: "0.8rem" }}>
+      <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "0.5rem" }}>
+        {kakSelect(aId, setAId, "select-kak-a")}
+        <span style={{ fontFamily: "var(--font-display)", fontSize: "0.65rem", color: "var(--orange)" }}>VS</span>
+        {kakSelect(bId, setBId, "select-kak-b")}
+      </div>
+
+      {!ready && <p style={dim}>Pick two KAKs to compare their completed years.</p>}
+      {ready && isLoading && <p style={dim}>Comparing...</p>}
+
+      {ready && h2h && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem", alignItems: "flex-start" }}>
+          <div style={{ padding: "0.75rem 1rem", background: "rgba(255,90,0,0.08)", border: "1px solid rgba(255,90,0,0.3)", clipPath: "var(--clip-sm)", minWidth: "14rem" }}>
+            <div style={{ fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.12em", color: "var(--orange)", marginBottom: "0.5rem" }}>
+              🤝 AS TEAMMATES
+            </div>
+            {h2h.teammates.seasons.length === 0 ? (
+              <p style={dim}>Never on the same team.</p>
+            ) : (
+              <>
+                <p>
+                  {h2h.teammates.seasons.length} {h2h.teammates.seasons.length === 1 ? "year" : "years"}
+                  <span style={dim}> · avg finish </span>{h2h.teammates.averageFinish ?? "-"}
+                  <span style={dim}> · 🏆 </span>{h2h.teammates.champs}
+                  <span style={dim}> · 🥾 </span>{h2h.teammates.boots}
+                </p>
+                <ul style={{ listStyle: "none", margin: "0.5rem 0 0", padding: 0, lineHeight: 1.6 }}>
+                  {h2h.teammates.seasons.map((season) => (
+                    <li key={season.year}>
+                      {season.year} <span style={dim}>{season.teamName}</span> {season.rank}/{season.teamCount}
+                      {season.isChamp && " 🏆"}
+                      {season.isBoot && " 🥾"}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+
+          <div style={{ padding: "0.75rem 1rem", background: "var(--card)", border: "1px solid var(--border-hi)", clipPath: "var(--clip-sm)", minWidth: "14rem" }}>
+            <div style={{ fontFamily: "var(--font-display)", fontSize: "0.6rem", letterSpacing: "0.12em", color: "var(--text-dim)", marginBottom: "0.5rem" }}>
+              ⚔️ AS OPPONENTS
+            </div>
+            {h2h.opponents.seasons.length === 0 ? (
+              <p style={dim}>Never on opposing teams.</p>
+            ) : (
+              <>
+                <p>
+                  {h2h.a.name} {h2h.opponents.aWins}
+                  <span style={dim}> – </span>
+                  {h2h.opponents.bWins} {h2h.b.name}
+                  {h2h.opponents.ties > 0 && <span style={dim}> ({h2h.opponents.ties} tied)</span>}
+                </p>
+                <ul style={{ listStyle: "none", margin: "0.5rem 0 0", padding: 0, lineHeight: 1.6 }}>
+                  {h2h.opponents.seasons.map((season) => (
+                    <li key={season.year}>
+                      {season.year}{" "}
+                      <span style={{ color: season.winner === "a" ? "var(--orange)" : "var(--foreground)" }}>{season.a.totalPoints}</span>
+                      <span style={dim}> – </span>
+                      <span style={{ color: season.winner === "b" ? "var(--orange)" : "var(--foreground)" }}>{season.b.totalPoints}</span>
+                      <span style={dim}> {season.a.teamName} vs {season.b.teamName}</span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // ResultCard
 // ---------------------------------------------------------------------------
@@ -139,12 +403,27 @@ export default function KakStatsPage() {
     staleTime: 30_000,
   });
 
-  const isLoading = statsLoading || resultsLoading;
+  const { data: chuggers, isLoading: chuggersLoading } = useQuery<ChugLeaderboardRow[]>({
+    queryKey: ["/api/chug-leaderboard"],
+    queryFn: () => apiRequest("/api/chug-leaderboard"),
+    staleTime: 30_000,
+  });
+
+  const { data: golfers, isLoading: golfersLoading } = useQuery<GolfStatRow[]>({
+    queryKey: ["/api/golf-stats"],
+    queryFn: () => apiRequest("/api/golf-stats"),
+    staleTime: 30_000,
+  });
+
+  const isLoading = statsLoading || resultsLoading || chuggersLoading || golfersLoading;
 
   const navItems: { id: Section; label: string; icon: string }[] = [
     { id: "results", label: "Results", icon: "📋" },
     { id: "champs",  label: "Champs",  icon: "🏆" },
     { id: "boots",   label: "Boot",    icon: "🥾" },
+    { id: "chuggers", label: "Chuggers", icon: "🍺" },
+    { id: "golf",    label: "Golf",    icon: "⛳" },
+    { id: "vs",      label: "Head to Head", icon: "⚔️" },
   ];
 
   return (
@@ -231,6 +510,36 @@ export default function KakStatsPage() {
             </div>
           )}
 
+          {!isLoading && section === "chuggers" && chuggers && (
+            <div style={{ background: "var(--card)", border: "1px solid var(--border-hi)", clipPath: "var(--clip-md)", overflow: "hidden", width: "fit-content" }}>
+              <div style={{ padding: "0.75rem 1rem", borderBottom: "1px solid rgba(255,90,0,0.2)", background: "rgba(255,90,0,0.06)" }}>
+                <h2 style={{ fontFamily: "var(--font-display)", fontSize: "0.7rem", letterSpacing: "0.12em", color: "var(--ice)" }}>🍺 FASTEST CHUGGERS</h2>
+              </div>
+              <ChugLeaderboardTable rows={chuggers} />
+            </div>
+          )}
+
+          {!isLoading && section === "golf" && golfers && (
+            <div style={{ background: "var(--card)", border: "1px solid var(--border-hi)", clipPath: "var(--clip-md)", overflow: "hidden", width: "fit-content" }}>
+              <div style={{ padding: "0.75rem 1rem", borderBottom: "1px solid rgba(255,90,0,0.2)", background: "rgba(255,90,0,0.06)" }}>
+                <h2 style={{ fontFamily: "var(--font-display)", fontSize: "0.7rem", letterSpacing: "0.12em", color: "var(--ice)" }}>⛳ SCORE DIFFERENTIALS</h2>
+              </div>
+              <GolfStatsTable rows={golfers} />
+              <p style={{ padding: "0.5rem 1rem", fontFamily: "var(--font-mono)", fontSize: "0.65rem", color: "var(--text-dim)" }}>
+                Team rounds adjusted for course rating and slope; lower is better.
+              </p>
+            </div>
+          )}
+
+          {!isLoading && section === "vs" && (
+            <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+              <h2 style={{ fontFamily: "var(--font-display)", fontSize: "0.7rem", letterSpacing: "0.12em", color: "var(--ice)" }}>
+                ⚔️ HEAD TO HEAD
+              </h2>
+              <HeadToHeadView />
+            </div>
+          )}
+
           {!isLoading && section === "results" && results && (
             <div style={{ display: "flex", flexDirection: "column", gap: "1.5rem" }}>
               <h2 style={{ fontFamily: "var(--font-display)", fontSize: "0.7rem", letterSpacing: "0.12em", color: "var(--ice)" }}>
@@ -4,20 +4,565 @@ import { useLocation } from "wouter";
 import { Settings as SettingsIcon, Home, Trash2, Plus } from "@/components/icons";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { useToast } from "@/hooks/use-toast";
-import type { Year } from "@shared/schema";
-import { calculateTop3FishTotal, rankFishTeams, rankChugTeams, rankGolfTeams } from "@shared/scoring";
+import { apiRequest, queryClient, versionedRequest } from "@/lib/queryClient";
+import { useToast, UNDO_TOAST_DURATION } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import type { Course, Year } from "@shared/schema";
+import {
+  MAX_CHUG_LEGS,
+  resolveScoringConfig,
+  SCORING_EVENTS,
+  type ScoringConfig,
+  type ScoringEvent,
+  type TeamStanding,
+} from "@shared/scoring";
+import { EVENT_AGGREGATIONS, type EventAggregation, type EventDefinition } from "@shared/events";
+import { YEAR_STATUS_TRANSITIONS, yearStatusAction, type YearStatus } from "@shared/years";
 
 const KakManagement = lazy(() => import("@/components/KakManagement"));
 
-type Section = "years" | "kaks";
+type Section = "years" | "kaks" | "audit";
 
 const NAV_ITEMS: { id: Section; label: string; emoji: string }[] = [
   { id: "years", label: "Years", emoji: "📅" },
   { id: "kaks", label: "KAKs", emoji: "👥" },
+  { id: "audit", label: "Audit", emoji: "📜" },
 ];
 
+// ---------------------------------------------------------------------------
+// Shared styles
+// ---------------------------------------------------------------------------
+
+const sectionStyle: React.CSSProperties = {
+  background: "var(--card)",
+  border: "1px solid var(--border-hi)",
+  clipPath: "var(--clip-md)",
+  padding: "1.25rem 1.5rem",
+  marginBottom: "1.25rem",
+};
+
+const sectionTitleStyle: React.CSSProperties = {
+  fontFamily: "var(--font-display)",
+  fontSize: "0.65rem",
+  letterSpacing: "0.15em",
+  textTransform: "uppercase",
+  color: "var(--ice)",
+  marginBottom: "1rem",
+};
+
+const selectStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "0.5rem 0.75rem",
+  background: "var(--input)",
+  color: "var(--foreground)",
+  border: "1px solid var(--border-hi)",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.85rem",
+  clipPath: "var(--clip-sm)",
+  outline: "none",
+  marginBottom: "1rem",
+  cursor: "pointer",
+};
+
+const fieldLabelStyle: React.CSSProperties = {
+  display: "block",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.7rem",
+  color: "var(--text-dim)",
+  marginBottom: "0.25rem",
+};
+
+// ---------------------------------------------------------------------------
+// Scoring rules
+// ---------------------------------------------------------------------------
+
+type ScoringForm = {
+  pointsTable: string;
+  fishCountBest: string;
+  chugLegs: string;
+  golfLowerIsBetter: boolean;
+  eventWeights: Record<ScoringEvent, string>;
+};
+
+function toScoringForm(config: ScoringConfig): ScoringForm {
+  return {
+    pointsTable: config.pointsTable.join(", "),
+    fishCountBest: String(config.fishCountBest),
+    chugLegs: String(config.chugLegs),
+    golfLowerIsBetter: config.golfLowerIsBetter,
+    eventWeights: {
+      fish: String(config.eventWeights.fish),
+      chug: String(config.eventWeights.chug),
+      golf: String(config.eventWeights.golf),
+    },
+  };
+}
+
+function fromScoringForm(form: ScoringForm): ScoringConfig {
+  return {
+    pointsTable: form.pointsTable.split(/[\s,]+/).filter(Boolean).map(Number),
+    fishCountBest: Number(form.fishCountBest),
+    chugLegs: Number(form.chugLegs),
+    golfLowerIsBetter: form.golfLowerIsBetter,
+    eventWeights: {
+      fish: Number(form.eventWeights.fish),
+      chug: Number(form.eventWeights.chug),
+      golf: Number(form.eventWeights.golf),
+    },
+  };
+}
+
+function ScoringRulesSection({ years }: { years: Year[] }) {
+  const { toast } = useToast();
+  const [yearId, setYearId] = useState("");
+  const [form, setForm] = useState<ScoringForm>(() => toScoringForm(resolveScoringConfig(null)));
+
+  const year = years.find((y) => y.id === yearId);
+  const editable = year?.status === "upcoming";
+
+  useEffect(() => {
+    setForm(toScoringForm(resolveScoringConfig(year?.scoring_config)));
+  }, [year?.id, year?.scoring_config]);
+
+  const saveMutation = useMutation({
+    mutationFn: (scoringConfig: ScoringConfig | null) =>
+      versionedRequest(`/api/years/${yearId}`, "PATCH", { scoring_config: scoringConfig }, year!.version, "this year"),
+    onSuccess: (saved: Year | null) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/years"] });
+      toast({ title: saved ? "Scoring rules saved" : "Year reloaded" });
+    },
+    onError: () => {
+      toast({ title: "Error", variant: "destructive" });
+    },
+  });
+
+  const inputStyle: React.CSSProperties = { ...selectStyle, marginBottom: 0, cursor: "text" };
+
+  return (
+    <section style={sectionStyle}>
+      <h2 style={sectionTitleStyle}>⬡ Scoring Rules</h2>
+      <select value={yearId} onChange={(e) => setYearId(e.target.value)} style={selectStyle}>
+        <option value="">— Select a year —</option>
+        {years.map((y) => (
+          <option key={y.id} value={y.id}>{y.year} — {y.name}</option>
+        ))}
+      </select>
+
+      {year && (
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+          {!editable && (
+            <div style={{ fontFamily: "var(--font-mono)", fontSize: "0.75rem", color: "var(--text-dim)" }}>
+              Rules are locked once a year is activated.
+            </div>
+          )}
+          <fieldset disabled={!editable || saveMutation.isPending} style={{ display: "flex", flexDirection: "column", gap: "0.75rem", border: 0, padding: 0, margin: 0 }}>
+            <label>
+              <span style={fieldLabelStyle}>Points for 1st, 2nd, 3rd… (later places get the last value)</span>
+              <input
+                type="text"
+                value={form.pointsTable}
+                onChange={(e) => setForm({ ...form, pointsTable: e.target.value })}
+                style={inputStyle}
+              />
+            </label>
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: "0.5rem" }}>
+              <label>
+                <span style={fieldLabelStyle}>Fish counted</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.fishCountBest}
+                  onChange={(e) => setForm({ ...form, fishCountBest: e.target.value })}
+                  style={inputStyle}
+                />
+              </label>
+              <label>
+                <span style={fieldLabelStyle}>Chug legs</span>
+                <select
+                  value={form.chugLegs}
+                  onChange={(e) => setForm({ ...form, chugLegs: e.target.value })}
+                  style={{ ...selectStyle, marginBottom: 0 }}
+                >
+                  {Array.from({ length: MAX_CHUG_LEGS }, (_, i) => (
+                    <option key={i + 1} value={String(i + 1)}>{i + 1}</option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <span style={fieldLabelStyle}>Golf winner</span>
+                <select
+                  value={form.golfLowerIsBetter ? "lower" : "higher"}
+                  onChange={(e) => setForm({ ...form, golfLowerIsBetter: e.target.value === "lower" })}
+                  style={{ ...selectStyle, marginBottom: 0 }}
+                >
+                  <option value="lower">Lowest score</option>
+                  <option value="higher">Highest score</option>
+                </select>
+              </label>
+            </div>
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: "0.5rem" }}>
+              {SCORING_EVENTS.map((event) => (
+                <label key={event}>
+                  <span style={fieldLabelStyle}>{event.charAt(0).toUpperCase() + event.slice(1)} weight</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={form.eventWeights[event]}
+                    onChange={(e) =>
+                      setForm({ ...form, eventWeights: { ...form.eventWeights, [event]: e.target.value } })
+                    }
+                    style={inputStyle}
+                  />
+                </label>
+              ))}
+            </div>
+            <div style={{ display: "flex", gap: "0.5rem" }}>
+              <Button size="sm" onClick={() => saveMutation.mutate(fromScoringForm(form))}>
+                {saveMutation.isPending ? "Saving..." : "Save Rules"}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => saveMutation.mutate(null)}>
+                Reset to Classic
+              </Button>
+            </div>
+          </fieldset>
+        </div>
+      )}
+    </section>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Custom events
+// ---------------------------------------------------------------------------
+
+const AGGREGATION_OPTIONS: Record<EventAggregation, string> = {
+  sum: "Add up results",
+  best: "Best result",
+  average: "Average of results",
+};
+
+function EventsSection({ years }: { years: Year[] }) {
+  const { toast } = useToast();
+  const [yearId, setYearId] = useState("");
+  const [name, setName] = useState("");
+  const [icon, setIcon] = useState("");
+  const [lowerIsBetter, setLowerIsBetter] = useState(false);
+  const [aggregation, setAggregation] = useState<EventAggregation>("sum");
+
+  const { data: events = [] } = useQuery<EventDefinition[]>({
+    queryKey: ["/api/years", yearId, "event-definitions"],
+    queryFn: () => apiRequest(`/api/years/${yearId}/event-definitions`),
+    enabled: !!yearId,
+  });
+
+  const invalidateEvents = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "event-definitions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/years", yearId, "standings"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/api/years/${yearId}/event-definitions`, "POST", {
+        name: name.trim(),
+        icon: icon.trim() || undefined,
+        lowerIsBetter,
+        aggregation,
+      }),
+    onSuccess: () => {
+      invalidateEvents();
+      setName("");
+      setIcon("");
+      toast({ title: "Event added" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: error?.status === 409 ? "An event with this name already exists" : "Error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (key: string) => apiRequest(`/api/years/${yearId}/event-definitions/${key}`, "DELETE"),
+    onSuccess: () => {
+      invalidateEvents();
+      toast({ title: "Event removed" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: error?.status === 403 ? "Unlock the event before removing it" : "Error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const inputStyle: React.CSSProperties = { ...selectStyle, marginBottom: 0, cursor: "text" };
+
+  return (
+    <section style={sectionStyle}>
+      <h2 style={sectionTitleStyle}>⬡ Events</h2>
+      <select value={yearId} onChange={(e) => setYearId(e.target.value)} style={selectStyle}>
+        <option value="">— Select a year —</option>
+        {years.map((y) => (
+          <option key={y.id} value={y.id}>{y.year} — {y.name}</option>
+        ))}
+      </select>
+
+      {yearId && (
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+          <ul style={{ listStyle: "none", padding: 0, margin: 0, fontFamily: "var(--font-mono)", fontSize: "0.8rem" }}>
+            {events.map((event) => (
+              <li key={event.key} style={{ display: "flex", alignItems: "center", justifyContent: "space-between", padding: "0.3rem 0", borderBottom: "1px solid var(--border)" }}>
+                <span>
+                  {event.icon} {event.name}
+                  <span style={{ color: "var(--text-dim)", marginLeft: "0.5rem", fontSize: "0.7rem" }}>
+                    {event.builtin
+                      ? "built-in"
+                      : `${AGGREGATION_OPTIONS[event.aggregation].toLowerCase()}, ${event.lowerIsBetter ? "lowest" : "highest"} wins`}
+                    {event.locked && " · locked"}
+                  </span>
+                </span>
+                {!event.builtin && (
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Remove ${event.name} and all of its results?`)) {
+                        removeMutation.mutate(event.key);
+                      }
+                    }}
+                    disabled={removeMutation.isPending || event.locked}
+                    style={{ color: "var(--destructive)", background: "none", border: "none", cursor: "pointer" }}
+                    title="Remove event"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div style={{ display: "grid", gridTemplateColumns: "4rem 1fr", gap: "0.5rem" }}>
+            <label>
+              <span style={fieldLabelStyle}>Icon</span>
+              <input type="text" value={icon} placeholder="🏅" maxLength={4} onChange={(e) => setIcon(e.target.value)} style={inputStyle} />
+            </label>
+            <label>
+              <span style={fieldLabelStyle}>Name</span>
+              <input type="text" value={name} placeholder="Cornhole" maxLength={40} onChange={(e) => setName(e.target.value)} style={inputStyle} />
+            </label>
+          </div>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "0.5rem" }}>
+            <label>
+              <span style={fieldLabelStyle}>Team score</span>
+              <select
+                value={aggregation}
+                onChange={(e) => setAggregation(e.target.value as EventAggregation)}
+                style={{ ...selectStyle, marginBottom: 0 }}
+              >
+                {EVENT_AGGREGATIONS.map((a) => (
+                  <option key={a} value={a}>{AGGREGATION_OPTIONS[a]}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <span style={fieldLabelStyle}>Winner</span>
+              <select
+                value={lowerIsBetter ? "lower" : "higher"}
+                onChange={(e) => setLowerIsBetter(e.target.value === "lower")}
+                style={{ ...selectStyle, marginBottom: 0 }}
+              >
+                <option value="higher">Highest score</option>
+                <option value="lower">Lowest score</option>
+              </select>
+            </label>
+          </div>
+          <div>
+            <Button
+              size="sm"
+              disabled={!name.trim() || addMutation.isPending}
+              onClick={() => addMutation.mutate()}
+              className="flex items-center gap-2"
+            >
+              <Plus size={14} />
+              {addMutation.isPending ? "Adding..." : "Add Event"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function CoursesSection({ years }: { years: Year[] }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [par, setPar] = useState("72");
+  const [rating, setRating] = useState("");
+  const [slope, setSlope] = useState("");
+  const [holePars, setHolePars] = useState("");
+  const [yearId, setYearId] = useState("");
+
+  const { data: courses = [] } = useQuery<Course[]>({
+    queryKey: ["/api/courses"],
+    queryFn: () => apiRequest("/api/courses"),
+  });
+
+  const year = years.find((y) => y.id === yearId);
+
+  // The course can't change once golf is locked
+  const { data: events = [] } = useQuery<EventDefinition[]>({
+    queryKey: ["/api/years", yearId, "event-definitions"],
+    queryFn: () => apiRequest(`/api/years/${yearId}/event-definitions`),
+    enabled: !!yearId,
+  });
+  const golfLocked = !!events.find((event) => event.key === "golf")?.locked;
+
+  const addMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("/api/courses", "POST", {
+        name: name.trim(),
+        par: parseInt(par, 10),
+        rating: rating.trim() || null,
+        slope: slope.trim() ? parseInt(slope, 10) : null,
+        holePars: holePars.trim() ? holePars.split(",").map((p) => parseInt(p, 10)) : null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+      setName("");
+      setRating("");
+      setSlope("");
+      setHolePars("");
+      toast({ title: "Course added" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: error?.status === 409 ? "A course with this name already exists" : "Check the course details",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (courseId: string) => apiRequest(`/api/courses/${courseId}`, "DELETE"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+      toast({ title: "Course removed" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: error?.status === 409 ? "This course is linked to a year" : "Error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: (courseId: string | null) =>
+      versionedRequest(`/api/years/${yearId}`, "PATCH", { course_id: courseId }, year!.version, "this year"),
+    onSuccess: (saved: Year | null) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/years"] });
+      toast({ title: saved ? "Course saved" : "Year reloaded" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: error?.status === 403 ? "Unlock golf before changing the course" : "Error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const inputStyle: React.CSSProperties = { ...selectStyle, marginBottom: 0, cursor: "text" };
+
+  return (
+    <section style={sectionStyle}>
+      <h2 style={sectionTitleStyle}>⬡ Golf Courses</h2>
+      <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+        <ul style={{ listStyle: "none", padding: 0, margin: 0, fontFamily: "var(--font-mono)", fontSize: "0.8rem" }}>
+          {courses.map((course) => (
+            <li key={course.id} style={{ display: "flex", alignItems: "center", justifyContent: "space-between", padding: "0.3rem 0", borderBottom: "1px solid var(--border)" }}>
+              <span>
+                {course.name}
+                <span style={{ color: "var(--text-dim)", marginLeft: "0.5rem", fontSize: "0.7rem" }}>
+                  par {course.par}
+                  {course.rating !== null && course.slope !== null && ` · ${Number(course.rating).toFixed(1)} / ${course.slope}`}
+                  {course.holePars && " · hole pars"}
+                </span>
+              </span>
+              <button
+                onClick={() => {
+                  if (window.confirm(`Remove ${course.name}?`)) removeMutation.mutate(course.id);
+                }}
+                disabled={removeMutation.isPending}
+                style={{ color: "var(--destructive)", background: "none", border: "none", cursor: "pointer" }}
+                title="Remove course"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <label>
+          <span style={fieldLabelStyle}>Name</span>
+          <input type="text" value={name} placeholder="Pine Ridge" maxLength={80} onChange={(e) => setName(e.target.value)} style={inputStyle} />
+        </label>
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: "0.5rem" }}>
+          <label>
+            <span style={fieldLabelStyle}>Par</span>
+            <input type="number" min={27} max={80} value={par} onChange={(e) => setPar(e.target.value)} style={inputStyle} />
+          </label>
+          <label>
+            <span style={fieldLabelStyle}>Rating</span>
+            <input type="text" inputMode="decimal" value={rating} placeholder="70.5" onChange={(e) => setRating(e.target.value)} style={inputStyle} />
+          </label>
+          <label>
+            <span style={fieldLabelStyle}>Slope</span>
+            <input type="number" min={55} max={155} value={slope} placeholder="113" onChange={(e) => setSlope(e.target.value)} style={inputStyle} />
+          </label>
+        </div>
+        <label>
+          <span style={fieldLabelStyle}>Hole pars, 1–18 (optional, comma separated)</span>
+          <input type="text" value={holePars} placeholder="4,5,3,4,…" onChange={(e) => setHolePars(e.target.value)} style={inputStyle} />
+        </label>
+        <div>
+          <Button
+            size="sm"
+            disabled={!name.trim() || !par || addMutation.isPending}
+            onClick={() => addMutation.mutate()}
+            className="flex items-center gap-2"
+          >
+            <Plus size={14} />
+            {addMutation.isPending ? "Adding..." : "Add Course"}
+          </Button>
+        </div>
+
+        <label>
+          <span style={fieldLabelStyle}>Course played</span>
+          <select value={yearId} onChange={(e) => setYearId(e.target.value)} style={selectStyle}>
+            <option value="">— Select a year —</option>
+            {years.map((y) => (
+              <option key={y.id} value={y.id}>{y.year} — {y.name}</option>
+            ))}
+          </select>
+        </label>
+        {year && (
+          <select
+            value={year.course_id ?? ""}
+            onChange={(e) => linkMutation.mutate(e.target.value || null)}
+            disabled={linkMutation.isPending || golfLocked}
+            style={selectStyle}
+          >
+            <option value="">— No course —</option>
+            {courses.map((course) => (
+              <option key={course.id} value={course.id}>{course.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+    </section>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Years section
 // ---------------------------------------------------------------------------
@@ -43,30 +588,10 @@ function YearsSection() {
     staleTime: 2_000,
   });
 
-  const { data: tieBreakFish } = useQuery({
-    queryKey: ["/api/years", tieBreakYearId, "fish-weights"],
-    queryFn: async () => {
-      const response = await fetch(`/api/years/${tieBreakYearId}/fish-weights`);
-      return response.json();
-    },
-    enabled: !!tieBreakYearId,
-    staleTime: 2_000,
-  });
-
-  const { data: tieBreakChug } = useQuery({
-    queryKey: ["/api/years", tieBreakYearId, "chug-times"],
+  const { data: tieBreakStandings } = useQuery<{ standings: TeamStanding[] }>({
+    queryKey: ["/api/years", tieBreakYearId, "standings"],
     queryFn: async () => {
-      const response = await fetch(`/api/years/${tieBreakYearId}/chug-times`);
-      return response.json();
-    },
-    enabled: !!tieBreakYearId,
-    staleTime: 2_000,
-  });
-
-  const { data: tieBreakGolf } = useQuery({
-    queryKey: ["/api/years", tieBreakYearId, "golf-scores"],
-    queryFn: async () => {
-      const response = await fetch(`/api/years/${tieBreakYearId}/golf-scores`);
+      const response = await fetch(`/api/years/${tieBreakYearId}/standings`);
       return response.json();
     },
     enabled: !!tieBreakYearId,
@@ -84,11 +609,11 @@ function YearsSection() {
   });
 
   const statusMutation = useMutation({
-    mutationFn: ({ yearId, status }: { yearId: string; status: string }) =>
-      apiRequest(`/api/years/${yearId}`, "PATCH", { status }),
-    onSuccess: () => {
+    mutationFn: ({ yearId, version, status }: { yearId: string; version: number; status: string }) =>
+      versionedRequest(`/api/years/${yearId}`, "PATCH", { status }, version, "this year"),
+    onSuccess: (saved: Year | null) => {
       queryClient.invalidateQueries({ queryKey: ["/api/years"] });
-      toast({ title: "Status updated" });
+      toast({ title: saved ? "Status updated" : "Year reloaded" });
     },
     onError: (err: any) => {
       const body = err?.responseBody;
@@ -97,14 +622,34 @@ function YearsSection() {
     },
   });
 
+  const restoreScoresMutation = useMutation({
+    mutationFn: ({ yearId, deletedAt }: { yearId: string; deletedAt: string }) =>
+      apiRequest(`/api/years/${yearId}/scores/restore`, "POST", { deletedAt }),
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+      toast({ title: "Scores restored" });
+    },
+    onError: () => {
+      toast({ title: "Error", variant: "destructive" });
+    },
+  });
+
   const clearMutation = useMutation({
     mutationFn: (yearId: string) =>
       apiRequest(`/api/years/${yearId}/scores`, "DELETE"),
-    onSuccess: () => {
+    onSuccess: (data: { deletedAt: string }, yearId) => {
       queryClient.invalidateQueries();
       setConfirmingClear(false);
       setClearYearId("");
-      toast({ title: "Scores cleared" });
+      toast({
+        title: "Scores cleared",
+        duration: UNDO_TOAST_DURATION,
+        action: (
+          <ToastAction onClick={() => restoreScoresMutation.mutate({ yearId, deletedAt: data.deletedAt })}>
+            Undo
+          </ToastAction>
+        ),
+      });
     },
     onError: () => {
       toast({ title: "Error", variant: "destructive" });
@@ -170,62 +715,18 @@ function YearsSection() {
   const tieBreakInfo = useMemo(() => {
     if (!tieBreakYearId) return null;
     if (!tieBreakTeams || !Array.isArray(tieBreakTeams)) return null;
+    if (!Array.isArray(tieBreakStandings?.standings)) return null;
 
-    const teams = tieBreakTeams as any[];
-    const fishWeights = Array.isArray(tieBreakFish) ? tieBreakFish : [];
-    const chugTimes = Array.isArray(tieBreakChug) ? tieBreakChug : [];
-    const golfScores = Array.isArray(tieBreakGolf) ? tieBreakGolf : [];
-
-    const fishByTeam = new Map<string, number[]>();
-    fishWeights.forEach((fw: any) => {
-      const weight = parseFloat(fw.weight?.toString() || "0");
-      if (weight > 0) {
-        if (!fishByTeam.has(fw.teamId)) fishByTeam.set(fw.teamId, []);
-        fishByTeam.get(fw.teamId)!.push(weight);
-      }
-    });
-
-    const chugAverages = new Map<string, number>();
-    chugTimes
-      .filter((ct: any) => ct.average && parseFloat(ct.average) > 0)
-      .forEach((ct: any) => {
-        chugAverages.set(ct.teamId, parseFloat(ct.average?.toString() || "999"));
-      });
+    // Ties are judged on points before any adjustment, among teams with every result in
+    const completeStandings = tieBreakStandings.standings.filter((s) => s.complete);
+    if (completeStandings.length === 0) return { tiedTeams: [], maxPoints: 0 };
 
-    const golfScoresMap = new Map<string, number>();
-    golfScores
-      .filter((gs: any) => gs.score !== null && gs.score !== undefined)
-      .forEach((gs: any) => {
-        golfScoresMap.set(gs.teamId, parseInt(gs.score?.toString() || "999"));
-      });
-
-    const completeTeams = teams.filter((t: any) => chugAverages.has(t.id) && golfScoresMap.has(t.id));
-    if (completeTeams.length === 0) return { tiedTeams: [], maxPoints: 0 };
-
-    const fishTotals = new Map(
-      completeTeams.map((t: any) => [t.id, calculateTop3FishTotal(fishByTeam.get(t.id) ?? [])])
-    );
-
-    const fishPoints = new Map(rankFishTeams(fishTotals).map((p) => [p.teamId, p.points]));
-    const chugPoints = new Map(
-      rankChugTeams(new Map(completeTeams.map((t: any) => [t.id, chugAverages.get(t.id)!]))).map((p) => [p.teamId, p.points])
-    );
-    const golfPoints = new Map(
-      rankGolfTeams(new Map(completeTeams.map((t: any) => [t.id, golfScoresMap.get(t.id)!]))).map((p) => [p.teamId, p.points])
-    );
-
-    const totals = new Map<string, number>();
-    completeTeams.forEach((t: any) => {
-      const total = (fishPoints.get(t.id) || 0) + (chugPoints.get(t.id) || 0) + (golfPoints.get(t.id) || 0);
-      totals.set(t.id, total);
-    });
-
-    const totalsArray = Array.from(totals.values());
-    const maxPoints = totalsArray.length > 0 ? Math.max(...totalsArray) : 0;
-    const tiedTeams = completeTeams.filter((t: any) => (totals.get(t.id) || 0) === maxPoints);
+    const maxPoints = Math.max(...completeStandings.map((s) => s.basePoints));
+    const tiedIds = new Set(completeStandings.filter((s) => s.basePoints === maxPoints).map((s) => s.teamId));
+    const tiedTeams = (tieBreakTeams as any[]).filter((t: any) => tiedIds.has(t.id));
 
     return { tiedTeams, maxPoints };
-  }, [tieBreakYearId, tieBreakTeams, tieBreakFish, tieBreakChug, tieBreakGolf]);
+  }, [tieBreakYearId, tieBreakTeams, tieBreakStandings]);
 
   useEffect(() => {
     if (!tieBreakInfo || tieBreakInfo.tiedTeams.length === 0) {
@@ -237,37 +738,6 @@ function YearsSection() {
     }
   }, [tieBreakInfo, tieBreakTeamId]);
 
-  const sectionStyle: React.CSSProperties = {
-    background: "var(--card)",
-    border: "1px solid var(--border-hi)",
-    clipPath: "var(--clip-md)",
-    padding: "1.25rem 1.5rem",
-    marginBottom: "1.25rem",
-  };
-
-  const sectionTitleStyle: React.CSSProperties = {
-    fontFamily: "var(--font-display)",
-    fontSize: "0.65rem",
-    letterSpacing: "0.15em",
-    textTransform: "uppercase",
-    color: "var(--ice)",
-    marginBottom: "1rem",
-  };
-
-  const selectStyle: React.CSSProperties = {
-    width: "100%",
-    padding: "0.5rem 0.75rem",
-    background: "var(--input)",
-    color: "var(--foreground)",
-    border: "1px solid var(--border-hi)",
-    fontFamily: "var(--font-mono)",
-    fontSize: "0.85rem",
-    clipPath: "var(--clip-sm)",
-    outline: "none",
-    marginBottom: "1rem",
-    cursor: "pointer",
-  };
-
   return (
     <div>
       {/* Year Status */}
@@ -289,18 +759,24 @@ function YearsSection() {
               </span>
             </div>
             <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
-              {(["upcoming", "active", "completed", "archived"] as const).map((s) => (
+              {(YEAR_STATUS_TRANSITIONS[selectedStatusYear.status as YearStatus] ?? []).map((s) => (
                 <Button
                   key={s}
                   size="sm"
-                  variant={selectedStatusYear.status === s ? "default" : "outline"}
-                  disabled={selectedStatusYear.status === s || statusMutation.isPending}
-                  onClick={() => statusMutation.mutate({ yearId: statusYearId, status: s })}
+                  variant="outline"
+                  disabled={statusMutation.isPending}
+                  onClick={() => statusMutation.mutate({ yearId: statusYearId, version: selectedStatusYear.version, status: s })}
+                  data-testid={`button-year-status-${s}`}
                 >
-                  {s.charAt(0).toUpperCase() + s.slice(1)}
+                  {yearStatusAction(selectedStatusYear.status, s)}
                 </Button>
               ))}
             </div>
+            {selectedStatusYear.status === "archived" && (
+              <div style={{ fontFamily: "var(--font-mono)", fontSize: "0.7rem", color: "var(--text-dim)" }}>
+                Hidden from the year picker and read-only until unarchived.
+              </div>
+            )}
           </div>
         )}
       </section>
@@ -321,6 +797,12 @@ function YearsSection() {
         </Button>
       </section>
 
+      <ScoringRulesSection years={sortedYears} />
+
+      <EventsSection years={nonCompletedYears} />
+
+      <CoursesSection years={nonCompletedYears} />
+
       {/* Clear Scores */}
       <section style={sectionStyle}>
         <h2 style={sectionTitleStyle}>⬡ Clear Scores</h2>
@@ -448,6 +930,98 @@ function YearsSection() {
   );
 }
 
+// ---------------------------------------------------------------------------
+// Audit section
+// ---------------------------------------------------------------------------
+
+type AuditEventRow = {
+  id: string;
+  yearId: string | null;
+  username: string | null;
+  action: string;
+  entity: string;
+  entityId: string | null;
+  before: unknown;
+  after: unknown;
+  createdAt: string | null;
+};
+
+function formatSnapshot(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  return JSON.stringify(value, null, 2);
+}
+
+function AuditSection() {
+  const [auditYearId, setAuditYearId] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: years } = useQuery<Year[]>({ queryKey: ["/api/years"] });
+  const sortedYears = [...(years || [])].sort((a, b) => b.year - a.year);
+
+  const { data: events, isLoading } = useQuery<AuditEventRow[]>({
+    queryKey: ["/api/audit", auditYearId],
+    queryFn: () => apiRequest(auditYearId ? `/api/audit?yearId=${auditYearId}` : "/api/audit"),
+    staleTime: 2_000,
+  });
+
+  return (
+    <section style={sectionStyle}>
+      <h2 style={sectionTitleStyle}>⬡ Audit Log</h2>
+      <select value={auditYearId} onChange={(e) => { setAuditYearId(e.target.value); setExpandedId(null); }} style={selectStyle}>
+        <option value="">— All years —</option>
+        {sortedYears.map((y) => (
+          <option key={y.id} value={y.id}>{y.year} — {y.name}</option>
+        ))}
+      </select>
+
+      {isLoading ? (
+        <div style={{ fontFamily: "var(--font-mono)", fontSize: "0.75rem", color: "var(--text-dim)" }}>LOADING...</div>
+      ) : !events || events.length === 0 ? (
+        <div style={{ fontFamily: "var(--font-mono)", fontSize: "0.75rem", color: "var(--text-dim)" }}>No changes recorded.</div>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "flex", flexDirection: "column", gap: "0.35rem" }}>
+          {events.map((event) => {
+            const isExpanded = expandedId === event.id;
+            return (
+              <li key={event.id} style={{ border: "1px solid var(--border)", background: "rgba(0,0,0,0.2)" }}>
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : event.id)}
+                  style={{ display: "flex", gap: "0.75rem", width: "100%", padding: "0.5rem 0.75rem", fontFamily: "var(--font-mono)", fontSize: "0.75rem", textAlign: "left", cursor: "pointer", background: "transparent", color: "var(--foreground)" }}
+                  data-testid={`audit-event-${event.id}`}
+                >
+                  <span style={{ color: "var(--text-dim)", whiteSpace: "nowrap" }}>
+                    {event.createdAt ? new Date(event.createdAt).toLocaleString() : "—"}
+                  </span>
+                  <span style={{ color: "var(--ice)" }}>{event.username ?? "unknown"}</span>
+                  <span style={{ color: "var(--orange)", textTransform: "uppercase" }}>{event.action}</span>
+                  <span>{event.entity}</span>
+                </button>
+                {isExpanded && (
+                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "0.5rem", padding: "0 0.75rem 0.75rem" }}>
+                    {[
+                      { label: "BEFORE", value: event.before },
+                      { label: "AFTER", value: event.after },
+                    ].map((snap) => (
+                      <div key={snap.label} style={{ minWidth: 0 }}>
+                        <div style={{ fontFamily: "var(--font-display)", fontSize: "0.55rem", letterSpacing: "0.1em", color: "var(--text-dim)", marginBottom: "0.25rem" }}>
+                          {snap.label}
+                        </div>
+                        <pre style={{ margin: 0, padding: "0.5rem", background: "var(--input)", fontFamily: "var(--font-mono)", fontSize: "0.7rem", overflowX: "auto", whiteSpace: "pre-wrap", wordBreak: "break-word" }}>
+                          {formatSnapshot(snap.value)}
+                        </pre>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Page shell
 // ---------------------------------------------------------------------------
@@ -531,6 +1105,7 @@ export default function Settings() {
           {/* Content */}
           <main className="flex-1 min-w-0">
             {activeSection === "years" && <YearsSection />}
+            {activeSection === "audit" && <AuditSection />}
             {activeSection === "kaks" && (
               <Suspense fallback={
                 <div style={{ fontFamily: "var(--font-mono)", fontSize: "0.75rem", color: "var(--text-dim)", textAlign: "center", padding: "2rem 0" }}>
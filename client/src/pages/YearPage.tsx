@@ -3,16 +3,21 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useRoute, Link, useLocation } from "wouter";
 import { Home, LogOut, LogIn, Settings, Github, Trophy } from "@/components/icons";
 import { Button } from "@/components/ui/button";
+import LastUpdated from "@/components/LastUpdated";
 import { useAuth } from "@/hooks/useAuth";
-import { apiRequest } from "@/lib/queryClient";
+import { useYearEvents } from "@/hooks/useYearEvents";
+import { useOfflineQueue } from "@/hooks/useOfflineQueue";
+import { apiRequest, publicFetchJson } from "@/lib/queryClient";
 import { handleLogout } from "@/utils/auth";
 import type { Year } from "@shared/schema";
+import { BUILTIN_EVENTS, type EventDefinition } from "@shared/events";
 
 // Lazy load tab components for better code splitting
 const TeamsTab = lazy(() => import("@/components/TeamsTab"));
 const FishTab = lazy(() => import("@/components/FishTab"));
 const ChugTab = lazy(() => import("@/components/ChugTab"));
 const GolfTab = lazy(() => import("@/components/GolfTab"));
+const EventTab = lazy(() => import("@/components/EventTab"));
 const StandingsTab = lazy(() => import("@/components/StandingsTab"));
 
 type Tab = {
@@ -21,13 +26,19 @@ type Tab = {
   icon: string;
 };
 
-const tabs: Tab[] = [
-  { id: "teams",    name: "Teams",     icon: "👥" },
-  { id: "fish",     name: "Fish",      icon: "🎣" },
-  { id: "chug",     name: "Chug",      icon: "🍺" },
-  { id: "golf",     name: "Golf",      icon: "⛳" },
-  { id: "standings",name: "Standings", icon: "🏆" },
-];
+const teamsTab: Tab = { id: "teams", name: "Teams", icon: "👥" };
+const standingsTab: Tab = { id: "standings", name: "Standings", icon: "🏆" };
+
+// Built-in events have dedicated tabs; anything a year adds renders through EventTab
+const builtinTabs = {
+  fish: FishTab,
+  chug: ChugTab,
+  golf: GolfTab,
+};
+
+// Shown until the year's events load so the tab bar doesn't jump
+const defaultEvents: Pick<EventDefinition, "key" | "name" | "icon" | "builtin">[] =
+  BUILTIN_EVENTS.map(({ key, name, icon }) => ({ key, name, icon, builtin: true }));
 
 export default function YearPage() {
   const [, params] = useRoute("/year/:year");
@@ -46,18 +57,44 @@ export default function YearPage() {
     enabled: !!year,
   });
 
-  // Prefetch all tab data in parallel as soon as we have the yearId
   const yearId = yearData?.id;
+  const { data: eventDefinitions } = useQuery<EventDefinition[]>({
+    queryKey: ["/api/years", yearId, "event-definitions"],
+    queryFn: async () => {
+      return await apiRequest(`/api/years/${yearId}/event-definitions`);
+    },
+    enabled: !!yearId,
+    staleTime: 2_000,
+  });
+
+  const events = eventDefinitions ?? defaultEvents;
+  const tabs: Tab[] = [teamsTab, ...events.map((e) => ({ id: e.key, name: e.name, icon: e.icon })), standingsTab];
+  const activeEvent = eventDefinitions?.find((e) => e.key === activeTab);
+
+  // Fall back to Teams if the open event was removed
+  useEffect(() => {
+    if (eventDefinitions && !tabs.some((t) => t.id === activeTab)) setActiveTab("teams");
+  }, [eventDefinitions, activeTab]);
+
+  // Prefetch all tab data in parallel as soon as we have the yearId
   useEffect(() => {
     if (!yearId) return;
-    const fetchJson = (url: string) => () => fetch(url).then(r => r.json());
+    const fetchJson = (url: string) => () => publicFetchJson(url);
     const staleTime = 2_000;
     queryClient.prefetchQuery({ queryKey: ["/api/years", yearId, "teams"], queryFn: fetchJson(`/api/years/${yearId}/teams`), staleTime });
     queryClient.prefetchQuery({ queryKey: ["/api/years", yearId, "fish-weights"], queryFn: fetchJson(`/api/years/${yearId}/fish-weights`), staleTime });
     queryClient.prefetchQuery({ queryKey: ["/api/years", yearId, "chug-times"], queryFn: fetchJson(`/api/years/${yearId}/chug-times`), staleTime });
     queryClient.prefetchQuery({ queryKey: ["/api/years", yearId, "golf-scores"], queryFn: fetchJson(`/api/years/${yearId}/golf-scores`), staleTime });
+    queryClient.prefetchQuery({ queryKey: ["/api/years", yearId, "event-results"], queryFn: fetchJson(`/api/years/${yearId}/event-results`), staleTime });
+    queryClient.prefetchQuery({ queryKey: ["/api/years", yearId, "standings"], queryFn: fetchJson(`/api/years/${yearId}/standings`), staleTime });
   }, [yearId, queryClient]);
 
+  // Live updates from other scorers
+  useYearEvents(yearId, year);
+
+  // Score entries made without signal, waiting to sync
+  const pendingSync = useOfflineQueue();
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -97,6 +134,15 @@ export default function YearPage() {
               data-testid="title-year"
             >
               KAK CUP <span style={{ color: "var(--ice)", textShadow: "0 0 12px rgba(136,204,255,0.4)" }}>{yearData.year}</span>
+              {pendingSync > 0 && (
+                <span
+                  style={{ marginLeft: "0.5rem", padding: "0.1rem 0.4rem", background: "rgba(136,204,255,0.15)", color: "var(--ice)", fontSize: "0.6rem", letterSpacing: "0.08em", textShadow: "none", verticalAlign: "middle" }}
+                  title="Score entries saved offline; they sync when you're back in signal"
+                  data-testid="badge-pending-sync"
+                >
+                  {pendingSync} PENDING SYNC
+                </span>
+              )}
             </h1>
 
             <div className="flex items-center gap-2 sm:gap-3">
@@ -138,6 +184,7 @@ export default function YearPage() {
               )}
             </div>
           </div>
+          <LastUpdated prefix={`/api/years/${yearData.id}`} />
         </div>
       </header>
 
@@ -152,9 +199,12 @@ export default function YearPage() {
           </div>
         }>
           {activeTab === "teams"     && <TeamsTab yearId={yearData.id} />}
-          {activeTab === "fish"      && <FishTab yearId={yearData.id} yearData={yearData} />}
-          {activeTab === "chug"      && <ChugTab yearId={yearData.id} yearData={yearData} />}
-          {activeTab === "golf"      && <GolfTab yearId={yearData.id} yearData={yearData} />}
+          {events.map((event) => {
+            if (event.key !== activeTab) return null;
+            const BuiltinTab = event.builtin ? builtinTabs[event.key as keyof typeof builtinTabs] : undefined;
+            if (BuiltinTab) return <BuiltinTab key={event.key} yearId={yearData.id} yearData={yearData} event={activeEvent} />;
+            return activeEvent && <EventTab key={event.key} yearId={yearData.id} yearData={yearData} event={activeEvent} />;
+          })}
           {activeTab === "standings" && <StandingsTab yearId={yearData.id} />}
         </Suspense>
 
@@ -175,7 +225,7 @@ export default function YearPage() {
 
       {/* Bottom Tab Bar — fixed */}
       <div style={{ position: "fixed", bottom: 0, left: 0, right: 0, background: "var(--card)", borderTop: "1px solid var(--border-hi)", zIndex: 10 }} className="safe-area-pb">
-        <div className="max-w-7xl mx-auto grid grid-cols-5">
+        <div className="max-w-7xl mx-auto grid" style={{ gridTemplateColumns: `repeat(${tabs.length}, minmax(0, 1fr))` }}>
           {tabs.map((tab) => {
             const isActive = activeTab === tab.id;
             return (
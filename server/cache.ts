@@ -15,7 +15,10 @@ const TTL_SHORT = 300; // 5-minute TTL for data that can be updated outside the
 export const cacheTTL = {
   kakStats: TTL_SHORT,
   kakResults: TTL_SHORT,
+  chugLeaderboard: TTL_SHORT,
+  golfStats: TTL_SHORT,
   tieBreaks: TTL_SHORT,
+  standings: TTL_SHORT,
 };
 
 export const cacheKeys = {
@@ -23,12 +26,19 @@ export const cacheKeys = {
   kaks: "kaks",
   kakStats: "kak-stats",
   kakResults: "kak-results",
+  chugLeaderboard: "chug-leaderboard",
+  golfStats: "golf-stats",
+  courses: "courses",
   year: (yearIdOrYear: string) => `year:${yearIdOrYear}`,
   teams: (yearId: string) => `teams:${yearId}`,
+  rosterOverrides: (yearId: string) => `ro:${yearId}`,
   fishWeights: (yearId: string) => `fw:${yearId}`,
   chugTimes: (yearId: string) => `ct:${yearId}`,
   golfScores: (yearId: string) => `gs:${yearId}`,
+  events: (yearId: string) => `ev:${yearId}`,
+  eventResults: (yearId: string) => `er:${yearId}`,
   tieBreaks: (yearId: string) => `tb:${yearId}`,
+  standings: (yearId: string) => `st:${yearId}`,
 };
 
 export async function cached<T>(key: string, fn: () => Promise<T>, ttl = TTL): Promise<T> {
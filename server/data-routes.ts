@@ -1,19 +1,42 @@
 // Edge-compatible — no bcryptjs in this import chain.
 import type { Context, Hono, MiddlewareHandler } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { streamSSE } from "hono/streaming";
 import { z, type ZodSchema } from "zod";
-import { storage } from "./storage.js";
+import { storage, teamMemberIds, KakConflictError, StaleVersionError, type AuditEntry, type DraftPickRow, type TeamInput } from "./storage.js";
 import { isAdmin, type AppEnv } from "./auth.js";
 import { cached, cacheTTL, cacheKeys, invalidate } from "./cache.js";
+import { publish, subscribe, type YearEvent } from "./events.js";
+import { MAX_CHUG_LEGS, calculateChugAverage, computeStandings, resolveScoringConfig, type ScoringEvent } from "../shared/scoring.js";
 import {
-  calculateTop3FishTotal,
-  rankFishTeams,
-  rankChugTeams,
-  rankGolfTeams,
-} from "../shared/scoring.js";
+  BUILTIN_EVENTS,
+  RESERVED_EVENT_KEYS,
+  eventKeyFromName,
+  isBuiltinEventKey,
+  type EventAggregation,
+  type EventDefinition,
+} from "../shared/events.js";
+import { compareKaks, finishPosition, type HeadToHeadRecord, type SeasonFinish } from "../shared/analytics.js";
+import { MAX_TEAMS, TEAM_SIZE, generateDraft, rateKak, snakeTurn, type SnakeTurn } from "../shared/draft.js";
+import { GOLF_HOLES, calculateScoreDifferential, calculateToPar, resolveGolfPars } from "../shared/golf.js";
+import { MAX_TEAM_MEMBERS, TEAM_MEMBER_ROLES, eventLineup, playedKakIds, type TeamMemberEntry, type TeamMemberInput } from "../shared/teams.js";
+import { YEAR_STATUSES, canChangeYearStatus, isFinishedStatus } from "../shared/years.js";
+import { parseVersionTag, versionTag } from "../shared/versions.js";
 import {
   insertFishWeightSchema,
   insertChugTimeSchema,
   insertGolfScoreSchema,
+  insertEventSchema,
+  insertEventResultSchema,
+  insertCourseSchema,
+  insertTeamSchema,
+  insertRosterOverrideSchema,
+  type CompetitionEvent,
+  type FishWeight,
+  type Kak,
+  type LegacyYearLockColumn,
+  type TeamWithMembers,
+  type Year,
 } from "../shared/schema.js";
 
 /** FNV-1a 32-bit hash — fast, non-cryptographic, perfect for ETags. */
@@ -26,10 +49,10 @@ export function fnv1a(str: string): string {
   return h.toString(16);
 }
 
-/** Return JSON with ETag; responds 304 if the client already has it. */
-function jsonWithEtag(c: Context, data: unknown) {
+/** Return JSON with ETag; responds 304 if the client already has it. Versioned rows pass their version tag. */
+function jsonWithEtag(c: Context, data: unknown, etag?: string) {
   const body = JSON.stringify(data);
-  const etag = `"${fnv1a(body)}"`;
+  etag ??= `"${fnv1a(body)}"`;
 
   if (c.req.header("if-none-match") === etag) {
     return c.body(null, 304);
@@ -39,8 +62,6 @@ function jsonWithEtag(c: Context, data: unknown) {
   return c.body(body);
 }
 
-type LockField = "fishing_locked" | "chug_locked" | "golf_locked";
-
 const numericInputSchema = z.preprocess((value) => {
   if (value === null || value === undefined) return value;
   return String(value);
@@ -48,39 +69,267 @@ const numericInputSchema = z.preprocess((value) => {
 
 const fishWeightRequestSchema = insertFishWeightSchema.extend({
   weight: numericInputSchema.optional().nullable(),
+  length: numericInputSchema.optional().nullable(),
+});
+
+const chugLegRequestSchema = z.object({
+  kakId: z.string().optional().nullable(),
+  time: numericInputSchema.pipe(z.string().refine((v) => Number(v) > 0, "Chug times must be positive numbers")),
 });
 
 const chugTimeRequestSchema = insertChugTimeSchema.extend({
   chug1: numericInputSchema.optional().nullable(),
   chug2: numericInputSchema.optional().nullable(),
   average: numericInputSchema.optional().nullable(),
+  // Relay legs in drinking order. Bodies with only chug1/chug2/average are still accepted.
+  legs: z.array(chugLegRequestSchema).min(1).max(MAX_CHUG_LEGS).optional(),
+});
+
+const fishWeightUpdateSchema = fishWeightRequestSchema.omit({ yearId: true, teamId: true }).partial();
+
+const scoringConfigSchema = z
+  .object({
+    pointsTable: z
+      .array(z.number().min(0))
+      .min(1)
+      .max(32)
+      .refine((table) => table.every((pts, i) => i === 0 || pts <= table[i - 1]), {
+        message: "Points must not increase for lower places",
+      }),
+    fishCountBest: z.number().int().min(1).max(20),
+    chugLegs: z.number().int().min(1).max(MAX_CHUG_LEGS),
+    golfLowerIsBetter: z.boolean(),
+    eventWeights: z.object({
+      fish: z.number().min(0),
+      chug: z.number().min(0),
+      golf: z.number().min(0),
+    }).partial(),
+  })
+  .partial()
+  .nullable();
+
+const golfParsSchema = z.array(z.number().int().min(3).max(6)).length(GOLF_HOLES).nullable();
+
+const courseRequestSchema = insertCourseSchema.extend({
+  name: z.string().trim().min(1).max(80),
+  par: z.number().int().min(27).max(80),
+  rating: numericInputSchema
+    .pipe(z.string().refine((v) => Number(v) >= 50 && Number(v) <= 90, "Rating must be between 50 and 90"))
+    .optional()
+    .nullable(),
+  slope: z.number().int().min(55).max(155).optional().nullable(),
+});
+
+const courseUpdateSchema = courseRequestSchema.partial();
+
+const draftRequestSchema = z.object({
+  teamCount: z.number().int().min(1).max(MAX_TEAMS).optional(),
+  /** Who is in the draft; defaults to every active KAK */
+  kakIds: z.array(z.string()).min(1).optional(),
+  together: z.array(z.array(z.string()).min(2)).optional(),
+  apart: z.array(z.array(z.string()).min(2)).optional(),
+  /** Keep the most recent champs on different teams */
+  separateChamps: z.boolean().optional(),
+  seed: z.number().int().optional(),
+});
+
+const draftCommitSchema = z.object({
+  teams: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(60),
+        kakIds: z.array(z.string()).min(1).max(MAX_TEAM_MEMBERS),
+      })
+    )
+    .min(1)
+    .max(MAX_TEAMS),
+});
+
+const firstDuplicate = <T>(values: T[]): T | undefined => values.find((v, i) => values.indexOf(v) !== i);
+
+/** A team's whole roster in slot order: players and subs, any number up to MAX_TEAM_MEMBERS */
+const teamMembersSchema = z
+  .array(z.object({ kakId: z.string().min(1), role: z.enum(TEAM_MEMBER_ROLES).default("player") }))
+  .max(MAX_TEAM_MEMBERS)
+  .refine((members) => firstDuplicate(members.map((m) => m.kakId)) === undefined, "A KAK can only be listed once per team");
+
+const teamRequestSchema = insertTeamSchema.extend({
+  name: z.string().trim().min(1).max(60),
+  position: z.number().int().min(1),
+  members: teamMembersSchema.optional(),
+});
+
+/** Only the fields sent change; a roster replaces the team's whole roster */
+const teamUpdateSchema = teamRequestSchema.omit({ yearId: true }).partial();
+
+const teamReplaceSchema = teamRequestSchema.omit({ yearId: true, locked: true }).extend({
+  /** Omit to create the team */
+  id: z.string().optional(),
+  /** The version the team was loaded at; required with an id */
+  version: z.number().int().optional(),
+  position: z.number().int().min(1).max(MAX_TEAMS),
+  members: teamMembersSchema.default([]),
+});
+
+const teamsReplaceSchema = z
+  .object({
+    teams: z.array(teamReplaceSchema).max(MAX_TEAMS),
+    /** Teams to drop, each at the version it was loaded at */
+    remove: z.array(z.object({ id: z.string(), version: z.number().int() })).default([]),
+  })
+  .superRefine(({ teams, remove }, ctx) => {
+    if (teams.some((t) => t.id && t.version === undefined)) {
+      ctx.addIssue({ code: "custom", message: "Each existing team needs the version it was loaded at" });
+    }
+    if (firstDuplicate([...teams.flatMap((t) => (t.id ? [t.id] : [])), ...remove.map((t) => t.id)]) !== undefined) {
+      ctx.addIssue({ code: "custom", message: "Each team can only be listed once" });
+    }
+    if (firstDuplicate(teams.map((t) => t.position)) !== undefined) {
+      ctx.addIssue({ code: "custom", message: "Each team needs its own position" });
+    }
+    if (firstDuplicate(teams.flatMap(teamMemberIds)) !== undefined) {
+      ctx.addIssue({ code: "custom", message: "A KAK can only be on one team" });
+    }
+  });
+
+const rosterOverrideRequestSchema = insertRosterOverrideSchema
+  .omit({ yearId: true })
+  .extend({ event: z.string().trim().min(1) })
+  .refine((override) => override.outKakId !== override.inKakId, "A KAK can't fill in for themselves");
+
+const liveDraftCaptainsSchema = z.object({
+  kakIds: z.array(z.string()).min(2).max(MAX_TEAMS),
+});
+
+const liveDraftPickSchema = z.object({
+  kakId: z.string().min(1),
+});
+
+const golfHoleRequestSchema = z.object({
+  strokes: z.number().int().min(1).max(20).nullable(), // null clears the hole
+});
+
+const eventRequestSchema = insertEventSchema
+  .omit({ yearId: true, key: true })
+  .extend({ name: z.string().trim().min(1).max(40) });
+
+const eventUpdateSchema = eventRequestSchema.partial().extend({ locked: z.boolean().optional() });
+
+const eventResultRequestSchema = insertEventResultSchema.omit({ eventId: true, yearId: true }).extend({
+  value: numericInputSchema.pipe(z.string().refine((v) => Number.isFinite(Number(v)), "Invalid number")),
+});
+
+const restoreRequestSchema = z.object({
+  deletedAt: z.coerce.date(),
 });
 
-type ErrorStatus = 400 | 401 | 403 | 404 | 409 | 500;
+type ErrorStatus = 400 | 401 | 403 | 404 | 409 | 422 | 500;
 
 function errorResponse(c: Context, message: string, status: ErrorStatus = 500) {
   return c.json({ error: message }, status);
 }
 
+// New members must be active; retired KAKs already on this year's teams may stay
+async function inactiveKakError(kakIds: string[], existing: TeamWithMembers[]): Promise<string | null> {
+  const kakById = new Map((await storage.getKaks()).map((k) => [k.id, k]));
+  const currentIds = new Set(existing.flatMap(teamMemberIds));
+  const invalidId = kakIds.find((id) => !kakById.has(id) || (kakById.get(id)!.status !== "active" && !currentIds.has(id)));
+  if (!invalidId) return null;
+  const kak = kakById.get(invalidId);
+  return kak ? `${kak.name} is not an active KAK` : "Unknown KAK";
+}
+
+// 409 naming the team that already has the KAK, so the team form can point at it
+function kakConflictResponse(c: Context, err: KakConflictError) {
+  return c.json({ error: err.message, conflict: { kakId: err.kakId, teamId: err.team.id, teamName: err.team.name } }, 409);
+}
+
+// The version a write's If-Match names; NaN for one that isn't a version tag,
+// undefined when the write didn't send one
+function ifMatchVersion(c: Context): number | undefined {
+  const ifMatch = c.req.header("if-match");
+  return ifMatch ? parseVersionTag(ifMatch) : undefined;
+}
+
+// 428 for a year or team write that doesn't say which version it started from
+function versionRequiredResponse(c: Context, what: string) {
+  return c.json({ error: `Saving this ${what} needs If-Match with its version; reload the page and try again` }, 428);
+}
+
+// Kept on years only for rows written before events had their own; no route writes them
+const LEGACY_YEAR_LOCK_COLUMNS: LegacyYearLockColumn[] = ["fishing_locked", "chug_locked", "golf_locked"];
+
+// 409 for a write that edits an archived year; only its status can move, to unarchive it
+function archivedYearResponse(c: Context, year: Year, changes: object) {
+  if (year.status !== "archived" || Object.keys(changes).every((key) => key === "status")) return null;
+  return errorResponse(c, "Archived years can't be edited. Unarchive it first.", 409);
+}
+
+// 412 carrying the row as it is now, so the client can offer to overwrite it or reload
+function staleVersionResponse(c: Context, what: string, current: { version: number }) {
+  c.header("ETag", versionTag(current.version));
+  return c.json({ error: `Someone else changed this ${what} first`, current }, 412);
+}
+
+// 412 for a bulk line-up write, carrying every team as it is now
+function staleLineupResponse(c: Context, error: string, current: TeamWithMembers[]) {
+  return c.json({ error, current }, 412);
+}
+
 function parseBody<T>(
   c: Context,
   schema: ZodSchema<T>,
   data: unknown,
 ): { data?: T; response?: Response } {
-  try {
-    return { data: schema.parse(data) };
-  } catch {
-    return { response: errorResponse(c, "Invalid request body", 400) };
-  }
+  const result = schema.safeParse(data);
+  if (result.success) return { data: result.data };
+  // Refinements carry a message written for the admin; anything else is a malformed body
+  const refinement = result.error.issues.find((issue) => issue.code === "custom");
+  return { response: errorResponse(c, refinement?.message ?? "Invalid request body", 400) };
+}
+
+// Every event locks through its row; a built-in can be named by its key
+async function isEventLocked(yearId: string, event: ScoringEvent | CompetitionEvent): Promise<boolean> {
+  if (typeof event !== "string") return event.locked;
+  return !!(await storage.getEventByKey(yearId, event))?.locked;
 }
 
-function guardLocked(c: Context<AppEnv>, field: LockField, message: string) {
-  if (c.var.year?.[field]) {
+async function guardLocked(c: Context<AppEnv>, event: ScoringEvent | CompetitionEvent, message: string) {
+  if (await isEventLocked(c.var.year!.id, event)) {
     return errorResponse(c, message, 403);
   }
   return null;
 }
 
+async function allEventsLocked(yearId: string): Promise<boolean> {
+  return (await storage.getEventsByYear(yearId)).every((event) => event.locked);
+}
+
+// The events a year added itself, without its built-ins
+function customEvents(events: CompetitionEvent[]): CompetitionEvent[] {
+  return events.filter((event) => !isBuiltinEventKey(event.key));
+}
+
+// A year's built-in events followed by the ones it added.
+function eventDefinitions(year: Year, events: CompetitionEvent[]): EventDefinition[] {
+  const { golfLowerIsBetter } = resolveScoringConfig(year.scoring_config);
+  const builtins = BUILTIN_EVENTS.flatMap(({ key }) => events.filter((event) => event.key === key));
+  return [...builtins, ...customEvents(events)].map((event, position): EventDefinition => {
+    const builtin = isBuiltinEventKey(event.key);
+    return {
+      id: event.id,
+      key: event.key,
+      name: event.name,
+      icon: event.icon ?? "🏅",
+      builtin,
+      lowerIsBetter: builtin ? event.key === "chug" || (event.key === "golf" && golfLowerIsBetter) : event.lowerIsBetter,
+      aggregation: builtin ? "sum" : (event.aggregation as EventAggregation),
+      locked: event.locked,
+      position,
+    };
+  });
+}
+
 // Fetches the year record once and caches it in c.var for the handler.
 const requireYear: MiddlewareHandler<AppEnv> = async (c, next) => {
   try {
@@ -93,7 +342,131 @@ const requireYear: MiddlewareHandler<AppEnv> = async (c, next) => {
   }
 };
 
-export function createDataRoutes(app: Hono<AppEnv>): void {
+// How long a write's Idempotency-Key is remembered; a retry or an offline
+// replay arrives well within it
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// How long a claimed key waits on its request before a retry may take it over;
+// any write finishes well within it, so a claim this old was left by a crash
+const IDEMPOTENCY_CLAIM_LEASE_MS = 60 * 1000;
+
+// Expired keys of other requests are swept at most this often, per process
+const IDEMPOTENCY_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+let idempotencyKeysPrunedAt = 0;
+
+// A write sent with an Idempotency-Key answers any repeat of that key with its
+// first response, so a double-tap, a retry on flaky signal or an offline
+// replay isn't applied twice. Runs after isAdmin; keys are per admin.
+const idempotent: MiddlewareHandler<AppEnv> = async (c, next) => {
+  const key = c.req.header("idempotency-key");
+  if (!key) return next();
+  if (key.length > 200) return errorResponse(c, "Idempotency-Key is too long", 400);
+
+  const userId = c.get("userId");
+  const requestHash = fnv1a(`${c.req.method} ${c.req.path} ${await c.req.text()}`);
+  // The key being claimed is expired on every request, so an old one is claimed afresh;
+  // the rest of the table only needs sweeping now and then
+  const expiredBefore = new Date(Date.now() - IDEMPOTENCY_KEY_TTL_MS);
+  await storage.deleteIdempotencyKeyBefore(userId, key, expiredBefore);
+  if (Date.now() - idempotencyKeysPrunedAt >= IDEMPOTENCY_PRUNE_INTERVAL_MS) {
+    idempotencyKeysPrunedAt = Date.now();
+    await storage.deleteIdempotencyKeysBefore(expiredBefore);
+  }
+  const { row, claimed } = await storage.claimIdempotencyKey(
+    { userId, key, method: c.req.method, path: c.req.path, requestHash },
+    new Date(Date.now() - IDEMPOTENCY_CLAIM_LEASE_MS),
+  );
+  if (!claimed) {
+    if (row.requestHash !== requestHash) {
+      return errorResponse(c, "That Idempotency-Key was already used for a different request", 422);
+    }
+    if (row.status === null || row.body === null) {
+      return errorResponse(c, "This request is still being saved", 409);
+    }
+    c.header("Idempotent-Replayed", "true");
+    return c.body(row.body, row.status as ContentfulStatusCode, { "Content-Type": "application/json" });
+  }
+
+  try {
+    await next();
+  } finally {
+    // Only successes are kept; a failed write can be retried under the same key
+    if (c.res.ok) await storage.completeIdempotencyKey(row.id, c.res.status, await c.res.clone().text());
+    else await storage.releaseIdempotencyKey(row.id);
+  }
+};
+
+// Loads a fish weight for the by-id routes and caches its year in c.var so
+// guardLocked works the same as on year-scoped routes.
+async function loadFishWeight(c: Context<AppEnv>): Promise<{ fishWeight?: FishWeight; response?: Response }> {
+  const fishWeight = await storage.getFishWeightById(c.req.param("id")!);
+  if (!fishWeight) return { response: errorResponse(c, "Fish weight not found", 404) };
+  const year = await storage.getYearById(fishWeight.yearId);
+  if (!year) return { response: errorResponse(c, "Year not found", 404) };
+  c.set("year", year);
+  return { fishWeight };
+}
+
+// A course's hole pars, when given, must add up to its par.
+function holeParsMatch(course: { par: number; holePars?: number[] | null }): boolean {
+  return !course.holePars || course.holePars.reduce((sum, par) => sum + par, 0) === course.par;
+}
+
+// Re-scores every scorecard round in a year against the year's current pars.
+async function rescoreGolfScorecards(year: Year): Promise<void> {
+  const pars = resolveGolfPars(year.golf_pars);
+  const rounds = await storage.getGolfScoresByYear(year.id);
+  for (const round of rounds) {
+    if (round.holes.length === 0) continue;
+    await storage.saveGolfScorecard({ yearId: year.id, teamId: round.teamId, score: calculateToPar(pars, round.holes) }, round.holes);
+  }
+}
+
+// Teams with a live fish, chug, golf, event or tie-break result can't be removed.
+async function teamIdsWithResults(yearId: string): Promise<Set<string>> {
+  const [fishWeights, chugTimes, golfScores, eventResults, tieBreaks] = await Promise.all([
+    storage.getFishWeightsByYear(yearId),
+    storage.getChugTimesByYear(yearId),
+    storage.getGolfScoresByYear(yearId),
+    storage.getEventResultsByYear(yearId),
+    storage.getTieBreakAdjustmentsByYear(yearId),
+  ]);
+  return new Set([...fishWeights, ...chugTimes, ...golfScores, ...eventResults, ...tieBreaks].map((row) => row.teamId));
+}
+
+// Whether a roster from a request matches the one a team already has
+function sameRoster(members: TeamMemberInput[], current: TeamMemberEntry[]): boolean {
+  return members.length === current.length &&
+    members.every((member, i) => member.kakId === current[i].kakId && (member.role ?? "player") === current[i].role);
+}
+
+// A fish's angler, or a chug leg's drinker, must be on the team's roster or
+// have filled in for it in that event.
+async function isKakOnTeam(teamId: string, kakId: string | null | undefined, event: ScoringEvent): Promise<boolean> {
+  if (!kakId) return true;
+  const team = await storage.getTeamById(teamId);
+  if (!team) return false;
+  if (teamMemberIds(team).includes(kakId)) return true;
+  const overrides = await storage.getRosterOverridesByYear(team.yearId);
+  return eventLineup(team.id, teamMemberIds(team), overrides, event).includes(kakId);
+}
+
+// The event keys a year's KAKs can play in: the built-ins, then its own
+async function yearEventKeys(yearId: string): Promise<string[]> {
+  const events = await storage.getEventsByYear(yearId);
+  return [...BUILTIN_EVENTS.map((event) => event.key), ...customEvents(events).map((event) => event.key)];
+}
+
+const EVENTS_KEEP_ALIVE_MS = 25_000;
+
+export type DataRouteOptions = {
+  /** Serve the live SSE stream. Only useful where one process handles every request. */
+  liveEvents?: boolean;
+};
+
+export function createDataRoutes(app: Hono<AppEnv>, options: DataRouteOptions = {}): void {
+  const { liveEvents = true } = options;
+
   // Year routes
   app.get("/api/years", async (c) => {
     try {
@@ -113,23 +486,21 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
       const yearParam = c.req.param("year");
       const cacheKey = cacheKeys.year(yearParam);
 
+      // Digits are the cup year; anything else is an id, which can start with digits too
       const yearRecord = await cached(cacheKey, async () => {
-        const year = parseInt(yearParam);
-        if (isNaN(year)) {
-          return storage.getYearById(yearParam);
-        }
-        return storage.getYear(year);
+        if (!/^\d+$/.test(yearParam)) return storage.getYearById(yearParam);
+        return storage.getYear(Number(yearParam));
       });
 
       if (!yearRecord) return c.json({ error: "Year not found" }, 404);
-      return jsonWithEtag(c, yearRecord);
+      return jsonWithEtag(c, yearRecord, versionTag(yearRecord.version));
     } catch (error) {
       console.error("Error fetching year:", error);
       return errorResponse(c, "Failed to fetch year");
     }
   });
 
-  app.post("/api/years", isAdmin, async (c) => {
+  app.post("/api/years", isAdmin, idempotent, async (c) => {
     try {
       const years = await storage.getYears();
       if (years.length === 0) {
@@ -147,6 +518,7 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
         cacheKeys.year(year.id),
         cacheKeys.year(year.year.toString())
       );
+      await audit(c, { yearId: year.id, action: "create", entity: "year", entityId: year.id, after: year });
       return c.json(year, 201);
     } catch {
       return errorResponse(c, "Failed to create year");
@@ -157,45 +529,180 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
     try {
       const yearId = c.req.param("yearId");
       const yearData = await c.req.json();
+      const current = await storage.getYearById(yearId);
+      if (!current) return c.json({ error: "Year not found" }, 404);
+      // Checked again by the update itself, in case someone saves in between
+      const expectedVersion = ifMatchVersion(c);
+      if (expectedVersion === undefined) return versionRequiredResponse(c, "year");
+      if (expectedVersion !== current.version) return staleVersionResponse(c, "year", current);
+
+      // Status moves one step along the lifecycle; an archived year only comes back by unarchiving
+      if ("status" in yearData) {
+        const parsed = parseBody(c, z.enum(YEAR_STATUSES), yearData.status);
+        if (parsed.response) return parsed.response;
+        if (parsed.data !== current.status && !canChangeYearStatus(current.status, parsed.data!)) {
+          return errorResponse(c, `Can't move a year from ${current.status} to ${parsed.data}.`, 409);
+        }
+      }
+      const archived = archivedYearResponse(c, current, yearData);
+      if (archived) return archived;
+
+      // Events lock through their own rows now, never through the year
+      if (LEGACY_YEAR_LOCK_COLUMNS.some((column) => column in yearData)) {
+        return errorResponse(c, "Lock events through /api/years/:yearId/event-definitions/:key.", 400);
+      }
+
+      // Scoring rules are frozen once the year is under way
+      if ("scoring_config" in yearData) {
+        const parsed = parseBody(c, scoringConfigSchema, yearData.scoring_config);
+        if (parsed.response) return parsed.response;
+        if (current.status !== "upcoming") {
+          return errorResponse(c, "Scoring rules can only be changed before the year is activated.", 409);
+        }
+        yearData.scoring_config = parsed.data;
+      }
+
+      // Picking a course brings its hole pars along, unless the request sets pars itself
+      if ("course_id" in yearData) {
+        const parsed = parseBody(c, z.string().nullable(), yearData.course_id);
+        if (parsed.response) return parsed.response;
+        if (await isEventLocked(current.id, "golf")) {
+          return errorResponse(c, "Golf competition is locked. The course cannot be changed.", 403);
+        }
+        if (parsed.data) {
+          const course = await storage.getCourseById(parsed.data);
+          if (!course) return errorResponse(c, "Course not found", 400);
+          if (course.holePars && !("golf_pars" in yearData)) yearData.golf_pars = course.holePars;
+        }
+      }
+
+      // Changing pars re-scores any rounds entered hole by hole, so it stops once golf is locked
+      const parsChanged = "golf_pars" in yearData;
+      if (parsChanged) {
+        const parsed = parseBody(c, golfParsSchema, yearData.golf_pars);
+        if (parsed.response) return parsed.response;
+        if (await isEventLocked(current.id, "golf")) {
+          return errorResponse(c, "Golf competition is locked. Course pars cannot be changed.", 403);
+        }
+        yearData.golf_pars = parsed.data;
+      }
 
       // When marking a year as completed, validate all events are locked
       // then calculate and persist champs/boots.
       if (yearData.status === "completed") {
-        const current = await storage.getYearById(yearId);
-        if (!current) return c.json({ error: "Year not found" }, 404);
-
-        const allLocked =
-          (yearData.fishing_locked ?? current.fishing_locked) &&
-          (yearData.chug_locked ?? current.chug_locked) &&
-          (yearData.golf_locked ?? current.golf_locked);
+        const allLocked = await allEventsLocked(current.id);
 
         if (!allLocked) {
           return c.json(
-            { error: "All three events must be locked before marking the year as completed." },
+            { error: "All events must be locked before marking the year as completed." },
             400
           );
         }
       }
 
-      const year = await storage.updateYear(yearId, yearData);
+      const year = await storage.updateYear(yearId, yearData, expectedVersion);
 
-      // After a successful transition to completed, calculate and store champs/boots
+      // After a successful transition to completed, calculate and store champs/boots;
+      // reopening the year takes them back until it's completed again
       if (year.status === "completed") {
         await calculateAndStoreChampsBoots(year.id);
-        await invalidate(cacheKeys.kakStats);
+        await invalidate(cacheKeys.kakStats, cacheKeys.kakResults);
+      } else if (current.status === "completed" && year.status === "active") {
+        await storage.setChampsAndBoots(year.id, [], []);
+        await invalidate(cacheKeys.kakStats, cacheKeys.kakResults);
+      }
+
+      if (parsChanged) {
+        await rescoreGolfScorecards(year);
+        await invalidate(cacheKeys.golfScores(year.id), cacheKeys.golfStats);
+        publish(year.id, "golf-scores");
+      } else if ("course_id" in yearData) {
+        await invalidate(cacheKeys.golfStats);
       }
 
       await invalidate(
         cacheKeys.years,
         cacheKeys.year(year.id),
-        cacheKeys.year(year.year.toString())
+        cacheKeys.year(year.year.toString()),
+        cacheKeys.standings(year.id)
       );
+      publish(year.id, "year");
+      await audit(c, { yearId: year.id, action: "update", entity: "year", entityId: year.id, before: current, after: year });
+      c.header("ETag", versionTag(year.version));
       return c.json(year);
-    } catch {
+    } catch (err) {
+      if (err instanceof StaleVersionError) return staleVersionResponse(c, "year", err.current);
       return errorResponse(c, "Failed to update year");
     }
   });
 
+  // Course routes
+  app.get("/api/courses", async (c) => {
+    try {
+      const courses = await cached(cacheKeys.courses, () => storage.getCourses());
+      return jsonWithEtag(c, courses);
+    } catch {
+      return errorResponse(c, "Failed to fetch courses");
+    }
+  });
+
+  app.post("/api/courses", isAdmin, idempotent, async (c) => {
+    try {
+      const parsed = parseBody(c, courseRequestSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      if (!holeParsMatch(parsed.data!)) {
+        return errorResponse(c, "Hole pars must add up to the course par", 400);
+      }
+      const course = await storage.createCourse(parsed.data as any);
+      await invalidate(cacheKeys.courses);
+      await audit(c, { action: "create", entity: "course", entityId: course.id, after: course });
+      return c.json(course, 201);
+    } catch (err: any) {
+      if (err?.message?.toLowerCase().includes("unique")) {
+        return errorResponse(c, "A course with that name already exists", 409);
+      }
+      return errorResponse(c, "Failed to create course");
+    }
+  });
+
+  app.patch("/api/courses/:courseId", isAdmin, async (c) => {
+    try {
+      const before = await storage.getCourseById(c.req.param("courseId"));
+      if (!before) return errorResponse(c, "Course not found", 404);
+      const parsed = parseBody(c, courseUpdateSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      if (!holeParsMatch({ ...before, ...parsed.data! })) {
+        return errorResponse(c, "Hole pars must add up to the course par", 400);
+      }
+      // Years keep the pars they copied; rating and slope changes flow into adjusted results
+      const course = await storage.updateCourse(before.id, parsed.data as any);
+      await invalidate(cacheKeys.courses, cacheKeys.golfStats);
+      await audit(c, { action: "update", entity: "course", entityId: course.id, before, after: course });
+      return c.json(course);
+    } catch (err: any) {
+      if (err?.message?.toLowerCase().includes("unique")) {
+        return errorResponse(c, "A course with that name already exists", 409);
+      }
+      return errorResponse(c, "Failed to update course");
+    }
+  });
+
+  app.delete("/api/courses/:courseId", isAdmin, idempotent, async (c) => {
+    try {
+      const before = await storage.getCourseById(c.req.param("courseId"));
+      if (!before) return errorResponse(c, "Course not found", 404);
+      if (await storage.isCourseInUse(before.id)) {
+        return errorResponse(c, "This course is linked to a year and cannot be deleted", 409);
+      }
+      await storage.deleteCourse(before.id);
+      await invalidate(cacheKeys.courses);
+      await audit(c, { action: "delete", entity: "course", entityId: before.id, before });
+      return c.json({ message: "Course deleted successfully" });
+    } catch {
+      return errorResponse(c, "Failed to delete course");
+    }
+  });
+
   // Team routes
   app.get("/api/years/:yearId/teams", async (c) => {
     try {
@@ -209,30 +716,370 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
     }
   });
 
-  app.post("/api/years/:yearId/teams", isAdmin, async (c) => {
+  app.post("/api/years/:yearId/teams", isAdmin, idempotent, async (c) => {
     try {
       const yearId = c.req.param("yearId");
-      const teamData = await c.req.json();
-      teamData.yearId = yearId;
-      const team = await storage.createTeam(teamData);
-      await invalidate(cacheKeys.teams(yearId));
+      const parsed = parseBody(c, teamRequestSchema, { ...(await c.req.json()), yearId });
+      if (parsed.response) return parsed.response;
+
+      const existing = await storage.getTeamsByYear(yearId);
+      const holder = existing.find((team) => team.position === parsed.data!.position);
+      if (holder) return errorResponse(c, `${holder.name} already has position ${holder.position}`, 409);
+      const inactive = await inactiveKakError(teamMemberIds(parsed.data!), existing);
+      if (inactive) return errorResponse(c, inactive, 400);
+
+      const team = await storage.createTeam(parsed.data!);
+      await invalidate(cacheKeys.teams(yearId), cacheKeys.standings(yearId));
+      publish(yearId, "teams");
+      await audit(c, { yearId, action: "create", entity: "team", entityId: team.id, after: team });
       return c.json(team, 201);
-    } catch {
+    } catch (err) {
+      if (err instanceof KakConflictError) return kakConflictResponse(c, err);
       return errorResponse(c, "Failed to create team");
     }
   });
 
+  // Replaces the year's whole line-up at once: listed teams with an id are
+  // updated, those without one are created and those in `remove` are dropped.
+  // Every existing team has to be listed or removed at the version it was
+  // loaded at, so a stale line-up can't undo or drop a team it never saw.
+  app.put("/api/years/:yearId/teams", isAdmin, requireYear, async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const parsed = parseBody(c, teamsReplaceSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      const { teams: listed, remove = [] } = parsed.data!;
+
+      const existing = await storage.getTeamsByYear(yearId);
+      const existingById = new Map(existing.map((team) => [team.id, team]));
+      if ([...listed, ...remove].some((team) => team.id && !existingById.has(team.id))) {
+        return errorResponse(c, "Team not found in this year", 400);
+      }
+      const expected = new Map([...listed, ...remove].flatMap((t) => (t.id ? [[t.id, t.version]] : [])));
+      const unseen = existing.find((team) => !expected.has(team.id));
+      if (unseen) return staleLineupResponse(c, `${unseen.name} was added after this line-up was loaded`, existing);
+      const changed = existing.find((team) => expected.get(team.id) !== team.version);
+      if (changed) return staleLineupResponse(c, `Someone else changed ${changed.name} first`, existing);
+
+      const inactive = await inactiveKakError(listed.flatMap(teamMemberIds), existing);
+      if (inactive) return errorResponse(c, inactive, 400);
+
+      const rows = listed.map(({ id, version, ...team }) => ({ id, version, row: { ...team, yearId } as TeamInput }));
+      const removed = remove.map((team) => existingById.get(team.id)!);
+      const updated = rows.filter(({ id, row }) => {
+        if (!id) return false;
+        const before = existingById.get(id)!;
+        return row.name !== before.name || row.position !== before.position || !sameRoster(row.members ?? [], before.members);
+      });
+
+      const lockedTeam = [...removed, ...updated.map(({ id }) => existingById.get(id!)!)].find((team) => team.locked);
+      if (lockedTeam) return errorResponse(c, `${lockedTeam.name} is locked`, 409);
+      if (removed.length > 0) {
+        const withResults = await teamIdsWithResults(yearId);
+        const scored = removed.find((team) => withResults.has(team.id));
+        if (scored) return errorResponse(c, `${scored.name} has results recorded and can't be removed`, 409);
+      }
+
+      await storage.replaceTeams(yearId, {
+        create: rows.filter(({ id }) => !id).map(({ row }) => row),
+        update: updated.map(({ id, version, row }) => ({ ...row, id: id!, version })),
+        remove: removed.map((team) => ({ id: team.id, version: team.version })),
+      });
+      const teams = await storage.getTeamsByYear(yearId);
+      await invalidate(cacheKeys.teams(yearId), cacheKeys.rosterOverrides(yearId), cacheKeys.standings(yearId));
+      publish(yearId, "teams");
+
+      const after = new Map(teams.map((team) => [team.id, team]));
+      for (const team of removed) {
+        await audit(c, { yearId, action: "delete", entity: "team", entityId: team.id, before: team });
+      }
+      for (const { id } of updated) {
+        await audit(c, { yearId, action: "update", entity: "team", entityId: id!, before: existingById.get(id!), after: after.get(id!) });
+      }
+      for (const team of teams.filter((t) => !existingById.has(t.id))) {
+        await audit(c, { yearId, action: "create", entity: "team", entityId: team.id, after: team });
+      }
+      return c.json(teams);
+    } catch (err) {
+      if (err instanceof KakConflictError) return kakConflictResponse(c, err);
+      if (err instanceof StaleVersionError) {
+        const teams = await storage.getTeamsByYear(c.req.param("yearId"));
+        return staleLineupResponse(c, `Someone else changed ${err.current.name} first`, teams);
+      }
+      return errorResponse(c, "Failed to save teams");
+    }
+  });
+
+  // Proposes balanced teams without saving them; post again with a new seed to reshuffle
+  app.post("/api/years/:yearId/draft", isAdmin, idempotent, requireYear, async (c) => {
+    try {
+      const parsed = parseBody(c, draftRequestSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      const request = parsed.data!;
+
+      const active = await storage.getKaks("active");
+      const activeById = new Map(active.map((k) => [k.id, k]));
+      const rosterIds = Array.from(new Set(request.kakIds ?? active.map((k) => k.id)));
+      if (rosterIds.length === 0) return errorResponse(c, "No active KAKs to draft", 400);
+      if (rosterIds.some((id) => !activeById.has(id))) {
+        return errorResponse(c, "Only active KAKs can be drafted", 400);
+      }
+
+      const { ratings, lastChampIds } = await loadDraftHistory();
+      const roster = rosterIds.map((id) => ({ id, name: activeById.get(id)!.name, rating: ratings.get(id) ?? rateKak([]) }));
+      const teamCount = request.teamCount ?? Math.min(MAX_TEAMS, Math.ceil(roster.length / TEAM_SIZE));
+      const apart = [...(request.apart ?? [])];
+      if (request.separateChamps !== false && lastChampIds.length > 1) apart.push(lastChampIds);
+      const seed = request.seed ?? Math.floor(Math.random() * 2 ** 31);
+
+      try {
+        const teams = generateDraft(roster, teamCount, { together: request.together, apart }, seed);
+        return c.json({ seed, teamCount, teams });
+      } catch (err: any) {
+        return errorResponse(c, err.message, 400);
+      }
+    } catch {
+      return errorResponse(c, "Failed to generate draft");
+    }
+  });
+
+  // Creates every drafted team at once, for a year that doesn't have teams yet
+  app.post("/api/years/:yearId/draft/commit", isAdmin, idempotent, requireYear, async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const parsed = parseBody(c, draftCommitSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      const drafted = parsed.data!.teams;
+
+      const kakIds = drafted.flatMap((team) => team.kakIds);
+      if (new Set(kakIds).size !== kakIds.length) {
+        return errorResponse(c, "A KAK can only be drafted onto one team", 400);
+      }
+      const kakById = new Map((await storage.getKaks()).map((k) => [k.id, k]));
+      if (kakIds.some((id) => !kakById.has(id))) return errorResponse(c, "Unknown KAK in draft", 400);
+      if ((await storage.getTeamsByYear(yearId)).length > 0) {
+        return errorResponse(c, "This year already has teams", 409);
+      }
+
+      const teams = await createDraftedTeams(c, yearId, drafted.map((team) => ({
+        name: team.name,
+        kaks: team.kakIds.map((id) => kakById.get(id)!),
+      })));
+      return c.json(teams, 201);
+    } catch (err) {
+      if (err instanceof KakConflictError) return kakConflictResponse(c, err);
+      return errorResponse(c, "Failed to save drafted teams");
+    }
+  });
+
+  // Live snake draft. Not cached: picks land every few seconds while it's on.
+  app.get("/api/years/:yearId/draft/live", async (c) => {
+    try {
+      return jsonWithEtag(c, await loadLiveDraft(c.req.param("yearId")));
+    } catch {
+      return errorResponse(c, "Failed to fetch draft");
+    }
+  });
+
+  // Names the captains and shuffles them into the snake order
+  app.post("/api/years/:yearId/draft/live/captains", isAdmin, idempotent, requireYear, async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const parsed = parseBody(c, liveDraftCaptainsSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      const kakIds = parsed.data!.kakIds;
+
+      if (new Set(kakIds).size !== kakIds.length) return errorResponse(c, "Each captain can only be named once", 400);
+      const activeIds = new Set((await storage.getKaks("active")).map((k) => k.id));
+      if (kakIds.some((id) => !activeIds.has(id))) return errorResponse(c, "Only active KAKs can be captains", 400);
+      if ((await storage.getTeamsByYear(yearId)).length > 0) {
+        return errorResponse(c, "This year already has teams", 409);
+      }
+      if ((await storage.getDraftPicks(yearId)).length > 0) {
+        return errorResponse(c, "The draft has already started", 409);
+      }
+
+      const order = [...kakIds];
+      for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+      const captains = await storage.createDraftPicks(order.map((kakId, i) => ({ yearId, round: 0, slot: i + 1, kakId })));
+      publish(yearId, "draft");
+      await audit(c, { yearId, action: "create", entity: "draft-pick", after: captains });
+      return c.json(await finishLiveDraftIfDone(c, yearId), 201);
+    } catch (err: any) {
+      if (err?.message?.toLowerCase().includes("unique")) {
+        return errorResponse(c, "The draft has already started", 409);
+      }
+      return errorResponse(c, "Failed to name captains");
+    }
+  });
+
+  // Records the next pick in the snake order; the last pick writes the teams
+  app.post("/api/years/:yearId/draft/live/picks", isAdmin, idempotent, requireYear, async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const parsed = parseBody(c, liveDraftPickSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      const { kakId } = parsed.data!;
+
+      const draft = await loadLiveDraft(yearId);
+      if (draft.captains.length === 0) return errorResponse(c, "Name the captains first", 409);
+      if (draft.complete || !draft.next) return errorResponse(c, "The draft is over", 409);
+      const drafted = [...draft.captains, ...draft.picks].find((p) => p.kakId === kakId);
+      if (drafted) return errorResponse(c, `${drafted.name} has already been drafted`, 409);
+      if (!draft.available.some((k) => k.id === kakId)) return errorResponse(c, "Only active KAKs can be drafted", 400);
+
+      const [pick] = await storage.createDraftPicks([{ yearId, round: draft.next.round, slot: draft.next.slot, kakId }]);
+      publish(yearId, "draft");
+      await audit(c, { yearId, action: "create", entity: "draft-pick", entityId: pick.id, after: pick });
+      return c.json(await finishLiveDraftIfDone(c, yearId), 201);
+    } catch (err: any) {
+      if (err instanceof KakConflictError) return kakConflictResponse(c, err);
+      // Two admins picked for the same turn, or the same KAK, at once
+      if (err?.message?.toLowerCase().includes("unique")) {
+        return errorResponse(c, "That pick was already made; refresh the draft", 409);
+      }
+      return errorResponse(c, "Failed to record pick");
+    }
+  });
+
+  app.delete("/api/years/:yearId/draft/live/picks/last", isAdmin, idempotent, requireYear, async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const draft = await loadLiveDraft(yearId);
+      if (draft.complete) return errorResponse(c, "The draft is over", 409);
+      const last = draft.picks[draft.picks.length - 1];
+      if (!last) return errorResponse(c, "No picks to undo", 404);
+
+      await storage.deleteDraftPick(yearId, last.round, last.slot);
+      publish(yearId, "draft");
+      await audit(c, { yearId, action: "delete", entity: "draft-pick", before: last });
+      return c.json(await loadLiveDraft(yearId));
+    } catch {
+      return errorResponse(c, "Failed to undo pick");
+    }
+  });
+
+  // Clears the captains and every pick so the draft can start over
+  app.delete("/api/years/:yearId/draft/live", isAdmin, idempotent, requireYear, async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const draft = await loadLiveDraft(yearId);
+      if (draft.complete) return errorResponse(c, "The draft is over", 409);
+
+      await storage.deleteDraftPicksByYear(yearId);
+      publish(yearId, "draft");
+      await audit(c, { yearId, action: "delete", entity: "draft-pick", before: [...draft.captains, ...draft.picks] });
+      return c.json(await loadLiveDraft(yearId));
+    } catch {
+      return errorResponse(c, "Failed to reset draft");
+    }
+  });
+
+  app.get("/api/teams/:teamId", async (c) => {
+    try {
+      const team = await storage.getTeamById(c.req.param("teamId"));
+      if (!team) return errorResponse(c, "Team not found", 404);
+      return jsonWithEtag(c, team, versionTag(team.version));
+    } catch {
+      return errorResponse(c, "Failed to fetch team");
+    }
+  });
+
   app.put("/api/teams/:teamId", isAdmin, async (c) => {
     try {
-      const teamData = await c.req.json();
-      const team = await storage.updateTeam(c.req.param("teamId"), teamData);
-      await invalidate(cacheKeys.teams(team.yearId));
+      const teamId = c.req.param("teamId");
+      const parsed = parseBody(c, teamUpdateSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      const before = await storage.getTeamById(teamId);
+      if (!before) return errorResponse(c, "Team not found", 404);
+      // Checked again by the update itself, in case someone saves in between
+      const expectedVersion = ifMatchVersion(c);
+      if (expectedVersion === undefined) return versionRequiredResponse(c, "team");
+      if (expectedVersion !== before.version) return staleVersionResponse(c, "team", before);
+      const team = await storage.updateTeam(teamId, parsed.data!, expectedVersion);
+      await invalidate(cacheKeys.teams(team.yearId), cacheKeys.rosterOverrides(team.yearId), cacheKeys.standings(team.yearId));
+      publish(team.yearId, "teams");
+      await audit(c, { yearId: team.yearId, action: "update", entity: "team", entityId: team.id, before, after: team });
+      c.header("ETag", versionTag(team.version));
       return c.json(team);
-    } catch {
+    } catch (err) {
+      if (err instanceof KakConflictError) return kakConflictResponse(c, err);
+      if (err instanceof StaleVersionError) return staleVersionResponse(c, "team", err.current);
       return errorResponse(c, "Failed to update team");
     }
   });
 
+  // Roster override routes: a KAK filling in for a rostered teammate in one event
+  app.get("/api/years/:yearId/roster-overrides", async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const overrides = await cached(cacheKeys.rosterOverrides(yearId), () =>
+        storage.getRosterOverridesByYear(yearId)
+      );
+      return jsonWithEtag(c, overrides);
+    } catch {
+      return errorResponse(c, "Failed to fetch roster overrides");
+    }
+  });
+
+  app.post("/api/years/:yearId/roster-overrides", isAdmin, idempotent, requireYear, async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const parsed = parseBody(c, rosterOverrideRequestSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      const { teamId, event, outKakId, inKakId } = parsed.data!;
+
+      if (!(await yearEventKeys(yearId)).includes(event)) return errorResponse(c, "Event not found", 404);
+      const [teams, inKak, existing] = await Promise.all([
+        storage.getTeamsByYear(yearId),
+        storage.getKakById(inKakId),
+        storage.getRosterOverridesByYear(yearId),
+      ]);
+      const team = teams.find((t) => t.id === teamId);
+      if (!team) return errorResponse(c, "Team not found", 404);
+      if (!inKak) return errorResponse(c, "KAK not found", 404);
+      const memberIds = teamMemberIds(team);
+      if (!memberIds.includes(outKakId)) return errorResponse(c, "The KAK sitting out is not on this team", 400);
+      if (memberIds.includes(inKakId)) return errorResponse(c, `${inKak.name} is already on this team`, 400);
+      const holder = teams.find((t) => t.id !== teamId && teamMemberIds(t).includes(inKakId));
+      if (holder) return kakConflictResponse(c, new KakConflictError(inKakId, inKak.name, holder));
+      const sameEvent = existing.filter((o) => o.event === event);
+      if (sameEvent.some((o) => o.teamId === teamId && o.outKakId === outKakId)) {
+        return errorResponse(c, "That KAK already has a fill-in for this event", 409);
+      }
+      if (sameEvent.some((o) => o.inKakId === inKakId)) {
+        return errorResponse(c, `${inKak.name} is already filling in for this event`, 409);
+      }
+
+      const override = await storage.createRosterOverride({ yearId, teamId, event, outKakId, inKakId });
+      await onRosterOverridesChanged(yearId, c.var.year!.status);
+      await audit(c, { yearId, action: "create", entity: "roster-override", entityId: override.id, after: override });
+      return c.json(override, 201);
+    } catch (err: any) {
+      if (err?.message?.toLowerCase().includes("unique")) {
+        return errorResponse(c, "That fill-in is already recorded for this event", 409);
+      }
+      return errorResponse(c, "Failed to create roster override");
+    }
+  });
+
+  app.delete("/api/years/:yearId/roster-overrides/:id", isAdmin, idempotent, requireYear, async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const before = await storage.getRosterOverrideById(c.req.param("id"));
+      if (!before || before.yearId !== yearId) return errorResponse(c, "Roster override not found", 404);
+      await storage.deleteRosterOverride(before.id);
+      await onRosterOverridesChanged(yearId, c.var.year!.status);
+      await audit(c, { yearId, action: "delete", entity: "roster-override", entityId: before.id, before });
+      return c.json({ message: "Roster override removed" });
+    } catch {
+      return errorResponse(c, "Failed to delete roster override");
+    }
+  });
+
   // Fish weights routes
   app.get("/api/years/:yearId/fish-weights", async (c) => {
     try {
@@ -246,11 +1093,11 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
     }
   });
 
-  app.post("/api/years/:yearId/fish-weights", isAdmin, requireYear, async (c) => {
+  app.post("/api/years/:yearId/fish-weights", isAdmin, idempotent, requireYear, async (c) => {
     try {
-      const locked = guardLocked(
+      const locked = await guardLocked(
         c,
-        "fishing_locked",
+        "fish",
         "Fishing competition is locked. No more weights can be added.",
       );
       if (locked) return locked;
@@ -258,31 +1105,117 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
       const weightBody = await c.req.json();
       const parsed = parseBody(c, fishWeightRequestSchema, { ...weightBody, yearId });
       if (parsed.response) return parsed.response;
+      if (!(await isKakOnTeam(parsed.data!.teamId, parsed.data!.kakId, "fish"))) {
+        return errorResponse(c, "Angler is not on this team", 400);
+      }
       const fishWeight = await storage.createFishWeight(parsed.data as any);
-      await invalidate(cacheKeys.fishWeights(yearId));
+      await invalidate(cacheKeys.fishWeights(yearId), cacheKeys.standings(yearId));
+      publish(yearId, "fish-weights");
+      await audit(c, { yearId, action: "create", entity: "fish-weight", entityId: fishWeight.id, after: fishWeight });
       return c.json(fishWeight, 201);
     } catch {
       return errorResponse(c, "Failed to create fish weight");
     }
   });
 
-  app.delete("/api/years/:yearId/teams/:teamId/fish-weights", isAdmin, requireYear, async (c) => {
+  app.delete("/api/years/:yearId/teams/:teamId/fish-weights", isAdmin, idempotent, requireYear, async (c) => {
     try {
-      const locked = guardLocked(
+      const locked = await guardLocked(
         c,
-        "fishing_locked",
+        "fish",
         "Fishing competition is locked. Cannot delete weights.",
       );
       if (locked) return locked;
       const yearId = c.req.param("yearId");
-      await storage.deleteFishWeightsByTeam(yearId, c.req.param("teamId"));
-      await invalidate(cacheKeys.fishWeights(yearId));
-      return c.json({ message: "Fish weights deleted successfully" });
+      const teamId = c.req.param("teamId");
+      const before = (await storage.getFishWeightsByYear(yearId)).filter((fw) => fw.teamId === teamId);
+      const deletedAt = new Date();
+      await storage.deleteFishWeightsByTeam(yearId, teamId, deletedAt);
+      await invalidate(cacheKeys.fishWeights(yearId), cacheKeys.standings(yearId));
+      publish(yearId, "fish-weights");
+      await audit(c, { yearId, action: "delete", entity: "fish-weight", entityId: teamId, before });
+      return c.json({ message: "Fish weights deleted successfully", deletedAt: deletedAt.toISOString() });
     } catch {
       return errorResponse(c, "Failed to delete fish weights");
     }
   });
 
+  app.post("/api/years/:yearId/teams/:teamId/fish-weights/restore", isAdmin, idempotent, requireYear, async (c) => {
+    try {
+      const locked = await guardLocked(
+        c,
+        "fish",
+        "Fishing competition is locked. Cannot restore weights.",
+      );
+      if (locked) return locked;
+      const yearId = c.req.param("yearId");
+      const teamId = c.req.param("teamId");
+      const parsed = parseBody(c, restoreRequestSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      const restored = await storage.restoreFishWeights(yearId, parsed.data!.deletedAt, teamId);
+      if (restored === 0) return errorResponse(c, "Nothing to restore", 404);
+      await invalidate(cacheKeys.fishWeights(yearId), cacheKeys.standings(yearId));
+      publish(yearId, "fish-weights");
+      const after = (await storage.getFishWeightsByYear(yearId)).filter((fw) => fw.teamId === teamId);
+      await audit(c, { yearId, action: "restore", entity: "fish-weight", entityId: teamId, after });
+      return c.json({ message: "Fish weights restored successfully", restored });
+    } catch {
+      return errorResponse(c, "Failed to restore fish weights");
+    }
+  });
+
+  app.patch("/api/fish-weights/:id", isAdmin, async (c) => {
+    try {
+      const loaded = await loadFishWeight(c);
+      if (loaded.response) return loaded.response;
+      const before = loaded.fishWeight!;
+      const locked = await guardLocked(
+        c,
+        "fish",
+        "Fishing competition is locked. Cannot edit weights.",
+      );
+      if (locked) return locked;
+      const parsed = parseBody(c, fishWeightUpdateSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      if (!(await isKakOnTeam(before.teamId, parsed.data!.kakId, "fish"))) {
+        return errorResponse(c, "Angler is not on this team", 400);
+      }
+      const fishWeight = await storage.updateFishWeight(before.id, parsed.data as any);
+      await invalidate(cacheKeys.fishWeights(before.yearId), cacheKeys.standings(before.yearId));
+      publish(before.yearId, "fish-weights");
+      await audit(c, { yearId: before.yearId, action: "update", entity: "fish-weight", entityId: before.id, before, after: fishWeight });
+      return c.json(fishWeight);
+    } catch {
+      return errorResponse(c, "Failed to update fish weight");
+    }
+  });
+
+  app.delete("/api/fish-weights/:id", isAdmin, idempotent, async (c) => {
+    try {
+      const loaded = await loadFishWeight(c);
+      if (loaded.response) return loaded.response;
+      const before = loaded.fishWeight!;
+      const locked = await guardLocked(
+        c,
+        "fish",
+        "Fishing competition is locked. Cannot delete weights.",
+      );
+      if (locked) return locked;
+      const deletedAt = new Date();
+      await storage.deleteFishWeight(before.id, deletedAt);
+      await invalidate(cacheKeys.fishWeights(before.yearId), cacheKeys.standings(before.yearId));
+      publish(before.yearId, "fish-weights");
+      await audit(c, { yearId: before.yearId, action: "delete", entity: "fish-weight", entityId: before.id, before });
+      return c.json({
+        message: "Fish weight deleted successfully",
+        teamId: before.teamId,
+        deletedAt: deletedAt.toISOString(),
+      });
+    } catch {
+      return errorResponse(c, "Failed to delete fish weight");
+    }
+  });
+
   // Chug times routes
   app.get("/api/years/:yearId/chug-times", async (c) => {
     try {
@@ -296,11 +1229,11 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
     }
   });
 
-  app.post("/api/years/:yearId/chug-times", isAdmin, requireYear, async (c) => {
+  app.post("/api/years/:yearId/chug-times", isAdmin, idempotent, requireYear, async (c) => {
     try {
-      const locked = guardLocked(
+      const locked = await guardLocked(
         c,
-        "chug_locked",
+        "chug",
         "Chug competition is locked. No more times can be added.",
       );
       if (locked) return locked;
@@ -308,31 +1241,90 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
       const chugBody = await c.req.json();
       const parsed = parseBody(c, chugTimeRequestSchema, { ...chugBody, yearId });
       if (parsed.response) return parsed.response;
-      const chugTime = await storage.createChugTime(parsed.data as any);
-      await invalidate(cacheKeys.chugTimes(yearId));
+      const { legs, ...record } = parsed.data!;
+      if (legs) {
+        const { chugLegs } = resolveScoringConfig(c.var.year!.scoring_config);
+        if (legs.length !== chugLegs) {
+          return errorResponse(c, `Expected ${chugLegs} chug ${chugLegs === 1 ? "leg" : "legs"}`, 400);
+        }
+        const kakIds = legs.map((leg) => leg.kakId).filter((id): id is string => !!id);
+        if (new Set(kakIds).size !== kakIds.length) {
+          return errorResponse(c, "Each KAK can only drink one leg", 400);
+        }
+        for (const kakId of kakIds) {
+          if (!(await isKakOnTeam(record.teamId, kakId, "chug"))) {
+            return errorResponse(c, "Chugger is not on this team", 400);
+          }
+        }
+        // chug1/chug2 mirror the first two legs for anything still reading them
+        record.chug1 = legs[0].time;
+        record.chug2 = legs[1]?.time ?? null;
+        record.average = String(calculateChugAverage(...legs.map((leg) => Number(leg.time))));
+      }
+      const before = (await storage.getChugTimesByYear(yearId)).find((ct) => ct.teamId === record.teamId);
+      const chugTime = await storage.createChugTime({ ...record, legs } as any);
+      await invalidate(cacheKeys.chugTimes(yearId), cacheKeys.standings(yearId), cacheKeys.chugLeaderboard);
+      publish(yearId, "chug-times");
+      await audit(c, {
+        yearId,
+        action: before ? "update" : "create",
+        entity: "chug-time",
+        entityId: chugTime.id,
+        before,
+        after: chugTime,
+      });
       return c.json(chugTime, 201);
     } catch {
       return errorResponse(c, "Failed to create chug time");
     }
   });
 
-  app.delete("/api/years/:yearId/teams/:teamId/chug-times", isAdmin, requireYear, async (c) => {
+  app.delete("/api/years/:yearId/teams/:teamId/chug-times", isAdmin, idempotent, requireYear, async (c) => {
     try {
-      const locked = guardLocked(
+      const locked = await guardLocked(
         c,
-        "chug_locked",
+        "chug",
         "Chug competition is locked. Cannot delete times.",
       );
       if (locked) return locked;
       const yearId = c.req.param("yearId");
-      await storage.deleteChugTime(yearId, c.req.param("teamId"));
-      await invalidate(cacheKeys.chugTimes(yearId));
-      return c.json({ message: "Chug time deleted successfully" });
+      const teamId = c.req.param("teamId");
+      const before = (await storage.getChugTimesByYear(yearId)).find((ct) => ct.teamId === teamId);
+      const deletedAt = new Date();
+      await storage.deleteChugTime(yearId, teamId, deletedAt);
+      await invalidate(cacheKeys.chugTimes(yearId), cacheKeys.standings(yearId), cacheKeys.chugLeaderboard);
+      publish(yearId, "chug-times");
+      await audit(c, { yearId, action: "delete", entity: "chug-time", entityId: teamId, before });
+      return c.json({ message: "Chug time deleted successfully", deletedAt: deletedAt.toISOString() });
     } catch {
       return errorResponse(c, "Failed to delete chug time");
     }
   });
 
+  app.post("/api/years/:yearId/teams/:teamId/chug-times/restore", isAdmin, idempotent, requireYear, async (c) => {
+    try {
+      const locked = await guardLocked(
+        c,
+        "chug",
+        "Chug competition is locked. Cannot restore times.",
+      );
+      if (locked) return locked;
+      const yearId = c.req.param("yearId");
+      const teamId = c.req.param("teamId");
+      const parsed = parseBody(c, restoreRequestSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      const restored = await storage.restoreChugTimes(yearId, parsed.data!.deletedAt, teamId);
+      if (restored === 0) return errorResponse(c, "Nothing to restore", 404);
+      await invalidate(cacheKeys.chugTimes(yearId), cacheKeys.standings(yearId), cacheKeys.chugLeaderboard);
+      publish(yearId, "chug-times");
+      const after = (await storage.getChugTimesByYear(yearId)).find((ct) => ct.teamId === teamId);
+      await audit(c, { yearId, action: "restore", entity: "chug-time", entityId: teamId, after });
+      return c.json({ message: "Chug time restored successfully", restored });
+    } catch {
+      return errorResponse(c, "Failed to restore chug time");
+    }
+  });
+
   // Golf scores routes
   app.get("/api/years/:yearId/golf-scores", async (c) => {
     try {
@@ -346,11 +1338,11 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
     }
   });
 
-  app.post("/api/years/:yearId/golf-scores", isAdmin, requireYear, async (c) => {
+  app.post("/api/years/:yearId/golf-scores", isAdmin, idempotent, requireYear, async (c) => {
     try {
-      const locked = guardLocked(
+      const locked = await guardLocked(
         c,
-        "golf_locked",
+        "golf",
         "Golf competition is locked. No more scores can be added.",
       );
       if (locked) return locked;
@@ -358,51 +1350,419 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
       const golfBody = await c.req.json();
       const parsed = parseBody(c, insertGolfScoreSchema, { ...golfBody, yearId });
       if (parsed.response) return parsed.response;
+      const before = (await storage.getGolfScoresByYear(yearId)).find((gs) => gs.teamId === parsed.data!.teamId);
       const golfScore = await storage.createGolfScore(parsed.data!);
-      await invalidate(cacheKeys.golfScores(yearId));
+      await invalidate(cacheKeys.golfScores(yearId), cacheKeys.standings(yearId), cacheKeys.golfStats);
+      publish(yearId, "golf-scores");
+      await audit(c, {
+        yearId,
+        action: before ? "update" : "create",
+        entity: "golf-score",
+        entityId: golfScore.id,
+        before,
+        after: golfScore,
+      });
       return c.json(golfScore, 201);
     } catch {
       return errorResponse(c, "Failed to create golf score");
     }
   });
 
-  app.delete("/api/years/:yearId/scores", isAdmin, requireYear, async (c) => {
+  // Scorecard entry: one hole at a time, with the round's score re-derived on every write
+  app.put("/api/years/:yearId/teams/:teamId/golf-holes/:hole", isAdmin, requireYear, async (c) => {
     try {
+      const locked = await guardLocked(
+        c,
+        "golf",
+        "Golf competition is locked. No more scores can be added.",
+      );
+      if (locked) return locked;
       const yearId = c.req.param("yearId");
+      const teamId = c.req.param("teamId");
+      const hole = Number(c.req.param("hole"));
+      if (!Number.isInteger(hole) || hole < 1 || hole > GOLF_HOLES) {
+        return errorResponse(c, `Hole must be between 1 and ${GOLF_HOLES}`, 400);
+      }
+      const team = await storage.getTeamById(teamId);
+      if (!team || team.yearId !== yearId) return errorResponse(c, "Team not found", 404);
+      const parsed = parseBody(c, golfHoleRequestSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      const { strokes } = parsed.data!;
+
+      const before = (await storage.getGolfScoresByYear(yearId)).find((gs) => gs.teamId === teamId);
+      // A round entered as a single score has no holes, so the scorecard starts fresh
+      const holes = (before?.holes ?? []).filter((h) => h.hole !== hole);
+      if (strokes !== null) holes.push({ hole, strokes });
+      holes.sort((a, b) => a.hole - b.hole);
+
+      if (holes.length > 0) {
+        const score = calculateToPar(resolveGolfPars(c.var.year!.golf_pars), holes);
+        await storage.saveGolfScorecard({ yearId, teamId, score }, holes);
+      } else if (before) {
+        await storage.deleteGolfScore(yearId, teamId);
+      }
+      const after = (await storage.getGolfScoresByYear(yearId)).find((gs) => gs.teamId === teamId);
+
+      await invalidate(cacheKeys.golfScores(yearId), cacheKeys.standings(yearId), cacheKeys.golfStats);
+      publish(yearId, "golf-scores");
+      await audit(c, {
+        yearId,
+        action: !before ? "create" : after ? "update" : "delete",
+        entity: "golf-score",
+        entityId: after?.id ?? before?.id ?? teamId,
+        before,
+        after,
+      });
+      return c.json(after ?? { teamId, score: null, holes: [] });
+    } catch {
+      return errorResponse(c, "Failed to save golf hole");
+    }
+  });
+
+  app.delete("/api/years/:yearId/scores", isAdmin, idempotent, requireYear, async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const [fishBefore, chugBefore, golfBefore, eventBefore] = await Promise.all([
+        storage.getFishWeightsByYear(yearId),
+        storage.getChugTimesByYear(yearId),
+        storage.getGolfScoresByYear(yearId),
+        storage.getEventResultsByYear(yearId),
+      ]);
+      const deletedAt = new Date();
       await Promise.all([
-        storage.deleteAllFishWeightsByYear(yearId),
-        storage.deleteAllChugTimesByYear(yearId),
-        storage.deleteAllGolfScoresByYear(yearId),
+        storage.deleteAllFishWeightsByYear(yearId, deletedAt),
+        storage.deleteAllChugTimesByYear(yearId, deletedAt),
+        storage.deleteAllGolfScoresByYear(yearId, deletedAt),
+        storage.deleteAllEventResultsByYear(yearId, deletedAt),
       ]);
       await invalidate(
         cacheKeys.fishWeights(yearId),
         cacheKeys.chugTimes(yearId),
         cacheKeys.golfScores(yearId),
+        cacheKeys.eventResults(yearId),
+        cacheKeys.standings(yearId),
+        cacheKeys.chugLeaderboard,
+        cacheKeys.golfStats,
         cacheKeys.years,
       );
-      return c.json({ message: "All scores cleared for year" });
+      publish(yearId, "fish-weights", "chug-times", "golf-scores", "event-results");
+      await Promise.all([
+        audit(c, { yearId, action: "delete", entity: "fish-weight", before: fishBefore }),
+        audit(c, { yearId, action: "delete", entity: "chug-time", before: chugBefore }),
+        audit(c, { yearId, action: "delete", entity: "golf-score", before: golfBefore }),
+        eventBefore.length > 0 && audit(c, { yearId, action: "delete", entity: "event-result", before: eventBefore }),
+      ]);
+      return c.json({ message: "All scores cleared for year", deletedAt: deletedAt.toISOString() });
     } catch {
       return errorResponse(c, "Failed to clear scores");
     }
   });
 
-  app.delete("/api/years/:yearId/teams/:teamId/golf-scores", isAdmin, requireYear, async (c) => {
+  app.post("/api/years/:yearId/scores/restore", isAdmin, idempotent, requireYear, async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const parsed = parseBody(c, restoreRequestSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      const { deletedAt } = parsed.data!;
+      const [fishRestored, chugRestored, golfRestored, eventRestored] = await Promise.all([
+        storage.restoreFishWeights(yearId, deletedAt),
+        storage.restoreChugTimes(yearId, deletedAt),
+        storage.restoreGolfScores(yearId, deletedAt),
+        storage.restoreEventResults(yearId, deletedAt),
+      ]);
+      const restored = fishRestored + chugRestored + golfRestored + eventRestored;
+      if (restored === 0) return errorResponse(c, "Nothing to restore", 404);
+      await invalidate(
+        cacheKeys.fishWeights(yearId),
+        cacheKeys.chugTimes(yearId),
+        cacheKeys.golfScores(yearId),
+        cacheKeys.eventResults(yearId),
+        cacheKeys.standings(yearId),
+        cacheKeys.chugLeaderboard,
+        cacheKeys.golfStats,
+        cacheKeys.years,
+      );
+      publish(yearId, "fish-weights", "chug-times", "golf-scores", "event-results");
+      const [fishAfter, chugAfter, golfAfter, eventAfter] = await Promise.all([
+        storage.getFishWeightsByYear(yearId),
+        storage.getChugTimesByYear(yearId),
+        storage.getGolfScoresByYear(yearId),
+        storage.getEventResultsByYear(yearId),
+      ]);
+      await Promise.all([
+        audit(c, { yearId, action: "restore", entity: "fish-weight", after: fishAfter }),
+        audit(c, { yearId, action: "restore", entity: "chug-time", after: chugAfter }),
+        audit(c, { yearId, action: "restore", entity: "golf-score", after: golfAfter }),
+        eventRestored > 0 && audit(c, { yearId, action: "restore", entity: "event-result", after: eventAfter }),
+      ]);
+      return c.json({ message: "Scores restored for year", restored });
+    } catch {
+      return errorResponse(c, "Failed to restore scores");
+    }
+  });
+
+  app.delete("/api/years/:yearId/teams/:teamId/golf-scores", isAdmin, idempotent, requireYear, async (c) => {
     try {
-      const locked = guardLocked(
+      const locked = await guardLocked(
         c,
-        "golf_locked",
+        "golf",
         "Golf competition is locked. Cannot delete scores.",
       );
       if (locked) return locked;
       const yearId = c.req.param("yearId");
-      await storage.deleteGolfScore(yearId, c.req.param("teamId"));
-      await invalidate(cacheKeys.golfScores(yearId));
-      return c.json({ message: "Golf score deleted successfully" });
+      const teamId = c.req.param("teamId");
+      const before = (await storage.getGolfScoresByYear(yearId)).find((gs) => gs.teamId === teamId);
+      const deletedAt = new Date();
+      await storage.deleteGolfScore(yearId, teamId, deletedAt);
+      await invalidate(cacheKeys.golfScores(yearId), cacheKeys.standings(yearId), cacheKeys.golfStats);
+      publish(yearId, "golf-scores");
+      await audit(c, { yearId, action: "delete", entity: "golf-score", entityId: teamId, before });
+      return c.json({ message: "Golf score deleted successfully", deletedAt: deletedAt.toISOString() });
     } catch {
       return errorResponse(c, "Failed to delete golf score");
     }
   });
 
+  app.post("/api/years/:yearId/teams/:teamId/golf-scores/restore", isAdmin, idempotent, requireYear, async (c) => {
+    try {
+      const locked = await guardLocked(
+        c,
+        "golf",
+        "Golf competition is locked. Cannot restore scores.",
+      );
+      if (locked) return locked;
+      const yearId = c.req.param("yearId");
+      const teamId = c.req.param("teamId");
+      const parsed = parseBody(c, restoreRequestSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      const restored = await storage.restoreGolfScores(yearId, parsed.data!.deletedAt, teamId);
+      if (restored === 0) return errorResponse(c, "Nothing to restore", 404);
+      await invalidate(cacheKeys.golfScores(yearId), cacheKeys.standings(yearId), cacheKeys.golfStats);
+      publish(yearId, "golf-scores");
+      const after = (await storage.getGolfScoresByYear(yearId)).find((gs) => gs.teamId === teamId);
+      await audit(c, { yearId, action: "restore", entity: "golf-score", entityId: teamId, after });
+      return c.json({ message: "Golf score restored successfully", restored });
+    } catch {
+      return errorResponse(c, "Failed to restore golf score");
+    }
+  });
+
+  // Event routes. Every event has a row here; fish, chug and golf keep their own result routes above.
+  app.get("/api/years/:yearId/event-definitions", requireYear, async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const events = await cached(cacheKeys.events(yearId), () => storage.getEventsByYear(yearId));
+      return jsonWithEtag(c, eventDefinitions(c.var.year!, events));
+    } catch {
+      return errorResponse(c, "Failed to fetch events");
+    }
+  });
+
+  app.post("/api/years/:yearId/event-definitions", isAdmin, idempotent, requireYear, async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const parsed = parseBody(c, eventRequestSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      const key = eventKeyFromName(parsed.data!.name);
+      if (!key) return errorResponse(c, "Event name needs at least one letter or number", 400);
+      const existing = await storage.getEventsByYear(yearId);
+      if (RESERVED_EVENT_KEYS.includes(key) || existing.some((e) => e.key === key)) {
+        return errorResponse(c, "An event with this name already exists", 409);
+      }
+      const event = await storage.createEvent({
+        position: existing.length,
+        ...parsed.data!,
+        yearId,
+        key,
+      });
+      await invalidate(cacheKeys.events(yearId), cacheKeys.standings(yearId));
+      publish(yearId, "event-definitions");
+      await audit(c, { yearId, action: "create", entity: "event", entityId: event.id, after: event });
+      return c.json(event, 201);
+    } catch {
+      return errorResponse(c, "Failed to create event");
+    }
+  });
+
+  // Renames, re-scores or locks an event. Built-ins only support locking.
+  // A lock change moves the year's version, so it follows the year's If-Match rules.
+  app.patch("/api/years/:yearId/event-definitions/:key", isAdmin, requireYear, async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const key = c.req.param("key");
+      const parsed = parseBody(c, eventUpdateSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      const { locked, ...changes } = parsed.data!;
+      const archived = archivedYearResponse(c, c.var.year!, parsed.data!);
+      if (archived) return archived;
+      if (isBuiltinEventKey(key) && (Object.keys(changes).length > 0 || locked === undefined)) {
+        return errorResponse(c, "Built-in events can only be locked or unlocked", 400);
+      }
+
+      const before = await storage.getEventByKey(yearId, key);
+      if (!before) return errorResponse(c, "Event not found", 404);
+      let expectedVersion: number | undefined;
+      if (locked !== undefined) {
+        expectedVersion = ifMatchVersion(c);
+        if (expectedVersion === undefined) return versionRequiredResponse(c, "year");
+        if (expectedVersion !== c.var.year!.version) return staleVersionResponse(c, "year", c.var.year!);
+      }
+      const event = await storage.updateEvent(before.id, { ...changes, locked }, expectedVersion);
+      await invalidate(cacheKeys.events(yearId), cacheKeys.standings(yearId));
+      publish(yearId, "event-definitions");
+      if (locked !== undefined) {
+        const year = (await storage.getYearById(yearId))!;
+        await invalidate(cacheKeys.years, cacheKeys.year(year.id), cacheKeys.year(year.year.toString()));
+        publish(yearId, "year");
+        c.header("ETag", versionTag(year.version));
+      }
+      await audit(c, { yearId, action: "update", entity: "event", entityId: event.id, before, after: event });
+      const definitions = eventDefinitions(c.var.year!, await storage.getEventsByYear(yearId));
+      return c.json(definitions.find((e) => e.key === key));
+    } catch (err) {
+      if (err instanceof StaleVersionError) return staleVersionResponse(c, "year", err.current);
+      return errorResponse(c, "Failed to update event");
+    }
+  });
+
+  app.delete("/api/years/:yearId/event-definitions/:key", isAdmin, idempotent, requireYear, async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const key = c.req.param("key");
+      if (isBuiltinEventKey(key)) return errorResponse(c, "Built-in events can't be removed", 400);
+      const event = await storage.getEventByKey(yearId, key);
+      if (!event) return errorResponse(c, "Event not found", 404);
+      const locked = await guardLocked(c, event, `${event.name} is locked. Cannot remove it.`);
+      if (locked) return locked;
+      const results = (await storage.getEventResultsByYear(yearId)).filter((r) => r.eventId === event.id);
+      await storage.deleteEvent(event.id);
+      await invalidate(cacheKeys.events(yearId), cacheKeys.eventResults(yearId), cacheKeys.rosterOverrides(yearId), cacheKeys.standings(yearId));
+      publish(yearId, "event-definitions", "event-results", "roster-overrides");
+      await audit(c, { yearId, action: "delete", entity: "event", entityId: event.id, before: { ...event, results } });
+      return c.json({ message: "Event removed" });
+    } catch {
+      return errorResponse(c, "Failed to remove event");
+    }
+  });
+
+  app.get("/api/years/:yearId/event-results", async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const results = await cached(cacheKeys.eventResults(yearId), () =>
+        storage.getEventResultsByYear(yearId)
+      );
+      return jsonWithEtag(c, results);
+    } catch {
+      return errorResponse(c, "Failed to fetch event results");
+    }
+  });
+
+  app.post("/api/years/:yearId/event-definitions/:key/results", isAdmin, idempotent, requireYear, async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const event = await storage.getEventByKey(yearId, c.req.param("key"));
+      // Built-ins record results through their own routes
+      if (!event || isBuiltinEventKey(event.key)) return errorResponse(c, "Event not found", 404);
+      const locked = await guardLocked(c, event, `${event.name} is locked. No more results can be added.`);
+      if (locked) return locked;
+      const parsed = parseBody(c, eventResultRequestSchema, await c.req.json());
+      if (parsed.response) return parsed.response;
+      const result = await storage.createEventResult({ ...parsed.data!, eventId: event.id, yearId } as any);
+      await invalidate(cacheKeys.eventResults(yearId), cacheKeys.standings(yearId));
+      publish(yearId, "event-results");
+      await audit(c, { yearId, action: "create", entity: "event-result", entityId: result.id, after: result });
+      return c.json(result, 201);
+    } catch {
+      return errorResponse(c, "Failed to record result");
+    }
+  });
+
+  app.delete("/api/event-results/:id", isAdmin, idempotent, async (c) => {
+    try {
+      const before = await storage.getEventResultById(c.req.param("id"));
+      if (!before) return errorResponse(c, "Result not found", 404);
+      const [year, events] = await Promise.all([
+        storage.getYearById(before.yearId),
+        storage.getEventsByYear(before.yearId),
+      ]);
+      const event = events.find((e) => e.id === before.eventId);
+      if (!year || !event) return errorResponse(c, "Event not found", 404);
+      c.set("year", year);
+      const locked = await guardLocked(c, event, `${event.name} is locked. Cannot delete results.`);
+      if (locked) return locked;
+      const deletedAt = new Date();
+      await storage.deleteEventResult(before.id, deletedAt);
+      await invalidate(cacheKeys.eventResults(before.yearId), cacheKeys.standings(before.yearId));
+      publish(before.yearId, "event-results");
+      await audit(c, { yearId: before.yearId, action: "delete", entity: "event-result", entityId: before.id, before });
+      return c.json({ message: "Result deleted successfully", deletedAt: deletedAt.toISOString() });
+    } catch {
+      return errorResponse(c, "Failed to delete result");
+    }
+  });
+
+  // Standings route
+  app.get("/api/years/:yearId/standings", requireYear, async (c) => {
+    try {
+      const yearId = c.req.param("yearId");
+      const data = await cached(
+        cacheKeys.standings(yearId),
+        async () => {
+          const { standings, tieBreaks } = await loadStandings(yearId);
+          return { standings, tieBreaks };
+        },
+        cacheTTL.standings
+      );
+      return jsonWithEtag(c, data);
+    } catch {
+      return errorResponse(c, "Failed to fetch standings");
+    }
+  });
+
+  app.get("/api/years/:yearId/export", requireYear, async (c) => {
+    const format = c.req.query("format") ?? "json";
+    if (format !== "json" && format !== "csv") {
+      return errorResponse(c, "Format must be csv or json", 400);
+    }
+    try {
+      const year = c.var.year!;
+      const data = await loadYearExport(year);
+      const filename = `kak-cup-${year.year}.${format}`;
+      c.header("Content-Disposition", `attachment; filename="${filename}"`);
+      if (format === "csv") {
+        return c.body(yearExportCsv(data), 200, { "Content-Type": "text/csv; charset=utf-8" });
+      }
+      return c.json(data);
+    } catch {
+      return errorResponse(c, "Failed to export year");
+    }
+  });
+
+  // Live update stream — clients fall back to polling when this is unavailable
+  app.get("/api/years/:yearId/events", requireYear, async (c) => {
+    if (!liveEvents) {
+      return c.json({ error: "Live updates are not available" }, 501);
+    }
+    const yearId = c.req.param("yearId");
+    return streamSSE(c, async (stream) => {
+      const send = (event: YearEvent) =>
+        stream.writeSSE({ event: "change", data: JSON.stringify(event) }).catch(() => {});
+
+      await stream.writeSSE({ event: "ready", data: JSON.stringify({ yearId }) });
+      await new Promise<void>((resolve) => {
+        const unsubscribe = subscribe(yearId, send);
+        const keepAlive = setInterval(() => {
+          stream.writeSSE({ event: "ping", data: "" }).catch(() => {});
+        }, EVENTS_KEEP_ALIVE_MS);
+        stream.onAbort(() => {
+          clearInterval(keepAlive);
+          unsubscribe();
+          resolve();
+        });
+      });
+    });
+  });
+
   // Tie-break routes
   app.get("/api/years/:yearId/tie-breaks", requireYear, async (c) => {
     try {
@@ -418,7 +1778,7 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
     }
   });
 
-  app.post("/api/years/:yearId/tie-breaks", isAdmin, requireYear, async (c) => {
+  app.post("/api/years/:yearId/tie-breaks", isAdmin, idempotent, requireYear, async (c) => {
     try {
       const year = c.var.year!;
       const yearId = c.req.param("yearId");
@@ -427,7 +1787,7 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
       if (year.status !== "completed") {
         return c.json({ error: "Year must be completed before applying a tie-break." }, 400);
       }
-      if (!year.fishing_locked || !year.chug_locked || !year.golf_locked) {
+      if (!(await allEventsLocked(year.id))) {
         return c.json({ error: "All events must be locked before applying a tie-break." }, 400);
       }
       if (!teamId || typeof teamId !== "string") {
@@ -446,19 +1806,18 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
         return c.json({ error: "Tie-break already applied for this year." }, 409);
       }
 
-      const base = await computeBaseStandings(yearId);
-      if (base.completeTeams.length === 0) {
+      const { standings } = await loadStandings(yearId);
+      const completeTeams = standings.filter((s) => s.complete);
+      if (completeTeams.length === 0) {
         return c.json({ error: "No completed teams to tie-break." }, 400);
       }
 
-      const totals = base.totalPoints;
-      const totalsArray = Array.from(totals.values());
-      const maxPts = totalsArray.length > 0 ? Math.max(...totalsArray) : 0;
-      const tiedTeams = base.completeTeams.filter((t) => (totals.get(t.id) ?? 0) === maxPts);
+      const maxPts = Math.max(...completeTeams.map((s) => s.basePoints));
+      const tiedTeams = completeTeams.filter((s) => s.basePoints === maxPts);
       if (tiedTeams.length < 2) {
         return c.json({ error: "No tie for first place." }, 400);
       }
-      if (!tiedTeams.some((t) => t.id === teamId)) {
+      if (!tiedTeams.some((s) => s.teamId === teamId)) {
         return c.json({ error: "teamId must be one of the tied teams." }, 400);
       }
 
@@ -474,9 +1833,12 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
       await calculateAndStoreChampsBoots(yearId);
       await invalidate(
         cacheKeys.tieBreaks(yearId),
+        cacheKeys.standings(yearId),
         cacheKeys.kakStats,
         cacheKeys.kakResults
       );
+      publish(yearId, "tie-breaks");
+      await audit(c, { yearId, action: "create", entity: "tie-break", entityId: row.id, after: row });
 
       return c.json(row, 201);
     } catch (err: any) {
@@ -487,22 +1849,37 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
     }
   });
 
-  app.delete("/api/years/:yearId/tie-breaks", isAdmin, requireYear, async (c) => {
+  app.delete("/api/years/:yearId/tie-breaks", isAdmin, idempotent, requireYear, async (c) => {
     try {
       const yearId = c.req.param("yearId");
+      const before = await storage.getTieBreakAdjustmentsByYear(yearId);
       await storage.deleteTieBreakAdjustmentsByYear(yearId);
       await calculateAndStoreChampsBoots(yearId);
       await invalidate(
         cacheKeys.tieBreaks(yearId),
+        cacheKeys.standings(yearId),
         cacheKeys.kakStats,
         cacheKeys.kakResults
       );
+      publish(yearId, "tie-breaks");
+      await audit(c, { yearId, action: "delete", entity: "tie-break", before });
       return c.json({ message: "Tie-break removed" });
     } catch {
       return errorResponse(c, "Failed to remove tie-break");
     }
   });
 
+  // Audit routes
+  app.get("/api/audit", isAdmin, async (c) => {
+    try {
+      const yearId = c.req.query("yearId") || undefined;
+      const events = await storage.getAuditEvents(yearId);
+      return c.json(events);
+    } catch {
+      return errorResponse(c, "Failed to fetch audit log");
+    }
+  });
+
   // KAK routes
   app.get("/api/kaks", async (c) => {
     try {
@@ -517,12 +1894,13 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
     }
   });
 
-  app.post("/api/kaks", isAdmin, async (c) => {
+  app.post("/api/kaks", isAdmin, idempotent, async (c) => {
     try {
       const kakData = await c.req.json();
       if (!kakData.name) return c.json({ error: "name is required" }, 400);
       const kak = await storage.createKak(kakData);
       await invalidate(cacheKeys.kaks, `${cacheKeys.kaks}:active`);
+      await audit(c, { action: "create", entity: "kak", entityId: kak.id, after: kak });
       return c.json(kak, 201);
     } catch (err: any) {
       if (err?.message?.toLowerCase().includes("unique")) {
@@ -534,10 +1912,13 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
 
   app.patch("/api/kaks/:kakId", isAdmin, async (c) => {
     try {
+      const kakId = c.req.param("kakId");
       const kakData = await c.req.json();
-      const kak = await storage.updateKak(c.req.param("kakId"), kakData);
+      const before = await storage.getKakById(kakId);
+      const kak = await storage.updateKak(kakId, kakData);
       if (!kak) return c.json({ error: "KAK not found" }, 404);
       await invalidate(cacheKeys.kaks, `${cacheKeys.kaks}:active`);
+      await audit(c, { action: "update", entity: "kak", entityId: kak.id, before, after: kak });
       return c.json(kak);
     } catch (err: any) {
       if (err?.message?.toLowerCase().includes("unique")) {
@@ -547,6 +1928,28 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
     }
   });
 
+  app.get("/api/kaks/:kakId/profile", async (c) => {
+    try {
+      const kak = await storage.getKakById(c.req.param("kakId"));
+      if (!kak) return errorResponse(c, "KAK not found", 404);
+      return jsonWithEtag(c, await loadKakProfile(kak));
+    } catch {
+      return errorResponse(c, "Failed to fetch KAK profile");
+    }
+  });
+
+  app.get("/api/kaks/:a/vs/:b", async (c) => {
+    try {
+      const [a, b] = await Promise.all([storage.getKakById(c.req.param("a")), storage.getKakById(c.req.param("b"))]);
+      if (!a || !b) return errorResponse(c, "KAK not found", 404);
+      if (a.id === b.id) return errorResponse(c, "Pick two different KAKs", 400);
+      const record = await loadHeadToHead(a.id, b.id);
+      return jsonWithEtag(c, { a: { id: a.id, name: a.name }, b: { id: b.id, name: b.name }, ...record });
+    } catch {
+      return errorResponse(c, "Failed to compare KAKs");
+    }
+  });
+
   app.get("/api/kak-stats", async (c) => {
     try {
       const stats = await cached(cacheKeys.kakStats, () => storage.getKakStats(), cacheTTL.kakStats);
@@ -556,6 +1959,24 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
     }
   });
 
+  app.get("/api/chug-leaderboard", async (c) => {
+    try {
+      const leaderboard = await cached(cacheKeys.chugLeaderboard, () => storage.getChugLeaderboard(), cacheTTL.chugLeaderboard);
+      return jsonWithEtag(c, leaderboard);
+    } catch {
+      return errorResponse(c, "Failed to fetch chug leaderboard");
+    }
+  });
+
+  app.get("/api/golf-stats", async (c) => {
+    try {
+      const stats = await cached(cacheKeys.golfStats, () => storage.getGolfStats(), cacheTTL.golfStats);
+      return jsonWithEtag(c, stats);
+    } catch {
+      return errorResponse(c, "Failed to fetch golf stats");
+    }
+  });
+
   app.get("/api/kak-results", async (c) => {
     try {
       const results = await cached(cacheKeys.kakResults, () => storage.getYearResults(), cacheTTL.kakResults);
@@ -570,111 +1991,494 @@ export function createDataRoutes(app: Hono<AppEnv>): void {
 // Private helpers
 // ---------------------------------------------------------------------------
 
-type StandingsBase = {
-  completeTeams: Awaited<ReturnType<typeof storage.getTeamsByYear>>;
-  totalPoints: Map<string, number>;
+/** Records who changed what; a failed write is logged rather than failing the request. */
+async function audit(c: Context<AppEnv>, entry: Omit<AuditEntry, "userId">): Promise<void> {
+  try {
+    await storage.createAuditEvent({ ...entry, userId: c.var.userId });
+  } catch (err) {
+    console.error("Failed to write audit event:", err);
+  }
+}
+
+type Standings = {
+  year: Year | undefined;
+  teams: Awaited<ReturnType<typeof storage.getTeamsByYear>>;
+  fishWeights: Awaited<ReturnType<typeof storage.getFishWeightsByYear>>;
+  chugTimes: Awaited<ReturnType<typeof storage.getChugTimesByYear>>;
+  golfScores: Awaited<ReturnType<typeof storage.getGolfScoresByYear>>;
+  customEvents: CompetitionEvent[];
+  tieBreaks: Awaited<ReturnType<typeof storage.getTieBreakAdjustmentsByYear>>;
+  standings: ReturnType<typeof computeStandings>;
 };
 
-async function computeBaseStandings(yearId: string): Promise<StandingsBase> {
-  const [allTeams, fishData, chugData, golfData] = await Promise.all([
+/** Loads a year's raw results and runs them through the shared standings calculation. */
+async function loadStandings(yearId: string): Promise<Standings> {
+  const [year, teams, fishWeights, chugTimes, golfScores, tieBreaks, events, eventResults] = await Promise.all([
+    storage.getYearById(yearId),
     storage.getTeamsByYear(yearId),
     storage.getFishWeightsByYear(yearId),
     storage.getChugTimesByYear(yearId),
     storage.getGolfScoresByYear(yearId),
+    storage.getTieBreakAdjustmentsByYear(yearId),
+    storage.getEventsByYear(yearId),
+    storage.getEventResultsByYear(yearId),
   ]);
+  const custom = customEvents(events);
+  const standings = computeStandings({
+    teams,
+    fishWeights,
+    chugTimes,
+    golfScores,
+    tieBreaks,
+    config: year?.scoring_config,
+    customEvents: custom.map((event) => ({
+      key: event.key,
+      lowerIsBetter: event.lowerIsBetter,
+      aggregation: event.aggregation as EventAggregation,
+      results: eventResults.filter((r) => r.eventId === event.id),
+    })),
+  });
+  return { year, teams, fishWeights, chugTimes, golfScores, customEvents: custom, tieBreaks, standings };
+}
 
-  // Build fish totals (top 3 per team)
-  const fishByTeam = new Map<string, number[]>();
-  for (const fw of fishData) {
-    if (!fishByTeam.has(fw.teamId)) fishByTeam.set(fw.teamId, []);
-    if (fw.weight === null || fw.weight === undefined) continue;
-    const weight = Number(fw.weight);
-    if (!Number.isNaN(weight)) fishByTeam.get(fw.teamId)!.push(weight);
-  }
+type KakProfileYear = {
+  yearId: string;
+  year: number;
+  name: string;
+  status: string;
+  teamId: string;
+  teamName: string;
+  /** Played only as a fill-in, not from the team's roster */
+  fillIn: boolean;
+  /** Team finish, e.g. "2" or "T-3"; "-" before the team has points */
+  rank: string;
+  teamCount: number;
+  totalPoints: number;
+  isChamp: boolean;
+  isBoot: boolean;
+  /** The team's points in each event this KAK played, built-ins first */
+  events: { key: string; name: string; icon: string; points: number }[];
+  /** Fish this KAK landed */
+  fish: { weight: number | null; species: string | null; length: number | null }[];
+  /** Relay legs this KAK drank */
+  chugLegs: { leg: number; time: number }[];
+  golf: { score: number; differential: number | null; course: string | null } | null;
+};
 
-  const chugAverages = new Map<string, number>();
-  for (const ct of chugData) {
-    if (ct.average === null || ct.average === undefined) continue;
-    const avg = Number(ct.average);
-    if (!Number.isNaN(avg)) chugAverages.set(ct.teamId, avg);
-  }
+type KakProfile = {
+  kak: { id: string; name: string; status: string };
+  totals: {
+    years: number;
+    champs: number;
+    boots: number;
+    fish: number;
+    heaviestFish: number | null;
+    chugLegs: number;
+    bestChugLeg: number | null;
+  };
+  /** Newest year first */
+  years: KakProfileYear[];
+};
 
-  const golfScoresMap = new Map<string, number>();
-  for (const gs of golfData) {
-    if (gs.score !== null && gs.score !== undefined) {
-      golfScoresMap.set(gs.teamId, gs.score);
-    }
-  }
+const toNumberOrNull = (value: number | string | null | undefined) =>
+  value === null || value === undefined ? null : Number(value);
 
-  // Only score teams that have all three competition results
-  const completeTeams = allTeams.filter(
-    (t) => chugAverages.has(t.id) && golfScoresMap.has(t.id)
+/** Assembles a KAK's career from every team they were drafted onto or filled in for. */
+async function loadKakProfile(kak: { id: string; name: string; status: string }): Promise<KakProfile> {
+  const [rosteredTeams, overridesForKak, courses] = await Promise.all([
+    storage.getTeamsByKak(kak.id),
+    storage.getRosterOverridesByKak(kak.id),
+    storage.getCourses(),
+  ]);
+  const courseById = new Map(courses.map((course) => [course.id, course]));
+  const rosteredIds = new Set(rosteredTeams.map((team) => team.id));
+  const fillInTeamIds = Array.from(new Set(
+    overridesForKak.filter((o) => o.inKakId === kak.id && !rosteredIds.has(o.teamId)).map((o) => o.teamId)
+  ));
+  const fillInTeams = (await Promise.all(fillInTeamIds.map((id) => storage.getTeamById(id))))
+    .filter((team): team is TeamWithMembers => !!team);
+
+  const years = await Promise.all(
+    [...rosteredTeams, ...fillInTeams].map(async (team): Promise<KakProfileYear | null> => {
+      const [{ year, fishWeights, chugTimes, golfScores, customEvents, standings }, overrides] = await Promise.all([
+        loadStandings(team.yearId),
+        storage.getRosterOverridesByYear(team.yearId),
+      ]);
+      const standing = standings.find((s) => s.teamId === team.id);
+      if (!year || !standing) return null;
+      const playedIn = (event: string) => eventLineup(team.id, teamMemberIds(team), overrides, event).includes(kak.id);
+      const events = [
+        ...BUILTIN_EVENTS.map((e) => ({ key: e.key, name: e.name, icon: e.icon, points: standing[e.key].points })),
+        ...customEvents.map((e) => ({ key: e.key, name: e.name, icon: e.icon ?? "🏅", points: standing.events[e.key]?.points ?? 0 })),
+      ].filter((e) => playedIn(e.key));
+      // Sat out every event, so the year isn't theirs
+      if (events.length === 0) return null;
+
+      const round = golfScores.find((gs) => gs.teamId === team.id);
+      const course = year.course_id ? courseById.get(year.course_id) : undefined;
+      const score = toNumberOrNull(round?.score);
+      const complete = !!round && (round.holes.length === 0 || round.holes.length === GOLF_HOLES);
+      const strokePlay = resolveScoringConfig(year.scoring_config).golfLowerIsBetter;
+
+      return {
+        yearId: year.id,
+        year: year.year,
+        name: year.name,
+        status: year.status,
+        teamId: team.id,
+        teamName: team.name,
+        fillIn: !rosteredIds.has(team.id),
+        rank: standing.rank,
+        teamCount: standings.length,
+        totalPoints: standing.totalPoints,
+        // Only a finished year has crowned its champs and boots
+        isChamp: isFinishedStatus(year.status) && standing.isChamp,
+        isBoot: isFinishedStatus(year.status) && standing.isBoot,
+        events,
+        fish: fishWeights
+          .filter((fw) => fw.teamId === team.id && fw.kakId === kak.id)
+          .map((fw) => ({ weight: toNumberOrNull(fw.weight), species: fw.species, length: toNumberOrNull(fw.length) })),
+        chugLegs: chugTimes
+          .filter((ct) => ct.teamId === team.id)
+          .flatMap((ct) => ct.legs)
+          .filter((leg) => leg.kakId === kak.id)
+          .map((leg) => ({ leg: leg.leg, time: Number(leg.time) })),
+        golf: score === null || !playedIn("golf") ? null : {
+          score,
+          differential: course && strokePlay && complete ? calculateScoreDifferential(score, course) : null,
+          course: course?.name ?? null,
+        },
+      };
+    })
   );
-  if (completeTeams.length === 0) return { completeTeams, totalPoints: new Map() };
 
-  const fishTotals = new Map(
-    completeTeams.map((t) => [t.id, calculateTop3FishTotal(fishByTeam.get(t.id) ?? [])])
-  );
+  const played = years.filter((y): y is KakProfileYear => y !== null).sort((a, b) => b.year - a.year);
+  const fishWeights = played.flatMap((y) => y.fish.map((f) => f.weight ?? 0));
+  const legTimes = played.flatMap((y) => y.chugLegs.map((l) => l.time));
+  return {
+    kak: { id: kak.id, name: kak.name, status: kak.status },
+    totals: {
+      years: played.length,
+      champs: played.filter((y) => y.isChamp).length,
+      boots: played.filter((y) => y.isBoot).length,
+      fish: fishWeights.length,
+      heaviestFish: fishWeights.length > 0 ? Math.max(...fishWeights) : null,
+      chugLegs: legTimes.length,
+      bestChugLeg: legTimes.length > 0 ? Math.min(...legTimes) : null,
+    },
+    years: played,
+  };
+}
+
+type YearExportTeam = {
+  id: string;
+  name: string;
+  /** Final finish, e.g. "1" or "T-3"; "-" before the team has points */
+  rank: string;
+  basePoints: number;
+  adjustment: number;
+  totalPoints: number;
+  isChamp: boolean;
+  isBoot: boolean;
+  members: { kakId: string; name: string; role: string; slot: number }[];
+  fish: { kak: string | null; weight: number | null; species: string | null; length: number | null }[];
+  chug: { average: number | null; legs: { leg: number; kak: string | null; time: number }[] } | null;
+  /** Relative to par */
+  golf: { score: number | null } | null;
+  /** Every event's result and points, built-ins first */
+  events: { key: string; name: string; score: number | null; points: number; rank: string }[];
+};
+
+type YearExport = {
+  year: { id: string; year: number; name: string; status: string };
+  /** Teams in finishing order */
+  teams: YearExportTeam[];
+};
 
-  const fishPoints = rankFishTeams(fishTotals);
-  const chugPoints = rankChugTeams(new Map(completeTeams.map((t) => [t.id, chugAverages.get(t.id)!])));
-  const golfPoints = rankGolfTeams(new Map(completeTeams.map((t) => [t.id, golfScoresMap.get(t.id)!])));
-
-  const fishPointsMap = new Map(fishPoints.map((p) => [p.teamId, p.points]));
-  const chugPointsMap = new Map(chugPoints.map((p) => [p.teamId, p.points]));
-  const golfPointsMap = new Map(golfPoints.map((p) => [p.teamId, p.points]));
-
-  // Sum totals
-  const totalPoints = new Map<string, number>();
-  for (const team of completeTeams) {
-    const fish = fishPointsMap.get(team.id) ?? 0;
-    const chug = chugPointsMap.get(team.id) ?? 0;
-    const golf = golfPointsMap.get(team.id) ?? 0;
-    totalPoints.set(team.id, fish + chug + golf);
+/** A year's full results for download, in standings order. */
+async function loadYearExport(year: Year): Promise<YearExport> {
+  const [{ teams, fishWeights, chugTimes, golfScores, customEvents, standings }, kaks] = await Promise.all([
+    loadStandings(year.id),
+    storage.getKaks(),
+  ]);
+  const kakNames = new Map(kaks.map((kak) => [kak.id, kak.name]));
+  const kakName = (kakId: string | null) => (kakId ? kakNames.get(kakId) ?? null : null);
+  const teamsById = new Map(teams.map((team) => [team.id, team]));
+  const events = [
+    ...BUILTIN_EVENTS.map((e) => ({ key: e.key, name: e.name })),
+    ...customEvents.map((e) => ({ key: e.key, name: e.name })),
+  ];
+
+  return {
+    year: { id: year.id, year: year.year, name: year.name, status: year.status },
+    teams: standings.flatMap((standing): YearExportTeam[] => {
+      const team = teamsById.get(standing.teamId);
+      if (!team) return [];
+      const chug = chugTimes.find((ct) => ct.teamId === team.id);
+      const round = golfScores.find((gs) => gs.teamId === team.id);
+      return [{
+        id: team.id,
+        name: team.name,
+        rank: standing.rank,
+        basePoints: standing.basePoints,
+        adjustment: standing.adjustment,
+        totalPoints: standing.totalPoints,
+        // Only a finished year has crowned its champs and boots
+        isChamp: isFinishedStatus(year.status) && standing.isChamp,
+        isBoot: isFinishedStatus(year.status) && standing.isBoot,
+        members: team.members.map((m) => ({ kakId: m.kakId, name: m.name, role: m.role, slot: m.slot })),
+        fish: fishWeights
+          .filter((fw) => fw.teamId === team.id)
+          .map((fw) => ({
+            kak: kakName(fw.kakId),
+            weight: toNumberOrNull(fw.weight),
+            species: fw.species,
+            length: toNumberOrNull(fw.length),
+          })),
+        chug: chug ? {
+          average: toNumberOrNull(chug.average),
+          legs: chug.legs.map((leg) => ({ leg: leg.leg, kak: kakName(leg.kakId), time: Number(leg.time) })),
+        } : null,
+        golf: round ? { score: toNumberOrNull(round.score) } : null,
+        events: events.map((e) => {
+          const result = isBuiltinEventKey(e.key) ? standing[e.key] : standing.events[e.key];
+          return {
+            key: e.key,
+            name: e.name,
+            score: result?.score ?? null,
+            points: result?.points ?? 0,
+            rank: result?.rank ?? "-",
+          };
+        }),
+      }];
+    }),
+  };
+}
+
+type CsvCell = string | number | null;
+
+const YEAR_EXPORT_CSV_HEADER = ["Rank", "Team", "Total Points", "Record", "KAK", "Event", "Value", "Points", "Detail"];
+
+// Quotes a cell when it needs it, and defuses text a spreadsheet would run as a formula
+function csvCell(value: CsvCell): string {
+  if (value === null) return "";
+  if (typeof value === "number") return String(value);
+  const text = /^[=+@\t\r]|^-[^\d.]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Flattens an export into one CSV row per record: a team's standing, then its
+ * members, fish, chug legs, golf round and event points. The first three
+ * columns repeat on every row so a spreadsheet can filter or pivot by team.
+ */
+function yearExportCsv(data: YearExport): string {
+  const rows: CsvCell[][] = [YEAR_EXPORT_CSV_HEADER];
+  for (const team of data.teams) {
+    const row = (record: string, kak: string | null, event: string | null, value: CsvCell, points: number | null, detail: string | null) =>
+      rows.push([team.rank, team.name, team.totalPoints, record, kak, event, value, points, detail]);
+    const finish = [team.isChamp && "Champs", team.isBoot && "Boot", team.adjustment !== 0 && `Tie-break ${team.adjustment > 0 ? "+" : ""}${team.adjustment}`];
+    row("Standing", null, null, null, team.totalPoints, finish.filter(Boolean).join("; ") || null);
+    for (const member of team.members) row("Member", member.name, null, member.slot, null, member.role);
+    for (const fish of team.fish) {
+      const detail = [fish.species, fish.length === null ? null : `${fish.length} in`].filter(Boolean).join(", ");
+      row("Fish", fish.kak, "Fish", fish.weight, null, detail || null);
+    }
+    for (const leg of team.chug?.legs ?? []) row("Chug Leg", leg.kak, "Chug", leg.time, null, `Leg ${leg.leg}`);
+    if (team.golf) row("Golf", null, "Golf", team.golf.score, null, null);
+    for (const event of team.events) row("Event", null, event.name, event.score, event.points, event.rank === "-" ? null : `Rank ${event.rank}`);
   }
+  return rows.map((r) => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/** Draft ratings from every finished year, plus the most recent champs. */
+async function loadDraftHistory(): Promise<{ ratings: Map<string, number>; lastChampIds: string[] }> {
+  const finished = (await storage.getYears())
+    .filter((year) => isFinishedStatus(year.status))
+    .sort((a, b) => b.year - a.year);
+  const loaded = await Promise.all(finished.map(async (year) => ({
+    ...(await loadStandings(year.id)),
+    overrides: await storage.getRosterOverridesByYear(year.id),
+  })));
+
+  const finishes = new Map<string, { position: number; teamCount: number }[]>();
+  let lastChampIds: string[] = [];
+  loaded.forEach(({ teams, standings, customEvents, overrides }, i) => {
+    const teamsById = new Map(teams.map((team) => [team.id, team]));
+    const eventKeys = [...BUILTIN_EVENTS.map((event) => event.key), ...customEvents.map((event) => event.key)];
+    for (const standing of standings) {
+      const team = teamsById.get(standing.teamId);
+      if (!team) continue;
+      // Finishes follow who played, the same as champ and boot credit
+      const kakIds = playedKakIds(team.id, teamMemberIds(team), overrides, eventKeys);
+      if (i === 0 && standing.isChamp) lastChampIds = kakIds;
+      const position = finishPosition(standing.rank);
+      if (position === null) continue;
+      for (const kakId of kakIds) {
+        finishes.set(kakId, [...(finishes.get(kakId) ?? []), { position, teamCount: standings.length }]);
+      }
+    }
+  });
 
-  return { completeTeams, totalPoints };
+  const ratings = new Map(Array.from(finishes, ([kakId, rows]) => [kakId, rateKak(rows)]));
+  return { ratings, lastChampIds };
 }
 
-function applyTieBreakAdjustments(
-  totalPoints: Map<string, number>,
-  adjustments: { teamId: string; deltaPoints: unknown }[],
-): Map<string, number> {
-  const adjusted = new Map(totalPoints);
-  for (const adj of adjustments) {
-    if (!adjusted.has(adj.teamId)) continue;
-    const delta = Number(adj.deltaPoints);
-    if (!Number.isFinite(delta)) continue;
-    adjusted.set(adj.teamId, (adjusted.get(adj.teamId) ?? 0) + delta);
+type LiveDraft = {
+  /** One per team, in snake order */
+  captains: DraftPickRow[];
+  /** In the order they were made */
+  picks: DraftPickRow[];
+  /** Whose turn it is; null before the captains are named or once every seat is filled */
+  next: SnakeTurn | null;
+  /** Active KAKs not yet drafted, by name */
+  available: { id: string; name: string }[];
+  /** The draft has written the year's teams */
+  complete: boolean;
+};
+
+/** Where a pick falls in the snake order, counting from 0 after the captains. */
+function pickNumber(pick: DraftPickRow, teamCount: number): number {
+  const offset = pick.round % 2 === 1 ? pick.slot - 1 : teamCount - pick.slot;
+  return (pick.round - 1) * teamCount + offset;
+}
+
+async function loadLiveDraft(yearId: string): Promise<LiveDraft> {
+  const [rows, active, teams] = await Promise.all([
+    storage.getDraftPicks(yearId),
+    storage.getKaks("active"),
+    storage.getTeamsByYear(yearId),
+  ]);
+  const captains = rows.filter((row) => row.round === 0);
+  const picks = rows
+    .filter((row) => row.round > 0)
+    .sort((a, b) => pickNumber(a, captains.length) - pickNumber(b, captains.length));
+  const draftedIds = new Set(rows.map((row) => row.kakId));
+  const complete = captains.length > 0 && teams.length > 0;
+
+  return {
+    captains,
+    picks,
+    next: captains.length > 0 && !complete ? snakeTurn(picks.length, captains.length) : null,
+    available: active
+      .filter((k) => !draftedIds.has(k.id))
+      .map((k) => ({ id: k.id, name: k.name }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    complete,
+  };
+}
+
+/**
+ * Writes the year's teams once every seat is filled or nobody is left to
+ * pick; each team is named for its captain and keeps its draft slot.
+ */
+async function finishLiveDraftIfDone(c: Context<AppEnv>, yearId: string): Promise<LiveDraft> {
+  const draft = await loadLiveDraft(yearId);
+  if (draft.complete || (draft.next && draft.available.length > 0)) return draft;
+
+  const kakById = new Map((await storage.getKaks()).map((k) => [k.id, k]));
+  await createDraftedTeams(c, yearId, draft.captains.map((captain) => ({
+    name: `Team ${captain.name}`,
+    kaks: [captain, ...draft.picks.filter((p) => p.slot === captain.slot).sort((a, b) => a.round - b.round)]
+      .map((p) => kakById.get(p.kakId)!),
+  })));
+  return { ...draft, next: null, complete: true };
+}
+
+/** Saves drafted teams in one insert, positioned in the order given. */
+async function createDraftedTeams(
+  c: Context<AppEnv>,
+  yearId: string,
+  drafted: { name: string; kaks: Pick<Kak, "id" | "name">[] }[],
+): Promise<TeamWithMembers[]> {
+  const teams = await storage.createTeams(drafted.map((team, i) => ({
+    yearId,
+    name: team.name,
+    position: i + 1,
+    members: team.kaks.map((kak) => ({ kakId: kak.id })),
+  })));
+  await invalidate(cacheKeys.teams(yearId), cacheKeys.standings(yearId));
+  publish(yearId, "teams");
+  for (const team of teams) {
+    await audit(c, { yearId, action: "create", entity: "team", entityId: team.id, after: team });
   }
-  return adjusted;
+  return teams;
 }
 
-/** Calculates standings for a year and writes champs + boots entries. */
-async function calculateAndStoreChampsBoots(yearId: string): Promise<void> {
-  const base = await computeBaseStandings(yearId);
-  if (base.completeTeams.length === 0) return;
+/** Compares two KAKs over the finished years they both played. */
+async function loadHeadToHead(aId: string, bId: string): Promise<HeadToHeadRecord> {
+  const [aTeams, bTeams] = await Promise.all([storage.getTeamsByKak(aId), storage.getTeamsByKak(bId)]);
+  const bYearIds = new Set(bTeams.map((team) => team.yearId));
+  const sharedYearIds = Array.from(new Set(aTeams.map((team) => team.yearId))).filter((id) => bYearIds.has(id));
+
+  const a: SeasonFinish[] = [];
+  const b: SeasonFinish[] = [];
+  await Promise.all(
+    sharedYearIds.map(async (yearId) => {
+      const { year, standings } = await loadStandings(yearId);
+      if (!year || !isFinishedStatus(year.status)) return;
+      const finishFor = (team: TeamWithMembers | undefined): SeasonFinish | null => {
+        const standing = team && standings.find((s) => s.teamId === team.id);
+        if (!team || !standing) return null;
+        return {
+          yearId,
+          year: year.year,
+          teamId: team.id,
+          teamName: team.name,
+          rank: standing.rank,
+          totalPoints: standing.totalPoints,
+          teamCount: standings.length,
+          isChamp: standing.isChamp,
+          isBoot: standing.isBoot,
+        };
+      };
+      const aFinish = finishFor(aTeams.find((team) => team.yearId === yearId));
+      const bFinish = finishFor(bTeams.find((team) => team.yearId === yearId));
+      if (!aFinish || !bFinish) return;
+      a.push(aFinish);
+      b.push(bFinish);
+    })
+  );
+  return compareKaks(a, b);
+}
 
-  const adjustments = await storage.getTieBreakAdjustmentsByYear(yearId);
-  const totalPoints = adjustments.length > 0
-    ? applyTieBreakAdjustments(base.totalPoints, adjustments)
-    : base.totalPoints;
+// Fill-ins move golf differentials between KAKs and, once a year is
+// completed, who shares in its champ and boot finishes.
+async function onRosterOverridesChanged(yearId: string, status: string): Promise<void> {
+  if (status === "completed") await calculateAndStoreChampsBoots(yearId);
+  await invalidate(
+    cacheKeys.rosterOverrides(yearId),
+    cacheKeys.golfStats,
+    cacheKeys.kakStats,
+    cacheKeys.kakResults
+  );
+  publish(yearId, "roster-overrides");
+}
 
-  const totalsArray = Array.from(totalPoints.values());
-  const maxPts = Math.max(...totalsArray);
-  const minPts = Math.min(...totalsArray);
+/**
+ * Calculates standings for a year and writes champs + boots entries. Credit
+ * goes to every KAK who played at least one event for the team, fill-ins
+ * included; a rostered KAK who sat out every event gets none.
+ */
+async function calculateAndStoreChampsBoots(yearId: string): Promise<void> {
+  const [{ teams, standings }, overrides, eventKeys] = await Promise.all([
+    loadStandings(yearId),
+    storage.getRosterOverridesByYear(yearId),
+    yearEventKeys(yearId),
+  ]);
+  if (!standings.some((s) => s.complete)) return;
 
+  const teamsById = new Map(teams.map((t) => [t.id, t]));
   const champKakIds: string[] = [];
   const bootKakIds: string[] = [];
 
-  const topTeams = base.completeTeams.filter((team) => (totalPoints.get(team.id) ?? 0) === maxPts);
-
-  for (const team of base.completeTeams) {
-    const pts = totalPoints.get(team.id) ?? 0;
-    const kakIds = [team.kak1Id, team.kak2Id, team.kak3Id, team.kak4Id].filter(Boolean) as string[];
-    if (topTeams.length === 1 && pts === maxPts) champKakIds.push(...kakIds);
-    if (pts === minPts) bootKakIds.push(...kakIds);
+  for (const standing of standings) {
+    const team = teamsById.get(standing.teamId)!;
+    const kakIds = playedKakIds(team.id, teamMemberIds(team), overrides, eventKeys);
+    if (standing.isChamp) champKakIds.push(...kakIds);
+    if (standing.isBoot) bootKakIds.push(...kakIds);
   }
 
-  await storage.setChampsAndBoots(yearId, champKakIds, bootKakIds);
+  // Storage keeps a KAK to one team a year; dedupe anyway so a legacy year can't credit one twice
+  await storage.setChampsAndBoots(yearId, Array.from(new Set(champKakIds)), Array.from(new Set(bootKakIds)));
 }
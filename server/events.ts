@@ -0,0 +1,47 @@
+// In-process pub/sub for live year updates, streamed to clients over SSE.
+// Subscribers only see events published by the same process, so this is
+// enabled on the long-lived Node server and disabled on the Edge runtime
+// (where clients fall back to polling).
+
+import type { YearEventType } from "../shared/events.js";
+
+export type YearEvent = {
+  yearId: string;
+  type: YearEventType;
+};
+
+type Listener = (event: YearEvent) => void;
+
+const listeners = new Map<string, Set<Listener>>();
+
+/** Registers a listener for a year's events; returns the unsubscribe function. */
+export function subscribe(yearId: string, listener: Listener): () => void {
+  let set = listeners.get(yearId);
+  if (!set) {
+    set = new Set();
+    listeners.set(yearId, set);
+  }
+  set.add(listener);
+
+  return () => {
+    const current = listeners.get(yearId);
+    if (!current) return;
+    current.delete(listener);
+    if (current.size === 0) listeners.delete(yearId);
+  };
+}
+
+/** Notifies every subscriber of a year that one of its resources changed. */
+export function publish(yearId: string, ...types: YearEventType[]): void {
+  const set = listeners.get(yearId);
+  if (!set) return;
+  for (const type of types) {
+    for (const listener of set) {
+      try {
+        listener({ yearId, type });
+      } catch (err) {
+        console.error("Year event listener failed:", err);
+      }
+    }
+  }
+}
@@ -1,6 +1,6 @@
 import { fileURLToPath } from "url";
 import { db as defaultDb } from "./db.js";
-import { kaks, teams, years } from "../shared/schema.js";
+import { kaks, teams, teamMembers, years } from "../shared/schema.js";
 import { eq, and } from "drizzle-orm";
 
 // ---------------------------------------------------------------------------
@@ -110,6 +110,56 @@ export async function backfill2025Teams(dbInstance: typeof defaultDb): Promise<n
   return updated;
 }
 
+/**
+ * Copies every team's kak1..kak4 columns into team_members, one player row
+ * per slot. Each slot uses its FK when set and otherwise looks the legacy
+ * name up in the kaks table, so run insertKaks first.
+ * Skips teams that already have members (safe to re-run) and warns about
+ * names that match no KAK. A KAK already on another team that year is left
+ * off, since team_members holds each KAK to one team a year.
+ * Returns the number of teams given members.
+ */
+export async function backfillTeamMembers(dbInstance: typeof defaultDb): Promise<number> {
+  const allKaks = await dbInstance.select().from(kaks);
+  const kakByName = new Map(allKaks.map((k: { name: string; id: string }) => [k.name, k.id]));
+  const filled = new Set(
+    (await dbInstance.select({ teamId: teamMembers.teamId }).from(teamMembers)).map((m: { teamId: string }) => m.teamId)
+  );
+
+  let backfilled = 0;
+
+  for (const team of await dbInstance.select().from(teams)) {
+    if (filled.has(team.id)) continue;
+
+    const legacy = [
+      [team.kak1Id, team.kak1],
+      [team.kak2Id, team.kak2],
+      [team.kak3Id, team.kak3],
+      [team.kak4Id, team.kak4],
+    ] as const;
+    const kakIds: string[] = [];
+    for (const [kakId, name] of legacy) {
+      const resolved = kakId ?? (name ? kakByName.get(name) : undefined);
+      if (!resolved) {
+        if (name) console.warn(`  ⚠ Could not resolve "${name}" on team "${team.name}" — skipping them.`);
+        continue;
+      }
+      if (!kakIds.includes(resolved)) kakIds.push(resolved);
+    }
+    if (kakIds.length === 0) continue;
+
+    await dbInstance
+      .insert(teamMembers)
+      .values(kakIds.map((kakId, i) => ({ teamId: team.id, yearId: team.yearId, kakId, slot: i + 1, role: 'player' })))
+      .onConflictDoNothing();
+
+    console.log(`  ✓ ${team.name}: ${kakIds.length} members`);
+    backfilled++;
+  }
+
+  return backfilled;
+}
+
 // ---------------------------------------------------------------------------
 // Main entry point
 // ---------------------------------------------------------------------------
@@ -123,6 +173,10 @@ async function run() {
   const teamsUpdated = await backfill2025Teams(defaultDb);
   console.log(`  ✓ ${teamsUpdated} teams updated.`);
 
+  console.log('\nBackfilling team members...');
+  const teamsBackfilled = await backfillTeamMembers(defaultDb);
+  console.log(`  ✓ ${teamsBackfilled} teams backfilled.`);
+
   console.log('\nDone.');
 }
 
@@ -1,6 +1,15 @@
-import { users, years, teams, kaks, champs, boots, tieBreakAdjustments, fishWeights, chugTimes, golfScores, type User, type RegisterUser, type Year, type InsertYear, type Team, type InsertTeam, type Kak, type InsertKak, type InsertTieBreakAdjustment, type TieBreakAdjustment, type InsertFishWeight, type FishWeight, type InsertChugTime, type ChugTime, type InsertGolfScore, type GolfScore } from "../shared/schema.js";
+import { users, courses, years, teams, teamMembers, kaks, champs, boots, tieBreakAdjustments, auditEvents, idempotencyKeys, fishWeights, chugTimes, chugLegs, golfScores, golfHoles, events, eventResults, draftPicks, rosterOverrides, type User, type RegisterUser, type Year, type InsertYear, type Course, type InsertCourse, type Team, type InsertTeam, type TeamWithMembers, type Kak, type InsertKak, type InsertTieBreakAdjustment, type TieBreakAdjustment, type AuditEvent, type IdempotencyKey, type InsertIdempotencyKey, type InsertFishWeight, type FishWeight, type InsertChugTime, type ChugTime, type ChugLeg, type InsertGolfScore, type GolfScore, type GolfHole, type InsertCompetitionEvent, type CompetitionEvent, type InsertEventResult, type EventResult, type InsertDraftPick, type DraftPick, type InsertRosterOverride, type RosterOverride } from "../shared/schema.js";
+import type * as schema from "../shared/schema.js";
 import { db } from "./db.js";
-import { eq, and, count, desc } from "drizzle-orm";
+import type { NeonHttpDatabase } from "drizzle-orm/neon-http";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import type { BatchItem } from "drizzle-orm/batch";
+import type * as sqliteSchema from "../shared/schema-sqlite.js";
+import { eq, and, or, asc, count, desc, inArray, notInArray, isNull, lt, sql, type Column } from "drizzle-orm";
+import { BUILTIN_EVENTS } from "../shared/events.js";
+import { calculateScoreDifferential } from "../shared/golf.js";
+import { resolveScoringConfig } from "../shared/scoring.js";
+import { eventLineup, type RosterOverrideEntry, type TeamMemberEntry, type TeamMemberInput, type TeamMemberRole } from "../shared/teams.js";
 
 export interface KakStatRow {
   kakId: string;
@@ -14,13 +23,196 @@ export interface YearResult {
   boots: string[];
 }
 
-type FishWeightRow = Pick<FishWeight, "teamId" | "weight">;
+export interface ChugLeaderboardRow {
+  kakId: string;
+  name: string;
+  /** Fastest single leg across every year */
+  bestTime: number;
+  bestYear: number;
+  averageTime: number;
+  legs: number;
+}
+
+export interface GolfStatRow {
+  kakId: string;
+  name: string;
+  /** Rounds played on a rated course */
+  rounds: number;
+  bestDifferential: number;
+  bestYear: number;
+  bestCourse: string;
+  averageDifferential: number;
+}
+
+export type AuditAction = "create" | "update" | "delete" | "restore";
+
+export type AuditEntity = "year" | "course" | "team" | "fish-weight" | "chug-time" | "golf-score" | "tie-break" | "kak" | "event" | "event-result" | "draft-pick" | "roster-override";
+
+export interface AuditEntry {
+  yearId?: string | null;
+  userId: string;
+  action: AuditAction;
+  entity: AuditEntity;
+  entityId?: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEventRow extends Omit<AuditEvent, "before" | "after"> {
+  username: string | null;
+  before: unknown;
+  after: unknown;
+}
+
+type FishWeightRow = Pick<FishWeight, "id" | "teamId" | "weight" | "species" | "length" | "kakId" | "caughtAt">;
+
+export type ChugLegRow = Pick<ChugLeg, "leg" | "kakId" | "time">;
+
+type ChugTimeRow = Pick<ChugTime, "id" | "teamId" | "chug1" | "chug2" | "average"> & { legs: ChugLegRow[] };
 
-type ChugTimeRow = Pick<ChugTime, "teamId" | "chug1" | "chug2" | "average">;
+export type GolfHoleRow = Pick<GolfHole, "hole" | "strokes">;
+
+type GolfScoreRow = Pick<GolfScore, "id" | "teamId" | "score"> & { holes: GolfHoleRow[] };
+
+type EventResultRow = Pick<EventResult, "id" | "eventId" | "teamId" | "value" | "notes">;
+
+export type DraftPickRow = Pick<DraftPick, "round" | "slot" | "kakId"> & { name: string };
+
+/** Thrown when a team write would put a KAK on two teams in the same year */
+export class KakConflictError extends Error {
+  constructor(readonly kakId: string, kakName: string, readonly team: Pick<Team, "id" | "name">) {
+    super(`${kakName} is already on ${team.name}`);
+    this.name = "KakConflictError";
+  }
+}
+
+/** Thrown when a write names a version the row has already moved past */
+export class StaleVersionError<T extends { version: number }> extends Error {
+  constructor(readonly current: T) {
+    super(`Expected an older version than ${current.version}`);
+    this.name = "StaleVersionError";
+  }
+}
+
+/** A team write: the team's own columns plus, when given, its whole roster */
+export type TeamInput = InsertTeam & { members?: TeamMemberInput[] };
+
+export function teamMemberIds(team: { members?: readonly { kakId: string }[] }): string[] {
+  return (team.members ?? []).map((member) => member.kakId);
+}
+
+/** A team a write expects to find, at the version the writer loaded when given */
+export interface ExpectedTeam {
+  id: string;
+  version?: number;
+}
+
+export interface TeamChanges {
+  create: TeamInput[];
+  /** With a version, the update only lands if the team is still at it */
+  update: (Partial<TeamInput> & ExpectedTeam)[];
+  /** Likewise, a team is only removed if it's still at the version given */
+  remove: ExpectedTeam[];
+}
 
-type GolfScoreRow = Pick<GolfScore, "teamId" | "score">;
+// Everything on a year row except the legacy lock columns
+const yearColumns = {
+  id: years.id,
+  year: years.year,
+  name: years.name,
+  status: years.status,
+  scoring_config: years.scoring_config,
+  golf_pars: years.golf_pars,
+  course_id: years.course_id,
+  version: years.version,
+};
 
-type InsertChugTimeWithAverage = InsertChugTime & { average: number | string };
+// The year column each built-in event locked through before it had a row
+const legacyLockColumns = {
+  fish: years.fishing_locked,
+  chug: years.chug_locked,
+  golf: years.golf_locked,
+};
+
+// Everything on a team row except the legacy member columns
+const teamColumns = {
+  id: teams.id,
+  yearId: teams.yearId,
+  name: teams.name,
+  position: teams.position,
+  locked: teams.locked,
+  version: teams.version,
+};
+
+type TeamRow = Omit<TeamWithMembers, "members">;
+
+// Slots follow the order the roster was given in
+const memberRows = (team: { id: string; yearId: string }, members: TeamMemberInput[]) =>
+  members.map((member, i) => ({ teamId: team.id, yearId: team.yearId, kakId: member.kakId, slot: i + 1, role: member.role ?? "player" }));
+
+// The one-team-a-year index rejected a roster row; Postgres names the index, SQLite its columns
+const isDuplicateYearKak = (err: unknown) =>
+  /unique_team_members_year_kak|team_members\.year_id, team_members\.kak_id/.test(String((err as Error)?.message));
+
+// What a multi-statement write is built on: the Neon database whose batch runs
+// it, or a local SQLite transaction building the same statements
+type QueryBuilder = NeonHttpDatabase<typeof schema>;
+type SqliteTransaction = Parameters<Parameters<BetterSQLite3Database<typeof sqliteSchema>["transaction"]>[0]>[0];
+type Statements = (q: QueryBuilder) => BatchItem<"pg">[];
+
+function insertTeamStatements(q: QueryBuilder, { members = [], ...team }: TeamInput & { id: string }) {
+  return [
+    q.insert(teams).values(team),
+    ...(members.length > 0 ? [q.insert(teamMembers).values(memberRows(team, members))] : []),
+  ];
+}
+
+function nextVersion(version: Column, expectedVersion?: number) {
+  return expectedVersion === undefined
+    ? sql`${version} + 1`
+    : sql`case when ${version} = ${expectedVersion} then ${version} + 1 end`;
+}
+
+// A roster in the update replaces the team's whole roster, dropping any
+// override that no longer swaps a rostered KAK for an outside one. Every
+// update bumps the team's version, roster-only ones included.
+//
+// Given the version the writer started from, a team that has moved on gets a
+// null version instead, which the NOT NULL column refuses: the statement fails
+// and takes the roster statements down with it. Filtering on the version
+// would only skip the team row, since a Neon batch can't stop partway.
+function updateTeamStatements(
+  q: QueryBuilder,
+  { id, yearId }: { id: string; yearId: string },
+  { members, ...teamData }: Partial<TeamInput>,
+  expectedVersion?: number,
+) {
+  const kakIds = members?.map((member) => member.kakId) ?? [];
+  return [
+    q.update(teams).set({ ...teamData, version: nextVersion(teams.version, expectedVersion) }).where(eq(teams.id, id)),
+    ...(members !== undefined ? [
+      q.delete(teamMembers).where(eq(teamMembers.teamId, id)),
+      q.delete(rosterOverrides).where(and(
+        eq(rosterOverrides.teamId, id),
+        kakIds.length > 0 ? or(notInArray(rosterOverrides.outKakId, kakIds), inArray(rosterOverrides.inKakId, kakIds)) : undefined,
+      )),
+    ] : []),
+    ...(members?.length ? [q.insert(teamMembers).values(memberRows({ id, yearId }, members))] : []),
+  ];
+}
+
+// Restores only bring back rows for teams still in the year; a team removed
+// since the delete doesn't get its results back
+const yearTeamIds = (yearId: string) => db.select({ id: teams.id }).from(teams).where(eq(teams.yearId, yearId));
+
+const selectEvents = (yearId: string): Promise<CompetitionEvent[]> =>
+  db.select().from(events).where(eq(events.yearId, yearId)).orderBy(asc(events.position), asc(events.name));
+
+type InsertChugTimeWithAverage = InsertChugTime & {
+  average: number | string;
+  /** Relay legs in drinking order; replaces any the team already had */
+  legs?: { kakId?: string | null; time: number | string }[];
+};
 
 export interface IStorage {
   // User operations
@@ -33,13 +225,26 @@ export interface IStorage {
   getYearById(id: string): Promise<Year | undefined>;
   getYears(): Promise<Year[]>;
   createYear(year: InsertYear): Promise<Year>;
-  updateYear(id: string, year: Partial<Year>): Promise<Year>;
+  updateYear(id: string, year: Partial<Year>, expectedVersion?: number): Promise<Year>;
+  // Course operations
+  getCourses(): Promise<Course[]>;
+  getCourseById(id: string): Promise<Course | undefined>;
+  createCourse(course: InsertCourse): Promise<Course>;
+  updateCourse(id: string, course: Partial<InsertCourse>): Promise<Course>;
+  deleteCourse(id: string): Promise<void>;
+  isCourseInUse(id: string): Promise<boolean>;
+  getGolfStats(): Promise<GolfStatRow[]>;
   // Team operations
-  getTeamsByYear(yearId: string): Promise<Team[]>;
-  createTeam(team: InsertTeam): Promise<Team>;
-  updateTeam(id: string, team: Partial<InsertTeam>): Promise<Team>;
+  getTeamsByYear(yearId: string): Promise<TeamWithMembers[]>;
+  getTeamById(id: string): Promise<TeamWithMembers | undefined>;
+  getTeamsByKak(kakId: string): Promise<TeamWithMembers[]>;
+  createTeam(team: TeamInput): Promise<TeamWithMembers>;
+  createTeams(teams: TeamInput[]): Promise<TeamWithMembers[]>;
+  replaceTeams(yearId: string, changes: TeamChanges): Promise<void>;
+  updateTeam(id: string, team: Partial<TeamInput>): Promise<TeamWithMembers>;
   // KAK operations
   getKaks(status?: string): Promise<Kak[]>;
+  getKakById(id: string): Promise<Kak | undefined>;
   createKak(kak: InsertKak): Promise<Kak>;
   updateKak(id: string, kak: Partial<InsertKak>): Promise<Kak>;
   getKakStats(): Promise<{ champs: KakStatRow[]; boots: KakStatRow[] }>;
@@ -48,19 +253,54 @@ export interface IStorage {
   getTieBreakAdjustmentsByYear(yearId: string): Promise<TieBreakAdjustment[]>;
   createTieBreakAdjustment(adjustment: InsertTieBreakAdjustment): Promise<TieBreakAdjustment>;
   deleteTieBreakAdjustmentsByYear(yearId: string): Promise<void>;
-  // Competition operations
+  // Audit operations
+  createAuditEvent(entry: AuditEntry): Promise<AuditEvent>;
+  getAuditEvents(yearId?: string, limit?: number): Promise<AuditEventRow[]>;
+  // Competition operations. Deletes are soft: rows are tombstoned with deletedAt
+  // and hidden from reads until restored with that same timestamp.
   getFishWeightsByYear(yearId: string): Promise<FishWeightRow[]>;
+  getFishWeightById(id: string): Promise<FishWeight | undefined>;
   createFishWeight(fishWeight: InsertFishWeight): Promise<FishWeight>;
-  deleteFishWeightsByTeam(yearId: string, teamId: string): Promise<void>;
+  updateFishWeight(id: string, fishWeight: Partial<Omit<InsertFishWeight, "yearId" | "teamId">>): Promise<FishWeight>;
+  deleteFishWeight(id: string, deletedAt?: Date): Promise<void>;
+  deleteFishWeightsByTeam(yearId: string, teamId: string, deletedAt?: Date): Promise<void>;
+  restoreFishWeights(yearId: string, deletedAt: Date, teamId?: string): Promise<number>;
   getChugTimesByYear(yearId: string): Promise<ChugTimeRow[]>;
   createChugTime(chugTime: InsertChugTimeWithAverage): Promise<ChugTime>;
-  deleteChugTime(yearId: string, teamId: string): Promise<void>;
+  deleteChugTime(yearId: string, teamId: string, deletedAt?: Date): Promise<void>;
+  restoreChugTimes(yearId: string, deletedAt: Date, teamId?: string): Promise<number>;
+  getChugLeaderboard(): Promise<ChugLeaderboardRow[]>;
   getGolfScoresByYear(yearId: string): Promise<GolfScoreRow[]>;
   createGolfScore(golfScore: InsertGolfScore): Promise<GolfScore>;
-  deleteGolfScore(yearId: string, teamId: string): Promise<void>;
-  deleteAllFishWeightsByYear(yearId: string): Promise<void>;
-  deleteAllChugTimesByYear(yearId: string): Promise<void>;
-  deleteAllGolfScoresByYear(yearId: string): Promise<void>;
+  saveGolfScorecard(golfScore: InsertGolfScore, holes: GolfHoleRow[]): Promise<GolfScore>;
+  deleteGolfScore(yearId: string, teamId: string, deletedAt?: Date): Promise<void>;
+  restoreGolfScores(yearId: string, deletedAt: Date, teamId?: string): Promise<number>;
+  deleteAllFishWeightsByYear(yearId: string, deletedAt?: Date): Promise<void>;
+  deleteAllChugTimesByYear(yearId: string, deletedAt?: Date): Promise<void>;
+  deleteAllGolfScoresByYear(yearId: string, deletedAt?: Date): Promise<void>;
+  // Every event a year runs, built-ins included
+  getEventsByYear(yearId: string): Promise<CompetitionEvent[]>;
+  getEventByKey(yearId: string, key: string): Promise<CompetitionEvent | undefined>;
+  createEvent(event: InsertCompetitionEvent): Promise<CompetitionEvent>;
+  updateEvent(id: string, event: Partial<Omit<InsertCompetitionEvent, "yearId" | "key">> & { locked?: boolean }, expectedYearVersion?: number): Promise<CompetitionEvent>;
+  deleteEvent(id: string): Promise<void>;
+  getEventResultsByYear(yearId: string): Promise<EventResultRow[]>;
+  getEventResultById(id: string): Promise<EventResult | undefined>;
+  createEventResult(result: InsertEventResult): Promise<EventResult>;
+  deleteEventResult(id: string, deletedAt?: Date): Promise<void>;
+  restoreEventResults(yearId: string, deletedAt: Date): Promise<number>;
+  deleteAllEventResultsByYear(yearId: string, deletedAt?: Date): Promise<void>;
+  // Live draft operations
+  getDraftPicks(yearId: string): Promise<DraftPickRow[]>;
+  createDraftPicks(picks: InsertDraftPick[]): Promise<DraftPick[]>;
+  deleteDraftPick(yearId: string, round: number, slot: number): Promise<void>;
+  deleteDraftPicksByYear(yearId: string): Promise<void>;
+  // Fill-ins for a single event
+  getRosterOverridesByYear(yearId: string): Promise<RosterOverrideEntry[]>;
+  getRosterOverridesByKak(kakId: string): Promise<RosterOverride[]>;
+  getRosterOverrideById(id: string): Promise<RosterOverride | undefined>;
+  createRosterOverride(override: InsertRosterOverride): Promise<RosterOverride>;
+  deleteRosterOverride(id: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -92,13 +332,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getYear(year: number): Promise<Year | undefined> {
-    const [yearRecord] = await db.select().from(years).where(eq(years.year, year));
+    const [yearRecord] = await db.select(yearColumns).from(years).where(eq(years.year, year));
     return yearRecord || undefined;
   }
 
   async getYearById(id: string): Promise<Year | undefined> {
     try {
-      const [yearRecord] = await db.select().from(years).where(eq(years.id, id));
+      const [yearRecord] = await db.select(yearColumns).from(years).where(eq(years.id, id));
       return yearRecord || undefined;
     } catch (error) {
       console.error("Error in getYearById:", error);
@@ -107,47 +347,293 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getYears(): Promise<Year[]> {
-    return await db.select().from(years);
+    return await db.select(yearColumns).from(years);
   }
 
   async createYear(insertYear: InsertYear): Promise<Year> {
     const [year] = await db
       .insert(years)
       .values(insertYear)
-      .returning();
+      .returning(yearColumns);
     return year;
   }
 
-  async updateYear(id: string, yearData: Partial<Year>): Promise<Year> {
+  // Given the version the writer started from, the update only lands if the
+  // year is still at it
+  async updateYear(id: string, yearData: Partial<Year>, expectedVersion?: number): Promise<Year> {
     const [year] = await db
       .update(years)
-      .set(yearData)
-      .where(eq(years.id, id))
-      .returning();
+      .set({ ...yearData, version: sql`${years.version} + 1` })
+      .where(and(eq(years.id, id), expectedVersion === undefined ? undefined : eq(years.version, expectedVersion)))
+      .returning(yearColumns);
+    if (!year && expectedVersion !== undefined) {
+      const current = await this.getYearById(id);
+      if (current) throw new StaleVersionError(current);
+    }
     return year;
   }
 
-  async getTeamsByYear(yearId: string): Promise<Team[]> {
-    return await db.select().from(teams).where(eq(teams.yearId, yearId));
+  async getCourses(): Promise<Course[]> {
+    return await db.select().from(courses).orderBy(asc(courses.name));
   }
 
-  async createTeam(insertTeam: InsertTeam): Promise<Team> {
-    const [team] = await db
-      .insert(teams)
-      .values(insertTeam)
-      .returning();
-    return team;
+  async getCourseById(id: string): Promise<Course | undefined> {
+    const [course] = await db.select().from(courses).where(eq(courses.id, id));
+    return course;
   }
 
-  async updateTeam(id: string, teamData: Partial<InsertTeam>): Promise<Team> {
-    const [team] = await db
-      .update(teams)
-      .set(teamData)
-      .where(eq(teams.id, id))
-      .returning();
+  async createCourse(courseData: InsertCourse): Promise<Course> {
+    const [course] = await db.insert(courses).values(courseData).returning();
+    return course;
+  }
+
+  async updateCourse(id: string, courseData: Partial<InsertCourse>): Promise<Course> {
+    const [course] = await db.update(courses).set(courseData).where(eq(courses.id, id)).returning();
+    return course;
+  }
+
+  async deleteCourse(id: string): Promise<void> {
+    await db.delete(courses).where(eq(courses.id, id));
+  }
+
+  async isCourseInUse(id: string): Promise<boolean> {
+    const [row] = await db.select({ total: count() }).from(years).where(eq(years.course_id, id));
+    return Number(row?.total ?? 0) > 0;
+  }
+
+  async getGolfStats(): Promise<GolfStatRow[]> {
+    const [teamRounds, memberRows, overrides, kakRows] = await Promise.all([
+      db
+        .select({
+          teamId: golfScores.teamId,
+          score: golfScores.score,
+          year: years.year,
+          scoringConfig: years.scoring_config,
+          course: courses.name,
+          par: courses.par,
+          rating: courses.rating,
+          slope: courses.slope,
+        })
+        .from(golfScores)
+        .innerJoin(years, eq(years.id, golfScores.yearId))
+        .innerJoin(courses, eq(courses.id, years.course_id))
+        .where(isNull(golfScores.deletedAt)),
+      db.select({ teamId: teamMembers.teamId, kakId: teamMembers.kakId }).from(teamMembers).orderBy(asc(teamMembers.slot)),
+      db.select().from(rosterOverrides).where(eq(rosterOverrides.event, "golf")),
+      db.select({ id: kaks.id, name: kaks.name }).from(kaks),
+    ]) as [
+      ({ teamId: string; score: number | null; year: number; scoringConfig: Year["scoring_config"]; course: string; par: number; rating: number | string | null; slope: number | null })[],
+      { teamId: string; kakId: string }[],
+      RosterOverride[],
+      { id: string; name: string }[],
+    ];
+
+    const memberIdsByTeam = new Map<string, string[]>();
+    for (const { teamId, kakId } of memberRows) {
+      memberIdsByTeam.set(teamId, [...(memberIdsByTeam.get(teamId) ?? []), kakId]);
+    }
+    // One row per KAK who played the round, fill-ins included
+    const rounds = teamRounds.flatMap((round) =>
+      eventLineup(round.teamId, memberIdsByTeam.get(round.teamId) ?? [], overrides, "golf").map((kakId) => ({ ...round, kakId }))
+    );
+
+    const nameById = new Map(kakRows.map((k) => [k.id, k.name]));
+    const byKak = new Map<string, GolfStatRow & { total: number }>();
+    for (const round of rounds) {
+      // Differentials only mean something for stroke play
+      if (round.score === null || !resolveScoringConfig(round.scoringConfig).golfLowerIsBetter) continue;
+      const differential = calculateScoreDifferential(round.score, round);
+      if (differential === null) continue;
+
+      const { kakId } = round;
+      const entry = byKak.get(kakId);
+      if (!entry) {
+        byKak.set(kakId, {
+          kakId,
+          name: nameById.get(kakId) ?? "",
+          rounds: 1,
+          bestDifferential: differential,
+          bestYear: round.year,
+          bestCourse: round.course,
+          averageDifferential: differential,
+          total: differential,
+        });
+        continue;
+      }
+      entry.rounds += 1;
+      entry.total += differential;
+      if (differential < entry.bestDifferential) {
+        entry.bestDifferential = differential;
+        entry.bestYear = round.year;
+        entry.bestCourse = round.course;
+      }
+    }
+
+    return Array.from(byKak.values())
+      .map(({ total, ...entry }) => ({ ...entry, averageDifferential: Math.round(total / entry.rounds * 10) / 10 }))
+      .sort((a, b) => a.bestDifferential - b.bestDifferential || a.averageDifferential - b.averageDifferential);
+  }
+
+  // Attaches each team's roster, in slot order, with one query for all of them
+  private async withMembers(rows: TeamRow[]): Promise<TeamWithMembers[]> {
+    if (rows.length === 0) return [];
+    const members = await db
+      .select({ teamId: teamMembers.teamId, kakId: teamMembers.kakId, name: kaks.name, slot: teamMembers.slot, role: teamMembers.role })
+      .from(teamMembers)
+      .innerJoin(kaks, eq(kaks.id, teamMembers.kakId))
+      .where(inArray(teamMembers.teamId, rows.map((team) => team.id)))
+      .orderBy(asc(teamMembers.slot));
+    const byTeam = new Map<string, TeamMemberEntry[]>();
+    for (const { teamId, role, ...member } of members) {
+      byTeam.set(teamId, [...(byTeam.get(teamId) ?? []), { ...member, role: role as TeamMemberRole }]);
+    }
+    return rows.map((team) => ({ ...team, members: byTeam.get(team.id) ?? [] }));
+  }
+
+  async getTeamsByYear(yearId: string): Promise<TeamWithMembers[]> {
+    return this.withMembers(await db.select(teamColumns).from(teams).where(eq(teams.yearId, yearId)));
+  }
+
+  async getTeamById(id: string): Promise<TeamWithMembers | undefined> {
+    const [team] = await this.withMembers(await db.select(teamColumns).from(teams).where(eq(teams.id, id)));
     return team;
   }
 
+  async getTeamsByKak(kakId: string): Promise<TeamWithMembers[]> {
+    return this.withMembers(
+      await db
+        .select(teamColumns)
+        .from(teams)
+        .innerJoin(teamMembers, eq(teamMembers.teamId, teams.id))
+        .where(eq(teamMembers.kakId, kakId))
+    );
+  }
+
+  // A KAK plays for one team a year. Every team write checks the year's other
+  // teams here first, to name the team that has the KAK.
+  private async assertKaksAvailable(
+    yearId: string,
+    incoming: { id?: string; name: string; members?: readonly { kakId: string }[] }[],
+    replacedIds: string[] = [],
+  ): Promise<void> {
+    const skip = new Set([...replacedIds, ...incoming.flatMap((team) => (team.id ? [team.id] : []))]);
+    const holders = new Map<string, Pick<Team, "id" | "name">>();
+    for (const team of await this.getTeamsByYear(yearId)) {
+      if (skip.has(team.id)) continue;
+      for (const kakId of teamMemberIds(team)) holders.set(kakId, team);
+    }
+    for (const team of incoming) {
+      for (const kakId of teamMemberIds(team)) {
+        const holder = holders.get(kakId);
+        if (holder) {
+          const kak = await this.getKakById(kakId);
+          throw new KakConflictError(kakId, kak?.name ?? "That KAK", holder);
+        }
+        holders.set(kakId, { id: team.id ?? "", name: team.name });
+      }
+    }
+  }
+
+  // The unique (year_id, kak_id) index on team_members backs the check up: a
+  // write that raced past it fails there, and checking again names the team
+  // that got the KAK first.
+  private async writeRoster(check: () => Promise<void>, write: () => Promise<void>): Promise<void> {
+    await check();
+    try {
+      await write();
+    } catch (err) {
+      if (isDuplicateYearKak(err)) await check();
+      throw err;
+    }
+  }
+
+  // Neon's HTTP driver has no interactive transactions, but it runs a batch as
+  // one; local SQLite runs the same statements in a (synchronous) transaction
+  private async runAtomically(statements: Statements): Promise<void> {
+    if (typeof db.batch === "function") {
+      const batch = statements(db);
+      if (batch.length > 0) await db.batch(batch);
+      return;
+    }
+    db.transaction((tx: SqliteTransaction) => {
+      // The tables match by name, so the Postgres-typed builders run as SQLite statements
+      const batch = statements(tx as unknown as QueryBuilder) as unknown as { run(): unknown }[];
+      for (const statement of batch) statement.run();
+    });
+  }
+
+  // When a versioned team write fails, a team that has moved past the expected
+  // version is why: report it as stale rather than as a database error
+  private async runAtomicallyAt(expected: { id: string; version?: number }[], statements: Statements): Promise<void> {
+    try {
+      await this.runAtomically(statements);
+    } catch (err) {
+      for (const { id, version } of expected) {
+        if (version === undefined) continue;
+        const current = await this.getTeamById(id);
+        if (current && current.version !== version) throw new StaleVersionError(current);
+      }
+      throw err;
+    }
+  }
+
+  async createTeam(insertTeam: TeamInput): Promise<TeamWithMembers> {
+    const id = crypto.randomUUID();
+    await this.writeRoster(
+      () => this.assertKaksAvailable(insertTeam.yearId, [insertTeam]),
+      () => this.runAtomically((q) => insertTeamStatements(q, { ...insertTeam, id })),
+    );
+    return (await this.getTeamById(id))!;
+  }
+
+  // Written together, so a drafted year gets all of its teams or none
+  async createTeams(insertTeams: TeamInput[]): Promise<TeamWithMembers[]> {
+    if (insertTeams.length === 0) return [];
+    const created = insertTeams.map((team) => ({ ...team, id: crypto.randomUUID() }));
+    await this.writeRoster(
+      () => this.assertKaksAvailable(insertTeams[0].yearId, insertTeams),
+      () => this.runAtomically((q) => created.flatMap((team) => insertTeamStatements(q, team))),
+    );
+    const byId = new Map((await this.getTeamsByYear(insertTeams[0].yearId)).map((team) => [team.id, team]));
+    return created.map((team) => byId.get(team.id)!);
+  }
+
+  async replaceTeams(yearId: string, { create, update, remove }: TeamChanges): Promise<void> {
+    const existing = new Map((await this.getTeamsByYear(yearId)).map((team) => [team.id, team]));
+    await this.writeRoster(
+      () => this.assertKaksAvailable(
+        yearId,
+        [...update.map((team) => ({ ...existing.get(team.id)!, ...team })), ...create],
+        remove.map((team) => team.id),
+      ),
+      () => this.runAtomicallyAt([...remove, ...update], (q) => [
+        ...remove.flatMap(({ id, version }) => [
+          // Fails the batch, as an update would, if the team moved on first
+          ...(version !== undefined ? [q.update(teams).set({ version: nextVersion(teams.version, version) }).where(eq(teams.id, id))] : []),
+          q.delete(rosterOverrides).where(eq(rosterOverrides.teamId, id)),
+          q.delete(teamMembers).where(eq(teamMembers.teamId, id)),
+          q.delete(teams).where(eq(teams.id, id)),
+        ]),
+        // Every changed roster empties before any refills, so KAKs can swap teams
+        ...update.flatMap(({ id, members }) => (members !== undefined ? [q.delete(teamMembers).where(eq(teamMembers.teamId, id))] : [])),
+        ...update.flatMap(({ id, version, ...teamData }) => updateTeamStatements(q, { id, yearId }, teamData, version)),
+        ...create.flatMap((team) => insertTeamStatements(q, { ...team, id: crypto.randomUUID() })),
+      ]),
+    );
+  }
+
+  async updateTeam(id: string, teamData: Partial<TeamInput>, expectedVersion?: number): Promise<TeamWithMembers> {
+    const current = (await this.getTeamById(id))!;
+    const write = () =>
+      this.runAtomicallyAt([{ id, version: expectedVersion }], (q) => updateTeamStatements(q, current, teamData, expectedVersion));
+    if (teamData.members === undefined) {
+      await write();
+    } else {
+      await this.writeRoster(() => this.assertKaksAvailable(current.yearId, [{ ...current, ...teamData, id }]), write);
+    }
+    return (await this.getTeamById(id))!;
+  }
+
   async getKaks(status?: string): Promise<Kak[]> {
     if (status) {
       return await db.select().from(kaks).where(eq(kaks.status, status));
@@ -155,6 +641,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(kaks);
   }
 
+  async getKakById(id: string): Promise<Kak | undefined> {
+    const [kak] = await db.select().from(kaks).where(eq(kaks.id, id));
+    return kak;
+  }
+
   async createKak(kakData: InsertKak): Promise<Kak> {
     const [kak] = await db.insert(kaks).values(kakData).returning();
     return kak;
@@ -271,11 +762,107 @@ export class DatabaseStorage implements IStorage {
     await db.delete(tieBreakAdjustments).where(eq(tieBreakAdjustments.yearId, yearId));
   }
 
+  async createAuditEvent(entry: AuditEntry): Promise<AuditEvent> {
+    const [row] = await db
+      .insert(auditEvents)
+      .values({
+        yearId: entry.yearId ?? null,
+        userId: entry.userId,
+        action: entry.action,
+        entity: entry.entity,
+        entityId: entry.entityId ?? null,
+        before: entry.before === undefined ? null : JSON.stringify(entry.before),
+        after: entry.after === undefined ? null : JSON.stringify(entry.after),
+      })
+      .returning();
+    return row;
+  }
+
+  async getAuditEvents(yearId?: string, limit = 200): Promise<AuditEventRow[]> {
+    const rows: { event: AuditEvent; username: string | null }[] = await db
+      .select({ event: auditEvents, username: users.username })
+      .from(auditEvents)
+      .leftJoin(users, eq(users.id, auditEvents.userId))
+      .where(yearId ? eq(auditEvents.yearId, yearId) : undefined)
+      .orderBy(desc(auditEvents.createdAt))
+      .limit(limit);
+
+    const parse = (value: string | null) => (value === null ? null : JSON.parse(value));
+    return rows.map(({ event, username }) => ({
+      ...event,
+      username,
+      before: parse(event.before),
+      after: parse(event.after),
+    }));
+  }
+
+  /**
+   * Takes a key for a write about to run. `claimed` is false when another send
+   * of the same write already holds it, and `row` is then that send's row.
+   */
+  // A claim still pending from before `staleBefore` belongs to a request that
+  // died mid-save, so a retry of the same request takes it over
+  async claimIdempotencyKey(entry: InsertIdempotencyKey, staleBefore?: Date): Promise<{ row: IdempotencyKey; claimed: boolean }> {
+    const [claimed] = await db.insert(idempotencyKeys).values(entry).onConflictDoNothing().returning();
+    if (claimed) return { row: claimed, claimed: true };
+    const [existing] = await db
+      .select()
+      .from(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.userId, entry.userId), eq(idempotencyKeys.key, entry.key)));
+    // The holder failed and let go in between; try again
+    if (!existing) return this.claimIdempotencyKey(entry, staleBefore);
+    if (staleBefore && existing.status === null && existing.requestHash === entry.requestHash && existing.claimedAt < staleBefore) {
+      const [taken] = await db
+        .update(idempotencyKeys)
+        .set({ claimedAt: new Date() })
+        .where(and(eq(idempotencyKeys.id, existing.id), isNull(idempotencyKeys.status), lt(idempotencyKeys.claimedAt, staleBefore)))
+        .returning();
+      // Only one retry wins the takeover; the rest see it in flight again
+      if (taken) return { row: taken, claimed: true };
+    }
+    return { row: existing, claimed: false };
+  }
+
+  async completeIdempotencyKey(id: string, status: number, body: string): Promise<void> {
+    await db.update(idempotencyKeys).set({ status, body }).where(eq(idempotencyKeys.id, id));
+  }
+
+  async releaseIdempotencyKey(id: string): Promise<void> {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id));
+  }
+
+  async deleteIdempotencyKeysBefore(cutoff: Date): Promise<void> {
+    await db.delete(idempotencyKeys).where(lt(idempotencyKeys.createdAt, cutoff));
+  }
+
+  // Just the one key, through its unique index, so it's cheap on every claim
+  async deleteIdempotencyKeyBefore(userId: string, key: string, cutoff: Date): Promise<void> {
+    await db
+      .delete(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key), lt(idempotencyKeys.createdAt, cutoff)));
+  }
+
   async getFishWeightsByYear(yearId: string): Promise<FishWeightRow[]> {
     return await db
-      .select({ teamId: fishWeights.teamId, weight: fishWeights.weight })
+      .select({
+        id: fishWeights.id,
+        teamId: fishWeights.teamId,
+        weight: fishWeights.weight,
+        species: fishWeights.species,
+        length: fishWeights.length,
+        kakId: fishWeights.kakId,
+        caughtAt: fishWeights.caughtAt,
+      })
+      .from(fishWeights)
+      .where(and(eq(fishWeights.yearId, yearId), isNull(fishWeights.deletedAt)));
+  }
+
+  async getFishWeightById(id: string): Promise<FishWeight | undefined> {
+    const [fishWeight] = await db
+      .select()
       .from(fishWeights)
-      .where(eq(fishWeights.yearId, yearId));
+      .where(and(eq(fishWeights.id, id), isNull(fishWeights.deletedAt)));
+    return fishWeight;
   }
 
   async createFishWeight(fishWeightData: InsertFishWeight): Promise<FishWeight> {
@@ -286,61 +873,195 @@ export class DatabaseStorage implements IStorage {
     return fishWeight;
   }
 
-  async deleteFishWeightsByTeam(yearId: string, teamId: string): Promise<void> {
+  async updateFishWeight(id: string, fishWeightData: Partial<Omit<InsertFishWeight, "yearId" | "teamId">>): Promise<FishWeight> {
+    const [fishWeight] = await db
+      .update(fishWeights)
+      .set(fishWeightData)
+      .where(eq(fishWeights.id, id))
+      .returning();
+    return fishWeight;
+  }
+
+  async deleteFishWeight(id: string, deletedAt = new Date()): Promise<void> {
+    await db
+      .update(fishWeights)
+      .set({ deletedAt })
+      .where(and(eq(fishWeights.id, id), isNull(fishWeights.deletedAt)));
+  }
+
+  async deleteFishWeightsByTeam(yearId: string, teamId: string, deletedAt = new Date()): Promise<void> {
     await db
-      .delete(fishWeights)
+      .update(fishWeights)
+      .set({ deletedAt })
       .where(and(
         eq(fishWeights.yearId, yearId),
-        eq(fishWeights.teamId, teamId)
+        eq(fishWeights.teamId, teamId),
+        isNull(fishWeights.deletedAt)
       ));
   }
 
+  async restoreFishWeights(yearId: string, deletedAt: Date, teamId?: string): Promise<number> {
+    const restored: { id: string }[] = await db
+      .update(fishWeights)
+      .set({ deletedAt: null })
+      .where(and(
+        eq(fishWeights.yearId, yearId),
+        eq(fishWeights.deletedAt, deletedAt),
+        inArray(fishWeights.teamId, yearTeamIds(yearId)),
+        teamId ? eq(fishWeights.teamId, teamId) : undefined
+      ))
+      .returning({ id: fishWeights.id });
+    return restored.length;
+  }
+
   async getChugTimesByYear(yearId: string): Promise<ChugTimeRow[]> {
-    return await db
-      .select({
-        teamId: chugTimes.teamId,
-        chug1: chugTimes.chug1,
-        chug2: chugTimes.chug2,
-        average: chugTimes.average,
-      })
-      .from(chugTimes)
-      .where(eq(chugTimes.yearId, yearId));
+    const [rows, legRows] = await Promise.all([
+      db
+        .select({
+          id: chugTimes.id,
+          teamId: chugTimes.teamId,
+          chug1: chugTimes.chug1,
+          chug2: chugTimes.chug2,
+          average: chugTimes.average,
+        })
+        .from(chugTimes)
+        .where(and(eq(chugTimes.yearId, yearId), isNull(chugTimes.deletedAt))),
+      db
+        .select({ chugTimeId: chugLegs.chugTimeId, leg: chugLegs.leg, kakId: chugLegs.kakId, time: chugLegs.time })
+        .from(chugLegs)
+        .innerJoin(chugTimes, eq(chugTimes.id, chugLegs.chugTimeId))
+        .where(and(eq(chugTimes.yearId, yearId), isNull(chugTimes.deletedAt)))
+        .orderBy(asc(chugLegs.leg)),
+    ]) as [Omit<ChugTimeRow, "legs">[], (ChugLegRow & { chugTimeId: string })[]];
+
+    const legsByChugTime = new Map<string, ChugLegRow[]>();
+    for (const { chugTimeId, ...leg } of legRows) {
+      const legs = legsByChugTime.get(chugTimeId) ?? [];
+      legs.push(leg);
+      legsByChugTime.set(chugTimeId, legs);
+    }
+
+    // Times recorded before chug_legs existed only have chug1/chug2, with no KAK
+    return rows.map((row) => ({
+      ...row,
+      legs: legsByChugTime.get(row.id) ?? [row.chug1, row.chug2]
+        .filter((time) => time !== null)
+        .map((time, i) => ({ leg: i + 1, kakId: null, time: time! })),
+    }));
   }
 
   async createChugTime(chugTimeData: InsertChugTimeWithAverage): Promise<ChugTime> {
+    const { legs = [], ...row } = chugTimeData;
+    // A tombstoned row still holds the (year, team) slot, so the upsert revives it
     const [chugTime] = await db
       .insert(chugTimes)
-      .values(chugTimeData)
+      .values(row)
       .onConflictDoUpdate({
         target: [chugTimes.yearId, chugTimes.teamId],
         set: {
-          chug1: chugTimeData.chug1,
-          chug2: chugTimeData.chug2,
-          average: chugTimeData.average,
-          notes: chugTimeData.notes,
+          chug1: row.chug1,
+          chug2: row.chug2,
+          average: row.average,
+          notes: row.notes,
+          deletedAt: null,
         },
       })
       .returning();
+
+    await db.delete(chugLegs).where(eq(chugLegs.chugTimeId, chugTime.id));
+    if (legs.length > 0) {
+      await db.insert(chugLegs).values(
+        legs.map((leg, i) => ({ chugTimeId: chugTime.id, leg: i + 1, kakId: leg.kakId ?? null, time: leg.time }))
+      );
+    }
     return chugTime;
   }
 
-  async deleteChugTime(yearId: string, teamId: string): Promise<void> {
+  async deleteChugTime(yearId: string, teamId: string, deletedAt = new Date()): Promise<void> {
     await db
-      .delete(chugTimes)
+      .update(chugTimes)
+      .set({ deletedAt })
       .where(and(
         eq(chugTimes.yearId, yearId),
-        eq(chugTimes.teamId, teamId)
+        eq(chugTimes.teamId, teamId),
+        isNull(chugTimes.deletedAt)
       ));
   }
 
+  async restoreChugTimes(yearId: string, deletedAt: Date, teamId?: string): Promise<number> {
+    const restored: { id: string }[] = await db
+      .update(chugTimes)
+      .set({ deletedAt: null })
+      .where(and(
+        eq(chugTimes.yearId, yearId),
+        eq(chugTimes.deletedAt, deletedAt),
+        inArray(chugTimes.teamId, yearTeamIds(yearId)),
+        teamId ? eq(chugTimes.teamId, teamId) : undefined
+      ))
+      .returning({ id: chugTimes.id });
+    return restored.length;
+  }
+
+  async getChugLeaderboard(): Promise<ChugLeaderboardRow[]> {
+    const rows: { kakId: string; name: string; year: number; time: number | string }[] = await db
+      .select({ kakId: kaks.id, name: kaks.name, year: years.year, time: chugLegs.time })
+      .from(chugLegs)
+      .innerJoin(chugTimes, eq(chugTimes.id, chugLegs.chugTimeId))
+      .innerJoin(kaks, eq(kaks.id, chugLegs.kakId))
+      .innerJoin(years, eq(years.id, chugTimes.yearId))
+      .where(isNull(chugTimes.deletedAt));
+
+    const byKak = new Map<string, ChugLeaderboardRow & { total: number }>();
+    for (const row of rows) {
+      const time = Number(row.time);
+      const entry = byKak.get(row.kakId);
+      if (!entry) {
+        byKak.set(row.kakId, { kakId: row.kakId, name: row.name, bestTime: time, bestYear: row.year, averageTime: time, legs: 1, total: time });
+        continue;
+      }
+      entry.legs += 1;
+      entry.total += time;
+      if (time < entry.bestTime || (time === entry.bestTime && row.year < entry.bestYear)) {
+        entry.bestTime = time;
+        entry.bestYear = row.year;
+      }
+    }
+
+    return Array.from(byKak.values())
+      .map(({ total, ...entry }) => ({ ...entry, averageTime: Math.round(total / entry.legs * 1000) / 1000 }))
+      .sort((a, b) => a.bestTime - b.bestTime || a.averageTime - b.averageTime);
+  }
+
   async getGolfScoresByYear(yearId: string): Promise<GolfScoreRow[]> {
-    return await db
-      .select({ teamId: golfScores.teamId, score: golfScores.score })
-      .from(golfScores)
-      .where(eq(golfScores.yearId, yearId));
+    const [rows, holeRows] = await Promise.all([
+      db
+        .select({ id: golfScores.id, teamId: golfScores.teamId, score: golfScores.score })
+        .from(golfScores)
+        .where(and(eq(golfScores.yearId, yearId), isNull(golfScores.deletedAt))),
+      db
+        .select({ golfScoreId: golfHoles.golfScoreId, hole: golfHoles.hole, strokes: golfHoles.strokes })
+        .from(golfHoles)
+        .innerJoin(golfScores, eq(golfScores.id, golfHoles.golfScoreId))
+        .where(and(eq(golfScores.yearId, yearId), isNull(golfScores.deletedAt)))
+        .orderBy(asc(golfHoles.hole)),
+    ]) as [Omit<GolfScoreRow, "holes">[], (GolfHoleRow & { golfScoreId: string })[]];
+
+    const holesByGolfScore = new Map<string, GolfHoleRow[]>();
+    for (const { golfScoreId, ...hole } of holeRows) {
+      const holes = holesByGolfScore.get(golfScoreId) ?? [];
+      holes.push(hole);
+      holesByGolfScore.set(golfScoreId, holes);
+    }
+
+    // Rounds entered as a single score have no holes
+    return rows.map((row) => ({ ...row, holes: holesByGolfScore.get(row.id) ?? [] }));
   }
 
   async createGolfScore(golfScoreData: InsertGolfScore): Promise<GolfScore> {
+    return this.saveGolfScorecard(golfScoreData, []);
+  }
+
+  async saveGolfScorecard(golfScoreData: InsertGolfScore, holes: GolfHoleRow[]): Promise<GolfScore> {
     const [golfScore] = await db
       .insert(golfScores)
       .values(golfScoreData)
@@ -349,31 +1070,268 @@ export class DatabaseStorage implements IStorage {
         set: {
           score: golfScoreData.score,
           notes: golfScoreData.notes,
+          deletedAt: null,
         },
       })
       .returning();
+
+    await db.delete(golfHoles).where(eq(golfHoles.golfScoreId, golfScore.id));
+    if (holes.length > 0) {
+      await db.insert(golfHoles).values(
+        holes.map((h) => ({ golfScoreId: golfScore.id, hole: h.hole, strokes: h.strokes }))
+      );
+    }
     return golfScore;
   }
 
-  async deleteGolfScore(yearId: string, teamId: string): Promise<void> {
+  async deleteGolfScore(yearId: string, teamId: string, deletedAt = new Date()): Promise<void> {
     await db
-      .delete(golfScores)
+      .update(golfScores)
+      .set({ deletedAt })
       .where(and(
         eq(golfScores.yearId, yearId),
-        eq(golfScores.teamId, teamId)
+        eq(golfScores.teamId, teamId),
+        isNull(golfScores.deletedAt)
       ));
   }
 
-  async deleteAllFishWeightsByYear(yearId: string): Promise<void> {
-    await db.delete(fishWeights).where(eq(fishWeights.yearId, yearId));
+  async restoreGolfScores(yearId: string, deletedAt: Date, teamId?: string): Promise<number> {
+    const restored: { id: string }[] = await db
+      .update(golfScores)
+      .set({ deletedAt: null })
+      .where(and(
+        eq(golfScores.yearId, yearId),
+        eq(golfScores.deletedAt, deletedAt),
+        inArray(golfScores.teamId, yearTeamIds(yearId)),
+        teamId ? eq(golfScores.teamId, teamId) : undefined
+      ))
+      .returning({ id: golfScores.id });
+    return restored.length;
+  }
+
+  async deleteAllFishWeightsByYear(yearId: string, deletedAt = new Date()): Promise<void> {
+    await db
+      .update(fishWeights)
+      .set({ deletedAt })
+      .where(and(eq(fishWeights.yearId, yearId), isNull(fishWeights.deletedAt)));
+  }
+
+  async deleteAllChugTimesByYear(yearId: string, deletedAt = new Date()): Promise<void> {
+    await db
+      .update(chugTimes)
+      .set({ deletedAt })
+      .where(and(eq(chugTimes.yearId, yearId), isNull(chugTimes.deletedAt)));
+  }
+
+  async deleteAllGolfScoresByYear(yearId: string, deletedAt = new Date()): Promise<void> {
+    await db
+      .update(golfScores)
+      .set({ deletedAt })
+      .where(and(eq(golfScores.yearId, yearId), isNull(golfScores.deletedAt)));
+  }
+
+  // A year from before built-in events had rows gets them on first read, each
+  // locked as the year's legacy column had it, so it carries on as it was
+  async getEventsByYear(yearId: string): Promise<CompetitionEvent[]> {
+    const rows = await selectEvents(yearId);
+    if (BUILTIN_EVENTS.every(({ key }) => rows.some((event) => event.key === key))) return rows;
+    const [locks] = await db.select(legacyLockColumns).from(years).where(eq(years.id, yearId));
+    if (!locks) return rows;
+    await db
+      .insert(events)
+      .values(BUILTIN_EVENTS.map(({ key, name, icon }, position) => ({ yearId, key, name, icon, position, locked: locks[key] })))
+      .onConflictDoNothing();
+    return await selectEvents(yearId);
+  }
+
+  async getEventByKey(yearId: string, key: string): Promise<CompetitionEvent | undefined> {
+    const [event] = await db
+      .select()
+      .from(events)
+      .where(and(eq(events.yearId, yearId), eq(events.key, key)));
+    if (event || !BUILTIN_EVENTS.some((builtin) => builtin.key === key)) return event;
+    return (await this.getEventsByYear(yearId)).find((row) => row.key === key);
+  }
+
+  async createEvent(eventData: InsertCompetitionEvent): Promise<CompetitionEvent> {
+    const [event] = await db
+      .insert(events)
+      .values(eventData)
+      .returning();
+    return event;
+  }
+
+  // Locking or unlocking changes the year, so it bumps the year's version too.
+  // Given the version the writer started from, a year that has moved on gets
+  // a null version, which fails the batch before the lock changes.
+  async updateEvent(
+    id: string,
+    eventData: Partial<Omit<InsertCompetitionEvent, "yearId" | "key">> & { locked?: boolean },
+    expectedYearVersion?: number,
+  ): Promise<CompetitionEvent> {
+    if (eventData.locked === undefined) {
+      const [event] = await db
+        .update(events)
+        .set(eventData)
+        .where(eq(events.id, id))
+        .returning();
+      return event;
+    }
+    const [{ yearId }] = await db.select({ yearId: events.yearId }).from(events).where(eq(events.id, id));
+    try {
+      await this.runAtomically((q) => [
+        q.update(years).set({ version: nextVersion(years.version, expectedYearVersion) }).where(eq(years.id, yearId)),
+        q.update(events).set(eventData).where(eq(events.id, id)),
+      ]);
+    } catch (err) {
+      const year = await this.getYearById(yearId);
+      if (year && expectedYearVersion !== undefined && year.version !== expectedYearVersion) throw new StaleVersionError(year);
+      throw err;
+    }
+    const [event] = await db.select().from(events).where(eq(events.id, id));
+    return event;
+  }
+
+  // Removes the event, every result recorded for it, tombstoned or not, and its fill-ins
+  async deleteEvent(id: string): Promise<void> {
+    const [event] = await db.select().from(events).where(eq(events.id, id));
+    if (event) {
+      await db
+        .delete(rosterOverrides)
+        .where(and(eq(rosterOverrides.yearId, event.yearId), eq(rosterOverrides.event, event.key)));
+    }
+    await db.delete(eventResults).where(eq(eventResults.eventId, id));
+    await db.delete(events).where(eq(events.id, id));
+  }
+
+  async getEventResultsByYear(yearId: string): Promise<EventResultRow[]> {
+    return await db
+      .select({
+        id: eventResults.id,
+        eventId: eventResults.eventId,
+        teamId: eventResults.teamId,
+        value: eventResults.value,
+        notes: eventResults.notes,
+      })
+      .from(eventResults)
+      .where(and(eq(eventResults.yearId, yearId), isNull(eventResults.deletedAt)))
+      .orderBy(asc(eventResults.createdAt));
+  }
+
+  async getEventResultById(id: string): Promise<EventResult | undefined> {
+    const [result] = await db
+      .select()
+      .from(eventResults)
+      .where(and(eq(eventResults.id, id), isNull(eventResults.deletedAt)));
+    return result;
+  }
+
+  async createEventResult(resultData: InsertEventResult): Promise<EventResult> {
+    const [result] = await db
+      .insert(eventResults)
+      .values(resultData)
+      .returning();
+    return result;
+  }
+
+  async deleteEventResult(id: string, deletedAt = new Date()): Promise<void> {
+    await db
+      .update(eventResults)
+      .set({ deletedAt })
+      .where(and(eq(eventResults.id, id), isNull(eventResults.deletedAt)));
+  }
+
+  async restoreEventResults(yearId: string, deletedAt: Date): Promise<number> {
+    const restored: { id: string }[] = await db
+      .update(eventResults)
+      .set({ deletedAt: null })
+      .where(and(
+        eq(eventResults.yearId, yearId),
+        eq(eventResults.deletedAt, deletedAt),
+        inArray(eventResults.teamId, yearTeamIds(yearId))
+      ))
+      .returning({ id: eventResults.id });
+    return restored.length;
+  }
+
+  async deleteAllEventResultsByYear(yearId: string, deletedAt = new Date()): Promise<void> {
+    await db
+      .update(eventResults)
+      .set({ deletedAt })
+      .where(and(eq(eventResults.yearId, yearId), isNull(eventResults.deletedAt)));
+  }
+
+  async getDraftPicks(yearId: string): Promise<DraftPickRow[]> {
+    return await db
+      .select({
+        round: draftPicks.round,
+        slot: draftPicks.slot,
+        kakId: draftPicks.kakId,
+        name: kaks.name,
+      })
+      .from(draftPicks)
+      .innerJoin(kaks, eq(draftPicks.kakId, kaks.id))
+      .where(eq(draftPicks.yearId, yearId))
+      .orderBy(asc(draftPicks.round), asc(draftPicks.slot));
+  }
+
+  // One multi-row insert, so every captain is named or none are; the unique
+  // indexes reject a KAK picked twice or two picks racing for the same turn
+  async createDraftPicks(picks: InsertDraftPick[]): Promise<DraftPick[]> {
+    return await db.insert(draftPicks).values(picks).returning();
+  }
+
+  async deleteDraftPick(yearId: string, round: number, slot: number): Promise<void> {
+    await db
+      .delete(draftPicks)
+      .where(and(eq(draftPicks.yearId, yearId), eq(draftPicks.round, round), eq(draftPicks.slot, slot)));
+  }
+
+  async deleteDraftPicksByYear(yearId: string): Promise<void> {
+    await db.delete(draftPicks).where(eq(draftPicks.yearId, yearId));
+  }
+
+  async getRosterOverridesByYear(yearId: string): Promise<RosterOverrideEntry[]> {
+    const [rows, kakRows] = await Promise.all([
+      db
+        .select({
+          id: rosterOverrides.id,
+          teamId: rosterOverrides.teamId,
+          event: rosterOverrides.event,
+          outKakId: rosterOverrides.outKakId,
+          inKakId: rosterOverrides.inKakId,
+        })
+        .from(rosterOverrides)
+        .where(eq(rosterOverrides.yearId, yearId))
+        .orderBy(asc(rosterOverrides.createdAt)),
+      db.select({ id: kaks.id, name: kaks.name }).from(kaks),
+    ]) as [Omit<RosterOverrideEntry, "outName" | "inName">[], { id: string; name: string }[]];
+    const nameById = new Map(kakRows.map((k) => [k.id, k.name]));
+    return rows.map((row) => ({ ...row, outName: nameById.get(row.outKakId) ?? "", inName: nameById.get(row.inKakId) ?? "" }));
+  }
+
+  // Every override a KAK is part of, sitting out or filling in
+  async getRosterOverridesByKak(kakId: string): Promise<RosterOverride[]> {
+    return await db
+      .select()
+      .from(rosterOverrides)
+      .where(or(eq(rosterOverrides.outKakId, kakId), eq(rosterOverrides.inKakId, kakId)));
+  }
+
+  async getRosterOverrideById(id: string): Promise<RosterOverride | undefined> {
+    const [override] = await db.select().from(rosterOverrides).where(eq(rosterOverrides.id, id));
+    return override;
   }
 
-  async deleteAllChugTimesByYear(yearId: string): Promise<void> {
-    await db.delete(chugTimes).where(eq(chugTimes.yearId, yearId));
+  // The unique indexes reject a second fill-in for the same seat, or one KAK
+  // filling two seats in the same event
+  async createRosterOverride(overrideData: InsertRosterOverride): Promise<RosterOverride> {
+    const [override] = await db.insert(rosterOverrides).values(overrideData).returning();
+    return override;
   }
 
-  async deleteAllGolfScoresByYear(yearId: string): Promise<void> {
-    await db.delete(golfScores).where(eq(golfScores.yearId, yearId));
+  async deleteRosterOverride(id: string): Promise<void> {
+    await db.delete(rosterOverrides).where(eq(rosterOverrides.id, id));
   }
 }
 
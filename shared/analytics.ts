@@ -0,0 +1,124 @@
+/**
+ * Cross-year KAK analytics: how pairs of KAKs fare as teammates and as
+ * opponents. Works from each KAK's team finish per year, so the server only
+ * has to load standings for the years both KAKs played.
+ * Kept free of drizzle imports so the client bundle can use the types directly.
+ */
+
+/** Where one KAK's team finished in a completed year */
+export interface SeasonFinish {
+  yearId: string;
+  year: number;
+  teamId: string;
+  teamName: string;
+  /** Display rank from the standings, e.g. "2" or "T-3" */
+  rank: string;
+  totalPoints: number;
+  teamCount: number;
+  isChamp: boolean;
+  isBoot: boolean;
+}
+
+export interface TeammateSeason {
+  year: number;
+  teamName: string;
+  rank: string;
+  totalPoints: number;
+  teamCount: number;
+  isChamp: boolean;
+  isBoot: boolean;
+}
+
+export interface OpponentSeason {
+  year: number;
+  a: Pick<SeasonFinish, "teamName" | "rank" | "totalPoints">;
+  b: Pick<SeasonFinish, "teamName" | "rank" | "totalPoints">;
+  winner: "a" | "b" | "tie";
+}
+
+export interface HeadToHeadRecord {
+  teammates: {
+    seasons: TeammateSeason[];
+    /** Mean finishing position across the seasons together; null if never teammates */
+    averageFinish: number | null;
+    champs: number;
+    boots: number;
+  };
+  opponents: {
+    seasons: OpponentSeason[];
+    aWins: number;
+    bWins: number;
+    ties: number;
+  };
+}
+
+/**
+ * Finishing position from a display rank
+ * @param rank - "3" or "T-3"; "-" for a team with no points
+ * @returns 3 for both examples, null for "-"
+ */
+export function finishPosition(rank: string): number | null {
+  const position = parseInt(rank.replace(/^T-/, ""), 10);
+  return Number.isFinite(position) ? position : null;
+}
+
+/**
+ * Compare two KAKs over the years they both played
+ * Sharing a team counts toward their chemistry; on different teams, whichever
+ * team scored more total points takes the year.
+ *
+ * @param a - Season finishes for the first KAK
+ * @param b - Season finishes for the second KAK
+ * @returns Teammate and opponent records, newest year first
+ */
+export function compareKaks(a: readonly SeasonFinish[], b: readonly SeasonFinish[]): HeadToHeadRecord {
+  const bByYear = new Map(b.map((finish) => [finish.yearId, finish]));
+  const shared = a
+    .filter((finish) => bByYear.has(finish.yearId))
+    .sort((x, y) => y.year - x.year);
+
+  const teammates: TeammateSeason[] = [];
+  const opponents: OpponentSeason[] = [];
+  for (const mine of shared) {
+    const theirs = bByYear.get(mine.yearId)!;
+    if (mine.teamId === theirs.teamId) {
+      teammates.push({
+        year: mine.year,
+        teamName: mine.teamName,
+        rank: mine.rank,
+        totalPoints: mine.totalPoints,
+        teamCount: mine.teamCount,
+        isChamp: mine.isChamp,
+        isBoot: mine.isBoot,
+      });
+      continue;
+    }
+    opponents.push({
+      year: mine.year,
+      a: { teamName: mine.teamName, rank: mine.rank, totalPoints: mine.totalPoints },
+      b: { teamName: theirs.teamName, rank: theirs.rank, totalPoints: theirs.totalPoints },
+      winner: mine.totalPoints === theirs.totalPoints ? "tie" : mine.totalPoints > theirs.totalPoints ? "a" : "b",
+    });
+  }
+
+  const positions = teammates
+    .map((season) => finishPosition(season.rank))
+    .filter((position): position is number => position !== null);
+
+  return {
+    teammates: {
+      seasons: teammates,
+      averageFinish: positions.length > 0
+        ? Math.round(positions.reduce((sum, p) => sum + p, 0) / positions.length * 10) / 10
+        : null,
+      champs: teammates.filter((s) => s.isChamp).length,
+      boots: teammates.filter((s) => s.isBoot).length,
+    },
+    opponents: {
+      seasons: opponents,
+      aWins: opponents.filter((s) => s.winner === "a").length,
+      bWins: opponents.filter((s) => s.winner === "b").length,
+      ties: opponents.filter((s) => s.winner === "tie").length,
+    },
+  };
+}
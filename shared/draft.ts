@@ -0,0 +1,185 @@
+/**
+ * Balanced team draft: splits a roster into teams of four so each team's
+ * historical strength is as even as possible, subject to "keep these together"
+ * and "keep these apart" constraints.
+ * Kept free of drizzle imports so the client bundle can use it directly.
+ */
+
+export const TEAM_SIZE = 4;
+
+/** Most teams a year can have */
+export const MAX_TEAMS = 7;
+
+/** Rating for a KAK with no completed years: the middle of the pack */
+export const DEFAULT_KAK_RATING = 0.5;
+
+export interface DraftKak {
+  id: string;
+  name: string;
+  /** 0 (always last) to 1 (always first) */
+  rating: number;
+}
+
+export interface DraftConstraints {
+  /** Each group must end up on the same team */
+  together?: readonly (readonly string[])[];
+  /** Each group's members must end up on different teams */
+  apart?: readonly (readonly string[])[];
+}
+
+export interface DraftTeam {
+  kaks: DraftKak[];
+  /** Sum of member ratings */
+  rating: number;
+}
+
+/**
+ * Rate a KAK from their team's finishes
+ * @param finishes - Finishing position and number of teams for each completed year
+ * @returns Mean of 1 for first through 0 for last, or DEFAULT_KAK_RATING with no history
+ */
+export function rateKak(finishes: readonly { position: number; teamCount: number }[]): number {
+  if (finishes.length === 0) return DEFAULT_KAK_RATING;
+  const total = finishes.reduce(
+    (sum, { position, teamCount }) => sum + (teamCount > 1 ? 1 - (position - 1) / (teamCount - 1) : DEFAULT_KAK_RATING),
+    0
+  );
+  return Math.round(total / finishes.length * 1000) / 1000;
+}
+
+/** Small seeded PRNG so a reshuffle can be replayed from its seed */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Merges overlapping "together" groups into the units that get placed as one */
+function buildUnits(roster: readonly DraftKak[], together: readonly (readonly string[])[]): DraftKak[][] {
+  const parent = new Map(roster.map((k) => [k.id, k.id]));
+  const find = (id: string): string => {
+    const p = parent.get(id)!;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+  for (const group of together) {
+    const members = group.filter((id) => parent.has(id));
+    for (const id of members.slice(1)) parent.set(find(id), find(members[0]));
+  }
+
+  const units = new Map<string, DraftKak[]>();
+  for (const kak of roster) {
+    const root = find(kak.id);
+    if (!units.has(root)) units.set(root, []);
+    units.get(root)!.push(kak);
+  }
+  return Array.from(units.values());
+}
+
+const MAX_ATTEMPTS = 25;
+
+/**
+ * Propose balanced teams
+ * Units (single KAKs, or groups that must stay together) are placed strongest
+ * first, each onto the smallest, then weakest, team it doesn't conflict with;
+ * the seed jitters the order so each reshuffle gives a different but still
+ * balanced split. Constraint ids outside the roster are ignored.
+ *
+ * @param roster - KAKs to draft, with their ratings
+ * @param teamCount - Number of teams to fill
+ * @param constraints - Together and apart groups
+ * @param seed - Reshuffle seed
+ * @returns One entry per team, members strongest first
+ * @throws Error if the roster doesn't fit or the constraints can't be met
+ */
+export function generateDraft(
+  roster: readonly DraftKak[],
+  teamCount: number,
+  constraints: DraftConstraints = {},
+  seed = 1,
+): DraftTeam[] {
+  if (!Number.isInteger(teamCount) || teamCount < 1) throw new Error("Need at least one team");
+  if (roster.length > teamCount * TEAM_SIZE) {
+    throw new Error(`${roster.length} KAKs don't fit on ${teamCount} teams of ${TEAM_SIZE}`);
+  }
+
+  const units = buildUnits(roster, constraints.together ?? []);
+  const oversized = units.find((unit) => unit.length > TEAM_SIZE);
+  if (oversized) throw new Error(`More than ${TEAM_SIZE} KAKs must be together: ${oversized.map((k) => k.name).join(", ")}`);
+
+  // Apart groups each KAK belongs to, and so the groups each unit would occupy on a team
+  const apartGroups = new Map<string, number[]>();
+  (constraints.apart ?? []).forEach((group, index) => {
+    for (const id of group) apartGroups.set(id, [...(apartGroups.get(id) ?? []), index]);
+  });
+  const unitGroups = units.map((unit) => unit.flatMap((k) => apartGroups.get(k.id) ?? []));
+  units.forEach((unit, i) => {
+    if (new Set(unitGroups[i]).size < unitGroups[i].length) {
+      throw new Error(`${unit.map((k) => k.name).join(", ")} must be both together and apart`);
+    }
+  });
+
+  const random = mulberry32(seed);
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const order = units
+      .map((unit, i) => ({
+        unit,
+        groups: unitGroups[i],
+        strength: unit.reduce((sum, k) => sum + k.rating, 0) / unit.length + (random() - 0.5) * 0.2,
+      }))
+      .sort((a, b) => b.unit.length - a.unit.length || b.strength - a.strength);
+
+    const teams = Array.from({ length: teamCount }, () => ({ kaks: [] as DraftKak[], rating: 0, groups: new Set<number>() }));
+    const placed = order.every(({ unit, groups }) => {
+      const candidates = teams
+        .filter((team) => team.kaks.length + unit.length <= TEAM_SIZE && groups.every((g) => !team.groups.has(g)))
+        .sort((a, b) => a.kaks.length - b.kaks.length || a.rating - b.rating);
+      const team = candidates[0];
+      if (!team) return false;
+      team.kaks.push(...unit);
+      team.rating += unit.reduce((sum, k) => sum + k.rating, 0);
+      groups.forEach((g) => team.groups.add(g));
+      return true;
+    });
+
+    if (placed) {
+      return teams.map(({ kaks, rating }) => ({
+        kaks: [...kaks].sort((a, b) => b.rating - a.rating),
+        rating: Math.round(rating * 1000) / 1000,
+      }));
+    }
+  }
+  throw new Error("Couldn't find teams that meet every constraint");
+}
+
+/** Rounds of picks in a live draft once every team has its captain */
+export const SNAKE_ROUNDS = TEAM_SIZE - 1;
+
+export interface SnakeTurn {
+  /** 1-based round after the captains */
+  round: number;
+  /** 1-based draft slot picking */
+  slot: number;
+}
+
+/**
+ * Whose pick it is in a snake draft
+ * Odd rounds run from slot 1 to the last slot, even rounds run back.
+ *
+ * @param pickNumber - Picks already made, not counting captains
+ * @param teamCount - Number of captains
+ * @returns The round and slot of the next pick, or null once every seat is filled
+ */
+export function snakeTurn(pickNumber: number, teamCount: number): SnakeTurn | null {
+  if (pickNumber >= teamCount * SNAKE_ROUNDS) return null;
+  const round = Math.floor(pickNumber / teamCount) + 1;
+  const offset = pickNumber % teamCount;
+  return { round, slot: round % 2 === 1 ? offset + 1 : teamCount - offset };
+}
@@ -0,0 +1,80 @@
+/**
+ * Event definitions shared by the schema, server and client.
+ * Kept free of drizzle imports so the client bundle can use it directly.
+ *
+ * Every event a year runs is a row in `events`, which carries its lock. Fish,
+ * chug and golf are built in: every year has their rows, and their results
+ * keep their own tables and tabs. Anything else a year adds (cornhole, poker
+ * night…) keeps its results in `event_results`.
+ */
+import type { ScoringEvent } from "./scoring.js";
+
+/**
+ * What changed in a year, as published by the server over
+ * GET /api/years/:yearId/events. Everything but "year" is the last segment of
+ * the query key it invalidates.
+ */
+export type YearEventType =
+  | "teams"
+  | "roster-overrides"
+  | "fish-weights"
+  | "chug-times"
+  | "golf-scores"
+  | "tie-breaks"
+  | "event-definitions"
+  | "event-results"
+  | "draft"
+  | "year";
+
+/** How a team's results for an event combine into one score */
+export const EVENT_AGGREGATIONS = ["sum", "best", "average"] as const;
+
+export type EventAggregation = (typeof EVENT_AGGREGATIONS)[number];
+
+export interface BuiltinEvent {
+  key: ScoringEvent;
+  name: string;
+  icon: string;
+}
+
+/** The built-in events, in tab order; each year's rows for them start from these */
+export const BUILTIN_EVENTS: readonly BuiltinEvent[] = [
+  { key: "fish", name: "Fish", icon: "🎣" },
+  { key: "chug", name: "Chug", icon: "🍺" },
+  { key: "golf", name: "Golf", icon: "⛳" },
+];
+
+/** Keys a custom event can't take: the built-ins plus the year's other tabs */
+export const RESERVED_EVENT_KEYS: readonly string[] = [...BUILTIN_EVENTS.map((e) => e.key), "teams", "standings", "total"];
+
+export function isBuiltinEventKey(key: string): key is ScoringEvent {
+  return BUILTIN_EVENTS.some((e) => e.key === key);
+}
+
+/** "Poker Night!" -> "poker-night" */
+export function eventKeyFromName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 32);
+}
+
+/**
+ * One entry in a year's event list, as served by
+ * GET /api/years/:yearId/event-definitions
+ */
+export interface EventDefinition {
+  /** The event's row in `events` */
+  id: string;
+  key: string;
+  name: string;
+  icon: string;
+  builtin: boolean;
+  /** Built-ins reflect the year's scoring config */
+  lowerIsBetter: boolean;
+  /** Meaningful for custom events only; built-ins score through their own tables */
+  aggregation: EventAggregation;
+  locked: boolean;
+  position: number;
+}
@@ -0,0 +1,13 @@
+/**
+ * Fish metadata shared by the schema (for validation) and the client (for pickers).
+ * Kept free of drizzle imports so the client bundle can use it directly.
+ */
+
+export const FISH_SPECIES = ["pike", "bass", "walleye", "perch", "muskie", "trout", "other"] as const;
+
+export type FishSpecies = (typeof FISH_SPECIES)[number];
+
+/** "walleye" -> "Walleye" for display. */
+export function formatSpecies(species: string): string {
+  return species.charAt(0).toUpperCase() + species.slice(1);
+}
@@ -0,0 +1,82 @@
+/**
+ * Golf scorecard and course rating helpers shared by the server (to derive and
+ * compare scores) and the client (for running totals while entering holes).
+ * Kept free of drizzle imports so the client bundle can use it directly.
+ */
+
+export const GOLF_HOLES = 18;
+
+/** Par 4 on every hole; years that never set their course's pars score against this */
+export const DEFAULT_GOLF_PARS: readonly number[] = Array.from({ length: GOLF_HOLES }, () => 4);
+
+export interface GolfHoleScore {
+  /** 1-based hole number */
+  hole: number;
+  strokes: number;
+}
+
+/**
+ * Fill in the default pars for a year that has none stored
+ * @param pars - The years row's golf_pars
+ * @returns Par for holes 1-18
+ */
+export function resolveGolfPars(pars?: readonly number[] | null): readonly number[] {
+  return pars?.length === GOLF_HOLES ? pars : DEFAULT_GOLF_PARS;
+}
+
+/**
+ * Score relative to par over the holes played so far
+ * @param pars - Par for holes 1-18
+ * @param holes - Strokes for each hole played, in any order
+ * @returns Strokes minus par, e.g. -2 for two under through the holes played
+ */
+export function calculateToPar(pars: readonly number[], holes: readonly GolfHoleScore[]): number {
+  return holes.reduce((total, { hole, strokes }) => total + strokes - (pars[hole - 1] ?? 0), 0);
+}
+
+/**
+ * Running score relative to par after each hole, for the scorecard
+ * @param pars - Par for holes 1-18
+ * @param holes - Strokes for each hole played
+ * @returns One entry per hole; null for holes not yet played
+ */
+export function runningToPar(pars: readonly number[], holes: readonly GolfHoleScore[]): (number | null)[] {
+  const strokesByHole = new Map(holes.map((h) => [h.hole, h.strokes]));
+  let total = 0;
+  return pars.map((par, i) => {
+    const strokes = strokesByHole.get(i + 1);
+    if (strokes === undefined) return null;
+    total += strokes - par;
+    return total;
+  });
+}
+
+/** 0 -> "E", 3 -> "+3", -2 -> "-2" */
+export function formatToPar(score: number): string {
+  if (score === 0) return "E";
+  return score > 0 ? `+${score}` : `${score}`;
+}
+
+/** Slope of a course of average difficulty */
+export const STANDARD_SLOPE = 113;
+
+export interface CourseRating {
+  par: number;
+  /** numeric columns arrive as strings from Postgres */
+  rating: number | string | null;
+  slope: number | null;
+}
+
+/**
+ * Score differential: strokes over the course rating, scaled to a course of
+ * average difficulty, so rounds on different courses compare directly
+ * @param toPar - The round's score relative to par
+ * @param course - Par, rating and slope of the course played
+ * @returns Differential to 1 decimal place (lower is better), or null for an unrated course
+ */
+export function calculateScoreDifferential(toPar: number, course: CourseRating): number | null {
+  const rating = course.rating === null ? NaN : Number(course.rating);
+  if (!Number.isFinite(rating) || !course.slope) return null;
+  const gross = course.par + toPar;
+  return Math.round((gross - rating) * STANDARD_SLOPE / course.slope * 10) / 10;
+}
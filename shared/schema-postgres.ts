@@ -1,8 +1,12 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, timestamp, boolean, integer, numeric, uuid, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, timestamp, boolean, integer, numeric, uuid, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { FISH_SPECIES } from "./fish.js";
+import { EVENT_AGGREGATIONS } from "./events.js";
+import type { ScoringConfig } from "./scoring.js";
+import { TEAM_MEMBER_ROLES, type TeamMemberEntry } from "./teams.js";
 
 // Session storage table
 export const sessions = pgTable(
@@ -37,14 +41,28 @@ export const kaks = pgTable("kaks", {
   status: text("status").notNull().default("active"), // active, inactive, retired, in-memoriam
 });
 
+// Golf courses the cup has played, reused across years
+export const courses = pgTable("courses", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull().unique(),
+  par: integer("par").notNull(),
+  rating: numeric("rating", { precision: 4, scale: 1 }), // course rating: expected strokes for a scratch golfer
+  slope: integer("slope"), // slope rating, 55-155; 113 is average difficulty
+  holePars: jsonb("hole_pars").$type<number[]>(), // par for holes 1-18
+});
+
 export const years = pgTable("years", {
   id: uuid("id").primaryKey().defaultRandom(),
   year: integer("year").notNull().unique(),
   name: text("name").notNull(),
-  status: text("status").notNull().default("upcoming"), // upcoming, active, completed
-  fishing_locked: boolean("fishing_locked").notNull().default(false),
-  chug_locked: boolean("chug_locked").notNull().default(false),
-  golf_locked: boolean("golf_locked").notNull().default(false),
+  status: text("status").notNull().default("upcoming"), // upcoming, active, completed, archived; see shared/years.ts
+  fishing_locked: boolean("fishing_locked").notNull().default(false), // legacy lock, read only by the built-in events backfill
+  chug_locked: boolean("chug_locked").notNull().default(false), // legacy lock, read only by the built-in events backfill
+  golf_locked: boolean("golf_locked").notNull().default(false), // legacy lock, read only by the built-in events backfill
+  scoring_config: jsonb("scoring_config").$type<Partial<ScoringConfig>>(), // null = classic rules
+  golf_pars: jsonb("golf_pars").$type<number[]>(), // par for holes 1-18; null = DEFAULT_GOLF_PARS
+  course_id: uuid("course_id").references(() => courses.id), // course played; its pars are copied into golf_pars
+  version: integer("version").notNull().default(1), // bumped on every write; see shared/versions.ts
 });
 
 export const teams = pgTable("teams", {
@@ -52,19 +70,35 @@ export const teams = pgTable("teams", {
   yearId: uuid("year_id").notNull(),
   name: text("name").notNull(),
   position: integer("position").notNull(), // 1-7 for team ordering
-  kak1: text("kak1"), // member 1 name (legacy text, kept until FK backfill complete)
-  kak2: text("kak2"), // member 2 name (legacy text, kept until FK backfill complete)
-  kak3: text("kak3"), // member 3 name (legacy text, kept until FK backfill complete)
-  kak4: text("kak4"), // member 4 name (legacy text, kept until FK backfill complete)
-  kak1Id: uuid("kak_1").references(() => kaks.id), // FK to kaks
-  kak2Id: uuid("kak_2").references(() => kaks.id), // FK to kaks
-  kak3Id: uuid("kak_3").references(() => kaks.id), // FK to kaks
-  kak4Id: uuid("kak_4").references(() => kaks.id), // FK to kaks
+  kak1: text("kak1"), // member 1 name (legacy text, read only by the team_members backfill)
+  kak2: text("kak2"), // member 2 name (legacy text, read only by the team_members backfill)
+  kak3: text("kak3"), // member 3 name (legacy text, read only by the team_members backfill)
+  kak4: text("kak4"), // member 4 name (legacy text, read only by the team_members backfill)
+  kak1Id: uuid("kak_1").references(() => kaks.id), // legacy FK, read only by the team_members backfill
+  kak2Id: uuid("kak_2").references(() => kaks.id), // legacy FK, read only by the team_members backfill
+  kak3Id: uuid("kak_3").references(() => kaks.id), // legacy FK, read only by the team_members backfill
+  kak4Id: uuid("kak_4").references(() => kaks.id), // legacy FK, read only by the team_members backfill
   locked: boolean("locked").notNull().default(false), // team lock status
+  version: integer("version").notNull().default(1), // bumped on every write; see shared/versions.ts
 }, (table) => ({
   yearIdIdx: index("teams_year_id_idx").on(table.yearId),
 }));
 
+// A team's roster, one row per KAK; supersedes the kak1..kak4 columns on teams
+export const teamMembers = pgTable("team_members", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  teamId: uuid("team_id").notNull().references(() => teams.id),
+  yearId: uuid("year_id").notNull().references(() => years.id), // the team's year, for the one-team-a-year index
+  kakId: uuid("kak_id").notNull().references(() => kaks.id),
+  slot: integer("slot").notNull(), // 1-based roster order
+  role: text("role").notNull().default("player"), // "player" or "sub"
+}, (table) => ({
+  uniqueTeamKak: uniqueIndex("unique_team_members_team_kak").on(table.teamId, table.kakId),
+  uniqueTeamSlot: uniqueIndex("unique_team_members_team_slot").on(table.teamId, table.slot),
+  uniqueYearKak: uniqueIndex("unique_team_members_year_kak").on(table.yearId, table.kakId),
+  kakIdIdx: index("team_members_kak_id_idx").on(table.kakId),
+}));
+
 export const champs = pgTable("champs", {
   id: uuid("id").primaryKey().defaultRandom(),
   yearId: uuid("year_id").notNull().references(() => years.id),
@@ -94,12 +128,31 @@ export const tieBreakAdjustments = pgTable("tie_break_adjustments", {
   uniqueYear: uniqueIndex("unique_tie_break_year").on(table.yearId),
 }));
 
+export const auditEvents = pgTable("audit_events", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  yearId: uuid("year_id").references(() => years.id), // null for events not tied to a year (e.g. KAK edits)
+  userId: uuid("user_id").notNull().references(() => users.id),
+  action: text("action").notNull(), // create | update | delete
+  entity: text("entity").notNull(), // year | team | fish-weight | chug-time | golf-score | tie-break | kak
+  entityId: text("entity_id"),
+  before: text("before"), // JSON snapshot before the change
+  after: text("after"), // JSON snapshot after the change
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  yearCreatedIdx: index("audit_events_year_created_idx").on(table.yearId, table.createdAt),
+}));
+
 export const fishWeights = pgTable("fish_weights", {
   id: uuid("id").primaryKey().defaultRandom(),
   yearId: uuid("year_id").notNull(),
   teamId: uuid("team_id").notNull(),
   weight: numeric("weight", { precision: 10, scale: 2 }), // weight in pounds with decimals
+  species: text("species"), // one of FISH_SPECIES
+  length: numeric("length", { precision: 6, scale: 2 }), // length in inches
+  kakId: uuid("kak_id").references(() => kaks.id), // FK to kaks: who landed it
+  caughtAt: timestamp("caught_at", { withTimezone: true }).defaultNow(),
   notes: text("notes"), // optional notes about the catch
+  deletedAt: timestamp("deleted_at", { withTimezone: true }), // soft-delete tombstone; null while the row is live
 }, (table) => ({
   yearTeamIdx: index("fish_weights_year_team_idx").on(table.yearId, table.teamId),
 }));
@@ -108,38 +161,154 @@ export const chugTimes = pgTable("chug_times", {
   id: uuid("id").primaryKey().defaultRandom(),
   yearId: uuid("year_id").notNull(),
   teamId: uuid("team_id").notNull(),
-  chug1: numeric("chug_1", { precision: 10, scale: 3 }), // first chug time (3 decimal places)
-  chug2: numeric("chug_2", { precision: 10, scale: 3 }), // second chug time (3 decimal places)
-  average: numeric("average", { precision: 10, scale: 3 }), // average of chug1 and chug2 (3 decimal places)
+  chug1: numeric("chug_1", { precision: 10, scale: 3 }), // first leg's time (3 decimal places); every leg lives in chug_legs
+  chug2: numeric("chug_2", { precision: 10, scale: 3 }), // second leg's time (3 decimal places)
+  average: numeric("average", { precision: 10, scale: 3 }), // average of all legs (3 decimal places)
   notes: text("notes"), // optional notes about the chug
+  deletedAt: timestamp("deleted_at", { withTimezone: true }), // soft-delete tombstone; null while the row is live
 }, (table) => ({
   uniqueYearTeam: uniqueIndex("unique_chug_year_team").on(table.yearId, table.teamId),
 }));
 
+// One row per relay leg of a team's chug: who drank it and how fast
+export const chugLegs = pgTable("chug_legs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  chugTimeId: uuid("chug_time_id").notNull().references(() => chugTimes.id),
+  leg: integer("leg").notNull(), // 1-based relay order
+  kakId: uuid("kak_id").references(() => kaks.id), // FK to kaks: who drank this leg
+  time: numeric("time", { precision: 10, scale: 3 }).notNull(), // seconds (3 decimal places)
+}, (table) => ({
+  uniqueChugTimeLeg: uniqueIndex("unique_chug_legs_time_leg").on(table.chugTimeId, table.leg),
+}));
+
 export const golfScores = pgTable("golf_scores", {
   id: uuid("id").primaryKey().defaultRandom(),
   yearId: uuid("year_id").notNull(),
   teamId: uuid("team_id").notNull(),
-  score: integer("score"), // golf score
+  score: integer("score"), // relative to par; derived from golf_holes when the round has a scorecard
   notes: text("notes"), // optional notes about the round
+  deletedAt: timestamp("deleted_at", { withTimezone: true }), // soft-delete tombstone; null while the row is live
 }, (table) => ({
   uniqueYearTeam: uniqueIndex("unique_golf_year_team").on(table.yearId, table.teamId),
 }));
 
+// Strokes per hole for teams whose golf round was entered as a scorecard
+export const golfHoles = pgTable("golf_holes", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  golfScoreId: uuid("golf_score_id").notNull().references(() => golfScores.id),
+  hole: integer("hole").notNull(), // 1-18
+  strokes: integer("strokes").notNull(),
+}, (table) => ({
+  uniqueGolfScoreHole: uniqueIndex("unique_golf_holes_score_hole").on(table.golfScoreId, table.hole),
+}));
+
+// Every event a year runs: a row for each built-in (fish, chug, golf) plus any it adds
+export const events = pgTable("events", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  yearId: uuid("year_id").notNull().references(() => years.id),
+  key: text("key").notNull(), // URL-safe slug, unique within the year
+  name: text("name").notNull(),
+  icon: text("icon"), // emoji shown on the tab
+  lowerIsBetter: boolean("lower_is_better").notNull().default(false),
+  aggregation: text("aggregation").notNull().default("sum"), // one of EVENT_AGGREGATIONS
+  locked: boolean("locked").notNull().default(false),
+  position: integer("position").notNull().default(0), // tab order; built-ins always come first
+}, (table) => ({
+  uniqueYearKey: uniqueIndex("unique_events_year_key").on(table.yearId, table.key),
+}));
+
+export const eventResults = pgTable("event_results", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  eventId: uuid("event_id").notNull().references(() => events.id),
+  yearId: uuid("year_id").notNull(),
+  teamId: uuid("team_id").notNull(),
+  value: numeric("value", { precision: 10, scale: 3 }).notNull(), // points, score or time, per the event
+  notes: text("notes"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  deletedAt: timestamp("deleted_at", { withTimezone: true }), // soft-delete tombstone; null while the row is live
+}, (table) => ({
+  eventTeamIdx: index("event_results_event_team_idx").on(table.eventId, table.teamId),
+}));
+
+// Live snake draft: round 0 names each team's captain, later rounds are picks
+export const draftPicks = pgTable("draft_picks", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  yearId: uuid("year_id").notNull().references(() => years.id),
+  round: integer("round").notNull(), // 0 for captains, then 1-based snake rounds
+  slot: integer("slot").notNull(), // 1-based draft slot; becomes the team's position
+  kakId: uuid("kak_id").notNull().references(() => kaks.id),
+  pickedAt: timestamp("picked_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  uniqueYearKak: uniqueIndex("unique_draft_picks_year_kak").on(table.yearId, table.kakId),
+  uniqueYearRoundSlot: uniqueIndex("unique_draft_picks_year_round_slot").on(table.yearId, table.round, table.slot),
+}));
+
+// A KAK filling in for a rostered teammate in one event; credit for that
+// event goes to whoever actually played it
+export const rosterOverrides = pgTable("roster_overrides", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  yearId: uuid("year_id").notNull().references(() => years.id),
+  teamId: uuid("team_id").notNull().references(() => teams.id),
+  event: text("event").notNull(), // "fish", "chug", "golf" or a custom event key
+  outKakId: uuid("out_kak_id").notNull().references(() => kaks.id),
+  inKakId: uuid("in_kak_id").notNull().references(() => kaks.id),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  uniqueTeamEventOut: uniqueIndex("unique_roster_overrides_team_event_out").on(table.teamId, table.event, table.outKakId),
+  uniqueYearEventIn: uniqueIndex("unique_roster_overrides_year_event_in").on(table.yearId, table.event, table.inKakId),
+  inKakIdIdx: index("roster_overrides_in_kak_id_idx").on(table.inKakId),
+}));
+
+// The response to a write sent with an Idempotency-Key, so a retried or
+// replayed write gets the original answer instead of doubling up. A row with
+// no status yet is a write still being handled.
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id),
+  key: text("key").notNull(), // client-generated, unique per write
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  requestHash: text("request_hash").notNull(), // fingerprint of method, path and body
+  status: integer("status"),
+  body: text("body"), // JSON response body
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  claimedAt: timestamp("claimed_at", { withTimezone: true }).notNull().defaultNow(), // when the request now saving it started; a stale claim can be taken over
+}, (table) => ({
+  uniqueUserKey: uniqueIndex("unique_idempotency_keys_user_key").on(table.userId, table.key),
+  createdAtIdx: index("idempotency_keys_created_at_idx").on(table.createdAt),
+}));
+
 // Relations
 export const kaksRelations = relations(kaks, ({ many }) => ({
   champs: many(champs),
   boots: many(boots),
+  fishWeights: many(fishWeights),
+  chugLegs: many(chugLegs),
+  draftPicks: many(draftPicks),
+  teamMemberships: many(teamMembers),
+  sittingOut: many(rosterOverrides, { relationName: "rosterOverrideOut" }),
+  fillingIn: many(rosterOverrides, { relationName: "rosterOverrideIn" }),
 }));
 
-export const yearsRelations = relations(years, ({ many }) => ({
+export const coursesRelations = relations(courses, ({ many }) => ({
+  years: many(years),
+}));
+
+export const yearsRelations = relations(years, ({ one, many }) => ({
+  course: one(courses, {
+    fields: [years.course_id],
+    references: [courses.id],
+  }),
   teams: many(teams),
   fishWeights: many(fishWeights),
   chugTimes: many(chugTimes),
   golfScores: many(golfScores),
+  events: many(events),
   champs: many(champs),
   boots: many(boots),
   tieBreakAdjustments: many(tieBreakAdjustments),
+  draftPicks: many(draftPicks),
+  rosterOverrides: many(rosterOverrides),
 }));
 
 export const teamsRelations = relations(teams, ({ one, many }) => ({
@@ -147,14 +316,17 @@ export const teamsRelations = relations(teams, ({ one, many }) => ({
     fields: [teams.yearId],
     references: [years.id],
   }),
-  kakMember1: one(kaks, { fields: [teams.kak1Id], references: [kaks.id], relationName: "teamKak1" }),
-  kakMember2: one(kaks, { fields: [teams.kak2Id], references: [kaks.id], relationName: "teamKak2" }),
-  kakMember3: one(kaks, { fields: [teams.kak3Id], references: [kaks.id], relationName: "teamKak3" }),
-  kakMember4: one(kaks, { fields: [teams.kak4Id], references: [kaks.id], relationName: "teamKak4" }),
+  members: many(teamMembers),
   fishWeights: many(fishWeights),
   chugTimes: many(chugTimes),
   golfScores: many(golfScores),
   tieBreakAdjustments: many(tieBreakAdjustments),
+  rosterOverrides: many(rosterOverrides),
+}));
+
+export const teamMembersRelations = relations(teamMembers, ({ one }) => ({
+  team: one(teams, { fields: [teamMembers.teamId], references: [teams.id] }),
+  kak: one(kaks, { fields: [teamMembers.kakId], references: [kaks.id] }),
 }));
 
 export const champsRelations = relations(champs, ({ one }) => ({
@@ -173,6 +345,15 @@ export const tieBreakAdjustmentsRelations = relations(tieBreakAdjustments, ({ on
   createdBy: one(users, { fields: [tieBreakAdjustments.createdBy], references: [users.id] }),
 }));
 
+export const auditEventsRelations = relations(auditEvents, ({ one }) => ({
+  year: one(years, { fields: [auditEvents.yearId], references: [years.id] }),
+  user: one(users, { fields: [auditEvents.userId], references: [users.id] }),
+}));
+export const idempotencyKeysRelations = relations(idempotencyKeys, ({ one }) => ({
+  user: one(users, { fields: [idempotencyKeys.userId], references: [users.id] }),
+}));
+
+
 export const fishWeightsRelations = relations(fishWeights, ({ one }) => ({
   year: one(years, {
     fields: [fishWeights.yearId],
@@ -182,9 +363,13 @@ export const fishWeightsRelations = relations(fishWeights, ({ one }) => ({
     fields: [fishWeights.teamId],
     references: [teams.id],
   }),
+  kak: one(kaks, {
+    fields: [fishWeights.kakId],
+    references: [kaks.id],
+  }),
 }));
 
-export const chugTimesRelations = relations(chugTimes, ({ one }) => ({
+export const chugTimesRelations = relations(chugTimes, ({ one, many }) => ({
   year: one(years, {
     fields: [chugTimes.yearId],
     references: [years.id],
@@ -193,9 +378,21 @@ export const chugTimesRelations = relations(chugTimes, ({ one }) => ({
     fields: [chugTimes.teamId],
     references: [teams.id],
   }),
+  legs: many(chugLegs),
 }));
 
-export const golfScoresRelations = relations(golfScores, ({ one }) => ({
+export const chugLegsRelations = relations(chugLegs, ({ one }) => ({
+  chugTime: one(chugTimes, {
+    fields: [chugLegs.chugTimeId],
+    references: [chugTimes.id],
+  }),
+  kak: one(kaks, {
+    fields: [chugLegs.kakId],
+    references: [kaks.id],
+  }),
+}));
+
+export const golfScoresRelations = relations(golfScores, ({ one, many }) => ({
   year: one(years, {
     fields: [golfScores.yearId],
     references: [years.id],
@@ -204,6 +401,36 @@ export const golfScoresRelations = relations(golfScores, ({ one }) => ({
     fields: [golfScores.teamId],
     references: [teams.id],
   }),
+  holes: many(golfHoles),
+}));
+
+export const golfHolesRelations = relations(golfHoles, ({ one }) => ({
+  golfScore: one(golfScores, {
+    fields: [golfHoles.golfScoreId],
+    references: [golfScores.id],
+  }),
+}));
+
+export const eventsRelations = relations(events, ({ one, many }) => ({
+  year: one(years, { fields: [events.yearId], references: [years.id] }),
+  results: many(eventResults),
+}));
+
+export const eventResultsRelations = relations(eventResults, ({ one }) => ({
+  event: one(events, { fields: [eventResults.eventId], references: [events.id] }),
+  team: one(teams, { fields: [eventResults.teamId], references: [teams.id] }),
+}));
+
+export const draftPicksRelations = relations(draftPicks, ({ one }) => ({
+  year: one(years, { fields: [draftPicks.yearId], references: [years.id] }),
+  kak: one(kaks, { fields: [draftPicks.kakId], references: [kaks.id] }),
+}));
+
+export const rosterOverridesRelations = relations(rosterOverrides, ({ one }) => ({
+  year: one(years, { fields: [rosterOverrides.yearId], references: [years.id] }),
+  team: one(teams, { fields: [rosterOverrides.teamId], references: [teams.id] }),
+  outKak: one(kaks, { fields: [rosterOverrides.outKakId], references: [kaks.id], relationName: "rosterOverrideOut" }),
+  inKak: one(kaks, { fields: [rosterOverrides.inKakId], references: [kaks.id], relationName: "rosterOverrideIn" }),
 }));
 
 
@@ -222,23 +449,35 @@ export const insertYearSchema = createInsertSchema(years).omit({
   fishing_locked: true,
   chug_locked: true,
   golf_locked: true,
+  version: true,
+});
+
+export const insertCourseSchema = createInsertSchema(courses, {
+  holePars: () => z.array(z.number().int().min(3).max(6)).length(18).nullable(),
+}).pick({
+  name: true,
+  par: true,
+  rating: true,
+  slope: true,
+  holePars: true,
 });
 
 export const insertTeamSchema = createInsertSchema(teams).pick({
   yearId: true,
   name: true,
   position: true,
-  kak1: true,
-  kak2: true,
-  kak3: true,
-  kak4: true,
-  kak1Id: true,
-  kak2Id: true,
-  kak3Id: true,
-  kak4Id: true,
   locked: true,
 });
 
+export const insertTeamMemberSchema = createInsertSchema(teamMembers, {
+  role: () => z.enum(TEAM_MEMBER_ROLES),
+}).pick({
+  teamId: true,
+  kakId: true,
+  slot: true,
+  role: true,
+});
+
 export const insertKakSchema = createInsertSchema(kaks).pick({
   name: true,
   status: true,
@@ -263,12 +502,41 @@ export const insertTieBreakAdjustmentSchema = createInsertSchema(tieBreakAdjustm
   createdBy: true,
 });
 
+export const insertAuditEventSchema = createInsertSchema(auditEvents).pick({
+  yearId: true,
+  userId: true,
+  action: true,
+  entity: true,
+  entityId: true,
+  before: true,
+  after: true,
+});
+
+export const insertIdempotencyKeySchema = createInsertSchema(idempotencyKeys).pick({
+  userId: true,
+  key: true,
+  method: true,
+  path: true,
+  requestHash: true,
+});
+
 export type RegisterUser = z.infer<typeof registerUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertYear = z.infer<typeof insertYearSchema>;
-export type Year = typeof years.$inferSelect;
+/** The per-event lock columns a year row still carries until they are dropped */
+export type LegacyYearLockColumn = "fishing_locked" | "chug_locked" | "golf_locked";
+/** A year as storage and the API return it: its events carry the locks */
+export type Year = Omit<typeof years.$inferSelect, LegacyYearLockColumn>;
 export type InsertTeam = z.infer<typeof insertTeamSchema>;
 export type Team = typeof teams.$inferSelect;
+export type InsertTeamMember = z.infer<typeof insertTeamMemberSchema>;
+export type TeamMember = typeof teamMembers.$inferSelect;
+/** The kak1..kak4 columns a team row still carries until they are dropped */
+export type LegacyTeamMemberColumn = "kak1" | "kak2" | "kak3" | "kak4" | "kak1Id" | "kak2Id" | "kak3Id" | "kak4Id";
+/** A team as storage and the API return it: its roster instead of the legacy columns */
+export type TeamWithMembers = Omit<Team, LegacyTeamMemberColumn> & { members: TeamMemberEntry[] };
+export type InsertCourse = z.infer<typeof insertCourseSchema>;
+export type Course = typeof courses.$inferSelect;
 export type InsertKak = z.infer<typeof insertKakSchema>;
 export type Kak = typeof kaks.$inferSelect;
 export type InsertChamp = z.infer<typeof insertChampSchema>;
@@ -277,11 +545,22 @@ export type InsertBoot = z.infer<typeof insertBootSchema>;
 export type Boot = typeof boots.$inferSelect;
 export type InsertTieBreakAdjustment = z.infer<typeof insertTieBreakAdjustmentSchema>;
 export type TieBreakAdjustment = typeof tieBreakAdjustments.$inferSelect;
-
-export const insertFishWeightSchema = createInsertSchema(fishWeights).pick({
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertIdempotencyKey = z.infer<typeof insertIdempotencyKeySchema>;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+
+export const insertFishWeightSchema = createInsertSchema(fishWeights, {
+  species: () => z.enum(FISH_SPECIES),
+  caughtAt: () => z.coerce.date(),
+}).pick({
   yearId: true,
   teamId: true,
   weight: true,
+  species: true,
+  length: true,
+  kakId: true,
+  caughtAt: true,
   notes: true,
 });
 export type InsertFishWeight = z.infer<typeof insertFishWeightSchema>;
@@ -297,6 +576,15 @@ export const insertChugTimeSchema = createInsertSchema(chugTimes).pick({
 export type InsertChugTime = z.infer<typeof insertChugTimeSchema>;
 export type ChugTime = typeof chugTimes.$inferSelect;
 
+export const insertChugLegSchema = createInsertSchema(chugLegs).pick({
+  chugTimeId: true,
+  leg: true,
+  kakId: true,
+  time: true,
+});
+export type InsertChugLeg = z.infer<typeof insertChugLegSchema>;
+export type ChugLeg = typeof chugLegs.$inferSelect;
+
 export const insertGolfScoreSchema = createInsertSchema(golfScores).pick({
   yearId: true,
   teamId: true,
@@ -305,3 +593,54 @@ export const insertGolfScoreSchema = createInsertSchema(golfScores).pick({
 });
 export type InsertGolfScore = z.infer<typeof insertGolfScoreSchema>;
 export type GolfScore = typeof golfScores.$inferSelect;
+
+export const insertGolfHoleSchema = createInsertSchema(golfHoles).pick({
+  golfScoreId: true,
+  hole: true,
+  strokes: true,
+});
+export type InsertGolfHole = z.infer<typeof insertGolfHoleSchema>;
+export type GolfHole = typeof golfHoles.$inferSelect;
+
+export const insertEventSchema = createInsertSchema(events, {
+  aggregation: () => z.enum(EVENT_AGGREGATIONS),
+}).pick({
+  yearId: true,
+  key: true,
+  name: true,
+  icon: true,
+  lowerIsBetter: true,
+  aggregation: true,
+  position: true,
+});
+export type InsertCompetitionEvent = z.infer<typeof insertEventSchema>;
+export type CompetitionEvent = typeof events.$inferSelect;
+
+export const insertEventResultSchema = createInsertSchema(eventResults).pick({
+  eventId: true,
+  yearId: true,
+  teamId: true,
+  value: true,
+  notes: true,
+});
+export type InsertEventResult = z.infer<typeof insertEventResultSchema>;
+export type EventResult = typeof eventResults.$inferSelect;
+
+export const insertDraftPickSchema = createInsertSchema(draftPicks).pick({
+  yearId: true,
+  round: true,
+  slot: true,
+  kakId: true,
+});
+export type InsertDraftPick = z.infer<typeof insertDraftPickSchema>;
+export type DraftPick = typeof draftPicks.$inferSelect;
+
+export const insertRosterOverrideSchema = createInsertSchema(rosterOverrides).pick({
+  yearId: true,
+  teamId: true,
+  event: true,
+  outKakId: true,
+  inKakId: true,
+});
+export type InsertRosterOverride = z.infer<typeof insertRosterOverrideSchema>;
+export type RosterOverride = typeof rosterOverrides.$inferSelect;
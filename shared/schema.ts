@@ -4,34 +4,64 @@
 
 export {
   users,
+  courses,
   years,
   teams,
+  teamMembers,
   kaks,
   champs,
   boots,
   tieBreakAdjustments,
+  auditEvents,
+  idempotencyKeys,
   fishWeights,
   chugTimes,
+  chugLegs,
   golfScores,
+  golfHoles,
+  events,
+  eventResults,
+  draftPicks,
+  rosterOverrides,
   kaksRelations,
+  coursesRelations,
   yearsRelations,
   teamsRelations,
+  teamMembersRelations,
   champsRelations,
   bootsRelations,
   tieBreakAdjustmentsRelations,
+  auditEventsRelations,
+  idempotencyKeysRelations,
   fishWeightsRelations,
   chugTimesRelations,
+  chugLegsRelations,
   golfScoresRelations,
+  golfHolesRelations,
+  eventsRelations,
+  eventResultsRelations,
+  draftPicksRelations,
+  rosterOverridesRelations,
   registerUserSchema,
   insertYearSchema,
+  insertCourseSchema,
   insertTeamSchema,
+  insertTeamMemberSchema,
   insertKakSchema,
   insertChampSchema,
   insertBootSchema,
   insertTieBreakAdjustmentSchema,
+  insertAuditEventSchema,
+  insertIdempotencyKeySchema,
   insertFishWeightSchema,
   insertChugTimeSchema,
+  insertChugLegSchema,
   insertGolfScoreSchema,
+  insertGolfHoleSchema,
+  insertEventSchema,
+  insertEventResultSchema,
+  insertDraftPickSchema,
+  insertRosterOverrideSchema,
 } from "./schema-postgres.js";
 
 export type {
@@ -39,8 +69,14 @@ export type {
   User,
   InsertYear,
   Year,
+  LegacyYearLockColumn,
+  InsertCourse,
+  Course,
   InsertTeam,
   Team,
+  InsertTeamMember,
+  TeamMember,
+  TeamWithMembers,
   InsertKak,
   Kak,
   InsertChamp,
@@ -49,10 +85,26 @@ export type {
   Boot,
   InsertTieBreakAdjustment,
   TieBreakAdjustment,
+  InsertAuditEvent,
+  AuditEvent,
+  InsertIdempotencyKey,
+  IdempotencyKey,
   InsertFishWeight,
   FishWeight,
   InsertChugTime,
   ChugTime,
+  InsertChugLeg,
+  ChugLeg,
   InsertGolfScore,
   GolfScore,
+  InsertGolfHole,
+  GolfHole,
+  InsertCompetitionEvent,
+  CompetitionEvent,
+  InsertEventResult,
+  EventResult,
+  InsertDraftPick,
+  DraftPick,
+  InsertRosterOverride,
+  RosterOverride,
 } from "./schema-postgres.js";
@@ -2,27 +2,100 @@
  * Shared scoring utilities for KAK Cup competitions
  * These functions handle the core business logic for calculating scores and rankings
  */
+import type { EventAggregation } from "./events.js";
 
 /**
- * Calculate the average of two chug times
- * @param chug1 - First chug time in seconds
- * @param chug2 - Second chug time in seconds
+ * Competition events that award points
+ */
+export type ScoringEvent = "fish" | "chug" | "golf";
+
+export const SCORING_EVENTS: readonly ScoringEvent[] = ["fish", "chug", "golf"];
+
+/**
+ * Per-year scoring rules, stored as JSON on the years row
+ */
+export interface ScoringConfig {
+  /** Points for 1st, 2nd, 3rd... place; ranks past the end of the table earn the last entry */
+  pointsTable: readonly number[];
+  /** How many of a team's heaviest fish count toward the fish total */
+  fishCountBest: number;
+  /** Chug legs averaged per team, up to MAX_CHUG_LEGS */
+  chugLegs: number;
+  /** Golf is ranked low-to-high when true (strokes), high-to-low otherwise (e.g. stableford) */
+  golfLowerIsBetter: boolean;
+  /** Multiplier applied to each event's ranking points */
+  eventWeights: Record<ScoringEvent, number>;
+}
+
+/** A relay team is four KAKs, so no more than four legs */
+export const MAX_CHUG_LEGS = 4;
+
+export const DEFAULT_POINTS_TABLE: readonly number[] = [7, 6, 5, 4, 3, 2, 1];
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  pointsTable: DEFAULT_POINTS_TABLE,
+  fishCountBest: 3,
+  chugLegs: 2,
+  golfLowerIsBetter: true,
+  eventWeights: { fish: 1, chug: 1, golf: 1 },
+};
+
+/**
+ * Fill in defaults for a stored (possibly partial or missing) scoring config
+ * Years created before configs existed have none and score with the classic rules.
+ * @param config - The years row's scoring_config
+ * @returns A complete config
+ */
+export function resolveScoringConfig(config?: Partial<ScoringConfig> | null): ScoringConfig {
+  return {
+    pointsTable: config?.pointsTable?.length ? config.pointsTable : DEFAULT_SCORING_CONFIG.pointsTable,
+    fishCountBest: config?.fishCountBest ?? DEFAULT_SCORING_CONFIG.fishCountBest,
+    chugLegs: config?.chugLegs ?? DEFAULT_SCORING_CONFIG.chugLegs,
+    golfLowerIsBetter: config?.golfLowerIsBetter ?? DEFAULT_SCORING_CONFIG.golfLowerIsBetter,
+    eventWeights: { ...DEFAULT_SCORING_CONFIG.eventWeights, ...config?.eventWeights },
+  };
+}
+
+function ordinal(n: number): string {
+  const mod100 = n % 100;
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`;
+  return `${n}${["th", "st", "nd", "rd"][n % 10] ?? "th"}`;
+}
+
+/**
+ * Human-readable summary of a points table for the scoring footnotes
+ * @param pointsTable - Points for 1st, 2nd, ... place
+ * @returns e.g. "7 points for 1st place down to 1 point for 7th place."
+ */
+export function describePointsTable(pointsTable: readonly number[]): string {
+  const first = pointsTable[0] ?? 0;
+  const last = pointsTable[pointsTable.length - 1] ?? 0;
+  const pts = (n: number) => `${n} ${n === 1 ? "point" : "points"}`;
+  if (pointsTable.length <= 1) return `${pts(first)} per placing.`;
+  return `${pts(first)} for 1st place down to ${pts(last)} for ${ordinal(pointsTable.length)} place.`;
+}
+
+/**
+ * Calculate the average of a team's chug leg times
+ * @param times - Each leg's time in seconds
  * @returns Average time rounded to 3 decimal places
  */
-export function calculateChugAverage(chug1: number, chug2: number): number {
-  if (chug1 <= 0 || chug2 <= 0) {
+export function calculateChugAverage(...times: number[]): number {
+  if (times.length === 0 || times.some((t) => !(t > 0))) {
     throw new Error("Chug times must be positive numbers");
   }
-  return Math.round((chug1 + chug2) / 2 * 1000) / 1000;
+  const total = times.reduce((sum, t) => sum + t, 0);
+  return Math.round(total / times.length * 1000) / 1000;
 }
 
 /**
- * Calculate total weight from fish weights, taking only the top 3
- * If there are fewer than 3 fish, uses all available weights
+ * Calculate total weight from fish weights, taking only the top N (3 by default)
+ * If there are fewer than N fish, uses all available weights
  * @param weights - Array of fish weights
- * @returns Sum of top 3 weights (or all weights if fewer than 3)
+ * @param count - How many of the heaviest fish count (the year's fishCountBest)
+ * @returns Sum of top N weights (or all weights if fewer than N)
  */
-export function calculateTop3FishTotal(weights: number[]): number {
+export function calculateTop3FishTotal(weights: number[], count = 3): number {
   if (weights.length === 0) {
     return 0;
   }
@@ -34,11 +107,11 @@ export function calculateTop3FishTotal(weights: number[]): number {
     return 0;
   }
 
-  // Sort descending and take top 3
-  const top3 = validWeights.sort((a, b) => b - a).slice(0, 3);
+  // Sort descending and take top N
+  const best = validWeights.sort((a, b) => b - a).slice(0, count);
 
-  // Sum the top 3 weights
-  return top3.reduce((sum, weight) => sum + weight, 0);
+  // Sum the top N weights
+  return best.reduce((sum, weight) => sum + weight, 0);
 }
 
 /**
@@ -64,13 +137,14 @@ class TP implements TeamPoints {
 /**
  * Calculate points for ranked teams with tiebreaking
  * Teams are ranked by score (higher is better for fish, lower is better for chug/golf)
- * Points are awarded: 7 for 1st, 6 for 2nd, 5 for 3rd, etc., down to 1 point
- * When teams tie, they split the points equally
+ * Points are awarded from the points table: by default 7 for 1st, 6 for 2nd,
+ * 5 for 3rd, etc., down to 1 point. When teams tie, they split the points equally
  *
  * Example: If 3 teams tie for 2nd place, they share (6 + 5 + 4) = 15 points
  * Each tied team gets 15 / 3 = 5 points
  *
  * @param rankedTeams - Teams already sorted by their score (best to worst)
+ * @param pointsTable - Points for 1st, 2nd, ... place (the year's pointsTable)
  * @returns Array of team IDs with their awarded points
  */
 // Direct points-per-rank lookup: extended to 16 to avoid bounds checks
@@ -80,10 +154,31 @@ const RANK_POINTS = [0, 7, 6, 5, 4, 3, 2, 1, 1, 1, 1, 1, 1, 1, 1, 1];
 // For ranks > 7, each rank contributes 1 point
 const POINTS_PREFIX = [0, 7, 13, 18, 22, 25, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36];
 
-export function calculatePointsWithTiebreaking(rankedTeams: TeamScore[]): TeamPoints[] {
+// Builds the lookups above for a custom points table, sized for `len` ranks
+function pointsLookup(pointsTable: readonly number[], len: number): { rankPoints: number[]; prefix: number[] } {
+  const rankPoints = [0];
+  const prefix = [0];
+  for (let rank = 1; rank <= len; rank++) {
+    const pts = pointsTable[Math.min(rank, pointsTable.length) - 1] ?? 0;
+    rankPoints.push(pts);
+    prefix.push(prefix[rank - 1] + pts);
+  }
+  return { rankPoints, prefix };
+}
+
+export function calculatePointsWithTiebreaking(
+  rankedTeams: TeamScore[],
+  pointsTable: readonly number[] = DEFAULT_POINTS_TABLE,
+): TeamPoints[] {
   const len = rankedTeams.length;
   if (len === 0) return [];
-  if (len === 1) return [new TP(rankedTeams[0].teamId, 7)];
+
+  const { rankPoints: RANK_PTS, prefix: PREFIX } =
+    pointsTable === DEFAULT_POINTS_TABLE && len < RANK_POINTS.length
+      ? { rankPoints: RANK_POINTS, prefix: POINTS_PREFIX }
+      : pointsLookup(pointsTable, len);
+
+  if (len === 1) return [new TP(rankedTeams[0].teamId, RANK_PTS[1])];
 
   const result = new Array<TeamPoints>(len);
   let currentRank = 1;
@@ -104,14 +199,14 @@ export function calculatePointsWithTiebreaking(rankedTeams: TeamScore[]): TeamPo
       // Tie path: use extended prefix sums
       const tieCount = j - i;
       const endRank = currentRank + tieCount - 1;
-      const pointsPerTeam = (POINTS_PREFIX[endRank] - POINTS_PREFIX[currentRank - 1]) / tieCount;
+      const pointsPerTeam = (PREFIX[endRank] - PREFIX[currentRank - 1]) / tieCount;
       for (let k = i; k < j; k++) {
         result[k] = new TP(rankedTeams[k].teamId, pointsPerTeam);
       }
       currentRank = endRank + 1;
     } else {
       // No tie — direct lookup, no division
-      result[i] = new TP(team.teamId, RANK_POINTS[currentRank]);
+      result[i] = new TP(team.teamId, RANK_PTS[currentRank]);
       currentRank++;
     }
 
@@ -122,40 +217,337 @@ export function calculatePointsWithTiebreaking(rankedTeams: TeamScore[]): TeamPo
 }
 
 /**
- * Rank teams by score for fish competition (higher weight is better)
- * @param teamWeights - Map of team ID to total fish weight
+ * Rank teams by score in either direction
+ * @param teamScores - Map of team ID to score
+ * @param lowerIsBetter - Ranking direction
+ * @param pointsTable - Points for 1st, 2nd, ... place
  * @returns Array of teams with points awarded
  */
-export function rankFishTeams(teamWeights: Map<string, number>): TeamPoints[] {
-  const rankedTeams = Array.from(teamWeights.entries())
+export function rankTeams(
+  teamScores: Map<string, number>,
+  lowerIsBetter: boolean,
+  pointsTable?: readonly number[],
+): TeamPoints[] {
+  const rankedTeams = Array.from(teamScores.entries())
     .map(([teamId, score]) => ({ teamId, score }))
-    .sort((a, b) => b.score - a.score); // Higher score is better
+    .sort((a, b) => (lowerIsBetter ? a.score - b.score : b.score - a.score));
 
-  return calculatePointsWithTiebreaking(rankedTeams);
+  return calculatePointsWithTiebreaking(rankedTeams, pointsTable);
+}
+
+/**
+ * Rank teams by score for fish competition (higher weight is better)
+ * @param teamWeights - Map of team ID to total fish weight
+ * @param pointsTable - Points for 1st, 2nd, ... place
+ * @returns Array of teams with points awarded
+ */
+export function rankFishTeams(teamWeights: Map<string, number>, pointsTable?: readonly number[]): TeamPoints[] {
+  return rankTeams(teamWeights, false, pointsTable);
 }
 
 /**
  * Rank teams by chug average time (lower time is better)
  * @param teamAverages - Map of team ID to average chug time
+ * @param pointsTable - Points for 1st, 2nd, ... place
  * @returns Array of teams with points awarded
  */
-export function rankChugTeams(teamAverages: Map<string, number>): TeamPoints[] {
-  const rankedTeams = Array.from(teamAverages.entries())
-    .map(([teamId, score]) => ({ teamId, score }))
-    .sort((a, b) => a.score - b.score); // Lower score is better
-
-  return calculatePointsWithTiebreaking(rankedTeams);
+export function rankChugTeams(teamAverages: Map<string, number>, pointsTable?: readonly number[]): TeamPoints[] {
+  return rankTeams(teamAverages, true, pointsTable);
 }
 
 /**
- * Rank teams by golf score (lower score is better)
+ * Rank teams by golf score (lower score is better unless the year says otherwise)
  * @param teamScores - Map of team ID to golf score
+ * @param pointsTable - Points for 1st, 2nd, ... place
+ * @param lowerIsBetter - Ranking direction (the year's golfLowerIsBetter)
  * @returns Array of teams with points awarded
  */
-export function rankGolfTeams(teamScores: Map<string, number>): TeamPoints[] {
-  const rankedTeams = Array.from(teamScores.entries())
-    .map(([teamId, score]) => ({ teamId, score }))
-    .sort((a, b) => a.score - b.score); // Lower score is better
+export function rankGolfTeams(
+  teamScores: Map<string, number>,
+  pointsTable?: readonly number[],
+  lowerIsBetter = true,
+): TeamPoints[] {
+  return rankTeams(teamScores, lowerIsBetter, pointsTable);
+}
+
+/**
+ * Combine a team's results for a custom event into its event score
+ * @param values - The team's recorded results
+ * @param aggregation - sum, best (direction-aware) or average
+ * @param lowerIsBetter - Event direction, used by "best"
+ * @returns The team's score, or null when it has no results
+ */
+export function aggregateEventResults(
+  values: number[],
+  aggregation: EventAggregation,
+  lowerIsBetter: boolean,
+): number | null {
+  if (values.length === 0) return null;
+  switch (aggregation) {
+    case "best":
+      return lowerIsBetter ? Math.min(...values) : Math.max(...values);
+    case "average":
+      return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 1000) / 1000;
+    default:
+      return values.reduce((sum, v) => sum + v, 0);
+  }
+}
+
+/**
+ * Numeric columns arrive as strings from Postgres and numbers from SQLite
+ */
+type NumericValue = string | number | null | undefined;
+
+/**
+ * Raw rows needed to compute a year's standings
+ */
+export interface StandingsInput {
+  teams: { id: string }[];
+  fishWeights: { teamId: string; weight: NumericValue }[];
+  chugTimes: { teamId: string; average: NumericValue }[];
+  golfScores: { teamId: string; score: NumericValue }[];
+  tieBreaks?: { teamId: string; event?: string | null; deltaPoints: NumericValue }[];
+  /** The year's scoring rules; defaults apply when missing */
+  config?: Partial<ScoringConfig> | null;
+  /** Events the year added beyond fish, chug and golf, with their results */
+  customEvents?: CustomEventInput[];
+}
+
+/**
+ * A year's custom event and its raw results
+ */
+export interface CustomEventInput {
+  key: string;
+  lowerIsBetter: boolean;
+  aggregation: EventAggregation;
+  results: { teamId: string; value: NumericValue }[];
+}
+
+/**
+ * A team's result in a single event
+ */
+export interface EventStanding {
+  /** Fish best-N total, chug average or golf score; null when not yet recorded */
+  score: number | null;
+  /** Points from ranking (scaled by the event weight), before tie-break adjustments */
+  points: number;
+  /** Tie-break adjustment applied to this event */
+  adjustment: number;
+  /** Display rank, e.g. "1" or "T-2"; "-" when the team has no result */
+  rank: string;
+  isBest: boolean;
+  isWorst: boolean;
+}
+
+/**
+ * A team's overall standing for a year
+ */
+export interface TeamStanding {
+  teamId: string;
+  fish: EventStanding;
+  chug: EventStanding;
+  golf: EventStanding;
+  /** Custom events, keyed by event key */
+  events: Record<string, EventStanding>;
+  /** Sum of event points before tie-break adjustments */
+  basePoints: number;
+  /** Sum of every tie-break adjustment for the team */
+  adjustment: number;
+  totalPoints: number;
+  /** Display rank by total points; "-" when the team has no points */
+  rank: string;
+  /** True once the team has chug, golf and every custom event's results (fish may legitimately be zero) */
+  complete: boolean;
+  isChamp: boolean;
+  isBoot: boolean;
+}
+
+function toNumber(value: NumericValue): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Build display rank labels from values sorted best to worst
+ * Tied values share the label of the first tied position, prefixed with "T-"
+ * @param sortedValues - Values already sorted best to worst
+ * @returns Labels in the same order as the input
+ */
+export function rankLabels(sortedValues: number[]): string[] {
+  const labels = new Array<string>(sortedValues.length);
+  let i = 0;
+  while (i < sortedValues.length) {
+    let j = i + 1;
+    while (j < sortedValues.length && sortedValues[j] === sortedValues[i]) j++;
+    const label = j - i > 1 ? `T-${i + 1}` : `${i + 1}`;
+    for (let k = i; k < j; k++) labels[k] = label;
+    i = j;
+  }
+  return labels;
+}
+
+function emptyEventStanding(): EventStanding {
+  return { score: null, points: 0, adjustment: 0, rank: "-", isBest: false, isWorst: false };
+}
+
+function applyEventRanking(
+  byTeam: Map<string, EventStanding>,
+  scores: Map<string, number>,
+  ranked: TeamPoints[],
+  weight: number,
+): void {
+  if (ranked.length === 0) return;
+  const labels = rankLabels(ranked.map((p) => p.points));
+  const maxPts = ranked[0].points;
+  const minPts = ranked[ranked.length - 1].points;
+  ranked.forEach((p, i) => {
+    const standing = byTeam.get(p.teamId);
+    if (!standing) return;
+    standing.score = scores.get(p.teamId) ?? null;
+    standing.points = p.points * weight;
+    standing.rank = labels[i];
+    standing.isBest = p.points === maxPts;
+    standing.isWorst = ranked.length > 1 && p.points === minPts;
+  });
+}
+
+/**
+ * Compute the canonical standings for a year
+ * Each event is ranked among the teams that have a result for it, so standings
+ * are meaningful while the competition is still in progress. Points, fish
+ * count and golf direction follow the year's scoring config; custom events
+ * use their own direction and aggregation with the same points table. Tie-break
+ * adjustments are added on top of event points. Champ and boot flags are only
+ * awarded among complete teams: a single outright leader is the champ, and
+ * every team on the lowest total gets the boot.
+ *
+ * @param input - Teams, raw results and tie-break adjustments for the year
+ * @returns Team standings sorted by total points (highest first), ties in team order
+ */
+export function computeStandings(input: StandingsInput): TeamStanding[] {
+  const config = resolveScoringConfig(input.config);
+  const teamIds = new Set(input.teams.map((t) => t.id));
+  const events = {
+    fish: new Map<string, EventStanding>(),
+    chug: new Map<string, EventStanding>(),
+    golf: new Map<string, EventStanding>(),
+  };
+  for (const team of input.teams) {
+    for (const event of SCORING_EVENTS) events[event].set(team.id, emptyEventStanding());
+  }
+
+  const fishByTeam = new Map<string, number[]>();
+  for (const fw of input.fishWeights) {
+    const weight = toNumber(fw.weight);
+    if (!teamIds.has(fw.teamId) || weight === null || weight <= 0) continue;
+    if (!fishByTeam.has(fw.teamId)) fishByTeam.set(fw.teamId, []);
+    fishByTeam.get(fw.teamId)!.push(weight);
+  }
+  const fishTotals = new Map<string, number>();
+  fishByTeam.forEach((weights, teamId) =>
+    fishTotals.set(teamId, calculateTop3FishTotal(weights, config.fishCountBest))
+  );
+
+  const chugAverages = new Map<string, number>();
+  for (const ct of input.chugTimes) {
+    const avg = toNumber(ct.average);
+    if (teamIds.has(ct.teamId) && avg !== null && avg > 0) chugAverages.set(ct.teamId, avg);
+  }
+
+  const golfScores = new Map<string, number>();
+  for (const gs of input.golfScores) {
+    const score = toNumber(gs.score);
+    if (teamIds.has(gs.teamId) && score !== null) golfScores.set(gs.teamId, score);
+  }
+
+  const { pointsTable, eventWeights } = config;
+  applyEventRanking(events.fish, fishTotals, rankFishTeams(fishTotals, pointsTable), eventWeights.fish);
+  applyEventRanking(events.chug, chugAverages, rankChugTeams(chugAverages, pointsTable), eventWeights.chug);
+  applyEventRanking(
+    events.golf,
+    golfScores,
+    rankGolfTeams(golfScores, pointsTable, config.golfLowerIsBetter),
+    eventWeights.golf,
+  );
+
+  const customEvents = input.customEvents ?? [];
+  const customScores = customEvents.map((event) => {
+    const valuesByTeam = new Map<string, number[]>();
+    for (const result of event.results) {
+      const value = toNumber(result.value);
+      if (!teamIds.has(result.teamId) || value === null) continue;
+      if (!valuesByTeam.has(result.teamId)) valuesByTeam.set(result.teamId, []);
+      valuesByTeam.get(result.teamId)!.push(value);
+    }
+    const scores = new Map<string, number>();
+    valuesByTeam.forEach((values, teamId) =>
+      scores.set(teamId, aggregateEventResults(values, event.aggregation, event.lowerIsBetter)!)
+    );
+
+    const byTeam = new Map<string, EventStanding>();
+    for (const team of input.teams) byTeam.set(team.id, emptyEventStanding());
+    applyEventRanking(byTeam, scores, rankTeams(scores, event.lowerIsBetter, pointsTable), 1);
+    return { key: event.key, scores, byTeam };
+  });
+
+  const adjustments = new Map<string, number>();
+  for (const tb of input.tieBreaks ?? []) {
+    const delta = toNumber(tb.deltaPoints);
+    if (!teamIds.has(tb.teamId) || delta === null) continue;
+    adjustments.set(tb.teamId, (adjustments.get(tb.teamId) ?? 0) + delta);
+    const event = tb.event as ScoringEvent | null | undefined;
+    if (event && event in events) events[event].get(tb.teamId)!.adjustment += delta;
+  }
+
+  const standings: TeamStanding[] = input.teams.map((team) => {
+    const fish = events.fish.get(team.id)!;
+    const chug = events.chug.get(team.id)!;
+    const golf = events.golf.get(team.id)!;
+    const custom: Record<string, EventStanding> = {};
+    let customPoints = 0;
+    for (const event of customScores) {
+      custom[event.key] = event.byTeam.get(team.id)!;
+      customPoints += custom[event.key].points;
+    }
+    const basePoints = fish.points + chug.points + golf.points + customPoints;
+    const adjustment = adjustments.get(team.id) ?? 0;
+    return {
+      teamId: team.id,
+      fish,
+      chug,
+      golf,
+      events: custom,
+      basePoints,
+      adjustment,
+      totalPoints: basePoints + adjustment,
+      rank: "-",
+      complete:
+        chugAverages.has(team.id) &&
+        golfScores.has(team.id) &&
+        customScores.every((event) => event.scores.has(team.id)),
+      isChamp: false,
+      isBoot: false,
+    };
+  });
+
+  // Stable sort keeps team order for equal totals
+  standings.sort((a, b) => b.totalPoints - a.totalPoints);
+
+  const scored = standings.filter((s) => s.totalPoints > 0);
+  const labels = rankLabels(scored.map((s) => s.totalPoints));
+  scored.forEach((s, i) => { s.rank = labels[i]; });
+
+  const complete = standings.filter((s) => s.complete);
+  if (complete.length > 0) {
+    const maxPts = Math.max(...complete.map((s) => s.totalPoints));
+    const minPts = Math.min(...complete.map((s) => s.totalPoints));
+    const leaders = complete.filter((s) => s.totalPoints === maxPts);
+    for (const s of complete) {
+      s.isChamp = leaders.length === 1 && s.totalPoints === maxPts;
+      s.isBoot = complete.length > 1 && s.totalPoints === minPts;
+    }
+  }
 
-  return calculatePointsWithTiebreaking(rankedTeams);
+  return standings;
 }
@@ -0,0 +1,98 @@
+/**
+ * Team membership shared by the schema, server and client.
+ * Kept free of drizzle imports so the client bundle can use it directly.
+ *
+ * A team's roster lives in `team_members`, one row per KAK in slot order.
+ * Players make up the team; subs stand in when a player can't make it and
+ * count as members for results, champs and boots like anyone else.
+ *
+ * A roster override records one KAK filling in for a rostered teammate in a
+ * single event. Credit follows whoever actually played: the event's lineup
+ * swaps the fill-in in, and a KAK only shares in a team's champ or boot
+ * finish by playing at least one of its events.
+ */
+
+export const TEAM_MEMBER_ROLES = ["player", "sub"] as const;
+
+export type TeamMemberRole = (typeof TEAM_MEMBER_ROLES)[number];
+
+/** Most KAKs, players and subs together, one team can carry */
+export const MAX_TEAM_MEMBERS = 8;
+
+/** A roster entry as the API returns it */
+export interface TeamMemberEntry {
+  kakId: string;
+  name: string;
+  /** 1-based order on the roster */
+  slot: number;
+  role: TeamMemberRole;
+}
+
+/** A roster entry as a team write sends it; slots follow the order given */
+export interface TeamMemberInput {
+  kakId: string;
+  role?: TeamMemberRole;
+}
+
+/** Roster names in slot order, with subs marked */
+export function memberNames(members: readonly TeamMemberEntry[]): string[] {
+  return members.map((member) => (member.role === "sub" ? `${member.name} (sub)` : member.name));
+}
+
+/** One KAK standing in for a rostered teammate in a single event */
+export interface RosterSwap {
+  teamId: string;
+  /** "fish", "chug", "golf" or a custom event key */
+  event: string;
+  outKakId: string;
+  inKakId: string;
+}
+
+/** A roster override as the API returns it */
+export interface RosterOverrideEntry extends RosterSwap {
+  id: string;
+  outName: string;
+  inName: string;
+}
+
+/** Who played an event for a team: the roster with that event's overrides swapped in */
+export function eventLineup(
+  teamId: string,
+  memberIds: readonly string[],
+  overrides: readonly RosterSwap[],
+  event: string,
+): string[] {
+  const swaps = new Map(
+    overrides
+      .filter((override) => override.teamId === teamId && override.event === event)
+      .map((override) => [override.outKakId, override.inKakId]),
+  );
+  return memberIds.map((kakId) => swaps.get(kakId) ?? kakId);
+}
+
+/** Every KAK who played at least one of the events for a team, roster order first */
+export function playedKakIds(
+  teamId: string,
+  memberIds: readonly string[],
+  overrides: readonly RosterSwap[],
+  events: readonly string[],
+): string[] {
+  if (events.length === 0) return [...memberIds];
+  const played = new Set(events.flatMap((event) => eventLineup(teamId, memberIds, overrides, event)));
+  const fillIns = Array.from(played).filter((kakId) => !memberIds.includes(kakId));
+  return [...memberIds.filter((kakId) => played.has(kakId)), ...fillIns];
+}
+
+/** Who can be credited with a result in an event: the roster, then that event's fill-ins */
+export function eventPlayers(
+  team: { id: string; members: readonly TeamMemberEntry[] },
+  overrides: readonly RosterOverrideEntry[],
+  event: string,
+): { id: string; name: string }[] {
+  return [
+    ...team.members.map((member) => ({ id: member.kakId, name: member.name })),
+    ...overrides
+      .filter((override) => override.teamId === team.id && override.event === event)
+      .map((override) => ({ id: override.inKakId, name: override.inName })),
+  ];
+}
@@ -0,0 +1,20 @@
+/**
+ * Row versions for optimistic concurrency, shared by the server and client.
+ * Kept free of drizzle imports so the client bundle can use it directly.
+ *
+ * Years and teams carry a version that goes up on every write. Reads send it
+ * as the ETag, and a write must send back the version it started from in
+ * If-Match (428 without one); if someone else saved in between the server
+ * answers 412.
+ */
+
+/** The ETag / If-Match value for a row at a version */
+export function versionTag(version: number): string {
+  return `"v${version}"`;
+}
+
+/** The version an If-Match value names; NaN for one that isn't a version tag */
+export function parseVersionTag(tag: string): number {
+  const match = /^(?:W\/)?"v(\d+)"$/.exec(tag.trim());
+  return match ? Number(match[1]) : NaN;
+}
@@ -0,0 +1,37 @@
+/**
+ * The year lifecycle shared by the schema, server and client.
+ * Kept free of drizzle imports so the client bundle can use it directly.
+ *
+ * A year moves upcoming → active → completed → archived, one step at a time.
+ * Completing it crowns the champs and boots; a completed year can be reopened
+ * to fix a result, and an archived one unarchived back to completed.
+ */
+
+export const YEAR_STATUSES = ["upcoming", "active", "completed", "archived"] as const;
+
+export type YearStatus = (typeof YEAR_STATUSES)[number];
+
+/** Where a year in each status may move next */
+export const YEAR_STATUS_TRANSITIONS: Record<YearStatus, readonly YearStatus[]> = {
+  upcoming: ["active"],
+  active: ["completed"],
+  completed: ["active", "archived"],
+  archived: ["completed"],
+};
+
+export function canChangeYearStatus(from: string, to: YearStatus): boolean {
+  return (YEAR_STATUS_TRANSITIONS[from as YearStatus] ?? []).includes(to);
+}
+
+/** Whether a year's results are final: completed, or completed and since archived */
+export function isFinishedStatus(status: string): boolean {
+  return status === "completed" || status === "archived";
+}
+
+/** What the Year Status admin calls each move */
+export function yearStatusAction(from: string, to: YearStatus): string {
+  if (to === "active") return from === "completed" ? "Reopen" : "Activate";
+  if (to === "completed") return from === "archived" ? "Unarchive" : "Complete";
+  if (to === "archived") return "Archive";
+  return "Mark upcoming";
+}
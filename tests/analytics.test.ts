@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { compareKaks, finishPosition, type SeasonFinish } from '../shared/analytics';
+
+function finish(overrides: Partial<SeasonFinish>): SeasonFinish {
+  return {
+    yearId: 'y2024',
+    year: 2024,
+    teamId: 't1',
+    teamName: 'Team 1',
+    rank: '1',
+    totalPoints: 30,
+    teamCount: 4,
+    isChamp: false,
+    isBoot: false,
+    ...overrides,
+  };
+}
+
+describe('finishPosition', () => {
+  it('should read plain and tied ranks', () => {
+    expect(finishPosition('3')).toBe(3);
+    expect(finishPosition('T-2')).toBe(2);
+  });
+
+  it('should return null for a team without points', () => {
+    expect(finishPosition('-')).toBeNull();
+  });
+});
+
+describe('compareKaks', () => {
+  it('should only consider years both KAKs played', () => {
+    const record = compareKaks([finish({ yearId: 'y2023', year: 2023 })], [finish({})]);
+    expect(record.teammates.seasons).toEqual([]);
+    expect(record.opponents.seasons).toEqual([]);
+  });
+
+  it('should record seasons on the same team as teammates', () => {
+    const a = [
+      finish({ yearId: 'y2023', year: 2023, rank: 'T-2', isChamp: false }),
+      finish({ yearId: 'y2024', year: 2024, rank: '1', isChamp: true }),
+    ];
+    const record = compareKaks(a, a);
+
+    expect(record.teammates.seasons.map((s) => s.year)).toEqual([2024, 2023]);
+    expect(record.teammates.averageFinish).toBe(1.5);
+    expect(record.teammates.champs).toBe(1);
+    expect(record.teammates.boots).toBe(0);
+  });
+
+  it('should award opposing seasons on total points', () => {
+    const a = [
+      finish({ yearId: 'y2022', year: 2022, teamId: 'a22', totalPoints: 40 }),
+      finish({ yearId: 'y2023', year: 2023, teamId: 'a23', totalPoints: 20 }),
+      finish({ yearId: 'y2024', year: 2024, teamId: 'a24', totalPoints: 25 }),
+    ];
+    const b = [
+      finish({ yearId: 'y2022', year: 2022, teamId: 'b22', totalPoints: 30 }),
+      finish({ yearId: 'y2023', year: 2023, teamId: 'b23', totalPoints: 35 }),
+      finish({ yearId: 'y2024', year: 2024, teamId: 'b24', totalPoints: 25 }),
+    ];
+    const record = compareKaks(a, b);
+
+    expect(record.opponents.seasons.map((s) => s.winner)).toEqual(['tie', 'b', 'a']);
+    expect(record.opponents).toMatchObject({ aWins: 1, bWins: 1, ties: 1 });
+    expect(record.teammates.averageFinish).toBeNull();
+  });
+});
@@ -1,10 +1,12 @@
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, vi, beforeAll } from 'vitest';
 import { Hono } from 'hono';
 import { drizzle } from 'drizzle-orm/better-sqlite3';
 import Database from 'better-sqlite3';
 import * as schema from '../shared/schema-sqlite.js';
 import { createRoutes } from '../server/routes.js';
+import { createDataRoutes } from '../server/data-routes.js';
 import { setDb } from '../server/db.js';
+import { storage } from '../server/storage.js';
 import { createTestDatabase, seedTestDatabase } from './helpers.js';
 import type { AppEnv } from '../server/auth.js';
 import { createToken } from '../server/auth.js';
@@ -23,6 +25,36 @@ beforeAll(() => {
   createRoutes(app);
 });
 
+// Year and team writes name the version they start from, the way the client does
+async function ifMatch(path: string): Promise<{ 'If-Match': string }> {
+  const res = await app.request(path);
+  return { 'If-Match': res.headers.get('ETag')! };
+}
+
+// A lock change moves the year's version, so it goes out with the year's If-Match
+async function setEventLocked(yearId: string, key: string, locked: boolean, headers: Record<string, string>) {
+  return app.request(`/api/years/${yearId}/event-definitions/${key}`, {
+    method: 'PATCH',
+    headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) },
+    body: JSON.stringify({ locked }),
+  });
+}
+
+// Completing a year needs every event it runs locked
+async function lockAllEvents(yearId: string, headers: Record<string, string>) {
+  const events = await (await app.request(`/api/years/${yearId}/event-definitions`)).json();
+  for (const event of events) await setEventLocked(yearId, event.key, true, headers);
+}
+
+// The first year none of whose events are locked yet
+async function unlockedYear() {
+  const years = await (await app.request('/api/years')).json();
+  for (const year of years) {
+    const events = await (await app.request(`/api/years/${year.id}/event-definitions`)).json();
+    if (events.every((event: any) => !event.locked)) return year;
+  }
+}
+
 describe('GET /api/years', () => {
   it('should return list of years', async () => {
     const res = await app.request('/api/years');
@@ -159,9 +191,7 @@ describe('Numeric competition payloads', () => {
       role: 'admin',
     });
 
-    const yearsRes = await app.request('/api/years');
-    const years = await yearsRes.json();
-    const year = years.find((y: any) => !y.fishing_locked && !y.chug_locked && !y.golf_locked);
+    const year = await unlockedYear();
     expect(year).toBeDefined();
 
     const teamRes = await app.request(`/api/years/${year.id}/teams`, {
@@ -206,6 +236,258 @@ describe('DELETE /api/years/:yearId/scores', () => {
   });
 });
 
+describe('Soft delete and restore', () => {
+  const yearId = '11111111-1111-1111-1111-111111111111';
+  let headers: Record<string, string>;
+  let teamId: string;
+
+  beforeAll(async () => {
+    const adminToken = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'testuser', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${adminToken}` };
+    const teamRes = await app.request(`/api/years/${yearId}/teams`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Undo Team', position: 98 }),
+    });
+    teamId = (await teamRes.json()).id;
+  });
+
+  const teamWeights = async () => {
+    const res = await app.request(`/api/years/${yearId}/fish-weights`);
+    return (await res.json()).filter((fw: any) => fw.teamId === teamId);
+  };
+
+  it('hides deleted fish weights and restores exactly that batch', async () => {
+    for (const weight of [3.5, 4.25]) {
+      await app.request(`/api/years/${yearId}/fish-weights`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ teamId, weight }),
+      });
+    }
+
+    const deleteRes = await app.request(`/api/years/${yearId}/teams/${teamId}/fish-weights`, {
+      method: 'DELETE',
+      headers,
+    });
+    expect(deleteRes.status).toBe(200);
+    const { deletedAt } = await deleteRes.json();
+    expect(typeof deletedAt).toBe('string');
+    expect(await teamWeights()).toHaveLength(0);
+
+    const restoreRes = await app.request(`/api/years/${yearId}/teams/${teamId}/fish-weights/restore`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ deletedAt }),
+    });
+    expect(restoreRes.status).toBe(200);
+    expect((await restoreRes.json()).restored).toBe(2);
+    expect((await teamWeights()).map((fw: any) => Number(fw.weight)).sort()).toEqual([3.5, 4.25]);
+
+    const again = await app.request(`/api/years/${yearId}/teams/${teamId}/fish-weights/restore`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ deletedAt }),
+    });
+    expect(again.status).toBe(404);
+  });
+
+  it('does not restore a chug time that was re-entered after the delete', async () => {
+    await app.request(`/api/years/${yearId}/chug-times`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId, chug1: 7, chug2: 7, average: 7 }),
+    });
+    const deleteRes = await app.request(`/api/years/${yearId}/teams/${teamId}/chug-times`, {
+      method: 'DELETE',
+      headers,
+    });
+    const { deletedAt } = await deleteRes.json();
+
+    const reenter = await app.request(`/api/years/${yearId}/chug-times`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId, chug1: 9, chug2: 9, average: 9 }),
+    });
+    expect(reenter.status).toBe(201);
+
+    const restoreRes = await app.request(`/api/years/${yearId}/teams/${teamId}/chug-times/restore`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ deletedAt }),
+    });
+    expect(restoreRes.status).toBe(404);
+
+    const chugRes = await app.request(`/api/years/${yearId}/chug-times`);
+    const chug = (await chugRes.json()).find((ct: any) => ct.teamId === teamId);
+    expect(Number(chug.average)).toBe(9);
+  });
+
+  it('restores every score cleared for a year', async () => {
+    const clearRes = await app.request(`/api/years/${yearId}/scores`, { method: 'DELETE', headers });
+    expect(clearRes.status).toBe(200);
+    const { deletedAt } = await clearRes.json();
+    expect(await teamWeights()).toHaveLength(0);
+
+    const restoreRes = await app.request(`/api/years/${yearId}/scores/restore`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ deletedAt }),
+    });
+    expect(restoreRes.status).toBe(200);
+    expect(await teamWeights()).toHaveLength(2);
+  });
+
+  it('rejects a restore without a deletedAt timestamp', async () => {
+    const res = await app.request(`/api/years/${yearId}/scores/restore`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({}),
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('Fish weights by id', () => {
+  const yearId = '11111111-1111-1111-1111-111111111111';
+  let headers: Record<string, string>;
+  let teamId: string;
+
+  beforeAll(async () => {
+    const adminToken = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'testuser', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${adminToken}` };
+    const teamRes = await app.request(`/api/years/${yearId}/teams`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Single Fish Team', position: 97 }),
+    });
+    teamId = (await teamRes.json()).id;
+  });
+
+  const addFish = async (weight: number) => {
+    const res = await app.request(`/api/years/${yearId}/fish-weights`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId, weight }),
+    });
+    return (await res.json()).id as string;
+  };
+
+  const teamWeights = async () => {
+    const res = await app.request(`/api/years/${yearId}/fish-weights`);
+    return (await res.json()).filter((fw: any) => fw.teamId === teamId);
+  };
+
+  it('requires authentication', async () => {
+    const res = await app.request('/api/fish-weights/some-id', { method: 'DELETE' });
+    expect(res.status).toBe(401);
+  });
+
+  it('returns 404 for an unknown fish weight', async () => {
+    const res = await app.request('/api/fish-weights/nonexistent-id', {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ weight: 1 }),
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it('edits and removes a single entry, returning ids from the year list', async () => {
+    const keepId = await addFish(2.5);
+    const fixId = await addFish(45);
+
+    const listed = await teamWeights();
+    expect(listed.map((fw: any) => fw.id).sort()).toEqual([keepId, fixId].sort());
+
+    const patchRes = await app.request(`/api/fish-weights/${fixId}`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ weight: 4.5 }),
+    });
+    expect(patchRes.status).toBe(200);
+    expect(Number((await patchRes.json()).weight)).toBe(4.5);
+
+    const deleteRes = await app.request(`/api/fish-weights/${fixId}`, { method: 'DELETE', headers });
+    expect(deleteRes.status).toBe(200);
+    expect((await deleteRes.json()).teamId).toBe(teamId);
+
+    const remaining = await teamWeights();
+    expect(remaining.map((fw: any) => fw.id)).toEqual([keepId]);
+
+    const again = await app.request(`/api/fish-weights/${fixId}`, { method: 'DELETE', headers });
+    expect(again.status).toBe(404);
+  });
+
+  it('respects a locked fish event', async () => {
+    const id = await addFish(3);
+    await setEventLocked(yearId, 'fish', true, headers);
+    try {
+      const patchRes = await app.request(`/api/fish-weights/${id}`, {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify({ weight: 9 }),
+      });
+      expect(patchRes.status).toBe(403);
+      const deleteRes = await app.request(`/api/fish-weights/${id}`, { method: 'DELETE', headers });
+      expect(deleteRes.status).toBe(403);
+    } finally {
+      await setEventLocked(yearId, 'fish', false, headers);
+    }
+  });
+});
+
+describe('Fish metadata', () => {
+  const yearId = '11111111-1111-1111-1111-111111111111';
+  const anglerId = 'aa000000-0000-0000-0000-000000000001';
+  let headers: Record<string, string>;
+  let teamId: string;
+
+  beforeAll(async () => {
+    const adminToken = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'testuser', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${adminToken}` };
+    const teamRes = await app.request(`/api/years/${yearId}/teams`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Lunker Team', position: 96, members: [{ kakId: anglerId }] }),
+    });
+    teamId = (await teamRes.json()).id;
+  });
+
+  it('stores species, length, angler and catch time', async () => {
+    const caughtAt = '2025-08-02T14:30:00.000Z';
+    const res = await app.request(`/api/years/${yearId}/fish-weights`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId, weight: 7.4, species: 'pike', length: 31.5, kakId: anglerId, caughtAt }),
+    });
+    expect(res.status).toBe(201);
+
+    const listRes = await app.request(`/api/years/${yearId}/fish-weights`);
+    const fish = (await listRes.json()).find((fw: any) => fw.teamId === teamId);
+    expect(fish).toMatchObject({ species: 'pike', kakId: anglerId });
+    expect(Number(fish.length)).toBe(31.5);
+    expect(new Date(fish.caughtAt).toISOString()).toBe(caughtAt);
+  });
+
+  it('rejects an unknown species', async () => {
+    const res = await app.request(`/api/years/${yearId}/fish-weights`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId, weight: 2, species: 'kraken' }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects an angler who is not on the team', async () => {
+    const res = await app.request(`/api/years/${yearId}/fish-weights`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId, weight: 2, kakId: 'aa000000-0000-0000-0000-000000000002' }),
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
 describe('POST /api/years', () => {
   it('should return 401 without auth', async () => {
     const res = await app.request('/api/years', { method: 'POST' });
@@ -250,12 +532,9 @@ describe('POST /api/years', () => {
 describe('Parallel data prefetch', () => {
   it('should return all tab data in parallel for a valid year', async () => {
     // Get a valid yearId from the seeded data
-    const yearsRes = await app.request('/api/years');
-    const years = await yearsRes.json();
-    expect(years.length).toBeGreaterThan(0);
-    const unlockedYear = years.find((y: any) => !y.fishing_locked && !y.chug_locked && !y.golf_locked);
-    expect(unlockedYear).toBeDefined();
-    const yearId = unlockedYear.id;
+    const year = await unlockedYear();
+    expect(year).toBeDefined();
+    const yearId = year.id;
 
     // Fire all four data requests in parallel — same as YearPage prefetch
     const [teamsRes, fishRes, chugRes, golfRes] = await Promise.all([
@@ -335,11 +614,11 @@ describe('Tie-breaks', () => {
     const kakId1 = kak1.id;
     const kakId2 = kak2.id;
 
-    // Create team1 with kak1Id
+    // Create team1 with kak1 on its roster
     const team1Res = await app.request(`/api/years/${yearId}/teams`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json', Cookie: `token=${adminToken}` },
-      body: JSON.stringify({ name: 'Tie Team A', position: 1, kak1Id: kakId1 }),
+      body: JSON.stringify({ name: 'Tie Team A', position: 1, members: [{ kakId: kakId1 }] }),
     });
     expect(team1Res.status).toBe(201);
     const team1 = await team1Res.json();
@@ -348,7 +627,7 @@ describe('Tie-breaks', () => {
     const team2Res = await app.request(`/api/years/${yearId}/teams`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json', Cookie: `token=${adminToken}` },
-      body: JSON.stringify({ name: 'Tie Team', position: 2, kak1Id: kakId2 }),
+      body: JSON.stringify({ name: 'Tie Team', position: 2, members: [{ kakId: kakId2 }] }),
     });
     expect(team2Res.status).toBe(201);
     const team2 = await team2Res.json();
@@ -387,11 +666,17 @@ describe('Tie-breaks', () => {
       body: JSON.stringify({ teamId: team2.id, score: 70 }),
     });
 
-    // Lock and complete year
+    // Activate, then lock and complete year
+    await app.request(`/api/years/${yearId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', Cookie: `token=${adminToken}`, ...(await ifMatch(`/api/years/${yearId}`)) },
+      body: JSON.stringify({ status: 'active' }),
+    });
+    await lockAllEvents(yearId, { 'Content-Type': 'application/json', Cookie: `token=${adminToken}` });
     const completeRes = await app.request(`/api/years/${yearId}`, {
       method: 'PATCH',
-      headers: { 'Content-Type': 'application/json', Cookie: `token=${adminToken}` },
-      body: JSON.stringify({ fishing_locked: true, chug_locked: true, golf_locked: true, status: 'completed' }),
+      headers: { 'Content-Type': 'application/json', Cookie: `token=${adminToken}`, ...(await ifMatch(`/api/years/${yearId}`)) },
+      body: JSON.stringify({ status: 'completed' }),
     });
     expect(completeRes.status).toBe(200);
 
@@ -426,6 +711,143 @@ describe('Tie-breaks', () => {
   });
 });
 
+describe('GET /api/years/:yearId/standings', () => {
+  const yearId = '11111111-1111-1111-1111-111111111111';
+
+  it('returns server-computed standings with an ETag', async () => {
+    const adminToken = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'testuser', role: 'admin' });
+    const headers = { 'Content-Type': 'application/json', Cookie: `token=${adminToken}` };
+
+    const teamRes = await app.request(`/api/years/${yearId}/teams`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Standings Team', position: 9 }),
+    });
+    expect(teamRes.status).toBe(201);
+    const team = await teamRes.json();
+
+    await app.request(`/api/years/${yearId}/fish-weights`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId: team.id, weight: 99 }),
+    });
+
+    const res = await app.request(`/api/years/${yearId}/standings`);
+    expect(res.status).toBe(200);
+    const etag = res.headers.get('ETag');
+    expect(etag).toBeTruthy();
+
+    const body = await res.json();
+    expect(Array.isArray(body.standings)).toBe(true);
+    expect(Array.isArray(body.tieBreaks)).toBe(true);
+    const standing = body.standings.find((s: any) => s.teamId === team.id);
+    expect(standing.fish).toMatchObject({ score: 99, points: 7, rank: '1' });
+    expect(standing.complete).toBe(false);
+
+    const cachedRes = await app.request(`/api/years/${yearId}/standings`, {
+      headers: { 'If-None-Match': etag! },
+    });
+    expect(cachedRes.status).toBe(304);
+  });
+
+  it('returns 404 for an unknown year', async () => {
+    const res = await app.request('/api/years/00000000-0000-0000-0000-000000000000/standings');
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('GET /api/years/:yearId/events', () => {
+  const yearId = '11111111-1111-1111-1111-111111111111';
+
+  async function readEvent(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<string> {
+    const { value } = await reader.read();
+    return new TextDecoder().decode(value);
+  }
+
+  it('streams a change event when a score is added', async () => {
+    const adminToken = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'testuser', role: 'admin' });
+    const res = await app.request(`/api/years/${yearId}/events`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toContain('text/event-stream');
+
+    const reader = res.body!.getReader();
+    expect(await readEvent(reader)).toContain('event: ready');
+
+    const postRes = await app.request(`/api/years/${yearId}/golf-scores`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Cookie: `token=${adminToken}` },
+      body: JSON.stringify({ teamId: '22222222-2222-2222-2222-222222222222', score: 72 }),
+    });
+    expect(postRes.status).toBe(201);
+
+    const message = await readEvent(reader);
+    expect(message).toContain('event: change');
+    expect(message).toContain('"type":"golf-scores"');
+    await reader.cancel();
+  });
+
+  it('returns 501 when live events are disabled', async () => {
+    const edgeApp = new Hono<AppEnv>();
+    createDataRoutes(edgeApp, { liveEvents: false });
+    const res = await edgeApp.request(`/api/years/${yearId}/events`);
+    expect(res.status).toBe(501);
+  });
+
+  it('returns 404 for an unknown year', async () => {
+    const res = await app.request('/api/years/00000000-0000-0000-0000-000000000000/events');
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('GET /api/audit', () => {
+  const yearId = '11111111-1111-1111-1111-111111111111';
+  const teamId = '22222222-2222-2222-2222-222222222222';
+
+  it('requires authentication', async () => {
+    const res = await app.request(`/api/audit?yearId=${yearId}`);
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects non-admin users', async () => {
+    const userToken = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'testuser', role: 'user' });
+    const res = await app.request(`/api/audit?yearId=${yearId}`, {
+      headers: { Cookie: `token=${userToken}` },
+    });
+    expect(res.status).toBe(403);
+  });
+
+  it('records who changed a score with before and after snapshots', async () => {
+    const adminToken = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'testuser', role: 'admin' });
+    const headers = { 'Content-Type': 'application/json', Cookie: `token=${adminToken}` };
+
+    await app.request(`/api/years/${yearId}/chug-times`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId, chug1: 8, chug2: 8, average: 8 }),
+    });
+    await app.request(`/api/years/${yearId}/chug-times`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId, chug1: 6, chug2: 6, average: 6 }),
+    });
+
+    const res = await app.request(`/api/audit?yearId=${yearId}`, { headers });
+    expect(res.status).toBe(200);
+    const events = await res.json();
+    const chugEvents = events.filter((e: any) => e.entity === 'chug-time');
+    expect(chugEvents.length).toBeGreaterThanOrEqual(2);
+
+    const latest = chugEvents.find((e: any) => Number(e.after?.average) === 6);
+    expect(latest).toMatchObject({
+      yearId,
+      userId: '33333333-3333-3333-3333-333333333333',
+      username: 'testuser',
+      action: 'update',
+    });
+    expect(Number(latest.before.average)).toBe(8);
+  });
+});
+
 describe('API Error Handling', () => {
   it('should handle invalid JSON body gracefully', async () => {
     const res = await app.request('/api/auth/login', {
@@ -630,6 +1052,145 @@ describe('PATCH /api/kaks/:kakId', () => {
 // GET /api/kak-stats
 // ---------------------------------------------------------------------------
 
+describe('GET /api/kaks/:kakId/profile', () => {
+  let headers: Record<string, string>;
+  let yearId: string;
+  let kakId: string;
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    const yearRes = await app.request('/api/years', { method: 'POST', headers });
+    yearId = (await yearRes.json()).id;
+    await app.request(`/api/years/${yearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) },
+      body: JSON.stringify({ scoring_config: { chugLegs: 1 } }),
+    });
+
+    const kakRes = await app.request('/api/kaks', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: `Career KAK ${Date.now()}` }),
+    });
+    const kak = await kakRes.json();
+    kakId = kak.id;
+    const teamRes = await app.request(`/api/years/${yearId}/teams`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Career Team', position: 1, members: [{ kakId }] }),
+    });
+    const teamId = (await teamRes.json()).id;
+
+    const post = (path: string, body: unknown) =>
+      app.request(`/api/years/${yearId}/${path}`, { method: 'POST', headers, body: JSON.stringify(body) });
+    await post('fish-weights', { teamId, weight: 5.5, species: 'walleye', kakId });
+    await post('fish-weights', { teamId, weight: 2.25 });
+    await post('chug-times', { teamId, legs: [{ kakId, time: 3.5 }] });
+    await post('golf-scores', { teamId, score: -2 });
+  });
+
+  it('returns 404 for an unknown KAK', async () => {
+    const res = await app.request('/api/kaks/no-such-kak/profile');
+    expect(res.status).toBe(404);
+  });
+
+  it('collects every year the KAK played with their own fish and chug legs', async () => {
+    const res = await app.request(`/api/kaks/${kakId}/profile`);
+    expect(res.status).toBe(200);
+    const profile = await res.json();
+
+    expect(profile.totals).toEqual({
+      years: 1,
+      champs: 0,
+      boots: 0,
+      fish: 1,
+      heaviestFish: 5.5,
+      chugLegs: 1,
+      bestChugLeg: 3.5,
+    });
+    expect(profile.years).toHaveLength(1);
+    const [year] = profile.years;
+    expect(year).toMatchObject({
+      yearId,
+      teamName: 'Career Team',
+      rank: '1',
+      teamCount: 1,
+      fish: [{ weight: 5.5, species: 'walleye' }],
+      chugLegs: [{ leg: 1, time: 3.5 }],
+      golf: { score: -2, differential: null, course: null },
+    });
+    expect(year.events.map((e: any) => e.key)).toEqual(['fish', 'chug', 'golf']);
+    expect(year.totalPoints).toBe(year.events.reduce((sum: number, e: any) => sum + e.points, 0));
+  });
+});
+
+describe('GET /api/kaks/:a/vs/:b', () => {
+  let headers: Record<string, string>;
+  const kakIds: string[] = [];
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    const yearRes = await app.request('/api/years', { method: 'POST', headers });
+    const yearId = (await yearRes.json()).id;
+    await app.request(`/api/years/${yearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) },
+      body: JSON.stringify({ scoring_config: { chugLegs: 1 } }),
+    });
+
+    const ts = Date.now();
+    for (const name of ['Rival A', 'Rival B', 'Rival C']) {
+      const kakRes = await app.request('/api/kaks', { method: 'POST', headers, body: JSON.stringify({ name: `${name} ${ts}` }) });
+      kakIds.push((await kakRes.json()).id);
+    }
+    const post = (path: string, body: unknown) =>
+      app.request(`/api/years/${yearId}/${path}`, { method: 'POST', headers, body: JSON.stringify(body) });
+    const ab = await (await post('teams', { name: 'Pair', position: 1, members: [{ kakId: kakIds[0] }, { kakId: kakIds[1] }] })).json();
+    const c = await (await post('teams', { name: 'Solo', position: 2, members: [{ kakId: kakIds[2] }] })).json();
+    await post('chug-times', { teamId: ab.id, legs: [{ kakId: kakIds[0], time: 3 }] });
+    await post('chug-times', { teamId: c.id, legs: [{ kakId: kakIds[2], time: 5 }] });
+    await post('golf-scores', { teamId: ab.id, score: -3 });
+    await post('golf-scores', { teamId: c.id, score: 4 });
+
+    await app.request(`/api/years/${yearId}`, { method: 'PATCH', headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) }, body: JSON.stringify({ status: 'active' }) });
+    await lockAllEvents(yearId, headers);
+    const done = await app.request(`/api/years/${yearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) },
+      body: JSON.stringify({ status: 'completed' }),
+    });
+    expect(done.status).toBe(200);
+  });
+
+  const compare = (a: string, b: string) => app.request(`/api/kaks/${a}/vs/${b}`);
+
+  it('reports seasons as teammates', async () => {
+    const res = await compare(kakIds[0], kakIds[1]);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.a.id).toBe(kakIds[0]);
+    expect(body.teammates).toMatchObject({ averageFinish: 1, champs: 1, boots: 0 });
+    expect(body.teammates.seasons).toHaveLength(1);
+    expect(body.teammates.seasons[0]).toMatchObject({ teamName: 'Pair', rank: '1', teamCount: 2 });
+    expect(body.opponents).toMatchObject({ seasons: [], aWins: 0, bWins: 0, ties: 0 });
+  });
+
+  it('reports the record on opposing teams', async () => {
+    const body = await (await compare(kakIds[2], kakIds[0])).json();
+    expect(body.teammates.seasons).toEqual([]);
+    expect(body.teammates.averageFinish).toBeNull();
+    expect(body.opponents).toMatchObject({ aWins: 0, bWins: 1, ties: 0 });
+    expect(body.opponents.seasons[0]).toMatchObject({ a: { teamName: 'Solo' }, b: { teamName: 'Pair' }, winner: 'b' });
+  });
+
+  it('rejects unknown or identical KAKs', async () => {
+    expect((await compare(kakIds[0], 'no-such-kak')).status).toBe(404);
+    expect((await compare(kakIds[0], kakIds[0])).status).toBe(400);
+  });
+});
+
 describe('GET /api/kak-stats', () => {
   it('returns 200 with champs and boots arrays', async () => {
     const res = await app.request('/api/kak-stats');
@@ -681,7 +1242,7 @@ describe('PATCH /api/years/:yearId — completion validation', () => {
 
     const res = await app.request(`/api/years/${yearId}`, {
       method: 'PATCH',
-      headers: { 'Content-Type': 'application/json', Cookie: `token=${token}` },
+      headers: { 'Content-Type': 'application/json', Cookie: `token=${token}`, ...(await ifMatch(`/api/years/${yearId}`)) },
       body: JSON.stringify({ status: 'completed' }),
     });
     expect(res.status).toBe(400);
@@ -711,14 +1272,1502 @@ describe('PATCH /api/years/:yearId — completion validation', () => {
     const yearId = years[0].id;
 
     // Lock fishing — should succeed
-    const res = await app.request(`/api/years/${yearId}`, {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json', Cookie: `token=${token}` },
-      body: JSON.stringify({ fishing_locked: true }),
-    });
+    const res = await setEventLocked(yearId, 'fish', true, { 'Content-Type': 'application/json', Cookie: `token=${token}` });
     expect(res.status).toBe(200);
     const body = await res.json();
-    expect(body.fishing_locked).toBe(true);
+    expect(body).toMatchObject({ key: 'fish', locked: true });
+  });
+});
+
+describe('Chug relay legs', () => {
+  const activeYearId = '11111111-1111-1111-1111-111111111111';
+  let headers: Record<string, string>;
+  let yearId: string;
+  let teamId: string;
+  const kakIds: string[] = [];
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    const yearRes = await app.request('/api/years', { method: 'POST', headers });
+    yearId = (await yearRes.json()).id;
+    await app.request(`/api/years/${yearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) },
+      body: JSON.stringify({ scoring_config: { chugLegs: 4 } }),
+    });
+
+    const ts = Date.now();
+    for (let i = 1; i <= 4; i++) {
+      const kakRes = await app.request('/api/kaks', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ name: `Chugger ${i} ${ts}` }),
+      });
+      kakIds.push((await kakRes.json()).id);
+    }
+    const teamRes = await app.request(`/api/years/${yearId}/teams`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        name: 'Relay Team',
+        position: 1,
+        members: kakIds.map((kakId) => ({ kakId })),
+      }),
+    });
+    teamId = (await teamRes.json()).id;
+  });
+
+  const postLegs = (legs: { kakId?: string; time: number }[], id = yearId) =>
+    app.request(`/api/years/${id}/chug-times`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId, legs }),
+    });
+
+  it('stores four legs with their chuggers and computes the average', async () => {
+    const res = await postLegs([
+      { kakId: kakIds[0], time: 4.1 },
+      { kakId: kakIds[1], time: 5.2 },
+      { kakId: kakIds[2], time: 3.3 },
+      { kakId: kakIds[3], time: 6.4 },
+    ]);
+    expect(res.status).toBe(201);
+
+    const listRes = await app.request(`/api/years/${yearId}/chug-times`);
+    const chug = (await listRes.json()).find((ct: any) => ct.teamId === teamId);
+    expect(Number(chug.average)).toBe(4.75);
+    expect(Number(chug.chug1)).toBe(4.1);
+    expect(Number(chug.chug2)).toBe(5.2);
+    expect(chug.legs.map((leg: any) => [leg.leg, leg.kakId, Number(leg.time)])).toEqual([
+      [1, kakIds[0], 4.1],
+      [2, kakIds[1], 5.2],
+      [3, kakIds[2], 3.3],
+      [4, kakIds[3], 6.4],
+    ]);
+  });
+
+  it('replaces the legs when a team is re-entered', async () => {
+    const res = await postLegs([
+      { kakId: kakIds[3], time: 4 },
+      { kakId: kakIds[2], time: 4 },
+      { kakId: kakIds[1], time: 4 },
+      { kakId: kakIds[0], time: 4 },
+    ]);
+    expect(res.status).toBe(201);
+
+    const listRes = await app.request(`/api/years/${yearId}/chug-times`);
+    const chug = (await listRes.json()).find((ct: any) => ct.teamId === teamId);
+    expect(chug.legs.map((leg: any) => leg.kakId)).toEqual([...kakIds].reverse());
+    expect(Number(chug.average)).toBe(4);
+  });
+
+  it('requires as many legs as the year runs', async () => {
+    const res = await postLegs([{ kakId: kakIds[0], time: 4 }, { kakId: kakIds[1], time: 5 }]);
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('Expected 4 chug legs');
+  });
+
+  it('holds a year with the default scoring config to its two legs', async () => {
+    const yearRes = await app.request('/api/years', { method: 'POST', headers });
+    const defaultYearId = (await yearRes.json()).id;
+    const ts = Date.now();
+    const relay: string[] = [];
+    for (let i = 1; i <= 4; i++) {
+      const kakRes = await app.request('/api/kaks', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ name: `Default Chugger ${i} ${ts}` }),
+      });
+      relay.push((await kakRes.json()).id);
+    }
+    const teamRes = await app.request(`/api/years/${defaultYearId}/teams`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Default Relay', position: 1, members: relay.map((kakId) => ({ kakId })) }),
+    });
+    const defaultTeamId = (await teamRes.json()).id;
+    const post = (kakIds: string[]) =>
+      app.request(`/api/years/${defaultYearId}/chug-times`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ teamId: defaultTeamId, legs: kakIds.map((kakId, i) => ({ kakId, time: 4 + i })) }),
+      });
+
+    const four = await post(relay);
+    expect(four.status).toBe(400);
+    expect((await four.json()).error).toBe('Expected 2 chug legs');
+
+    expect((await post(relay.slice(0, 2))).status).toBe(201);
+    const listRes = await app.request(`/api/years/${defaultYearId}/chug-times`);
+    const chug = (await listRes.json()).find((ct: any) => ct.teamId === defaultTeamId);
+    expect(chug.legs.map((leg: any) => leg.kakId)).toEqual(relay.slice(0, 2));
+    expect(Number(chug.average)).toBe(4.5);
+  });
+
+  it('rejects more legs than a relay has', async () => {
+    const res = await postLegs([...kakIds.map((kakId) => ({ kakId, time: 4 })), { time: 4 }]);
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects a KAK drinking two legs or a KAK from another team', async () => {
+    const twice = await postLegs([
+      { kakId: kakIds[0], time: 4 },
+      { kakId: kakIds[0], time: 4 },
+      { kakId: kakIds[2], time: 4 },
+      { kakId: kakIds[3], time: 4 },
+    ]);
+    expect(twice.status).toBe(400);
+
+    const outsider = await postLegs([
+      { kakId: 'aa000000-0000-0000-0000-000000000001', time: 4 },
+      { kakId: kakIds[1], time: 4 },
+      { kakId: kakIds[2], time: 4 },
+      { kakId: kakIds[3], time: 4 },
+    ]);
+    expect(outsider.status).toBe(400);
+  });
+
+  it('serves legs for times entered as chug1/chug2', async () => {
+    const teamRes = await app.request(`/api/years/${activeYearId}/teams`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Two Leg Team', position: 95 }),
+    });
+    const legacyTeamId = (await teamRes.json()).id;
+    const res = await app.request(`/api/years/${activeYearId}/chug-times`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId: legacyTeamId, chug1: 5, chug2: 7, average: 6 }),
+    });
+    expect(res.status).toBe(201);
+
+    const listRes = await app.request(`/api/years/${activeYearId}/chug-times`);
+    const chug = (await listRes.json()).find((ct: any) => ct.teamId === legacyTeamId);
+    expect(chug.legs.map((leg: any) => [leg.leg, leg.kakId, Number(leg.time)])).toEqual([
+      [1, null, 5],
+      [2, null, 7],
+    ]);
+  });
+
+  it('ranks the fastest individual chuggers across years', async () => {
+    await postLegs([
+      { kakId: kakIds[0], time: 2.5 },
+      { kakId: kakIds[1], time: 3.5 },
+      { kakId: kakIds[2], time: 4.5 },
+      { kakId: kakIds[3], time: 5.5 },
+    ]);
+
+    const res = await app.request('/api/chug-leaderboard');
+    expect(res.status).toBe(200);
+    const rows = (await res.json()).filter((row: any) => kakIds.includes(row.kakId));
+    expect(rows.map((row: any) => row.kakId)).toEqual(kakIds);
+    expect(rows[0]).toMatchObject({ bestTime: 2.5, averageTime: 2.5, legs: 1 });
+  });
+});
+
+describe('Golf scorecards', () => {
+  let headers: Record<string, string>;
+  let yearId: string;
+  let teamId: string;
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    const yearRes = await app.request('/api/years', { method: 'POST', headers });
+    yearId = (await yearRes.json()).id;
+    const teamRes = await app.request(`/api/years/${yearId}/teams`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Scorecard Team', position: 1 }),
+    });
+    teamId = (await teamRes.json()).id;
+  });
+
+  const putHole = (hole: number | string, strokes: number | null) =>
+    app.request(`/api/years/${yearId}/teams/${teamId}/golf-holes/${hole}`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ strokes }),
+    });
+
+  const teamRound = async () => {
+    const res = await app.request(`/api/years/${yearId}/golf-scores`);
+    return (await res.json()).find((gs: any) => gs.teamId === teamId);
+  };
+
+  it('derives the score from holes entered so far', async () => {
+    expect((await putHole(1, 5)).status).toBe(200);
+    const res = await putHole(2, 3);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ score: 0, holes: [{ hole: 1, strokes: 5 }, { hole: 2, strokes: 3 }] });
+
+    await putHole(3, 6);
+    const round = await teamRound();
+    expect(round.score).toBe(2);
+    expect(round.holes).toHaveLength(3);
+  });
+
+  it('re-scores existing cards when the course pars change', async () => {
+    const pars = [5, 3, 4, 4, 4, 4, 4, 4, 4, 4, 4, 4, 4, 4, 4, 4, 4, 4];
+    const res = await app.request(`/api/years/${yearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) },
+      body: JSON.stringify({ golf_pars: pars }),
+    });
+    expect(res.status).toBe(200);
+    expect((await res.json()).golf_pars).toEqual(pars);
+    expect((await teamRound()).score).toBe(2);
+
+    const bad = await app.request(`/api/years/${yearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) },
+      body: JSON.stringify({ golf_pars: [4, 4, 4] }),
+    });
+    expect(bad.status).toBe(400);
+  });
+
+  it('clears a hole, and the round once every hole is cleared', async () => {
+    await putHole(3, null);
+    expect((await teamRound()).score).toBe(0);
+    await putHole(2, null);
+    await putHole(1, null);
+    expect(await teamRound()).toBeUndefined();
+  });
+
+  it('replaces a single-score round with the scorecard', async () => {
+    await app.request(`/api/years/${yearId}/golf-scores`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId, score: -4 }),
+    });
+    expect(await teamRound()).toMatchObject({ score: -4, holes: [] });
+
+    await putHole(1, 6);
+    expect(await teamRound()).toMatchObject({ score: 1, holes: [{ hole: 1, strokes: 6 }] });
+  });
+
+  it('rejects bad holes, strokes and teams', async () => {
+    expect((await putHole(19, 4)).status).toBe(400);
+    expect((await putHole('x', 4)).status).toBe(400);
+    expect((await putHole(1, 0)).status).toBe(400);
+    const res = await app.request(`/api/years/${yearId}/teams/not-a-team/golf-holes/1`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ strokes: 4 }),
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it('respects a locked golf event', async () => {
+    await setEventLocked(yearId, 'golf', true, headers);
+    try {
+      expect((await putHole(2, 4)).status).toBe(403);
+      const parsRes = await app.request(`/api/years/${yearId}`, {
+        method: 'PATCH',
+        headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) },
+        body: JSON.stringify({ golf_pars: null }),
+      });
+      expect(parsRes.status).toBe(403);
+    } finally {
+      await setEventLocked(yearId, 'golf', false, headers);
+    }
+  });
+});
+
+describe('Team draft', () => {
+  let headers: Record<string, string>;
+  let yearId: string;
+  const kakIds: string[] = [];
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    const yearRes = await app.request('/api/years', { method: 'POST', headers });
+    yearId = (await yearRes.json()).id;
+    const ts = Date.now();
+    for (let i = 1; i <= 8; i++) {
+      const kakRes = await app.request('/api/kaks', { method: 'POST', headers, body: JSON.stringify({ name: `Draftee ${i} ${ts}` }) });
+      kakIds.push((await kakRes.json()).id);
+    }
+  });
+
+  const propose = (body: unknown) =>
+    app.request(`/api/years/${yearId}/draft`, { method: 'POST', headers, body: JSON.stringify(body) });
+  const commit = (body: unknown) =>
+    app.request(`/api/years/${yearId}/draft/commit`, { method: 'POST', headers, body: JSON.stringify(body) });
+
+  it('proposes teams of four from the chosen KAKs', async () => {
+    const res = await propose({ kakIds, separateChamps: false, together: [[kakIds[0], kakIds[1]]], seed: 3 });
+    expect(res.status).toBe(200);
+    const draft = await res.json();
+    expect(draft).toMatchObject({ seed: 3, teamCount: 2 });
+    expect(draft.teams.map((t: any) => t.kaks.length)).toEqual([4, 4]);
+    const pair = draft.teams.find((t: any) => t.kaks.some((k: any) => k.id === kakIds[0]));
+    expect(pair.kaks.map((k: any) => k.id)).toContain(kakIds[1]);
+  });
+
+  it('rejects inactive KAKs and impossible constraints', async () => {
+    expect((await propose({ kakIds: ['no-such-kak'] })).status).toBe(400);
+    const res = await propose({ kakIds, teamCount: 1 });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(/fit/);
+  });
+
+  it('commits every team in one call, only once', async () => {
+    expect((await commit({ teams: [{ name: 'Dup', kakIds: [kakIds[0]] }, { name: 'Dup 2', kakIds: [kakIds[0]] }] })).status).toBe(400);
+
+    const res = await commit({
+      teams: [
+        { name: 'Draft A', kakIds: kakIds.slice(0, 4) },
+        { name: 'Draft B', kakIds: kakIds.slice(4, 7) },
+      ],
+    });
+    expect(res.status).toBe(201);
+    const teams = await (await app.request(`/api/years/${yearId}/teams`)).json();
+    const byName = new Map(teams.map((t: any) => [t.name, t]));
+    const rosterOf = (name: string) => (byName.get(name) as any).members.map((m: any) => m.kakId);
+    expect(byName.get('Draft A')).toMatchObject({ position: 1 });
+    expect(rosterOf('Draft A')).toEqual(kakIds.slice(0, 4));
+    expect(byName.get('Draft B')).toMatchObject({ position: 2 });
+    expect(rosterOf('Draft B')).toEqual(kakIds.slice(4, 7));
+
+    expect((await commit({ teams: [{ name: 'Again', kakIds: [kakIds[7]] }] })).status).toBe(409);
+  });
+});
+
+describe('Snake draft', () => {
+  let headers: Record<string, string>;
+  let yearId: string;
+  const kakIds: string[] = [];
+  const names: string[] = [];
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    const yearRes = await app.request('/api/years', { method: 'POST', headers });
+    yearId = (await yearRes.json()).id;
+    const ts = Date.now();
+    for (let i = 1; i <= 8; i++) {
+      names.push(`Snake ${i} ${ts}`);
+      const kakRes = await app.request('/api/kaks', { method: 'POST', headers, body: JSON.stringify({ name: names[i - 1] }) });
+      kakIds.push((await kakRes.json()).id);
+    }
+  });
+
+  const live = () => app.request(`/api/years/${yearId}/draft/live`).then((res) => res.json());
+  const post = (path: string, body: unknown) =>
+    app.request(`/api/years/${yearId}/draft/live/${path}`, { method: 'POST', headers, body: JSON.stringify(body) });
+
+  it('names captains in a random snake order', async () => {
+    expect(await live()).toMatchObject({ captains: [], picks: [], next: null, complete: false });
+    expect((await post('captains', { kakIds: [kakIds[0], kakIds[0]] })).status).toBe(400);
+    expect((await post('captains', { kakIds: [kakIds[0], 'no-such-kak'] })).status).toBe(400);
+    expect((await post('picks', { kakId: kakIds[2] })).status).toBe(409);
+
+    const res = await post('captains', { kakIds: kakIds.slice(0, 2) });
+    expect(res.status).toBe(201);
+    const draft = await res.json();
+    expect(draft.captains.map((c: any) => c.slot)).toEqual([1, 2]);
+    expect(draft.captains.map((c: any) => c.kakId).sort()).toEqual(kakIds.slice(0, 2).sort());
+    expect(draft.next).toEqual({ round: 1, slot: 1 });
+    expect(draft.available.map((k: any) => k.id)).not.toContain(kakIds[0]);
+
+    expect((await post('captains', { kakIds: kakIds.slice(2, 4) })).status).toBe(409);
+  });
+
+  it('records picks in snake order and can undo the last one', async () => {
+    expect((await post('picks', { kakId: kakIds[2] })).status).toBe(201);
+    const res = await post('picks', { kakId: kakIds[3] });
+    expect((await res.json()).next).toEqual({ round: 2, slot: 2 });
+
+    const taken = await post('picks', { kakId: kakIds[2] });
+    expect(taken.status).toBe(409);
+    expect((await taken.json()).error).toContain(names[2]);
+
+    const undo = await app.request(`/api/years/${yearId}/draft/live/picks/last`, { method: 'DELETE', headers });
+    expect(undo.status).toBe(200);
+    const draft = await undo.json();
+    expect(draft.picks.map((p: any) => p.kakId)).toEqual([kakIds[2]]);
+    expect(draft.next).toEqual({ round: 1, slot: 2 });
+  });
+
+  it('writes the teams after the last pick', async () => {
+    let draft: any;
+    for (const kakId of kakIds.slice(3, 8)) {
+      const res = await post('picks', { kakId });
+      expect(res.status).toBe(201);
+      draft = await res.json();
+    }
+    expect(draft).toMatchObject({ next: null, complete: true });
+    expect(draft.picks.map((p: any) => p.slot)).toEqual([1, 2, 2, 1, 1, 2]);
+
+    const teams = await (await app.request(`/api/years/${yearId}/teams`)).json();
+    expect(teams).toHaveLength(2);
+    for (const captain of draft.captains) {
+      const team = teams.find((t: any) => t.position === captain.slot);
+      const picked = draft.picks.filter((p: any) => p.slot === captain.slot).map((p: any) => p.kakId);
+      expect(team.name).toBe(`Team ${captain.name}`);
+      expect(team.members.map((m: any) => m.kakId)).toEqual([captain.kakId, ...picked]);
+    }
+
+    expect((await post('picks', { kakId: kakIds[0] })).status).toBe(409);
+    expect((await app.request(`/api/years/${yearId}/draft/live`, { method: 'DELETE', headers })).status).toBe(409);
+  });
+});
+
+describe('Bulk team replace', () => {
+  let headers: Record<string, string>;
+  let yearId: string;
+  const kakIds: string[] = [];
+  let retiredId: string;
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    const yearRes = await app.request('/api/years', { method: 'POST', headers });
+    yearId = (await yearRes.json()).id;
+    const ts = Date.now();
+    for (let i = 1; i <= 6; i++) {
+      const kakRes = await app.request('/api/kaks', { method: 'POST', headers, body: JSON.stringify({ name: `Roster ${i} ${ts}` }) });
+      kakIds.push((await kakRes.json()).id);
+    }
+    const retiredRes = await app.request('/api/kaks', { method: 'POST', headers, body: JSON.stringify({ name: `Roster Retired ${ts}`, status: 'retired' }) });
+    retiredId = (await retiredRes.json()).id;
+  });
+
+  const replace = (teams: unknown[], remove: unknown[] = []) =>
+    app.request(`/api/years/${yearId}/teams`, { method: 'PUT', headers, body: JSON.stringify({ teams, remove }) });
+
+  it('rejects duplicate members, duplicate positions and inactive KAKs', async () => {
+    const dupMember = await replace([
+      { name: 'One', position: 1, members: [{ kakId: kakIds[0] }] },
+      { name: 'Two', position: 2, members: [{ kakId: kakIds[0] }] },
+    ]);
+    expect(dupMember.status).toBe(400);
+    expect((await dupMember.json()).error).toMatch(/one team/);
+
+    const dupPosition = await replace([
+      { name: 'One', position: 1, members: [{ kakId: kakIds[0] }] },
+      { name: 'Two', position: 1, members: [{ kakId: kakIds[1] }] },
+    ]);
+    expect(dupPosition.status).toBe(400);
+    expect((await dupPosition.json()).error).toMatch(/position/);
+
+    const retired = await replace([{ name: 'One', position: 1, members: [{ kakId: retiredId }] }]);
+    expect(retired.status).toBe(400);
+    expect((await retired.json()).error).toMatch(/not an active KAK/);
+
+    expect((await replace([{ name: 'One', position: 1, members: [{ kakId: 'no-such-kak' }] }])).status).toBe(400);
+    expect(await (await app.request(`/api/years/${yearId}/teams`)).json()).toEqual([]);
+  });
+
+  it('creates, updates and removes teams in one call', async () => {
+    const res = await replace([
+      { name: 'North', position: 1, members: [{ kakId: kakIds[0] }, { kakId: kakIds[1] }] },
+      { name: 'South', position: 2, members: [{ kakId: kakIds[2] }, { kakId: kakIds[3] }] },
+      { name: 'East', position: 3, members: [{ kakId: kakIds[4] }] },
+    ]);
+    expect(res.status).toBe(200);
+    const created = await res.json();
+    expect(created).toHaveLength(3);
+    const north = created.find((t: any) => t.name === 'North');
+    const south = created.find((t: any) => t.name === 'South');
+    expect(north.members[0]).toMatchObject({ kakId: kakIds[0], slot: 1, role: 'player' });
+    expect(north.members[0].name).toMatch(/^Roster 1 /);
+
+    const east = created.find((t: any) => t.name === 'East');
+    const next = await replace([
+      { id: south.id, version: 1, name: 'South', position: 1, members: [{ kakId: kakIds[2] }, { kakId: kakIds[3] }, { kakId: kakIds[5] }] },
+      { id: north.id, version: 1, name: 'North', position: 2, members: [{ kakId: kakIds[0] }, { kakId: kakIds[1] }, { kakId: kakIds[4] }] },
+    ], [{ id: east.id, version: 1 }]);
+    expect(next.status).toBe(200);
+    const teams = await next.json();
+    expect(teams.map((t: any) => t.name).sort()).toEqual(['North', 'South']);
+    expect(teams.find((t: any) => t.id === south.id)).toMatchObject({ position: 1 });
+    expect(teams.find((t: any) => t.id === south.id).members[2].kakId).toBe(kakIds[5]);
+    expect(teams.find((t: any) => t.id === north.id)).toMatchObject({ position: 2 });
+    expect(teams.find((t: any) => t.id === north.id).members[2].kakId).toBe(kakIds[4]);
+    expect(teams.find((t: any) => t.id === north.id).version).toBe(2);
+  });
+
+  it('answers a stale or incomplete line-up with 412 and the teams as they are now', async () => {
+    const teams = await (await app.request(`/api/years/${yearId}/teams`)).json();
+    const keep = (team: any) => ({ id: team.id, version: team.version, name: team.name, position: team.position, members: team.members });
+
+    const stale = await replace([{ ...keep(teams[0]), version: teams[0].version - 1, name: 'Stale' }, keep(teams[1])]);
+    expect(stale.status).toBe(412);
+    expect((await stale.json()).current).toHaveLength(2);
+
+    const unseen = await replace([keep(teams[0])]);
+    expect(unseen.status).toBe(412);
+    expect((await unseen.json()).error).toBe(`${teams[1].name} was added after this line-up was loaded`);
+
+    const unversioned = await replace([{ ...keep(teams[0]), version: undefined }, keep(teams[1])]);
+    expect(unversioned.status).toBe(400);
+    expect(await (await app.request(`/api/years/${yearId}/teams`)).json()).toEqual(teams);
+  });
+
+  it('returns 409 naming the team when a single-team write reuses a KAK', async () => {
+    const teams = await (await app.request(`/api/years/${yearId}/teams`)).json();
+    const holder = teams.find((t: any) => t.members.some((m: any) => m.kakId === kakIds[0]));
+    const other = teams.find((t: any) => t.id !== holder.id);
+
+    const created = await app.request(`/api/years/${yearId}/teams`, {
+      method: 'POST', headers, body: JSON.stringify({ name: 'Poacher', position: 5, members: [{ kakId: kakIds[0] }] }),
+    });
+    expect(created.status).toBe(409);
+    expect(await created.json()).toMatchObject({
+      error: `${holder.members[0].name} is already on ${holder.name}`,
+      conflict: { kakId: kakIds[0], teamId: holder.id, teamName: holder.name },
+    });
+
+    const updated = await app.request(`/api/teams/${other.id}`, { method: 'PUT', headers: { ...headers, ...(await ifMatch(`/api/teams/${other.id}`)) }, body: JSON.stringify({ members: [...other.members, { kakId: kakIds[0] }] }) });
+    expect(updated.status).toBe(409);
+    expect((await updated.json()).conflict.teamName).toBe(holder.name);
+  });
+
+  it('turns a single new team away from a taken position or an inactive KAK', async () => {
+    const [taken] = await (await app.request(`/api/years/${yearId}/teams`)).json();
+    const create = (body: unknown) =>
+      app.request(`/api/years/${yearId}/teams`, { method: 'POST', headers, body: JSON.stringify(body) });
+
+    const clash = await create({ name: 'Squatter', position: taken.position, members: [{ kakId: kakIds[5] }] });
+    expect(clash.status).toBe(409);
+    expect((await clash.json()).error).toBe(`${taken.name} already has position ${taken.position}`);
+
+    const retired = await create({ name: 'Old Guard', position: 6, members: [{ kakId: retiredId }] });
+    expect(retired.status).toBe(400);
+    expect((await retired.json()).error).toMatch(/not an active KAK/);
+  });
+
+  it('refuses to drop a team with results or change a locked one', async () => {
+    const teams = await (await app.request(`/api/years/${yearId}/teams`)).json();
+    const [first, second] = teams.sort((a: any, b: any) => a.position - b.position);
+    const keep = (team: any) => ({ id: team.id, version: team.version, name: team.name, position: team.position, members: team.members });
+
+    await app.request(`/api/years/${yearId}/fish-weights`, { method: 'POST', headers, body: JSON.stringify({ teamId: second.id, weight: 2 }) });
+    const scored = await replace([keep(first)], [{ id: second.id, version: second.version }]);
+    expect(scored.status).toBe(409);
+    expect((await scored.json()).error).toContain(second.name);
+
+    await app.request(`/api/teams/${first.id}`, { method: 'PUT', headers: { ...headers, ...(await ifMatch(`/api/teams/${first.id}`)) }, body: JSON.stringify({ locked: true }) });
+    first.version += 1;
+    const locked = await replace([{ ...keep(first), name: 'Renamed' }, keep(second)]);
+    expect(locked.status).toBe(409);
+    expect((await locked.json()).error).toMatch(/locked/);
+
+    expect((await replace([keep(first), { ...keep(second), name: 'Renamed' }])).status).toBe(200);
+  });
+});
+
+describe('Team rosters', () => {
+  let headers: Record<string, string>;
+  let yearId: string;
+  const kakIds: string[] = [];
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    const yearRes = await app.request('/api/years', { method: 'POST', headers });
+    yearId = (await yearRes.json()).id;
+    const ts = Date.now();
+    for (let i = 1; i <= 6; i++) {
+      const kakRes = await app.request('/api/kaks', { method: 'POST', headers, body: JSON.stringify({ name: `Squad ${i} ${ts}` }) });
+      kakIds.push((await kakRes.json()).id);
+    }
+  });
+
+  it('keeps players and subs in slot order, for teams of any size', async () => {
+    const res = await app.request(`/api/years/${yearId}/teams`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        name: 'Big Squad',
+        position: 1,
+        members: [...kakIds.slice(0, 5).map((kakId) => ({ kakId })), { kakId: kakIds[5], role: 'sub' }],
+      }),
+    });
+    expect(res.status).toBe(201);
+    const team = await res.json();
+    expect(team.kak1).toBeUndefined();
+    expect(team.members.map((m: any) => [m.kakId, m.slot, m.role])).toEqual([
+      ...kakIds.slice(0, 5).map((kakId, i) => [kakId, i + 1, 'player']),
+      [kakIds[5], 6, 'sub'],
+    ]);
+
+    const trimmed = await app.request(`/api/teams/${team.id}`, {
+      method: 'PUT',
+      headers: { ...headers, ...(await ifMatch(`/api/teams/${team.id}`)) },
+      body: JSON.stringify({ members: [{ kakId: kakIds[1] }, { kakId: kakIds[0], role: 'sub' }] }),
+    });
+    expect(trimmed.status).toBe(200);
+    expect((await trimmed.json()).members.map((m: any) => [m.kakId, m.role])).toEqual([[kakIds[1], 'player'], [kakIds[0], 'sub']]);
+
+    const profile = await (await app.request(`/api/kaks/${kakIds[0]}/profile`)).json();
+    expect(profile.years.map((y: any) => y.teamId)).toEqual([team.id]);
+    expect((await (await app.request(`/api/kaks/${kakIds[4]}/profile`)).json()).years).toEqual([]);
+  });
+
+  it('rejects a KAK listed twice on one roster', async () => {
+    const res = await app.request(`/api/years/${yearId}/teams`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Twins', position: 2, members: [{ kakId: kakIds[2] }, { kakId: kakIds[2], role: 'sub' }] }),
+    });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(/once per team/);
+  });
+});
+
+describe('Roster overrides', () => {
+  let headers: Record<string, string>;
+  let yearId: string;
+  let teamA: any;
+  let teamB: any;
+  // a1, a2 play for A, b1 for B; x and y aren't on a team
+  const ids: Record<'a1' | 'a2' | 'b1' | 'x' | 'y', string> = {} as any;
+
+  const addOverride = (body: Record<string, unknown>) =>
+    app.request(`/api/years/${yearId}/roster-overrides`, { method: 'POST', headers, body: JSON.stringify(body) });
+  const champIds = async () =>
+    (await (await app.request('/api/kak-stats')).json()).champs.map((row: any) => row.kakId);
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    const yearRes = await app.request('/api/years', { method: 'POST', headers });
+    yearId = (await yearRes.json()).id;
+    const ts = Date.now();
+    for (const key of ['a1', 'a2', 'b1', 'x', 'y'] as const) {
+      const kakRes = await app.request('/api/kaks', { method: 'POST', headers, body: JSON.stringify({ name: `Fill ${key} ${ts}` }) });
+      ids[key] = (await kakRes.json()).id;
+    }
+    const create = async (name: string, position: number, kakIds: string[]) => {
+      const res = await app.request(`/api/years/${yearId}/teams`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ name, position, members: kakIds.map((kakId) => ({ kakId })) }),
+      });
+      return res.json();
+    };
+    teamA = await create('Fill A', 1, [ids.a1, ids.a2]);
+    teamB = await create('Fill B', 2, [ids.b1]);
+  });
+
+  it('records a fill-in and lets them log results for that event only', async () => {
+    const res = await addOverride({ teamId: teamA.id, event: 'golf', outKakId: ids.a2, inKakId: ids.x });
+    expect(res.status).toBe(201);
+
+    const list = await (await app.request(`/api/years/${yearId}/roster-overrides`)).json();
+    expect(list).toHaveLength(1);
+    expect(list[0]).toMatchObject({ teamId: teamA.id, event: 'golf', outKakId: ids.a2, inKakId: ids.x });
+    expect(list[0].inName).toMatch(/^Fill x/);
+
+    const fish = await app.request(`/api/years/${yearId}/fish-weights`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId: teamA.id, weight: 3, kakId: ids.x }),
+    });
+    expect(fish.status).toBe(400);
+
+    await addOverride({ teamId: teamA.id, event: 'fish', outKakId: ids.a2, inKakId: ids.x });
+    const caught = await app.request(`/api/years/${yearId}/fish-weights`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId: teamA.id, weight: 3, kakId: ids.x }),
+    });
+    expect(caught.status).toBe(201);
+  });
+
+  it('rejects fill-ins that do not fit the rosters', async () => {
+    const notOnTeam = await addOverride({ teamId: teamA.id, event: 'chug', outKakId: ids.b1, inKakId: ids.y });
+    expect(notOnTeam.status).toBe(400);
+
+    const onOtherTeam = await addOverride({ teamId: teamA.id, event: 'chug', outKakId: ids.a1, inKakId: ids.b1 });
+    expect(onOtherTeam.status).toBe(409);
+    expect((await onOtherTeam.json()).conflict).toMatchObject({ kakId: ids.b1, teamId: teamB.id });
+
+    const seatTaken = await addOverride({ teamId: teamA.id, event: 'golf', outKakId: ids.a2, inKakId: ids.y });
+    expect(seatTaken.status).toBe(409);
+
+    const self = await addOverride({ teamId: teamA.id, event: 'chug', outKakId: ids.a1, inKakId: ids.a1 });
+    expect(self.status).toBe(400);
+
+    const unknownEvent = await addOverride({ teamId: teamA.id, event: 'darts', outKakId: ids.a1, inKakId: ids.y });
+    expect(unknownEvent.status).toBe(404);
+  });
+
+  it('credits champs to whoever played, and re-credits when a fill-in is removed', async () => {
+    for (const [team, weight, average, score] of [[teamA, 20, 5, 70], [teamB, 10, 9, 90]] as const) {
+      await app.request(`/api/years/${yearId}/fish-weights`, { method: 'POST', headers, body: JSON.stringify({ teamId: team.id, weight }) });
+      await app.request(`/api/years/${yearId}/chug-times`, { method: 'POST', headers, body: JSON.stringify({ teamId: team.id, chug1: average, chug2: average, average }) });
+      await app.request(`/api/years/${yearId}/golf-scores`, { method: 'POST', headers, body: JSON.stringify({ teamId: team.id, score }) });
+    }
+    // a1 sits out everything; a2 still plays chug
+    const sitOuts: string[] = [];
+    for (const event of ['fish', 'chug', 'golf']) {
+      const res = await addOverride({ teamId: teamA.id, event, outKakId: ids.a1, inKakId: ids.y });
+      expect(res.status).toBe(201);
+      sitOuts.push((await res.json()).id);
+    }
+
+    await app.request(`/api/years/${yearId}`, { method: 'PATCH', headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) }, body: JSON.stringify({ status: 'active' }) });
+    await lockAllEvents(yearId, headers);
+    const complete = await app.request(`/api/years/${yearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) },
+      body: JSON.stringify({ status: 'completed' }),
+    });
+    expect(complete.status).toBe(200);
+
+    const champs = await champIds();
+    expect(champs).toEqual(expect.arrayContaining([ids.a2, ids.x, ids.y]));
+    expect(champs).not.toContain(ids.a1);
+
+    const profile = await (await app.request(`/api/kaks/${ids.x}/profile`)).json();
+    expect(profile.years).toHaveLength(1);
+    expect(profile.years[0]).toMatchObject({ teamId: teamA.id, fillIn: true, isChamp: true });
+    expect(profile.years[0].events.map((e: any) => e.key)).toEqual(['fish', 'golf']);
+    expect((await (await app.request(`/api/kaks/${ids.a1}/profile`)).json()).years).toEqual([]);
+
+    const removed = await app.request(`/api/years/${yearId}/roster-overrides/${sitOuts[1]}`, { method: 'DELETE', headers });
+    expect(removed.status).toBe(200);
+    expect(await champIds()).toContain(ids.a1);
+  });
+});
+
+describe('Idempotency keys', () => {
+  let headers: Record<string, string>;
+  let yearId: string;
+  let teamId: string;
+
+  const fishCount = async () => (await (await app.request(`/api/years/${yearId}/fish-weights`)).json()).length;
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    const yearRes = await app.request('/api/years', { method: 'POST', headers });
+    yearId = (await yearRes.json()).id;
+    const teamRes = await app.request(`/api/years/${yearId}/teams`, { method: 'POST', headers, body: JSON.stringify({ name: 'Replay', position: 1 }) });
+    teamId = (await teamRes.json()).id;
+  });
+
+  it('answers a replayed write with the first response instead of applying it again', async () => {
+    const send = () => app.request(`/api/years/${yearId}/fish-weights`, {
+      method: 'POST',
+      headers: { ...headers, 'Idempotency-Key': 'fish-replay-1' },
+      body: JSON.stringify({ teamId, weight: 4.5 }),
+    });
+
+    const first = await send();
+    expect(first.status).toBe(201);
+    const replay = await send();
+    expect(replay.status).toBe(201);
+    expect(replay.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(await replay.json()).toEqual(await first.json());
+    expect(await fishCount()).toBe(1);
+
+    const changed = await app.request(`/api/years/${yearId}/fish-weights`, {
+      method: 'POST',
+      headers: { ...headers, 'Idempotency-Key': 'fish-replay-1' },
+      body: JSON.stringify({ teamId, weight: 6 }),
+    });
+    expect(changed.status).toBe(422);
+    expect(await fishCount()).toBe(1);
+
+    const fresh = await app.request(`/api/years/${yearId}/fish-weights`, {
+      method: 'POST',
+      headers: { ...headers, 'Idempotency-Key': 'fish-replay-2' },
+      body: JSON.stringify({ teamId, weight: 4.5 }),
+    });
+    expect(fresh.status).toBe(201);
+    expect(await fishCount()).toBe(2);
+  });
+
+  it('rejects a key reused for a different request and keeps failures retryable', async () => {
+    const reused = await app.request(`/api/years/${yearId}/chug-times`, {
+      method: 'POST',
+      headers: { ...headers, 'Idempotency-Key': 'fish-replay-1' },
+      body: JSON.stringify({ teamId, chug1: 5, chug2: 5, average: 5 }),
+    });
+    expect(reused.status).toBe(422);
+
+    const failingHeaders = { ...headers, 'Idempotency-Key': 'fish-missing-team' };
+    const failed = await app.request(`/api/years/${yearId}/fish-weights`, { method: 'POST', headers: failingHeaders, body: JSON.stringify({ weight: 1 }) });
+    expect(failed.status).toBe(400);
+    const retried = await app.request(`/api/years/${yearId}/fish-weights`, { method: 'POST', headers: failingHeaders, body: JSON.stringify({ teamId, weight: 1 }) });
+    expect(retried.status).toBe(201);
+  });
+
+  it('expires the key it claims on every write but sweeps the rest only now and then', async () => {
+    const expire = vi.spyOn(storage, 'deleteIdempotencyKeyBefore');
+    const sweep = vi.spyOn(storage, 'deleteIdempotencyKeysBefore');
+    try {
+      for (const key of ['fish-sweep-1', 'fish-sweep-2']) {
+        const res = await app.request(`/api/years/${yearId}/fish-weights`, {
+          method: 'POST',
+          headers: { ...headers, 'Idempotency-Key': key },
+          body: JSON.stringify({ teamId, weight: 2 }),
+        });
+        expect(res.status).toBe(201);
+      }
+      expect(expire.mock.calls.map(([, key]) => key)).toEqual(['fish-sweep-1', 'fish-sweep-2']);
+      expect(sweep.mock.calls.length).toBeLessThanOrEqual(1);
+    } finally {
+      expire.mockRestore();
+      sweep.mockRestore();
+    }
+  });
+});
+
+describe('Optimistic concurrency', () => {
+  let headers: Record<string, string>;
+  let yearId: string;
+  let teamId: string;
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    const yearRes = await app.request('/api/years', { method: 'POST', headers });
+    yearId = (await yearRes.json()).id;
+    const teamRes = await app.request(`/api/years/${yearId}/teams`, { method: 'POST', headers, body: JSON.stringify({ name: 'Versioned', position: 1 }) });
+    teamId = (await teamRes.json()).id;
+  });
+
+  it('versions a year and answers a stale If-Match with 412 and the current year', async () => {
+    const read = await app.request(`/api/years/${yearId}`);
+    expect(read.headers.get('ETag')).toBe('"v1"');
+
+    const first = await app.request(`/api/years/${yearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, 'If-Match': '"v1"' },
+      body: JSON.stringify({ name: 'First edit' }),
+    });
+    expect(first.status).toBe(200);
+    expect(first.headers.get('ETag')).toBe('"v2"');
+
+    const stale = await app.request(`/api/years/${yearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, 'If-Match': '"v1"' },
+      body: JSON.stringify({ name: 'Second edit' }),
+    });
+    expect(stale.status).toBe(412);
+    const body = await stale.json();
+    expect(body.current).toMatchObject({ name: 'First edit', version: 2 });
+  });
+
+  it('answers a year or team write without If-Match with 428', async () => {
+    const year = await app.request(`/api/years/${yearId}`, { method: 'PATCH', headers, body: JSON.stringify({ name: 'Blind edit' }) });
+    expect(year.status).toBe(428);
+    const team = await app.request(`/api/teams/${teamId}`, { method: 'PUT', headers, body: JSON.stringify({ name: 'Blind edit' }) });
+    expect(team.status).toBe(428);
+
+    expect((await app.request(`/api/years/${yearId}`).then((res) => res.json())).name).not.toBe('Blind edit');
+    expect((await app.request(`/api/teams/${teamId}`).then((res) => res.json())).name).toBe('Versioned');
+  });
+
+  it('versions a team, roster-only edits included', async () => {
+    const read = await app.request(`/api/teams/${teamId}`);
+    expect(read.status).toBe(200);
+    expect(read.headers.get('ETag')).toBe('"v1"');
+
+    const kakRes = await app.request('/api/kaks', { method: 'POST', headers, body: JSON.stringify({ name: `Versioned KAK ${Date.now()}` }) });
+    const kakId = (await kakRes.json()).id;
+    const roster = await app.request(`/api/teams/${teamId}`, {
+      method: 'PUT',
+      headers: { ...headers, 'If-Match': '"v1"' },
+      body: JSON.stringify({ members: [{ kakId }] }),
+    });
+    expect(roster.status).toBe(200);
+    expect((await roster.json()).version).toBe(2);
+
+    const stale = await app.request(`/api/teams/${teamId}`, {
+      method: 'PUT',
+      headers: { ...headers, 'If-Match': '"v1"' },
+      body: JSON.stringify({ name: 'Renamed' }),
+    });
+    expect(stale.status).toBe(412);
+    expect((await app.request(`/api/teams/${teamId}`).then((res) => res.json())).name).toBe('Versioned');
+  });
+});
+
+describe('Year export', () => {
+  let headers: Record<string, string>;
+  let yearId: string;
+  let yearNumber: number;
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    const year = await (await app.request('/api/years', { method: 'POST', headers })).json();
+    yearId = year.id;
+    yearNumber = year.year;
+    const kakRes = await app.request('/api/kaks', { method: 'POST', headers, body: JSON.stringify({ name: `Exported KAK ${Date.now()}` }) });
+    const kakId = (await kakRes.json()).id;
+    const team = await (await app.request(`/api/years/${yearId}/teams`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: '=Hooks, "Lines"', position: 1, members: [{ kakId }] }),
+    })).json();
+    await app.request(`/api/years/${yearId}/teams`, { method: 'POST', headers, body: JSON.stringify({ name: 'Sinkers', position: 2 }) });
+    await app.request(`/api/years/${yearId}/fish-weights`, { method: 'POST', headers, body: JSON.stringify({ teamId: team.id, weight: 4.5, kakId }) });
+    await app.request(`/api/years/${yearId}/chug-times`, { method: 'POST', headers, body: JSON.stringify({ teamId: team.id, chug1: 5, chug2: 6, average: 5.5 }) });
+  });
+
+  it('exports every team with members, results, event points and final standing as JSON', async () => {
+    const res = await app.request(`/api/years/${yearId}/export`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Disposition')).toBe(`attachment; filename="kak-cup-${yearNumber}.json"`);
+    const body = await res.json();
+    expect(body.year).toMatchObject({ id: yearId, year: yearNumber });
+    expect(body.teams.map((t: any) => t.name)).toEqual(['=Hooks, "Lines"', 'Sinkers']);
+
+    const [leader] = body.teams;
+    expect(leader.rank).toBe('1');
+    expect(leader.members).toHaveLength(1);
+    expect(leader.fish).toEqual([{ kak: leader.members[0].name, weight: 4.5, species: null, length: null }]);
+    expect(leader.chug.legs.map((l: any) => l.time)).toEqual([5, 6]);
+    expect(leader.golf).toBeNull();
+    expect(leader.events.map((e: any) => e.key)).toEqual(['fish', 'chug', 'golf']);
+    expect(leader.events.reduce((sum: number, e: any) => sum + e.points, 0)).toBe(leader.basePoints);
+  });
+
+  it('exports one CSV row per record, quoting and defusing team names', async () => {
+    const res = await app.request(`/api/years/${yearId}/export?format=csv`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toContain('text/csv');
+    const lines = (await res.text()).trim().split('\r\n');
+    expect(lines[0]).toBe('Rank,Team,Total Points,Record,KAK,Event,Value,Points,Detail');
+    const leaderRows = lines.filter((line) => line.includes(`"'=Hooks, ""Lines"""`));
+    // The quoted name holds a comma, so the record lands in the fifth field
+    expect(leaderRows.map((line) => line.split(',')[4])).toEqual(
+      expect.arrayContaining(['Standing', 'Member', 'Fish', 'Chug Leg', 'Event']),
+    );
+    expect(lines.some((line) => line.includes('Sinkers,'))).toBe(true);
+  });
+
+  it('rejects an unknown format', async () => {
+    const res = await app.request(`/api/years/${yearId}/export?format=xlsx`);
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('Golf courses', () => {
+  let headers: Record<string, string>;
+  let yearId: string;
+  let courseId: string;
+  const holePars = [5, 3, 4, 4, 4, 4, 4, 4, 4, 5, 3, 4, 4, 4, 4, 4, 4, 4];
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    const yearRes = await app.request('/api/years', { method: 'POST', headers });
+    yearId = (await yearRes.json()).id;
+  });
+
+  const patchYear = async (body: unknown) =>
+    app.request(`/api/years/${yearId}`, { method: 'PATCH', headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) }, body: JSON.stringify(body) });
+
+  it('creates a course', async () => {
+    const res = await app.request('/api/courses', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: `Pine Ridge ${Date.now()}`, par: 72, rating: '70.0', slope: 130, holePars }),
+    });
+    expect(res.status).toBe(201);
+    const course = await res.json();
+    expect(course).toMatchObject({ par: 72, slope: 130, holePars });
+    courseId = course.id;
+
+    const list = await (await app.request('/api/courses')).json();
+    expect(list.some((c: any) => c.id === courseId)).toBe(true);
+  });
+
+  it('rejects hole pars that do not add up, and duplicate names', async () => {
+    const bad = await app.request('/api/courses', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Short Sums', par: 70, holePars }),
+    });
+    expect(bad.status).toBe(400);
+
+    const course = await (await app.request('/api/courses')).json();
+    const dup = await app.request('/api/courses', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: course.find((c: any) => c.id === courseId).name, par: 72 }),
+    });
+    expect(dup.status).toBe(409);
+  });
+
+  it('copies the course pars onto the year it is linked to', async () => {
+    const res = await patchYear({ course_id: courseId });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ course_id: courseId, golf_pars: holePars });
+
+    expect((await patchYear({ course_id: 'no-such-course' })).status).toBe(400);
+  });
+
+  it('will not delete a course that a year played', async () => {
+    const res = await app.request(`/api/courses/${courseId}`, { method: 'DELETE', headers });
+    expect(res.status).toBe(409);
+  });
+
+  it('reports score differentials per KAK in golf stats', async () => {
+    const kakRes = await app.request('/api/kaks', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: `Golfer ${Date.now()}` }),
+    });
+    const kak = await kakRes.json();
+    const teamRes = await app.request(`/api/years/${yearId}/teams`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Course Team', position: 1, members: [{ kakId: kak.id }] }),
+    });
+    const teamId = (await teamRes.json()).id;
+    await app.request(`/api/years/${yearId}/golf-scores`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId, score: 4 }),
+    });
+
+    const stats = await (await app.request('/api/golf-stats')).json();
+    // (76 - 70.0) * 113 / 130
+    expect(stats.find((row: any) => row.kakId === kak.id)).toMatchObject({ rounds: 1, bestDifferential: 5.2, averageDifferential: 5.2 });
+  });
+
+  it('respects a locked golf event', async () => {
+    await setEventLocked(yearId, 'golf', true, headers);
+    try {
+      expect((await patchYear({ course_id: null })).status).toBe(403);
+    } finally {
+      await setEventLocked(yearId, 'golf', false, headers);
+    }
+  });
+});
+
+describe('Custom events', () => {
+  let headers: Record<string, string>;
+  let yearId: string;
+  let teamId: string;
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    const yearRes = await app.request('/api/years', { method: 'POST', headers });
+    yearId = (await yearRes.json()).id;
+    const teamRes = await app.request(`/api/years/${yearId}/teams`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Poker Team', position: 1 }),
+    });
+    teamId = (await teamRes.json()).id;
+  });
+
+  it('lists the built-in events for a year without custom ones', async () => {
+    const res = await app.request(`/api/years/${yearId}/event-definitions`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.map((e: any) => e.key)).toEqual(['fish', 'chug', 'golf']);
+    expect(body.every((e: any) => e.builtin && !e.locked)).toBe(true);
+  });
+
+  it('adds an event keyed by its name', async () => {
+    const res = await app.request(`/api/years/${yearId}/event-definitions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Poker Night', icon: '🃏', aggregation: 'best' }),
+    });
+    expect(res.status).toBe(201);
+    expect(await res.json()).toMatchObject({ key: 'poker-night', name: 'Poker Night', aggregation: 'best', locked: false });
+
+    const list = await (await app.request(`/api/years/${yearId}/event-definitions`)).json();
+    expect(list.map((e: any) => e.key)).toEqual(['fish', 'chug', 'golf', 'poker-night']);
+  });
+
+  it('rejects duplicate and reserved names', async () => {
+    for (const name of ['poker night', 'Golf', 'Standings']) {
+      const res = await app.request(`/api/years/${yearId}/event-definitions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ name }),
+      });
+      expect(res.status).toBe(409);
+    }
+  });
+
+  it('rejects an unknown aggregation', async () => {
+    const res = await app.request(`/api/years/${yearId}/event-definitions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Darts', aggregation: 'median' }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('records results and scores them in the standings', async () => {
+    for (const value of [120, '340.5']) {
+      const res = await app.request(`/api/years/${yearId}/event-definitions/poker-night/results`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ teamId, value }),
+      });
+      expect(res.status).toBe(201);
+    }
+
+    const results = await (await app.request(`/api/years/${yearId}/event-results`)).json();
+    expect(results.map((r: any) => Number(r.value))).toEqual([120, 340.5]);
+
+    const { standings } = await (await app.request(`/api/years/${yearId}/standings`)).json();
+    const standing = standings.find((s: any) => s.teamId === teamId);
+    expect(standing.events['poker-night']).toMatchObject({ score: 340.5, points: 7, rank: '1' });
+  });
+
+  it('returns 404 for results on an unknown event', async () => {
+    const res = await app.request(`/api/years/${yearId}/event-definitions/darts/results`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId, value: 1 }),
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it('deletes a single result', async () => {
+    const [first] = await (await app.request(`/api/years/${yearId}/event-results`)).json();
+    const res = await app.request(`/api/event-results/${first.id}`, { method: 'DELETE', headers });
+    expect(res.status).toBe(200);
+    const remaining = await (await app.request(`/api/years/${yearId}/event-results`)).json();
+    expect(remaining.map((r: any) => r.id)).not.toContain(first.id);
+
+    const again = await app.request(`/api/event-results/${first.id}`, { method: 'DELETE', headers });
+    expect(again.status).toBe(404);
+  });
+
+  it('locks a custom event against new results and removal', async () => {
+    const unversioned = await app.request(`/api/years/${yearId}/event-definitions/poker-night`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ locked: true }),
+    });
+    expect(unversioned.status).toBe(428);
+
+    const lockRes = await setEventLocked(yearId, 'poker-night', true, headers);
+    expect(lockRes.status).toBe(200);
+    expect((await lockRes.json()).locked).toBe(true);
+
+    const addRes = await app.request(`/api/years/${yearId}/event-definitions/poker-night/results`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId, value: 5 }),
+    });
+    expect(addRes.status).toBe(403);
+
+    const deleteRes = await app.request(`/api/years/${yearId}/event-definitions/poker-night`, { method: 'DELETE', headers });
+    expect(deleteRes.status).toBe(403);
+  });
+
+  it('answers a built-in lock change without If-Match with 428 and a stale one with 412', async () => {
+    const missing = await app.request(`/api/years/${yearId}/event-definitions/chug`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ locked: true }),
+    });
+    expect(missing.status).toBe(428);
+
+    const stale = await ifMatch(`/api/years/${yearId}`);
+    await app.request(`/api/years/${yearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) },
+      body: JSON.stringify({ name: 'Events Year Renamed' }),
+    });
+    const res = await app.request(`/api/years/${yearId}/event-definitions/chug`, {
+      method: 'PATCH',
+      headers: { ...headers, ...stale },
+      body: JSON.stringify({ locked: true }),
+    });
+    expect(res.status).toBe(412);
+    expect((await res.json()).current.name).toBe('Events Year Renamed');
+
+    const events = await (await app.request(`/api/years/${yearId}/event-definitions`)).json();
+    expect(events.find((e: any) => e.key === 'chug').locked).toBe(false);
+  });
+
+  it('locks built-in events through their own rows', async () => {
+    const before = await ifMatch(`/api/years/${yearId}`);
+    const res = await setEventLocked(yearId, 'golf', true, headers);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ key: 'golf', builtin: true, locked: true });
+    // The lock moves the year along, so a write from before it goes stale
+    expect(res.headers.get('ETag')).not.toBe(before['If-Match']);
+
+    const events = await (await app.request(`/api/years/${yearId}/event-definitions`)).json();
+    expect(events.find((e: any) => e.key === 'golf')).toMatchObject({ builtin: true, locked: true, position: 2 });
+    expect(typeof events.find((e: any) => e.key === 'golf').id).toBe('string');
+
+    const viaYear = await app.request(`/api/years/${yearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) },
+      body: JSON.stringify({ golf_locked: false }),
+    });
+    expect(viaYear.status).toBe(400);
+
+    const results = await app.request(`/api/years/${yearId}/event-definitions/golf/results`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ teamId, value: 5 }),
+    });
+    expect(results.status).toBe(404);
+
+    const rename = await app.request(`/api/years/${yearId}/event-definitions/golf`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ name: 'Mini Golf' }),
+    });
+    expect(rename.status).toBe(400);
+
+    const remove = await app.request(`/api/years/${yearId}/event-definitions/golf`, { method: 'DELETE', headers });
+    expect(remove.status).toBe(400);
+  });
+
+  it('requires custom events to be locked before completing the year', async () => {
+    await setEventLocked(yearId, 'poker-night', false, headers);
+    for (const key of ['fish', 'chug', 'golf']) await setEventLocked(yearId, key, true, headers);
+    await app.request(`/api/years/${yearId}`, { method: 'PATCH', headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) }, body: JSON.stringify({ status: 'active' }) });
+    const res = await app.request(`/api/years/${yearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) },
+      body: JSON.stringify({ status: 'completed' }),
+    });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(/lock/i);
+  });
+
+  it('removes an unlocked event with its results', async () => {
+    const res = await app.request(`/api/years/${yearId}/event-definitions/poker-night`, { method: 'DELETE', headers });
+    expect(res.status).toBe(200);
+
+    const list = await (await app.request(`/api/years/${yearId}/event-definitions`)).json();
+    expect(list.map((e: any) => e.key)).toEqual(['fish', 'chug', 'golf']);
+    const results = await (await app.request(`/api/years/${yearId}/event-results`)).json();
+    expect(results).toEqual([]);
+  });
+});
+
+describe('PATCH /api/years/:yearId — scoring rules', () => {
+  const activeYearId = '11111111-1111-1111-1111-111111111111';
+  let headers: Record<string, string>;
+  let upcomingYearId: string;
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    const res = await app.request('/api/years', { method: 'POST', headers });
+    upcomingYearId = (await res.json()).id;
+  });
+
+  it('saves scoring rules on an upcoming year', async () => {
+    const res = await app.request(`/api/years/${upcomingYearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, ...(await ifMatch(`/api/years/${upcomingYearId}`)) },
+      body: JSON.stringify({ scoring_config: { pointsTable: [10, 5, 1], golfLowerIsBetter: false } }),
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.scoring_config).toEqual({ pointsTable: [10, 5, 1], golfLowerIsBetter: false });
+  });
+
+  it('uses the saved rules when computing standings', async () => {
+    const created = [];
+    for (const [name, score] of [['Low Golf', 60], ['High Golf', 80]] as const) {
+      const teamRes = await app.request(`/api/years/${upcomingYearId}/teams`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ name, position: created.length + 1 }),
+      });
+      const team = await teamRes.json();
+      created.push(team);
+      await app.request(`/api/years/${upcomingYearId}/golf-scores`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ teamId: team.id, score }),
+      });
+    }
+
+    const res = await app.request(`/api/years/${upcomingYearId}/standings`);
+    expect(res.status).toBe(200);
+    const { standings } = await res.json();
+    const byTeam = new Map(standings.map((s: any) => [s.teamId, s]));
+    expect((byTeam.get(created[1].id) as any).golf).toMatchObject({ points: 10, rank: '1' });
+    expect((byTeam.get(created[0].id) as any).golf).toMatchObject({ points: 5, rank: '2' });
+  });
+
+  it('clears the rules back to classic with null', async () => {
+    const res = await app.request(`/api/years/${upcomingYearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, ...(await ifMatch(`/api/years/${upcomingYearId}`)) },
+      body: JSON.stringify({ scoring_config: null }),
+    });
+    expect(res.status).toBe(200);
+    expect((await res.json()).scoring_config).toBeNull();
+  });
+
+  it('rejects an invalid points table', async () => {
+    const res = await app.request(`/api/years/${upcomingYearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, ...(await ifMatch(`/api/years/${upcomingYearId}`)) },
+      body: JSON.stringify({ scoring_config: { pointsTable: [1, 5] } }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 409 once the year is active', async () => {
+    const res = await app.request(`/api/years/${activeYearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, ...(await ifMatch(`/api/years/${activeYearId}`)) },
+      body: JSON.stringify({ scoring_config: { fishCountBest: 5 } }),
+    });
+    expect(res.status).toBe(409);
+  });
+});
+
+describe('PATCH /api/years/:yearId — status', () => {
+  let headers: Record<string, string>;
+  let yearId: string;
+  let kakId: string;
+
+  const setStatus = async (status: string) =>
+    app.request(`/api/years/${yearId}`, { method: 'PATCH', headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) }, body: JSON.stringify({ status }) });
+  const champIds = async () =>
+    (await (await app.request('/api/kak-stats')).json()).champs.map((row: any) => row.kakId);
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    yearId = (await (await app.request('/api/years', { method: 'POST', headers })).json()).id;
+    kakId = (await (await app.request('/api/kaks', { method: 'POST', headers, body: JSON.stringify({ name: `Lifecycle ${Date.now()}` }) })).json()).id;
+    const team = await (await app.request(`/api/years/${yearId}/teams`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Lifers', position: 1, members: [{ kakId }] }),
+    })).json();
+    const post = (path: string, body: Record<string, unknown>) =>
+      app.request(`/api/years/${yearId}/${path}`, { method: 'POST', headers, body: JSON.stringify({ teamId: team.id, ...body }) });
+    await post('fish-weights', { weight: 5 });
+    await post('chug-times', { chug1: 4, chug2: 4, average: 4 });
+    await post('golf-scores', { score: 2 });
+  });
+
+  it('rejects skipping a step or an unknown status', async () => {
+    const skip = await setStatus('completed');
+    expect(skip.status).toBe(409);
+    expect((await skip.json()).error).toBe("Can't move a year from upcoming to completed.");
+    expect((await setStatus('archived')).status).toBe(409);
+    expect((await setStatus('deleted')).status).toBe(400);
+  });
+
+  it('walks the year through to archived and back', async () => {
+    expect((await setStatus('active')).status).toBe(200);
+    expect((await setStatus('upcoming')).status).toBe(409);
+    expect((await setStatus('archived')).status).toBe(409);
+
+    await lockAllEvents(yearId, headers);
+    const done = await app.request(`/api/years/${yearId}`, {
+      method: 'PATCH',
+      headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) },
+      body: JSON.stringify({ status: 'completed' }),
+    });
+    expect(done.status).toBe(200);
+    expect(await champIds()).toContain(kakId);
+
+    const archived = await setStatus('archived');
+    expect(archived.status).toBe(200);
+    expect((await archived.json()).status).toBe('archived');
+    expect(await champIds()).toContain(kakId);
+
+    const edit = await app.request(`/api/years/${yearId}`, { method: 'PATCH', headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) }, body: JSON.stringify({ golf_locked: false }) });
+    expect(edit.status).toBe(409);
+    expect((await setStatus('active')).status).toBe(409);
+
+    expect((await setStatus('completed')).status).toBe(200);
+  });
+
+  it('takes champs back when a completed year is reopened', async () => {
+    expect((await setStatus('active')).status).toBe(200);
+    expect(await champIds()).not.toContain(kakId);
+
+    expect((await setStatus('completed')).status).toBe(200);
+    expect(await champIds()).toContain(kakId);
+  });
+});
+
+describe('Archived years', () => {
+  let headers: Record<string, string>;
+  let yearId: string;
+  const kakIds: string[] = [];
+
+  const setYear = async (body: Record<string, unknown>) =>
+    app.request(`/api/years/${yearId}`, { method: 'PATCH', headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) }, body: JSON.stringify(body) });
+  const snapshot = async () => ({
+    profile: await (await app.request(`/api/kaks/${kakIds[0]}/profile`)).json(),
+    exported: await (await app.request(`/api/years/${yearId}/export`)).json(),
+    headToHead: await (await app.request(`/api/kaks/${kakIds[0]}/vs/${kakIds[1]}`)).json(),
+  });
+
+  beforeAll(async () => {
+    const token = await createToken({ userId: '33333333-3333-3333-3333-333333333333', username: 'admin', role: 'admin' });
+    headers = { 'Content-Type': 'application/json', Cookie: `token=${token}` };
+    yearId = (await (await app.request('/api/years', { method: 'POST', headers })).json()).id;
+    const ts = Date.now();
+    for (const name of ['Shelved A', 'Shelved B']) {
+      const kakRes = await app.request('/api/kaks', { method: 'POST', headers, body: JSON.stringify({ name: `${name} ${ts}` }) });
+      kakIds.push((await kakRes.json()).id);
+    }
+    const post = (path: string, body: unknown) =>
+      app.request(`/api/years/${yearId}/${path}`, { method: 'POST', headers, body: JSON.stringify(body) });
+    const winners = await (await post('teams', { name: 'Winners', position: 1, members: [{ kakId: kakIds[0] }] })).json();
+    const losers = await (await post('teams', { name: 'Losers', position: 2, members: [{ kakId: kakIds[1] }] })).json();
+    for (const [team, chug, score] of [[winners, 4, -4], [losers, 6, 6]] as const) {
+      await post('fish-weights', { teamId: team.id, weight: 10 - chug, kakId: team.members[0].kakId });
+      await post('chug-times', { teamId: team.id, chug1: chug, chug2: chug, average: chug });
+      await post('golf-scores', { teamId: team.id, score });
+    }
+
+    await setYear({ status: 'active' });
+    await lockAllEvents(yearId, headers);
+    const done = await setYear({ status: 'completed' });
+    expect(done.status).toBe(200);
+  });
+
+  it('keeps its finishes on profiles, exports and head-to-head once archived', async () => {
+    const before = await snapshot();
+    expect(before.profile.totals.champs).toBe(1);
+    expect(before.exported.teams[0]).toMatchObject({ name: 'Winners', isChamp: true });
+    expect(before.headToHead.opponents.seasons).toHaveLength(1);
+
+    expect((await setYear({ status: 'archived' })).status).toBe(200);
+    const after = await snapshot();
+    expect(after.profile.totals).toEqual(before.profile.totals);
+    expect(after.profile.years[0]).toEqual({ ...before.profile.years[0], status: 'archived' });
+    expect(after.exported.teams).toEqual(before.exported.teams);
+    expect(after.headToHead.opponents).toEqual(before.headToHead.opponents);
+  });
+
+  it('refuses to unlock an event while archived, through the year or the event', async () => {
+    const viaYear = await setYear({ golf_locked: false });
+    expect(viaYear.status).toBe(409);
+
+    const viaEvent = await app.request(`/api/years/${yearId}/event-definitions/golf`, {
+      method: 'PATCH',
+      headers: { ...headers, ...(await ifMatch(`/api/years/${yearId}`)) },
+      body: JSON.stringify({ locked: false }),
+    });
+    expect(viaEvent.status).toBe(409);
+    expect((await viaEvent.json()).error).toBe("Archived years can't be edited. Unarchive it first.");
+
+    const events = await (await app.request(`/api/years/${yearId}/event-definitions`)).json();
+    expect(events.find((e: any) => e.key === 'golf').locked).toBe(true);
   });
 });
 
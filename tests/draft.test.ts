@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_KAK_RATING, SNAKE_ROUNDS, TEAM_SIZE, generateDraft, rateKak, snakeTurn, type DraftKak } from '../shared/draft';
+
+const roster: DraftKak[] = [1, 0.9, 0.8, 0.7, 0.3, 0.2, 0.1, 0].map((rating, i) => ({
+  id: `k${i + 1}`,
+  name: `KAK ${i + 1}`,
+  rating,
+}));
+
+const teamOf = (teams: ReturnType<typeof generateDraft>, id: string) =>
+  teams.findIndex((team) => team.kaks.some((k) => k.id === id));
+
+describe('rateKak', () => {
+  it('should rate first as 1 and last as 0', () => {
+    expect(rateKak([{ position: 1, teamCount: 4 }])).toBe(1);
+    expect(rateKak([{ position: 4, teamCount: 4 }])).toBe(0);
+    expect(rateKak([{ position: 1, teamCount: 5 }, { position: 3, teamCount: 5 }])).toBe(0.75);
+  });
+
+  it('should default KAKs without history to the middle', () => {
+    expect(rateKak([])).toBe(DEFAULT_KAK_RATING);
+  });
+});
+
+describe('generateDraft', () => {
+  it('should split the roster into balanced teams of four', () => {
+    const teams = generateDraft(roster, 2);
+    expect(teams.map((t) => t.kaks.length)).toEqual([TEAM_SIZE, TEAM_SIZE]);
+    expect(new Set(teams.flatMap((t) => t.kaks.map((k) => k.id))).size).toBe(roster.length);
+    expect(Math.abs(teams[0].rating - teams[1].rating)).toBeLessThanOrEqual(0.4);
+  });
+
+  it('should give the same teams for the same seed', () => {
+    expect(generateDraft(roster, 2, {}, 42)).toEqual(generateDraft(roster, 2, {}, 42));
+  });
+
+  it('should leave spare seats when the roster is short', () => {
+    const teams = generateDraft(roster.slice(0, 7), 2);
+    expect(teams.map((t) => t.kaks.length).sort()).toEqual([3, 4]);
+  });
+
+  it('should keep together groups on one team', () => {
+    const teams = generateDraft(roster, 2, { together: [['k1', 'k2'], ['k2', 'k3']] }, 7);
+    expect(teamOf(teams, 'k1')).toBe(teamOf(teams, 'k2'));
+    expect(teamOf(teams, 'k2')).toBe(teamOf(teams, 'k3'));
+  });
+
+  it('should keep apart groups on different teams', () => {
+    for (const seed of [1, 2, 3, 4, 5]) {
+      const teams = generateDraft(roster, 2, { apart: [['k1', 'k8'], ['k4', 'k5']] }, seed);
+      expect(teamOf(teams, 'k1')).not.toBe(teamOf(teams, 'k8'));
+      expect(teamOf(teams, 'k4')).not.toBe(teamOf(teams, 'k5'));
+    }
+  });
+
+  it('should reject rosters and constraints that cannot work', () => {
+    expect(() => generateDraft(roster, 1)).toThrow(/don't fit/);
+    expect(() => generateDraft(roster, 2, { together: [['k1', 'k2', 'k3', 'k4', 'k5']] })).toThrow(/together/);
+    expect(() => generateDraft(roster, 2, { together: [['k1', 'k2']], apart: [['k1', 'k2']] })).toThrow(/together and apart/);
+    expect(() => generateDraft(roster, 2, { apart: [['k1', 'k2', 'k3']] })).toThrow(/constraint/);
+  });
+});
+
+describe('snakeTurn', () => {
+  it('should run forward on odd rounds and back on even ones', () => {
+    const order = Array.from({ length: 3 * SNAKE_ROUNDS }, (_, i) => snakeTurn(i, 3));
+    expect(order.map((turn) => turn!.slot)).toEqual([1, 2, 3, 3, 2, 1, 1, 2, 3]);
+    expect(order.map((turn) => turn!.round)).toEqual([1, 1, 1, 2, 2, 2, 3, 3, 3]);
+  });
+
+  it('should be done once every seat is filled', () => {
+    expect(snakeTurn(2 * SNAKE_ROUNDS - 1, 2)).toEqual({ round: SNAKE_ROUNDS, slot: 2 });
+    expect(snakeTurn(2 * SNAKE_ROUNDS, 2)).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { publish, subscribe } from '../server/events.js';
+
+describe('year events', () => {
+  it('delivers each published type to the year\'s subscribers', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribe('year-a', listener);
+
+    publish('year-a', 'fish-weights', 'teams');
+    publish('year-b', 'golf-scores');
+
+    expect(listener.mock.calls).toEqual([
+      [{ yearId: 'year-a', type: 'fish-weights' }],
+      [{ yearId: 'year-a', type: 'teams' }],
+    ]);
+    unsubscribe();
+  });
+
+  it('stops delivering once a listener unsubscribes', () => {
+    const gone = vi.fn();
+    const staying = vi.fn();
+    const unsubscribe = subscribe('year-c', gone);
+    const unsubscribeStaying = subscribe('year-c', staying);
+
+    unsubscribe();
+    unsubscribe();
+    publish('year-c', 'draft');
+
+    expect(gone).not.toHaveBeenCalled();
+    expect(staying).toHaveBeenCalledWith({ yearId: 'year-c', type: 'draft' });
+    unsubscribeStaying();
+  });
+
+  it('takes new subscribers after the last one for a year leaves', () => {
+    const first = vi.fn();
+    subscribe('year-d', first)();
+
+    const second = vi.fn();
+    const unsubscribe = subscribe('year-d', second);
+    publish('year-d', 'year');
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it('keeps notifying the rest when one listener throws', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const unsubscribeBroken = subscribe('year-e', () => { throw new Error('boom'); });
+    const listener = vi.fn();
+    const unsubscribe = subscribe('year-e', listener);
+
+    publish('year-e', 'chug-times');
+
+    expect(listener).toHaveBeenCalledWith({ yearId: 'year-e', type: 'chug-times' });
+    expect(error).toHaveBeenCalled();
+    unsubscribeBroken();
+    unsubscribe();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_GOLF_PARS,
+  GOLF_HOLES,
+  calculateScoreDifferential,
+  calculateToPar,
+  formatToPar,
+  resolveGolfPars,
+  runningToPar,
+} from '../shared/golf';
+
+const PARS = [4, 4, 3, 5, 4, 4, 3, 5, 4, 4, 4, 3, 5, 4, 4, 3, 5, 4];
+
+describe('resolveGolfPars', () => {
+  it('should default to par 4 on every hole', () => {
+    expect(resolveGolfPars(null)).toBe(DEFAULT_GOLF_PARS);
+    expect(DEFAULT_GOLF_PARS).toHaveLength(GOLF_HOLES);
+    expect(DEFAULT_GOLF_PARS.every((par) => par === 4)).toBe(true);
+  });
+
+  it('should use stored pars when all 18 are present', () => {
+    expect(resolveGolfPars(PARS)).toBe(PARS);
+    expect(resolveGolfPars([4, 4, 3])).toBe(DEFAULT_GOLF_PARS);
+  });
+});
+
+describe('calculateToPar', () => {
+  it('should total strokes against par for the holes played', () => {
+    expect(calculateToPar(PARS, [])).toBe(0);
+    expect(calculateToPar(PARS, [{ hole: 1, strokes: 3 }, { hole: 3, strokes: 4 }])).toBe(0);
+    expect(calculateToPar(PARS, [{ hole: 4, strokes: 7 }, { hole: 2, strokes: 4 }])).toBe(2);
+  });
+
+  it('should score a full round', () => {
+    const holes = PARS.map((par, i) => ({ hole: i + 1, strokes: par - 1 }));
+    expect(calculateToPar(PARS, holes)).toBe(-18);
+  });
+});
+
+describe('runningToPar', () => {
+  it('should carry the running total through each hole played', () => {
+    const running = runningToPar(PARS, [
+      { hole: 1, strokes: 5 },
+      { hole: 2, strokes: 3 },
+      { hole: 3, strokes: 2 },
+    ]);
+    expect(running.slice(0, 4)).toEqual([1, 0, -1, null]);
+    expect(running).toHaveLength(GOLF_HOLES);
+  });
+
+  it('should skip holes not yet entered', () => {
+    const running = runningToPar(PARS, [{ hole: 1, strokes: 4 }, { hole: 3, strokes: 5 }]);
+    expect(running.slice(0, 3)).toEqual([0, null, 2]);
+  });
+});
+
+describe('formatToPar', () => {
+  it('should show even, over and under par', () => {
+    expect(formatToPar(0)).toBe('E');
+    expect(formatToPar(3)).toBe('+3');
+    expect(formatToPar(-2)).toBe('-2');
+  });
+});
+
+describe('calculateScoreDifferential', () => {
+  it('should scale strokes over the rating to average slope', () => {
+    expect(calculateScoreDifferential(3, { par: 72, rating: 70.5, slope: 125 })).toBe(4.1);
+    expect(calculateScoreDifferential(0, { par: 72, rating: 72, slope: 113 })).toBe(0);
+    expect(calculateScoreDifferential(-4, { par: 70, rating: '68.0', slope: 113 })).toBe(-2);
+  });
+
+  it('should make the same score on a harder course worth less', () => {
+    const easy = calculateScoreDifferential(5, { par: 72, rating: 70, slope: 110 })!;
+    const hard = calculateScoreDifferential(5, { par: 72, rating: 74, slope: 140 })!;
+    expect(hard).toBeLessThan(easy);
+  });
+
+  it('should return null for an unrated course', () => {
+    expect(calculateScoreDifferential(3, { par: 72, rating: null, slope: 125 })).toBeNull();
+    expect(calculateScoreDifferential(3, { par: 72, rating: 70.5, slope: null })).toBeNull();
+  });
+});
@@ -49,6 +49,17 @@ export function createTestDatabase() {
     );
   `);
 
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS "courses" (
+      "id" TEXT PRIMARY KEY,
+      "name" TEXT NOT NULL UNIQUE,
+      "par" INTEGER NOT NULL,
+      "rating" REAL,
+      "slope" INTEGER,
+      "hole_pars" TEXT
+    );
+  `);
+
   sqlite.exec(`
     CREATE TABLE IF NOT EXISTS "years" (
       "id" TEXT PRIMARY KEY,
@@ -57,7 +68,11 @@ export function createTestDatabase() {
       "status" TEXT NOT NULL DEFAULT 'upcoming',
       "fishing_locked" INTEGER NOT NULL DEFAULT 0,
       "chug_locked" INTEGER NOT NULL DEFAULT 0,
-      "golf_locked" INTEGER NOT NULL DEFAULT 0
+      "golf_locked" INTEGER NOT NULL DEFAULT 0,
+      "scoring_config" TEXT,
+      "golf_pars" TEXT,
+      "course_id" TEXT REFERENCES courses(id),
+      "version" INTEGER NOT NULL DEFAULT 1
     );
   `);
 
@@ -75,7 +90,19 @@ export function createTestDatabase() {
       "kak_2" TEXT REFERENCES kaks(id),
       "kak_3" TEXT REFERENCES kaks(id),
       "kak_4" TEXT REFERENCES kaks(id),
-      "locked" INTEGER NOT NULL DEFAULT 0
+      "locked" INTEGER NOT NULL DEFAULT 0,
+      "version" INTEGER NOT NULL DEFAULT 1
+    );
+  `);
+
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS "team_members" (
+      "id" TEXT PRIMARY KEY,
+      "team_id" TEXT NOT NULL REFERENCES teams(id),
+      "year_id" TEXT NOT NULL REFERENCES years(id),
+      "kak_id" TEXT NOT NULL REFERENCES kaks(id),
+      "slot" INTEGER NOT NULL,
+      "role" TEXT NOT NULL DEFAULT 'player'
     );
   `);
 
@@ -103,7 +130,12 @@ export function createTestDatabase() {
       "year_id" TEXT NOT NULL,
       "team_id" TEXT NOT NULL,
       "weight" REAL,
-      "notes" TEXT
+      "species" TEXT,
+      "length" REAL,
+      "kak_id" TEXT REFERENCES kaks(id),
+      "caught_at" INTEGER,
+      "notes" TEXT,
+      "deleted_at" INTEGER
     );
   `);
 
@@ -115,7 +147,18 @@ export function createTestDatabase() {
       "chug_1" REAL,
       "chug_2" REAL,
       "average" REAL,
-      "notes" TEXT
+      "notes" TEXT,
+      "deleted_at" INTEGER
+    );
+  `);
+
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS "chug_legs" (
+      "id" TEXT PRIMARY KEY,
+      "chug_time_id" TEXT NOT NULL REFERENCES chug_times(id),
+      "leg" INTEGER NOT NULL,
+      "kak_id" TEXT REFERENCES kaks(id),
+      "time" REAL NOT NULL
     );
   `);
 
@@ -125,7 +168,67 @@ export function createTestDatabase() {
       "year_id" TEXT NOT NULL,
       "team_id" TEXT NOT NULL,
       "score" INTEGER,
-      "notes" TEXT
+      "notes" TEXT,
+      "deleted_at" INTEGER
+    );
+  `);
+
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS "golf_holes" (
+      "id" TEXT PRIMARY KEY,
+      "golf_score_id" TEXT NOT NULL REFERENCES golf_scores(id),
+      "hole" INTEGER NOT NULL,
+      "strokes" INTEGER NOT NULL
+    );
+  `);
+
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS "events" (
+      "id" TEXT PRIMARY KEY,
+      "year_id" TEXT NOT NULL REFERENCES years(id),
+      "key" TEXT NOT NULL,
+      "name" TEXT NOT NULL,
+      "icon" TEXT,
+      "lower_is_better" INTEGER NOT NULL DEFAULT 0,
+      "aggregation" TEXT NOT NULL DEFAULT 'sum',
+      "locked" INTEGER NOT NULL DEFAULT 0,
+      "position" INTEGER NOT NULL DEFAULT 0
+    );
+  `);
+
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS "event_results" (
+      "id" TEXT PRIMARY KEY,
+      "event_id" TEXT NOT NULL REFERENCES events(id),
+      "year_id" TEXT NOT NULL,
+      "team_id" TEXT NOT NULL,
+      "value" REAL NOT NULL,
+      "notes" TEXT,
+      "created_at" INTEGER,
+      "deleted_at" INTEGER
+    );
+  `);
+
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS "draft_picks" (
+      "id" TEXT PRIMARY KEY,
+      "year_id" TEXT NOT NULL REFERENCES years(id),
+      "round" INTEGER NOT NULL,
+      "slot" INTEGER NOT NULL,
+      "kak_id" TEXT NOT NULL REFERENCES kaks(id),
+      "picked_at" INTEGER
+    );
+  `);
+
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS "roster_overrides" (
+      "id" TEXT PRIMARY KEY,
+      "year_id" TEXT NOT NULL REFERENCES years(id),
+      "team_id" TEXT NOT NULL REFERENCES teams(id),
+      "event" TEXT NOT NULL,
+      "out_kak_id" TEXT NOT NULL REFERENCES kaks(id),
+      "in_kak_id" TEXT NOT NULL REFERENCES kaks(id),
+      "created_at" INTEGER
     );
   `);
 
@@ -142,12 +245,57 @@ export function createTestDatabase() {
     );
   `);
 
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS "audit_events" (
+      "id" TEXT PRIMARY KEY,
+      "year_id" TEXT REFERENCES years(id),
+      "user_id" TEXT NOT NULL REFERENCES users(id),
+      "action" TEXT NOT NULL,
+      "entity" TEXT NOT NULL,
+      "entity_id" TEXT,
+      "before" TEXT,
+      "after" TEXT,
+      "created_at" INTEGER
+    );
+  `);
+
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS "idempotency_keys" (
+      "id" TEXT PRIMARY KEY,
+      "user_id" TEXT NOT NULL REFERENCES users(id),
+      "key" TEXT NOT NULL,
+      "method" TEXT NOT NULL,
+      "path" TEXT NOT NULL,
+      "request_hash" TEXT NOT NULL,
+      "status" INTEGER,
+      "body" TEXT,
+      "created_at" INTEGER,
+      "claimed_at" INTEGER NOT NULL
+    );
+  `);
+
   // Unique constraints required for ON CONFLICT DO UPDATE upsert behaviour
   sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS unique_chug_year_team ON chug_times(year_id, team_id);`);
+  sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS unique_chug_legs_time_leg ON chug_legs(chug_time_id, leg);`);
   sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS unique_golf_year_team ON golf_scores(year_id, team_id);`);
+  sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS unique_golf_holes_score_hole ON golf_holes(golf_score_id, hole);`);
+  sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS unique_events_year_key ON events(year_id, key);`);
+  sqlite.exec(`CREATE INDEX IF NOT EXISTS event_results_event_team_idx ON event_results(event_id, team_id);`);
+  sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS unique_draft_picks_year_kak ON draft_picks(year_id, kak_id);`);
+  sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS unique_draft_picks_year_round_slot ON draft_picks(year_id, round, slot);`);
+  sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS unique_team_members_team_kak ON team_members(team_id, kak_id);`);
+  sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS unique_team_members_team_slot ON team_members(team_id, slot);`);
+  sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS unique_team_members_year_kak ON team_members(year_id, kak_id);`);
+  sqlite.exec(`CREATE INDEX IF NOT EXISTS team_members_kak_id_idx ON team_members(kak_id);`);
+  sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS unique_roster_overrides_team_event_out ON roster_overrides(team_id, event, out_kak_id);`);
+  sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS unique_roster_overrides_year_event_in ON roster_overrides(year_id, event, in_kak_id);`);
+  sqlite.exec(`CREATE INDEX IF NOT EXISTS roster_overrides_in_kak_id_idx ON roster_overrides(in_kak_id);`);
   sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS unique_champs_year_kak ON champs(year_id, kak_id);`);
   sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS unique_boots_year_kak ON boots(year_id, kak_id);`);
   sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS unique_tie_break_year ON tie_break_adjustments(year_id);`);
+  sqlite.exec(`CREATE INDEX IF NOT EXISTS audit_events_year_created_idx ON audit_events(year_id, created_at);`);
+  sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS unique_idempotency_keys_user_key ON idempotency_keys(user_id, key);`);
+  sqlite.exec(`CREATE INDEX IF NOT EXISTS idempotency_keys_created_at_idx ON idempotency_keys(created_at);`);
 
   return { sqlite, db: drizzle(sqlite), dbPath };
 }
@@ -126,6 +126,9 @@ beforeAll(async () => {
   const { sqlite } = createTestDatabase();
   setDb(drizzle(sqlite, { schema }));
 
+  // Admin user referenced by the JWT below (audit events record who made each change)
+  sqlite.prepare(`INSERT INTO users (id, username, role) VALUES (?, ?, ?)`).run('admin-test-id', 'admin', 'admin');
+
   app = new Hono<AppEnv>();
   createRoutes(app);
 
@@ -142,17 +145,24 @@ beforeAll(async () => {
 });
 
 /** Helper to make admin requests */
-function adminReq(path: string, method = 'GET', body?: unknown) {
+function adminReq(path: string, method = 'GET', body?: unknown, headers: Record<string, string> = {}) {
   return app.request(path, {
     method,
     headers: {
       Cookie: adminCookie,
       ...(body ? { 'Content-Type': 'application/json' } : {}),
+      ...headers,
     },
     body: body ? JSON.stringify(body) : undefined,
   });
 }
 
+// Year writes name the version they start from, the way the client does
+async function ifMatch(path: string): Promise<{ 'If-Match': string }> {
+  const res = await app.request(path);
+  return { 'If-Match': res.headers.get('ETag')! };
+}
+
 // ── Tests ──────────────────────────────────────────────────────────
 
 // Expected standings after each competition is added (fish → chug → golf)
@@ -433,20 +443,16 @@ describe('2025 KAK Cup — Full Lifecycle', () => {
   });
 
   it('locks all events before completing', async () => {
-    const res = await adminReq(`/api/years/${yearId}`, 'PATCH', {
-      fishing_locked: true,
-      chug_locked: true,
-      golf_locked: true,
-    });
-    expect(res.status).toBe(200);
-    const year = await res.json();
-    expect(year.fishing_locked).toBe(true);
-    expect(year.chug_locked).toBe(true);
-    expect(year.golf_locked).toBe(true);
+    for (const key of ['fish', 'chug', 'golf']) {
+      const res = await adminReq(`/api/years/${yearId}/event-definitions/${key}`, 'PATCH', { locked: true }, await ifMatch(`/api/years/${yearId}`));
+      expect(res.status).toBe(200);
+    }
+    const events = await (await app.request(`/api/years/${yearId}/event-definitions`)).json();
+    expect(events.map((e: any) => [e.key, e.locked])).toEqual([['fish', true], ['chug', true], ['golf', true]]);
   });
 
   it('marks the year as completed', async () => {
-    const res = await adminReq(`/api/years/${yearId}`, 'PATCH', { status: 'completed' });
+    const res = await adminReq(`/api/years/${yearId}`, 'PATCH', { status: 'completed' }, await ifMatch(`/api/years/${yearId}`));
     expect(res.status).toBe(200);
     const year = await res.json();
     expect(year.status).toBe('completed');
@@ -469,54 +475,15 @@ describe('Incremental Standings — scores update after each competition', () =>
   const ids = new Map<string, string>();
   let yId: string;
 
-  /** Compute standings the same way StandingsTab does: fetch API data, run scoring functions */
+  /** Fetch standings the same way StandingsTab does: from the server-computed endpoint */
   async function computeStandings() {
-    const [fishRes, chugRes, golfRes] = await Promise.all([
-      app.request(`/api/years/${yId}/fish-weights`),
-      app.request(`/api/years/${yId}/chug-times`),
-      app.request(`/api/years/${yId}/golf-scores`),
-    ]);
-    const fishData = await fishRes.json();
-    const chugData = await chugRes.json();
-    const golfData = await golfRes.json();
-
-    // Fish points
-    const teamWeightsMap = new Map<string, number[]>();
-    for (const fw of fishData) {
-      const w = parseFloat(fw.weight);
-      if (w > 0) {
-        if (!teamWeightsMap.has(fw.teamId)) teamWeightsMap.set(fw.teamId, []);
-        teamWeightsMap.get(fw.teamId)!.push(w);
-      }
-    }
-    const fishTotals = new Map<string, number>();
-    teamWeightsMap.forEach((weights, teamId) => {
-      const total = calculateTop3FishTotal(weights);
-      if (total > 0) fishTotals.set(teamId, total);
-    });
-    const fishPts = new Map(rankFishTeams(fishTotals).map(p => [p.teamId, p.points]));
-
-    // Chug points
-    const chugAvgs = new Map<string, number>();
-    for (const ct of chugData) {
-      const avg = parseFloat(ct.average);
-      if (avg > 0) chugAvgs.set(ct.teamId, avg);
-    }
-    const chugPts = new Map(rankChugTeams(chugAvgs).map(p => [p.teamId, p.points]));
-
-    // Golf points
-    const golfScoresMap = new Map<string, number>();
-    for (const gs of golfData) {
-      if (gs.score !== null && gs.score !== undefined) {
-        golfScoresMap.set(gs.teamId, gs.score);
-      }
-    }
-    const golfPts = new Map(rankGolfTeams(golfScoresMap).map(p => [p.teamId, p.points]));
+    const res = await app.request(`/api/years/${yId}/standings`);
+    const { standings } = await res.json();
+    const totalsById = new Map<string, number>(standings.map((s: any) => [s.teamId, s.totalPoints]));
 
-    // Combine
     const totals: Record<string, number> = {};
     for (const [name, id] of ids) {
-      totals[name] = (fishPts.get(id) || 0) + (chugPts.get(id) || 0) + (golfPts.get(id) || 0);
+      totals[name] = totalsById.get(id) ?? 0;
     }
     return totals;
   }
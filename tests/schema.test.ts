@@ -13,6 +13,7 @@ describe('Schema Switching Logic', () => {
     expect(schema.users).toBeDefined();
     expect(schema.years).toBeDefined();
     expect(schema.teams).toBeDefined();
+    expect(schema.teamMembers).toBeDefined();
     expect(schema.fishWeights).toBeDefined();
     expect(schema.chugTimes).toBeDefined();
     expect(schema.golfScores).toBeDefined();
@@ -25,14 +26,23 @@ describe('Schema Switching Logic', () => {
     // Check that all tables are defined (sessions removed — JWT replaces session store)
     expect(schema.users).toBeDefined();
     expect(schema.years).toBeDefined();
+    expect(schema.courses).toBeDefined();
     expect(schema.teams).toBeDefined();
     expect(schema.kaks).toBeDefined();
     expect(schema.champs).toBeDefined();
     expect(schema.boots).toBeDefined();
     expect(schema.tieBreakAdjustments).toBeDefined();
+    expect(schema.auditEvents).toBeDefined();
     expect(schema.fishWeights).toBeDefined();
     expect(schema.chugTimes).toBeDefined();
+    expect(schema.chugLegs).toBeDefined();
     expect(schema.golfScores).toBeDefined();
+    expect(schema.golfHoles).toBeDefined();
+    expect(schema.events).toBeDefined();
+    expect(schema.eventResults).toBeDefined();
+    expect(schema.draftPicks).toBeDefined();
+    expect(schema.rosterOverrides).toBeDefined();
+    expect(schema.idempotencyKeys).toBeDefined();
   });
 
   it('should export all required schemas', async () => {
@@ -41,14 +51,24 @@ describe('Schema Switching Logic', () => {
     // Check insert schemas
     expect(schema.registerUserSchema).toBeDefined();
     expect(schema.insertYearSchema).toBeDefined();
+    expect(schema.insertCourseSchema).toBeDefined();
     expect(schema.insertTeamSchema).toBeDefined();
+    expect(schema.insertTeamMemberSchema).toBeDefined();
     expect(schema.insertKakSchema).toBeDefined();
     expect(schema.insertChampSchema).toBeDefined();
     expect(schema.insertBootSchema).toBeDefined();
     expect(schema.insertTieBreakAdjustmentSchema).toBeDefined();
+    expect(schema.insertAuditEventSchema).toBeDefined();
     expect(schema.insertFishWeightSchema).toBeDefined();
     expect(schema.insertChugTimeSchema).toBeDefined();
+    expect(schema.insertChugLegSchema).toBeDefined();
     expect(schema.insertGolfScoreSchema).toBeDefined();
+    expect(schema.insertGolfHoleSchema).toBeDefined();
+    expect(schema.insertEventSchema).toBeDefined();
+    expect(schema.insertEventResultSchema).toBeDefined();
+    expect(schema.insertDraftPickSchema).toBeDefined();
+    expect(schema.insertRosterOverrideSchema).toBeDefined();
+    expect(schema.insertIdempotencyKeySchema).toBeDefined();
   });
 
   it('should export all required relations', async () => {
@@ -56,13 +76,22 @@ describe('Schema Switching Logic', () => {
 
     expect(schema.kaksRelations).toBeDefined();
     expect(schema.yearsRelations).toBeDefined();
+    expect(schema.coursesRelations).toBeDefined();
     expect(schema.teamsRelations).toBeDefined();
+    expect(schema.teamMembersRelations).toBeDefined();
     expect(schema.champsRelations).toBeDefined();
     expect(schema.bootsRelations).toBeDefined();
     expect(schema.tieBreakAdjustmentsRelations).toBeDefined();
     expect(schema.fishWeightsRelations).toBeDefined();
     expect(schema.chugTimesRelations).toBeDefined();
+    expect(schema.chugLegsRelations).toBeDefined();
     expect(schema.golfScoresRelations).toBeDefined();
+    expect(schema.golfHolesRelations).toBeDefined();
+    expect(schema.eventsRelations).toBeDefined();
+    expect(schema.eventResultsRelations).toBeDefined();
+    expect(schema.draftPicksRelations).toBeDefined();
+    expect(schema.rosterOverridesRelations).toBeDefined();
+    expect(schema.idempotencyKeysRelations).toBeDefined();
   });
 });
 
@@ -127,3 +156,27 @@ describe('Schema Compatibility', () => {
     expect(typeof schema.insertTeamSchema).toBe('object');
   });
 });
+
+describe('insertFishWeightSchema metadata', () => {
+  it('accepts known species and coerces the catch time', async () => {
+    const { insertFishWeightSchema } = await import('../shared/schema-sqlite.js');
+    const parsed = insertFishWeightSchema.parse({
+      yearId: 'year',
+      teamId: 'team',
+      weight: 4.2,
+      species: 'walleye',
+      length: 21.5,
+      caughtAt: '2025-08-02T14:30:00.000Z',
+    });
+
+    expect(parsed.species).toBe('walleye');
+    expect(parsed.caughtAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects species outside FISH_SPECIES', async () => {
+    const { insertFishWeightSchema } = await import('../shared/schema-sqlite.js');
+    const result = insertFishWeightSchema.safeParse({ yearId: 'year', teamId: 'team', species: 'shark' });
+
+    expect(result.success).toBe(false);
+  });
+});
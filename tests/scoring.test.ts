@@ -6,6 +6,13 @@ import {
   rankFishTeams,
   rankChugTeams,
   rankGolfTeams,
+  rankLabels,
+  computeStandings,
+  resolveScoringConfig,
+  describePointsTable,
+  DEFAULT_SCORING_CONFIG,
+  rankTeams,
+  aggregateEventResults,
   type TeamScore,
 } from '../shared/scoring';
 
@@ -44,6 +51,18 @@ describe('Scoring Utilities', () => {
       expect(calculateChugAverage(100, 200)).toBe(150);
       expect(calculateChugAverage(999.99, 1000.01)).toBe(1000);
     });
+
+    it('should average any number of relay legs', () => {
+      expect(calculateChugAverage(4.2)).toBe(4.2);
+      expect(calculateChugAverage(4, 5, 6)).toBe(5);
+      expect(calculateChugAverage(3.1, 4.2, 5.3, 6.4)).toBe(4.75);
+      expect(calculateChugAverage(1, 1, 2)).toBe(1.333);
+    });
+
+    it('should throw error when no legs are given', () => {
+      expect(() => calculateChugAverage()).toThrow("Chug times must be positive numbers");
+      expect(() => calculateChugAverage(4, 5, 0, 6)).toThrow("Chug times must be positive numbers");
+    });
   });
 
   describe('calculateTop3FishTotal', () => {
@@ -413,4 +432,221 @@ describe('Scoring Utilities', () => {
       expect(totalPoints).toBe(22);
     });
   });
+
+  describe('rankLabels', () => {
+    it('should number distinct values sequentially', () => {
+      expect(rankLabels([7, 6, 5])).toEqual(['1', '2', '3']);
+    });
+
+    it('should share the first tied position with a T- prefix', () => {
+      expect(rankLabels([7, 5.5, 5.5, 4])).toEqual(['1', 'T-2', 'T-2', '4']);
+      expect(rankLabels([6, 6, 6])).toEqual(['T-1', 'T-1', 'T-1']);
+    });
+
+    it('should return an empty array for no values', () => {
+      expect(rankLabels([])).toEqual([]);
+    });
+  });
+
+  describe('computeStandings', () => {
+    const teams = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+
+    it('should rank each event among teams with a result', () => {
+      const standings = computeStandings({
+        teams,
+        fishWeights: [
+          { teamId: 'a', weight: '2.5' },
+          { teamId: 'a', weight: '1.0' },
+          { teamId: 'b', weight: 4 },
+        ],
+        chugTimes: [],
+        golfScores: [],
+      });
+      const byTeam = new Map(standings.map((s) => [s.teamId, s]));
+
+      expect(byTeam.get('b')!.fish).toMatchObject({ score: 4, points: 7, rank: '1', isBest: true });
+      expect(byTeam.get('a')!.fish).toMatchObject({ score: 3.5, points: 6, rank: '2', isWorst: true });
+      expect(byTeam.get('c')!.fish).toMatchObject({ score: null, points: 0, rank: '-' });
+      expect(standings.map((s) => s.teamId)).toEqual(['b', 'a', 'c']);
+      expect(standings[2].rank).toBe('-');
+    });
+
+    it('should only award champ and boot among complete teams', () => {
+      const standings = computeStandings({
+        teams,
+        fishWeights: [{ teamId: 'c', weight: 9 }],
+        chugTimes: [
+          { teamId: 'a', average: '5.000' },
+          { teamId: 'b', average: '6.000' },
+        ],
+        golfScores: [
+          { teamId: 'a', score: -4 },
+          { teamId: 'b', score: -2 },
+        ],
+      });
+      const byTeam = new Map(standings.map((s) => [s.teamId, s]));
+
+      expect(byTeam.get('a')!.isChamp).toBe(true);
+      expect(byTeam.get('b')!.isBoot).toBe(true);
+      expect(byTeam.get('c')!.complete).toBe(false);
+      expect(byTeam.get('c')!.isChamp).toBe(false);
+      expect(byTeam.get('c')!.isBoot).toBe(false);
+    });
+
+    it('should not crown a champ when tied, until a tie-break is applied', () => {
+      const input = {
+        teams: teams.slice(0, 2),
+        fishWeights: [],
+        chugTimes: [
+          { teamId: 'a', average: 5 },
+          { teamId: 'b', average: 5 },
+        ],
+        golfScores: [
+          { teamId: 'a', score: 70 },
+          { teamId: 'b', score: 70 },
+        ],
+      };
+
+      const tied = computeStandings(input);
+      expect(tied.map((s) => s.rank)).toEqual(['T-1', 'T-1']);
+      expect(tied.some((s) => s.isChamp)).toBe(false);
+
+      const broken = computeStandings({
+        ...input,
+        tieBreaks: [{ teamId: 'b', event: 'golf', deltaPoints: '0.5' }],
+      });
+      expect(broken[0]).toMatchObject({ teamId: 'b', basePoints: 13, adjustment: 0.5, totalPoints: 13.5, rank: '1', isChamp: true });
+      expect(broken[0].golf.adjustment).toBe(0.5);
+      expect(broken[1]).toMatchObject({ teamId: 'a', totalPoints: 13, rank: '2', isBoot: true });
+    });
+
+    it('should ignore rows for unknown teams', () => {
+      const standings = computeStandings({
+        teams: [{ id: 'a' }],
+        fishWeights: [{ teamId: 'x', weight: 5 }],
+        chugTimes: [{ teamId: 'x', average: 5 }],
+        golfScores: [{ teamId: 'x', score: 70 }],
+        tieBreaks: [{ teamId: 'x', event: 'golf', deltaPoints: 0.5 }],
+      });
+      expect(standings).toHaveLength(1);
+      expect(standings[0].totalPoints).toBe(0);
+    });
+  });
+
+  describe('scoring config', () => {
+    const teams = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+
+    it('should fill missing fields with the classic rules', () => {
+      expect(resolveScoringConfig(null)).toEqual(DEFAULT_SCORING_CONFIG);
+      const config = resolveScoringConfig({ fishCountBest: 5, eventWeights: { golf: 2 } as any });
+      expect(config.fishCountBest).toBe(5);
+      expect(config.eventWeights).toEqual({ fish: 1, chug: 1, golf: 2 });
+      expect(config.pointsTable).toEqual([7, 6, 5, 4, 3, 2, 1]);
+    });
+
+    it('should award points from a custom table, repeating the last entry', () => {
+      const ranked: TeamScore[] = [
+        { teamId: 'a', score: 1 },
+        { teamId: 'b', score: 2 },
+        { teamId: 'c', score: 2 },
+        { teamId: 'd', score: 3 },
+      ];
+      expect(calculatePointsWithTiebreaking(ranked, [10, 5])).toEqual([
+        { teamId: 'a', points: 10 },
+        { teamId: 'b', points: 5 },
+        { teamId: 'c', points: 5 },
+        { teamId: 'd', points: 5 },
+      ]);
+    });
+
+    it('should apply fish count, golf direction and event weights', () => {
+      const standings = computeStandings({
+        teams,
+        fishWeights: [
+          { teamId: 'a', weight: 5 },
+          { teamId: 'b', weight: 3 },
+          { teamId: 'b', weight: 3 },
+        ],
+        chugTimes: [],
+        golfScores: [
+          { teamId: 'a', score: 60 },
+          { teamId: 'b', score: 80 },
+        ],
+        config: {
+          pointsTable: [3, 2, 1],
+          fishCountBest: 1,
+          golfLowerIsBetter: false,
+          eventWeights: { fish: 2, chug: 1, golf: 1 },
+        },
+      });
+      const byTeam = new Map(standings.map((s) => [s.teamId, s]));
+
+      expect(byTeam.get('a')!.fish).toMatchObject({ score: 5, points: 6, rank: '1' });
+      expect(byTeam.get('b')!.fish).toMatchObject({ score: 3, points: 4, rank: '2' });
+      expect(byTeam.get('b')!.golf).toMatchObject({ score: 80, points: 3, rank: '1' });
+      expect(byTeam.get('a')!.golf).toMatchObject({ score: 60, points: 2, rank: '2' });
+    });
+
+    it('should describe a points table', () => {
+      expect(describePointsTable([7, 6, 5, 4, 3, 2, 1])).toBe('7 points for 1st place down to 1 point for 7th place.');
+      expect(describePointsTable([10, 5])).toBe('10 points for 1st place down to 5 points for 2nd place.');
+      expect(describePointsTable([1])).toBe('1 point per placing.');
+    });
+  });
+
+  describe('custom events', () => {
+    it('should rank teams in either direction', () => {
+      const scores = new Map([['a', 3], ['b', 5]]);
+      expect(rankTeams(scores, false)).toEqual([
+        { teamId: 'b', points: 7 },
+        { teamId: 'a', points: 6 },
+      ]);
+      expect(rankTeams(scores, true)).toEqual([
+        { teamId: 'a', points: 7 },
+        { teamId: 'b', points: 6 },
+      ]);
+    });
+
+    it('should aggregate results by sum, best or average', () => {
+      expect(aggregateEventResults([], 'sum', false)).toBeNull();
+      expect(aggregateEventResults([2, 3, 4], 'sum', false)).toBe(9);
+      expect(aggregateEventResults([2, 3, 4], 'best', false)).toBe(4);
+      expect(aggregateEventResults([2, 3, 4], 'best', true)).toBe(2);
+      expect(aggregateEventResults([1, 2], 'average', true)).toBe(1.5);
+    });
+
+    it('should add custom event points and require them for completeness', () => {
+      const standings = computeStandings({
+        teams: [{ id: 'a' }, { id: 'b' }],
+        fishWeights: [],
+        chugTimes: [
+          { teamId: 'a', average: 5 },
+          { teamId: 'b', average: 6 },
+        ],
+        golfScores: [
+          { teamId: 'a', score: 72 },
+          { teamId: 'b', score: 70 },
+        ],
+        customEvents: [
+          {
+            key: 'cornhole',
+            lowerIsBetter: false,
+            aggregation: 'sum',
+            results: [
+              { teamId: 'b', value: '4' },
+              { teamId: 'b', value: 5 },
+              { teamId: 'x', value: 99 },
+            ],
+          },
+        ],
+      });
+      const byTeam = new Map(standings.map((s) => [s.teamId, s]));
+
+      expect(byTeam.get('b')!.events.cornhole).toMatchObject({ score: 9, points: 7, rank: '1' });
+      expect(byTeam.get('a')!.events.cornhole).toMatchObject({ score: null, points: 0, rank: '-' });
+      expect(byTeam.get('b')!.totalPoints).toBe(6 + 7 + 7);
+      expect(byTeam.get('b')!.complete).toBe(true);
+      expect(byTeam.get('a')!.complete).toBe(false);
+    });
+  });
 });
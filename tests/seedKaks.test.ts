@@ -3,13 +3,14 @@ import { drizzle } from 'drizzle-orm/better-sqlite3';
 import Database from 'better-sqlite3';
 import { eq, and } from 'drizzle-orm';
 import { createTestDatabase } from './helpers.js';
-import { kaks, teams, years } from '../shared/schema-sqlite.js';
+import { kaks, teams, teamMembers, years } from '../shared/schema-sqlite.js';
 import {
   KAK_2025_NAMES,
   TEAM_2025_MEMBERS,
   HISTORICAL_KAKS,
   insertKaks,
   backfill2025Teams,
+  backfillTeamMembers,
 } from '../server/seedKaks.js';
 
 // ---------------------------------------------------------------------------
@@ -46,7 +47,7 @@ function seed2025(sqlite: Database.Database) {
 
 function setup() {
   const { sqlite } = createTestDatabase();
-  const db = drizzle(sqlite, { schema: { kaks, teams, years } });
+  const db = drizzle(sqlite, { schema: { kaks, teams, teamMembers, years } });
   return { sqlite, db };
 }
 
@@ -367,3 +368,71 @@ describe('backfill2025Teams', () => {
     expect(team2026.kak2Id).toBeNull();
   });
 });
+
+// ---------------------------------------------------------------------------
+// backfillTeamMembers
+// ---------------------------------------------------------------------------
+
+describe('backfillTeamMembers', () => {
+  let sqlite: Database.Database;
+  let db: ReturnType<typeof drizzle>;
+
+  beforeEach(() => {
+    ({ sqlite, db } = setup());
+    seed2025(sqlite);
+  });
+
+  afterEach(() => { sqlite.close(); });
+
+  const rosterOf = async (teamName: string) => {
+    const [team] = await db.select().from(teams).where(eq(teams.name, teamName));
+    const rows = await db
+      .select({ name: kaks.name, slot: teamMembers.slot, role: teamMembers.role })
+      .from(teamMembers)
+      .innerJoin(kaks, eq(kaks.id, teamMembers.kakId))
+      .where(eq(teamMembers.teamId, team.id));
+    return rows.sort((a, b) => a.slot - b.slot);
+  };
+
+  it('resolves legacy names into one player per slot for all 7 teams', async () => {
+    await insertKaks(db as any);
+    expect(await backfillTeamMembers(db as any)).toBe(7);
+
+    expect(await rosterOf('Champs')).toEqual([
+      { name: 'Pope', slot: 1, role: 'player' },
+      { name: 'Dump Bear', slot: 2, role: 'player' },
+      { name: 'Dyer', slot: 3, role: 'player' },
+      { name: 'Bopper', slot: 4, role: 'player' },
+    ]);
+    expect(await db.select().from(teamMembers)).toHaveLength(28);
+  });
+
+  it('prefers the FK column over the legacy name', async () => {
+    await insertKaks(db as any);
+    const [draper] = await db.select().from(kaks).where(eq(kaks.name, 'Draper'));
+    await db.update(teams).set({ kak1Id: draper.id }).where(eq(teams.name, 'Champs'));
+
+    await backfillTeamMembers(db as any);
+    expect((await rosterOf('Champs'))[0]).toEqual({ name: 'Draper', slot: 1, role: 'player' });
+  });
+
+  it('skips names that match no KAK and keeps the rest in order', async () => {
+    await insertKaks(db as any);
+    await db.update(teams).set({ kak2: 'Nobody' }).where(eq(teams.name, 'Champs'));
+
+    await backfillTeamMembers(db as any);
+    expect((await rosterOf('Champs')).map((m) => [m.name, m.slot])).toEqual([['Pope', 1], ['Dyer', 2], ['Bopper', 3]]);
+  });
+
+  it('is idempotent — teams that already have members are left alone', async () => {
+    await insertKaks(db as any);
+    await backfillTeamMembers(db as any);
+    expect(await backfillTeamMembers(db as any)).toBe(0);
+    expect(await db.select().from(teamMembers)).toHaveLength(28);
+  });
+
+  it('returns 0 when no names resolve', async () => {
+    expect(await backfillTeamMembers(db as any)).toBe(0);
+    expect(await db.select().from(teamMembers)).toHaveLength(0);
+  });
+});
@@ -1,12 +1,12 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { createTestDatabase, seedTestDatabase } from './helpers.js';
 import { drizzle } from 'drizzle-orm/better-sqlite3';
-import { users, years, teams, fishWeights, chugTimes, golfScores, kaks, champs, boots } from '../shared/schema-sqlite.js';
+import { users, years, teams, teamMembers, fishWeights, chugTimes, golfScores, kaks, champs, boots, events, idempotencyKeys } from '../shared/schema-sqlite.js';
 import { eq } from 'drizzle-orm';
 import Database from 'better-sqlite3';
 import { existsSync, unlinkSync } from 'fs';
 import { performance } from 'node:perf_hooks';
-import { DatabaseStorage } from '../server/storage.js';
+import { DatabaseStorage, KakConflictError, StaleVersionError } from '../server/storage.js';
 import { setDb } from '../server/db.js';
 
 describe('Storage Layer - User Operations', () => {
@@ -372,6 +372,41 @@ describe('Storage Layer - Delete All Scores By Year', () => {
     expect(await store.getFishWeightsByYear(yearId)).toHaveLength(0);
     expect(await store.getFishWeightsByYear(yearId2)).toHaveLength(1);
   });
+
+  it('restores rows tombstoned with the same deletedAt', async () => {
+    const { yearId, teamId } = seedTestDatabase(sqlite);
+    await store.createFishWeight({ id: crypto.randomUUID(), yearId, teamId, weight: 10.0 });
+    await store.createGolfScore({ id: crypto.randomUUID(), yearId, teamId, score: 72 });
+
+    const deletedAt = new Date();
+    await store.deleteAllFishWeightsByYear(yearId, deletedAt);
+    await store.deleteAllGolfScoresByYear(yearId, deletedAt);
+
+    expect(await store.restoreFishWeights(yearId, new Date(deletedAt.getTime() + 1))).toBe(0);
+    expect(await store.restoreFishWeights(yearId, deletedAt)).toBe(1);
+    expect(await store.restoreGolfScores(yearId, deletedAt, teamId)).toBe(1);
+    expect(await store.getFishWeightsByYear(yearId)).toHaveLength(1);
+    expect(await store.getGolfScoresByYear(yearId)).toEqual([{ id: expect.any(String), teamId, score: 72, holes: [] }]);
+  });
+
+  it('leaves tombstoned rows alone when their team was removed before the restore', async () => {
+    const { yearId, teamId } = seedTestDatabase(sqlite);
+    const removedTeamId = crypto.randomUUID();
+    sqlite.prepare(`INSERT INTO teams (id, year_id, name, position, locked) VALUES (?, ?, ?, ?, ?)`).run(removedTeamId, yearId, 'Removed Team', 2, 0);
+    await store.createFishWeight({ id: crypto.randomUUID(), yearId, teamId, weight: 10.0 });
+    await store.createFishWeight({ id: crypto.randomUUID(), yearId, teamId: removedTeamId, weight: 12.0 });
+    await store.createChugTime({ id: crypto.randomUUID(), yearId, teamId: removedTeamId, chug1: 8.0, chug2: 8.0, average: 8.0 });
+
+    const deletedAt = new Date();
+    await store.deleteAllFishWeightsByYear(yearId, deletedAt);
+    await store.deleteChugTime(yearId, removedTeamId, deletedAt);
+    sqlite.prepare(`DELETE FROM teams WHERE id = ?`).run(removedTeamId);
+
+    expect(await store.restoreFishWeights(yearId, deletedAt)).toBe(1);
+    expect(await store.restoreChugTimes(yearId, deletedAt, removedTeamId)).toBe(0);
+    expect(await store.getFishWeightsByYear(yearId)).toEqual([expect.objectContaining({ teamId })]);
+    expect(await store.getChugTimesByYear(yearId)).toHaveLength(0);
+  });
 });
 
 describe('Storage Layer - Upsert Behaviour', () => {
@@ -439,6 +474,241 @@ describe('Storage Layer - Upsert Behaviour', () => {
   });
 });
 
+describe('Storage Layer - Team Membership', () => {
+  let sqlite: Database.Database;
+  let store: DatabaseStorage;
+
+  beforeEach(() => {
+    const testDb = createTestDatabase();
+    sqlite = testDb.sqlite;
+    setDb(drizzle(sqlite, { schema: { users, years, teams, teamMembers, kaks } }));
+    store = new DatabaseStorage();
+  });
+
+  afterEach(() => {
+    sqlite.close();
+  });
+
+  it('rejects a KAK already on another team in the same year', async () => {
+    const { yearId, teamId, kakId1, kakId2 } = seedTestDatabase(sqlite);
+    await store.updateTeam(teamId, { members: [{ kakId: kakId1 }] });
+
+    const error = await store.createTeam({ yearId, name: 'Rivals', position: 2, members: [{ kakId: kakId1 }] }).catch((e) => e);
+    expect(error).toBeInstanceOf(KakConflictError);
+    expect(error.message).toBe('Seed KAK 1 is already on Test Team');
+    expect(error.team.id).toBe(teamId);
+
+    const rivals = await store.createTeam({ yearId, name: 'Rivals', position: 2, members: [{ kakId: kakId2 }] });
+    await expect(store.updateTeam(rivals.id, { members: [{ kakId: kakId2 }, { kakId: kakId1, role: 'sub' }] })).rejects.toThrow(KakConflictError);
+    await expect(store.createTeams([
+      { yearId, name: 'A', position: 3, members: [] },
+      { yearId, name: 'B', position: 4, members: [{ kakId: kakId2 }] },
+    ])).rejects.toThrow(/already on Rivals/);
+  });
+
+  it('names the team that won when two writes race for the same KAK', async () => {
+    const { yearId, teamId, kakId1 } = seedTestDatabase(sqlite);
+    await store.updateTeam(teamId, { members: [{ kakId: kakId1 }] });
+    // The second write read the year before the first committed, so its check passed
+    const check = vi.spyOn(store as any, 'assertKaksAvailable').mockResolvedValueOnce(undefined);
+
+    const error = await store.createTeam({ yearId, name: 'Rivals', position: 2, members: [{ kakId: kakId1 }] }).catch((e) => e);
+    expect(error).toBeInstanceOf(KakConflictError);
+    expect(error.message).toBe('Seed KAK 1 is already on Test Team');
+    expect(check).toHaveBeenCalledTimes(2);
+    expect((await store.getTeamsByYear(yearId)).map((t) => t.name)).toEqual(['Test Team']);
+  });
+
+  it('lets two teams swap KAKs in one write', async () => {
+    const { yearId, teamId, kakId1, kakId2 } = seedTestDatabase(sqlite);
+    await store.updateTeam(teamId, { members: [{ kakId: kakId1 }] });
+    const rivals = await store.createTeam({ yearId, name: 'Rivals', position: 2, members: [{ kakId: kakId2 }] });
+
+    await store.replaceTeams(yearId, {
+      create: [],
+      update: [{ id: teamId, members: [{ kakId: kakId2 }] }, { id: rivals.id, members: [{ kakId: kakId1 }] }],
+      remove: [],
+    });
+    expect((await store.getTeamsByKak(kakId1)).map((t) => t.id)).toEqual([rivals.id]);
+    expect((await store.getTeamsByKak(kakId2)).map((t) => t.id)).toEqual([teamId]);
+  });
+
+  it('lets a team keep its own members and other years reuse them', async () => {
+    const { teamId, kakId1 } = seedTestDatabase(sqlite);
+    await store.updateTeam(teamId, { members: [{ kakId: kakId1 }] });
+    await store.updateTeam(teamId, { name: 'Renamed', members: [{ kakId: kakId1 }] });
+
+    const otherYearId = crypto.randomUUID();
+    sqlite.prepare(`INSERT INTO years (id, year, name) VALUES (?, ?, ?)`).run(otherYearId, 2099, 'Later');
+    const team = await store.createTeam({ yearId: otherYearId, name: 'Later Team', position: 1, members: [{ kakId: kakId1 }] });
+    expect(team.members).toEqual([{ kakId: kakId1, name: 'Seed KAK 1', slot: 1, role: 'player' }]);
+    expect((await store.getTeamById(teamId))?.name).toBe('Renamed');
+  });
+
+  it('replaces a roster whole and drops it with its team', async () => {
+    const { yearId, teamId, kakId1, kakId2 } = seedTestDatabase(sqlite);
+    await store.updateTeam(teamId, { members: [{ kakId: kakId1 }, { kakId: kakId2, role: 'sub' }] });
+    expect((await store.getTeamsByKak(kakId2)).map((t) => t.id)).toEqual([teamId]);
+
+    await store.updateTeam(teamId, { members: [{ kakId: kakId2 }] });
+    expect((await store.getTeamById(teamId))?.members.map((m) => [m.kakId, m.slot, m.role])).toEqual([[kakId2, 1, 'player']]);
+    expect(await store.getTeamsByKak(kakId1)).toEqual([]);
+
+    await store.replaceTeams(yearId, { create: [], update: [], remove: [{ id: teamId }] });
+    expect(await store.getTeamsByYear(yearId)).toEqual([]);
+    expect(sqlite.prepare('SELECT COUNT(*) AS n FROM team_members').get()).toEqual({ n: 0 });
+  });
+
+  it('lets only the first of two writes from the same version land, roster and all', async () => {
+    const { yearId, teamId, kakId1, kakId2 } = seedTestDatabase(sqlite);
+    await store.updateTeam(teamId, { name: 'First', members: [{ kakId: kakId1 }] }, 1);
+
+    const stale = await store.updateTeam(teamId, { name: 'Second', members: [{ kakId: kakId2 }] }, 1).catch((e) => e);
+    expect(stale).toBeInstanceOf(StaleVersionError);
+    expect(stale.current).toMatchObject({ name: 'First', version: 2 });
+    expect((await store.getTeamById(teamId))?.members.map((m) => m.kakId)).toEqual([kakId1]);
+
+    await expect(store.replaceTeams(yearId, { create: [], update: [], remove: [{ id: teamId, version: 1 }] })).rejects.toThrow(StaleVersionError);
+    expect((await store.getTeamById(teamId))?.members.map((m) => m.kakId)).toEqual([kakId1]);
+
+    await expect(store.updateYear(yearId, { name: 'Stale' }, 7)).rejects.toThrow(StaleVersionError);
+    expect((await store.updateYear(yearId, { name: 'Fresh' }, 1)).version).toBe(2);
+  });
+
+  it('credits a golf round to the fill-in who played it', async () => {
+    const { yearId, teamId, kakId1, kakId2 } = seedTestDatabase(sqlite);
+    await store.updateTeam(teamId, { members: [{ kakId: kakId1 }] });
+    const courseId = crypto.randomUUID();
+    sqlite.prepare(`INSERT INTO courses (id, name, par, rating, slope) VALUES (?, ?, ?, ?, ?)`).run(courseId, 'Fill Links', 72, 72, 113);
+    sqlite.prepare(`UPDATE years SET course_id = ? WHERE id = ?`).run(courseId, yearId);
+    sqlite.prepare(`INSERT INTO golf_scores (id, year_id, team_id, score) VALUES (?, ?, ?, ?)`).run(crypto.randomUUID(), yearId, teamId, 4);
+
+    expect((await store.getGolfStats()).map((row) => row.kakId)).toEqual([kakId1]);
+    await store.createRosterOverride({ yearId, teamId, event: 'golf', outKakId: kakId1, inKakId: kakId2 });
+    expect((await store.getGolfStats()).map((row) => row.kakId)).toEqual([kakId2]);
+  });
+
+  it('drops fill-ins the roster no longer supports, and with their team', async () => {
+    const { yearId, teamId, kakId1, kakId2 } = seedTestDatabase(sqlite);
+    const kakId3 = crypto.randomUUID();
+    sqlite.prepare(`INSERT INTO kaks (id, name, status) VALUES (?, ?, ?)`).run(kakId3, 'Seed KAK 3', 'active');
+    await store.updateTeam(teamId, { members: [{ kakId: kakId1 }, { kakId: kakId2 }] });
+    await store.createRosterOverride({ yearId, teamId, event: 'fish', outKakId: kakId1, inKakId: kakId3 });
+    await store.createRosterOverride({ yearId, teamId, event: 'chug', outKakId: kakId2, inKakId: kakId3 });
+
+    // kakId1 left the roster, so their fill-in has nothing to swap
+    await store.updateTeam(teamId, { members: [{ kakId: kakId2 }] });
+    expect((await store.getRosterOverridesByYear(yearId)).map((o) => [o.event, o.outName, o.inName])).toEqual([
+      ['chug', 'Seed KAK 2', 'Seed KAK 3'],
+    ]);
+
+    await store.replaceTeams(yearId, { create: [], update: [], remove: [{ id: teamId }] });
+    expect(await store.getRosterOverridesByYear(yearId)).toEqual([]);
+  });
+});
+
+describe('Storage Layer - Events', () => {
+  let sqlite: Database.Database;
+  let store: DatabaseStorage;
+
+  beforeEach(() => {
+    const testDb = createTestDatabase();
+    sqlite = testDb.sqlite;
+    setDb(drizzle(sqlite, { schema: { years, events } }));
+    store = new DatabaseStorage();
+  });
+
+  afterEach(() => {
+    sqlite.close();
+  });
+
+  it('gives a year rows for its built-in events, carrying over the locks kept on the year', async () => {
+    const { yearId } = seedTestDatabase(sqlite);
+    sqlite.prepare(`UPDATE years SET chug_locked = 1 WHERE id = ?`).run(yearId);
+
+    const rows = await store.getEventsByYear(yearId);
+    expect(rows.map((e) => [e.key, e.locked, e.position])).toEqual([['fish', false, 0], ['chug', true, 1], ['golf', false, 2]]);
+    // Read again, the rows are already there
+    expect((await store.getEventsByYear(yearId)).map((e) => e.id)).toEqual(rows.map((e) => e.id));
+  });
+
+  it('bumps the year version with a lock, and refuses one from a stale version', async () => {
+    const { yearId } = seedTestDatabase(sqlite);
+    const golf = (await store.getEventByKey(yearId, 'golf'))!;
+    const { version } = (await store.getYearById(yearId))!;
+
+    expect((await store.updateEvent(golf.id, { locked: true }, version)).locked).toBe(true);
+    expect((await store.getYearById(yearId))!.version).toBe(version + 1);
+
+    const error = await store.updateEvent(golf.id, { locked: false }, version).catch((e) => e);
+    expect(error).toBeInstanceOf(StaleVersionError);
+    expect((await store.getEventByKey(yearId, 'golf'))!.locked).toBe(true);
+  });
+});
+
+describe('Storage Layer - Idempotency Keys', () => {
+  let sqlite: Database.Database;
+  let store: DatabaseStorage;
+  const userId = '33333333-3333-3333-3333-333333333333';
+  const entry = { userId, key: 'k-1', method: 'POST', path: '/api/years/y/fish-weights', requestHash: 'abc' };
+
+  beforeEach(() => {
+    const testDb = createTestDatabase();
+    sqlite = testDb.sqlite;
+    setDb(drizzle(sqlite, { schema: { users, idempotencyKeys } }));
+    store = new DatabaseStorage();
+    seedTestDatabase(sqlite);
+  });
+
+  afterEach(() => {
+    sqlite.close();
+  });
+
+  it('hands a key to the first send and shows later sends its row', async () => {
+    const first = await store.claimIdempotencyKey(entry);
+    expect(first.claimed).toBe(true);
+
+    const inFlight = await store.claimIdempotencyKey(entry);
+    expect(inFlight).toMatchObject({ claimed: false, row: { id: first.row.id, status: null } });
+
+    await store.completeIdempotencyKey(first.row.id, 201, '{"id":"fish"}');
+    const replay = await store.claimIdempotencyKey(entry);
+    expect(replay).toMatchObject({ claimed: false, row: { status: 201, body: '{"id":"fish"}' } });
+  });
+
+  it('frees released and expired keys for the next send', async () => {
+    const first = await store.claimIdempotencyKey(entry);
+    await store.releaseIdempotencyKey(first.row.id);
+    expect((await store.claimIdempotencyKey(entry)).claimed).toBe(true);
+
+    await store.deleteIdempotencyKeysBefore(new Date(Date.now() + 1000));
+    expect((await store.claimIdempotencyKey(entry)).claimed).toBe(true);
+  });
+
+  it('expires one key without touching the others', async () => {
+    const other = { ...entry, key: 'k-2' };
+    await store.claimIdempotencyKey(entry);
+    await store.claimIdempotencyKey(other);
+
+    await store.deleteIdempotencyKeyBefore(userId, entry.key, new Date(Date.now() + 1000));
+    expect((await store.claimIdempotencyKey(entry)).claimed).toBe(true);
+    expect((await store.claimIdempotencyKey(other)).claimed).toBe(false);
+  });
+
+  it('lets a retry take over a claim left pending past its lease', async () => {
+    const leaseCutoff = () => new Date(Date.now() - 60_000);
+    const first = await store.claimIdempotencyKey(entry, leaseCutoff());
+    expect((await store.claimIdempotencyKey(entry, leaseCutoff())).claimed).toBe(false);
+
+    // The request holding it crashed two minutes ago
+    sqlite.prepare('UPDATE idempotency_keys SET claimed_at = ? WHERE id = ?').run(Math.floor(Date.now() / 1000) - 120, first.row.id);
+    expect(await store.claimIdempotencyKey({ ...entry, requestHash: 'other' }, leaseCutoff())).toMatchObject({ claimed: false });
+    const retry = await store.claimIdempotencyKey(entry, leaseCutoff());
+    expect(retry).toMatchObject({ claimed: true, row: { id: first.row.id } });
+    expect((await store.claimIdempotencyKey(entry, leaseCutoff())).claimed).toBe(false);
+  });
+});
+
 describe('Storage Layer - getKakStats Benchmark', () => {
   let sqlite: Database.Database;
   let store: DatabaseStorage;